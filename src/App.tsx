@@ -1,15 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from './lib/supabase';
 import { databaseService } from './services/database';
+import { analysisJobService } from './services/analysisJobs';
+import { calculateAveragePerformance } from './services/performanceStats';
+import { teamService } from './services/teams';
+import { ruleService, resolvePlayerRules, getPlayerRuleContext } from './services/performanceRules';
+import { organizationService, getWorkspaceRole, canAnalyze, canManageWorkspace } from './services/organizations';
+import { goalService } from './services/goals';
+import { addAppearanceSample, captureAppearanceSample } from './services/appearanceSignature';
+import { AppView, navigate, parseRoute, getRouteView, usePathname } from './services/router';
 import Auth from './components/Auth';
 import Header from './components/Header';
 import Hero from './components/Hero';
 import VideoUpload from './components/VideoUpload';
 import PlayerSelection from './components/PlayerSelection';
+import PitchCalibration from './components/PitchCalibration';
 import Dashboard from './components/Dashboard';
 import Features from './components/Features';
 import PlayerDatabase from './components/PlayerDatabase';
+import TeamPage from './components/TeamPage';
+import WorkspaceMembers from './components/WorkspaceMembers';
+import PerformanceRules from './components/PerformanceRules';
+import ShareReportDialog from './components/ShareReportDialog';
+import SharedReportPage from './components/SharedReportPage';
+import PlayerReport from './components/PlayerReport';
+import PlayerComparison from './components/PlayerComparison';
 import DemoModal from './components/DemoModal';
+import { SampledFrame, MovementTrack, PlayerDetection } from './services/analysisProvider';
+import { PitchCalibration as PitchCalibrationResult } from './services/pitchCalibration';
 
 export interface PlayerRecord {
   id?: string;
@@ -22,8 +40,35 @@ export interface PlayerRecord {
   averagePerformance: PerformanceData;
   improvements: string[];
   weaknesses: string[];
+  goals?: PlayerGoal[];
+  // Used to find the player again in a new video
+  appearance?: AppearanceSignature;
 }
 
+// What the player looked like in one analysed video
+export interface AppearanceSample {
+  // Small crop of the player's box
+  crop: string;
+  // Colour histogram of the shirt area, see services/appearanceSignature
+  histogram: number[];
+  jersey?: string;
+  teamColor?: string;
+  capturedAt: string;
+}
+
+export interface AppearanceSignature {
+  // Most recent last
+  samples: AppearanceSample[];
+}
+
+// real: every metric came from the analysis; partial: some metrics could not be measured;
+// failed: nothing usable. Records saved before this was tracked have no status.
+export type AnalysisResultStatus = 'real' | 'partial' | 'failed';
+
+export type PerformanceMetric =
+  | 'overall' | 'speed' | 'passing' | 'positioning' | 'touches'
+  | 'distance' | 'topSpeed' | 'passAccuracy' | 'dominantFoot';
+
 export interface PerformanceData {
   matchId: string;
   date: string;
@@ -40,20 +85,264 @@ export interface PerformanceData {
     right: number;
     left: number;
   };
+  analysisStatus?: AnalysisResultStatus;
+  // Values of these metrics are placeholders and must not be shown or averaged
+  missingMetrics?: PerformanceMetric[];
+  // Id of the match this performance belongs to; older records only have the free-text matchId
+  matchRef?: string;
+  // Everything the selected player did, as returned by the analysis
+  events?: MatchEvent[];
+  // Metrics counted from the events or measured on the calibrated pitch instead of estimated by the model
+  derivedMetrics?: PerformanceMetric[];
+  // Running while the player was tracked, only known when the pitch was calibrated
+  trackedMovement?: TrackedMovement;
+  // Where the player spent the tracked part of the clip, only known when the pitch was calibrated
+  positionMap?: PositionMap;
+}
+
+// Measured on the calibrated pitch over the tracked window around the selected frame, not the whole match
+export interface TrackedMovement {
+  // Kilometres covered in the window
+  distance: number;
+  // km/h, fastest segment between two tracked positions
+  topSpeed: number;
+  // Runs above sprint speed
+  sprints: number;
+  trackedSeconds: number;
+  // Typical seconds between tracked positions; faster bursts in between are not seen
+  sampleSeconds: number;
+}
+
+// Pitch coordinates are percent like MatchEvent: x from own goal to the opponent's, y from the left touchline
+export interface PositionMap {
+  columns: number;
+  rows: number;
+  // Share of tracked positions per cell in percent, row by row from the left touchline
+  grid: number[];
+  averagePosition: { x: number; y: number };
+  // Shares in percent
+  thirds: { defensive: number; middle: number; attacking: number };
+  channels: { left: number; centre: number; right: number };
+  // Number of tracked positions the map is built from
+  samples: number;
+  // Length of the tracked window the positions cover; the map does not describe the rest of the match
+  trackedSeconds: number;
+}
+
+// touch covers ball contacts that are not one of the other types (control, clearance, ...)
+export type MatchEventType = 'pass' | 'shot' | 'dribble' | 'tackle' | 'sprint' | 'touch';
+export type MatchEventOutcome = 'successful' | 'unsuccessful';
+
+export interface MatchEvent {
+  type: MatchEventType;
+  // Seconds from the start of the uploaded clip
+  timestamp: number;
+  outcome?: MatchEventOutcome;
+  // Pitch location in percent: x from own goal to the opponent's, y from the left touchline
+  x?: number;
+  y?: number;
+  // Receiver of a pass, opponent of a tackle, ...; usually a jersey number
+  relatedPlayer?: string;
+  description?: string;
+}
+
+export interface MatchInfo {
+  id?: string;
+  date: string;
+  competition?: string;
+  homeTeam?: string;
+  awayTeam?: string;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  venue?: string;
+  videoName?: string;
+  videoSize?: number;
+}
+
+export interface SquadMember {
+  id: string;
+  teamId: string;
+  playerId: string;
+  playerName: string;
+  avatar?: string;
+  season: string;
+  jerseyNumber?: number;
+  position?: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  // Kit colour as the detector reports it (e.g. "Blue"), used to match detections to the squad
+  kitColor?: string;
+  // Picks the age group's analysis rules for the squad, e.g. "U12"
+  ageGroup?: string;
+  squad: SquadMember[];
+}
+
+// weakness: the latest value is compared with the threshold; improvement: the change since the previous analysis is
+export type PerformanceRuleKind = 'weakness' | 'improvement';
+export type RuleComparator = '<' | '<=' | '>' | '>=';
+export type RulePriority = 'High' | 'Medium' | 'Low';
+
+export interface PerformanceRule {
+  id: string;
+  // Built-in rules apply to workspaces that have not set up their own
+  isDefault: boolean;
+  // Missing for the workspace-wide rule set
+  ageGroup?: string;
+  kind: PerformanceRuleKind;
+  metric: PerformanceMetric;
+  comparator: RuleComparator;
+  threshold: number;
+  // Missing means every position
+  positions?: string[];
+  // {value} in the texts is replaced with the measured value
+  message: string;
+  drill?: string;
+  drillDescription?: string;
+  drillDuration?: string;
+  priority: RulePriority;
+  sortOrder: number;
+}
+
+export interface Drill {
+  id: string;
+  // Built-in drills are shared by every workspace
+  isDefault: boolean;
+  name: string;
+  // The metric the drill works on
+  metric: PerformanceMetric;
+  description?: string;
+  durationMinutes: number;
+}
+
+// One drill scheduled for a player on a day
+export interface TrainingSession {
+  id: string;
+  playerId: string;
+  drillId?: string;
+  drillName: string;
+  metric: PerformanceMetric;
+  // YYYY-MM-DD
+  scheduledDate: string;
+  durationMinutes: number;
+  priority: RulePriority;
+  completedAt?: string;
+}
+
+export type GoalStatus = 'active' | 'achieved' | 'missed';
+
+// A target a coach sets for a player, e.g. pass accuracy >= 88 by a deadline
+export interface PlayerGoal {
+  id: string;
+  playerId: string;
+  metric: PerformanceMetric;
+  target: number;
+  // YYYY-MM-DD
+  deadline: string;
+  // Latest measured value when the goal was set; progress is counted from here
+  baseline?: number;
+  currentValue?: number;
+  // 0-100
+  progress: number;
+  status: GoalStatus;
+  achievedAt?: string;
+}
+
+// viewer is the read-only role for parents and players
+export type OrganizationRole = 'owner' | 'coach' | 'analyst' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  id: string;
+  userId: string;
+  email?: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationInvite {
+  id: string;
+  organizationId: string;
+  organizationName?: string;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+  expiresAt: string;
+}
+
+// Read-only link to a player's report; without matchId it covers the whole player record
+export interface SharedReportLink {
+  id: string;
+  token: string;
+  playerId: string;
+  matchId?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+// What a share link resolves to for a visitor without an account
+export interface SharedReport {
+  // For a single shared analysis only that analysis is included, without the player's averages,
+  // improvements or weaknesses
+  player: PlayerRecord;
+  // Set when a single analysis was shared; the report is rendered from it
+  performance: PerformanceData | null;
+  match: MatchInfo | null;
+  // The analysis rules that apply to the player, for the training recommendations
+  rules: PerformanceRule[];
+}
+
+// A detection picked for analysis in PlayerSelection
+export interface SelectedPlayerEntry {
+  detectionId: number;
+  name: string;
+  // Set when the detection was linked to a known player, so same-named players stay apart
+  playerRecordId?: string;
+  avatar?: string;
+  team?: 'home' | 'away';
+}
+
+// Progress of one player in a multi-player match session
+export interface MatchPlayerEntry extends SelectedPlayerEntry {
+  status: 'queued' | 'analyzing' | 'done' | 'failed';
+  performance?: PerformanceData;
+  error?: string;
 }
 
 function App() {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
-  const [activeView, setActiveView] = useState<'home' | 'upload' | 'player-selection' | 'dashboard' | 'database'>('home');
+  const pathname = usePathname();
+  // Id of the upload in memory; its routes are only valid while the video file is still loaded
+  const [uploadSessionId, setUploadSessionId] = useState<string | null>(null);
   const [uploadedVideo, setUploadedVideo] = useState<File | null>(null);
   const [selectedPlayer, setSelectedPlayer] = useState<{id: number, name: string} | null>(null);
   const [playerDatabase, setPlayerDatabase] = useState<PlayerRecord[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeOrganizationId, setActiveOrganizationId] = useState<string | null>(null);
+  const [pendingInvites, setPendingInvites] = useState<OrganizationInvite[]>([]);
+  const [showWorkspaceMembers, setShowWorkspaceMembers] = useState(false);
+  const [showPerformanceRules, setShowPerformanceRules] = useState(false);
+  // Workspace analysis rules and the built-in defaults
+  const [performanceRules, setPerformanceRules] = useState<PerformanceRule[]>([]);
+  const [shareTarget, setShareTarget] = useState<{ player: PlayerRecord; performance: PerformanceData | null } | null>(null);
   const [existingPlayer, setExistingPlayer] = useState<PlayerRecord | null>(null);
   const [detectedPlayers, setDetectedPlayers] = useState<any[]>([]);
+  const [detectionFrames, setDetectionFrames] = useState<SampledFrame[]>([]);
+  // undefined until the user calibrates or skips calibration for the uploaded video
+  const [pitchCalibration, setPitchCalibration] = useState<PitchCalibrationResult | null | undefined>(undefined);
   const [uploadingForPlayer, setUploadingForPlayer] = useState<PlayerRecord | null>(null);
   const [dbError, setDbError] = useState<string>('');
-  const [viewingPlayerHistory, setViewingPlayerHistory] = useState<boolean>(false);
+  const [resumeJobId, setResumeJobId] = useState<string | null>(null);
+  const [activeMatch, setActiveMatch] = useState<MatchInfo | null>(null);
+  const [matchPlayers, setMatchPlayers] = useState<MatchPlayerEntry[]>([]);
   const [showDemoModal, setShowDemoModal] = useState(false);
   const [demoVideoUrl, setDemoVideoUrl] = useState('https://www.youtube.com/watch?v=dQw4w9WgXcQ'); // Default demo URL
 
@@ -79,9 +368,31 @@ function App() {
           
           if (session?.user) {
             console.log('✅ User logged in:', session.user.email);
-            loadUserPlayers(session.user.id).catch(err => {
-              console.error('❌ Async player data loading failed:', err);
-            });
+            restoreWorkspace(session.user)
+              .then(organizationId => Promise.all([
+                loadUserPlayers(session.user.id, organizationId),
+                loadUserTeams(session.user.id, organizationId),
+                loadPerformanceRules(session.user.id, organizationId)
+              ]))
+              .catch(err => {
+                console.error('❌ Async player data loading failed:', err);
+              });
+
+            // Pick up an analysis job that was still running when the page was closed
+            const pendingJob = analysisJobService.getPendingJob(session.user.id);
+            if (pendingJob) {
+              console.log('⏳ Resuming pending analysis job:', pendingJob.jobId);
+              setSelectedPlayer({ id: pendingJob.playerId, name: pendingJob.playerName });
+              // Save the result to the same player and match as before the reload
+              if (pendingJob.existingPlayerId) {
+                databaseService.getPlayer(pendingJob.existingPlayerId).then(setExistingPlayer);
+              }
+              setActiveMatch(pendingJob.match ?? null);
+              setMatchPlayers(pendingJob.matchEntry ? [{ ...pendingJob.matchEntry, status: 'analyzing' }] : []);
+              setResumeJobId(pendingJob.jobId);
+              setUploadSessionId(pendingJob.jobId);
+              navigate({ name: 'upload-analysis', sessionId: pendingJob.jobId }, { replace: true });
+            }
           } else {
             console.log('ℹ️ User not logged in');
           }
@@ -104,18 +415,71 @@ function App() {
       setUser(session?.user || null);
       
       if (session?.user) {
-        loadUserPlayers(session.user.id).catch(err => {
-          console.error('❌ Failed to load player data on auth state change:', err);
-        });
+        restoreWorkspace(session.user)
+          .then(organizationId => Promise.all([
+            loadUserPlayers(session.user.id, organizationId),
+            loadUserTeams(session.user.id, organizationId),
+            loadPerformanceRules(session.user.id, organizationId)
+          ]))
+          .catch(err => {
+            console.error('❌ Failed to load player data on auth state change:', err);
+          });
       } else {
         setPlayerDatabase([]);
+        setTeams([]);
+        setPerformanceRules([]);
+        setOrganizations([]);
+        setPendingInvites([]);
+        setActiveOrganizationId(null);
       }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const loadUserPlayers = async (userId: string) => {
+  // An upload session's routes need its video in memory, which a reload or a stale link does not have
+  useEffect(() => {
+    if (loading) return;
+    const route = parseRoute(pathname);
+    if ((route.name === 'upload-select' || route.name === 'upload-calibrate' || route.name === 'upload-analysis') && route.sessionId !== uploadSessionId) {
+      navigate({ name: 'upload' }, { replace: true });
+    }
+  }, [loading, pathname, uploadSessionId]);
+
+  // Loads the user's organisations and invites, accepts an invite link and returns the workspace to open
+  const restoreWorkspace = async (sessionUser: { id: string; email?: string }) => {
+    let organizationId = organizationService.getActiveWorkspace(sessionUser.id);
+
+    // Read and clear the token before awaiting, so a second auth callback does not accept it again
+    const inviteToken = new URLSearchParams(window.location.search).get('invite');
+    if (inviteToken) {
+      window.history.replaceState(null, '', window.location.pathname);
+      try {
+        organizationId = await organizationService.acceptInvite(inviteToken);
+      } catch (error) {
+        console.error('❌ Failed to accept invite:', error);
+        setDbError(`Failed to accept invite: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const [userOrganizations, invites] = await Promise.all([
+      organizationService.getUserOrganizations(sessionUser.id),
+      sessionUser.email ? organizationService.getPendingInvites(sessionUser.email) : Promise.resolve([])
+    ]);
+
+    // Fall back to the personal workspace after leaving or being removed from an organisation
+    if (organizationId && !userOrganizations.some(org => org.id === organizationId)) {
+      organizationId = null;
+    }
+
+    setOrganizations(userOrganizations);
+    setPendingInvites(invites);
+    setActiveOrganizationId(organizationId);
+    organizationService.saveActiveWorkspace(sessionUser.id, organizationId);
+    return organizationId;
+  };
+
+  const loadUserPlayers = async (userId: string, organizationId: string | null) => {
     try {
       console.log('📊 Loading user player data...');
       setDbError('');
@@ -124,7 +488,7 @@ function App() {
         setTimeout(() => reject(new Error('Player data loading timeout')), 15000);
       });
 
-      const loadPromise = databaseService.getUserPlayers(userId);
+      const loadPromise = databaseService.getUserPlayers(userId, organizationId);
       
       const players = await Promise.race([loadPromise, timeoutPromise]);
       
@@ -137,6 +501,97 @@ function App() {
     }
   };
 
+  const loadUserTeams = async (userId: string, organizationId: string | null) => {
+    const userTeams = await teamService.getUserTeams(userId, organizationId);
+    console.log('✅ Successfully loaded teams:', userTeams.length, 'teams');
+    setTeams(userTeams);
+  };
+
+  const loadPerformanceRules = async (userId: string, organizationId: string | null) => {
+    const rules = await ruleService.getRules(userId, organizationId);
+    console.log('✅ Successfully loaded analysis rules:', rules.length, 'rules');
+    setPerformanceRules(rules);
+  };
+
+  // Players are identified by their record id; a name only counts when it is unambiguous
+  const findPlayerRecord = (name: string, recordId?: string) => {
+    if (recordId) {
+      return playerDatabase.find(p => p.id === recordId);
+    }
+    const sameName = playerDatabase.filter(p => p.name.toLowerCase() === name.toLowerCase());
+    return sameName.length === 1 ? sameName[0] : undefined;
+  };
+
+  const handleShareReport = (performance: PerformanceData | null) => {
+    if (!selectedPlayer) return;
+
+    const player = findPlayerRecord(selectedPlayer.name, existingPlayer?.id);
+    const isSaved = player?.id && (!performance || player.performanceHistory.some(p => p.matchId === performance.matchId));
+    if (!player || !isSaved) {
+      setDbError('This analysis has not been saved yet, please try sharing again in a moment');
+      return;
+    }
+
+    setShareTarget({ player, performance });
+  };
+
+  const handleWorkspaceChange = (organizationId: string | null) => {
+    if (!user) return;
+
+    console.log('🔀 Switching workspace:', organizationId || 'personal');
+    organizationService.saveActiveWorkspace(user.id, organizationId);
+    setActiveOrganizationId(organizationId);
+    setSelectedPlayer(null);
+    setUploadedVideo(null);
+    setExistingPlayer(null);
+    setDetectedPlayers([]);
+    setDetectionFrames([]);
+    setUploadingForPlayer(null);
+    setActiveMatch(null);
+    setMatchPlayers([]);
+    setShowWorkspaceMembers(false);
+    setShowPerformanceRules(false);
+    navigate({ name: 'players' });
+
+    loadUserPlayers(user.id, organizationId);
+    loadUserTeams(user.id, organizationId);
+    loadPerformanceRules(user.id, organizationId);
+  };
+
+  const handleCreateOrganization = async (name: string) => {
+    if (!user) return;
+
+    try {
+      const organizationId = await organizationService.createOrganization(name);
+      setOrganizations(await organizationService.getUserOrganizations(user.id));
+      handleWorkspaceChange(organizationId);
+    } catch (error) {
+      console.error('❌ Failed to create organisation:', error);
+      setDbError(`Failed to create organisation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleAcceptInvite = async (invite: OrganizationInvite) => {
+    if (!user) return;
+
+    try {
+      const organizationId = await organizationService.acceptInvite(invite.token);
+      setOrganizations(await organizationService.getUserOrganizations(user.id));
+      setPendingInvites(prev => prev.filter(p => p.id !== invite.id));
+      handleWorkspaceChange(organizationId);
+    } catch (error) {
+      console.error('❌ Failed to accept invite:', error);
+      setDbError(`Failed to accept invite: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleLeftOrganization = async () => {
+    if (!user) return;
+
+    setOrganizations(await organizationService.getUserOrganizations(user.id));
+    handleWorkspaceChange(null);
+  };
+
   const handleAuthSuccess = () => {
     console.log('✅ Authentication successful');
     setDbError('');
@@ -146,94 +601,195 @@ function App() {
     try {
       console.log('👋 User signing out...');
       await supabase.auth.signOut();
-      setActiveView('home');
+      navigate({ name: 'home' });
       setPlayerDatabase([]);
+      setTeams([]);
+      setPerformanceRules([]);
+      setOrganizations([]);
+      setPendingInvites([]);
+      setActiveOrganizationId(null);
+      setShowWorkspaceMembers(false);
+      setShowPerformanceRules(false);
       setSelectedPlayer(null);
       setUploadedVideo(null);
       setExistingPlayer(null);
       setDetectedPlayers([]);
+      setDetectionFrames([]);
       setUploadingForPlayer(null);
       setDbError('');
-      setViewingPlayerHistory(false);
+      setResumeJobId(null);
+      setActiveMatch(null);
+      setMatchPlayers([]);
     } catch (error) {
       console.error('❌ Sign out failed:', error);
     }
   };
 
   const handleVideoUpload = (file: File) => {
+    const sessionId = Date.now().toString(36);
+    setUploadSessionId(sessionId);
     setUploadedVideo(file);
-    setActiveView('player-selection');
+    setDetectedPlayers([]);
+    setDetectionFrames([]);
+    setPitchCalibration(undefined);
+    setResumeJobId(null);
+    setActiveMatch(null);
+    setMatchPlayers([]);
+    navigate({ name: 'upload-select', sessionId });
+  };
+
+  const handleJobStarted = (jobId: string) => {
+    if (!user || !selectedPlayer) return;
+
+    analysisJobService.savePendingJob({
+      jobId,
+      userId: user.id,
+      playerId: selectedPlayer.id,
+      playerName: selectedPlayer.name,
+      existingPlayerId: existingPlayer?.id,
+      match: activeMatch,
+      matchEntry: matchPlayers.find(p => p.status === 'analyzing')
+    });
   };
 
-  const handlePlayerSelection = (playerId: number, playerName: string, playerAvatar?: string, players?: any[]) => {
+  const startMatchPlayer = (entry: SelectedPlayerEntry) => {
     if (uploadingForPlayer) {
-      setSelectedPlayer({ id: playerId, name: uploadingForPlayer.name });
+      setSelectedPlayer({ id: entry.detectionId, name: uploadingForPlayer.name });
       setExistingPlayer(uploadingForPlayer);
     } else {
-      const existing = playerDatabase.find(p => 
-        p.name.toLowerCase() === playerName.toLowerCase()
-      );
-      
-      if (existing) {
-        setExistingPlayer(existing);
-      } else {
-        setExistingPlayer(null);
-      }
+      const existing = findPlayerRecord(entry.name, entry.playerRecordId);
       
-      setSelectedPlayer({ id: playerId, name: playerName });
+      setExistingPlayer(existing || null);
+      setSelectedPlayer({ id: entry.detectionId, name: entry.name });
     }
-    
+
+    setMatchPlayers(prev => prev.map(p =>
+      p.detectionId === entry.detectionId ? { ...p, status: 'analyzing' } : p
+    ));
+  };
+
+  // Marks the current player of the match session and moves on to the next queued one
+  const advanceMatchQueue = (update: Partial<MatchPlayerEntry>) => {
+    const current = matchPlayers.find(p => p.status === 'analyzing');
+    const next = matchPlayers.find(p => p.status === 'queued');
+
+    setMatchPlayers(prev => prev.map(p =>
+      p.detectionId === current?.detectionId ? { ...p, ...update } : p
+    ));
+
+    if (next) {
+      console.log('⏭️ Next player in match:', next.name);
+      startMatchPlayer(next);
+    }
+  };
+
+  const handlePlayersSelected = async (selections: SelectedPlayerEntry[], match: MatchInfo, players?: PlayerDetection[], frames?: SampledFrame[]) => {
     if (players) {
       setDetectedPlayers(players);
     }
     
-    setActiveView('dashboard');
+    if (frames) {
+      setDetectionFrames(frames);
+    }
+
+    // Players picked later from the same video join the match that is already open
+    const continuingMatch = activeMatch?.id && activeMatch.videoName === match.videoName ? activeMatch : null;
+    let savedMatch: MatchInfo = continuingMatch ? { ...match, id: continuingMatch.id } : match;
+
+    if (user) {
+      try {
+        savedMatch = continuingMatch
+          ? await databaseService.updateMatch(continuingMatch.id!, match)
+          : await databaseService.createMatch(user.id, match, activeOrganizationId);
+      } catch (error) {
+        console.error('❌ Failed to save match:', error);
+        setDbError(`Failed to save match: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    setActiveMatch(savedMatch);
+    setMatchPlayers(prev => [
+      ...(continuingMatch ? prev.filter(p => p.status === 'done' || p.status === 'failed') : []),
+      ...selections.map(entry => ({ ...entry, status: 'queued' as const }))
+    ]);
+    startMatchPlayer(selections[0]);
+    if (uploadSessionId) {
+      // The pitch is calibrated once per video; players picked later reuse it
+      navigate({ name: pitchCalibration === undefined ? 'upload-calibrate' : 'upload-analysis', sessionId: uploadSessionId });
+    }
+  };
+
+  const handleCalibrationComplete = (calibration: PitchCalibrationResult | null) => {
+    setPitchCalibration(calibration);
+    if (uploadSessionId) {
+      navigate({ name: 'upload-analysis', sessionId: uploadSessionId });
+    }
   };
 
-  const handleAnalysisComplete = async (performanceData: PerformanceData, playerName: string, playerAvatar?: string) => {
+  const handlePlayerTracked = (playerId: number, track: MovementTrack) => {
+    setDetectedPlayers(prev => prev.map(player =>
+      player.id === playerId ? { ...player, movementPattern: track } : player
+    ));
+  };
+
+  // Goal progress follows the saved history, so it is recomputed after every new analysis
+  const refreshGoalProgress = async (player: PlayerRecord | null): Promise<PlayerRecord | null> => {
+    if (!player?.goals?.length) return player;
+    const goals = await goalService.refreshGoalProgress(player.goals, player.performanceHistory);
+    return { ...player, goals };
+  };
+
+  const handleAnalysisComplete = async (analysisResult: PerformanceData, playerName: string, existingAvatar?: string) => {
     if (!user) {
       console.error('❌ User not logged in, cannot save data');
       return;
     }
 
+    // Link the performance to the match and take date and opponent from it
+    const matchEntry = matchPlayers.find(p => p.status === 'analyzing');
+    const opponent = matchEntry?.team === 'home' ? activeMatch?.awayTeam : matchEntry?.team === 'away' ? activeMatch?.homeTeam : undefined;
+    const performanceData: PerformanceData = activeMatch ? {
+      ...analysisResult,
+      matchRef: activeMatch.id,
+      date: activeMatch.date,
+      opponent: opponent || analysisResult.opponent
+    } : analysisResult;
+    const playerAvatar = matchEntry?.avatar || existingAvatar;
+    // Remember how the player looked here so the next upload can find them again
+    const analysedDetection = detectedPlayers.find(p => p.id === matchEntry?.detectionId);
+    const appearanceSample = analysedDetection ? await captureAppearanceSample(analysedDetection, detectionFrames) : null;
+
     const now = new Date().toISOString();
     
     try {
       console.log('💾 Starting to save analysis results...');
       setDbError('');
       
-      const existingIndex = playerDatabase.findIndex(p => 
-        p.name.toLowerCase() === playerName.toLowerCase()
-      );
+      const existingRecord = existingPlayer?.id ? existingPlayer : findPlayerRecord(playerName);
+      const existingIndex = existingRecord ? playerDatabase.findIndex(p => p.id === existingRecord.id) : -1;
       
       if (existingIndex >= 0) {
         console.log('🔄 Updating existing player:', playerName);
         const existing = playerDatabase[existingIndex];
-        const updatedHistory = [...existing.performanceHistory, performanceData];
-        
-        const avgPerformance = calculateAveragePerformance(updatedHistory);
-        const improvements = detectImprovements(existing.performanceHistory, performanceData);
-        const weaknesses = detectWeaknesses(performanceData);
         
+        // Averages, improvements and weaknesses are recomputed by the database once the performance is stored
         const updatedPlayer: PlayerRecord = {
           ...existing,
           totalMatches: existing.totalMatches + 1,
           lastAnalyzed: now,
           avatar: playerAvatar || existing.avatar,
-          performanceHistory: updatedHistory,
-          averagePerformance: avgPerformance,
-          improvements,
-          weaknesses
+          appearance: addAppearanceSample(existing.appearance, appearanceSample),
+          performanceHistory: [...existing.performanceHistory, performanceData]
         };
         
         Promise.all([
           databaseService.savePlayerRecord(user.id, updatedPlayer),
           databaseService.savePerformanceRecord(existing.id!, performanceData)
-        ]).then(([savedPlayer]) => {
+        ]).then(() => databaseService.getPlayer(existing.id!)).then(refreshGoalProgress).then(savedPlayer => {
           console.log('✅ Existing player update successful');
-          const newDatabase = [...playerDatabase];
-          newDatabase[existingIndex] = savedPlayer;
-          setPlayerDatabase(newDatabase);
+          if (savedPlayer) {
+            setPlayerDatabase(prev => prev.map(p => p.id === savedPlayer.id ? savedPlayer : p));
+          }
         }).catch(error => {
           console.error('❌ Failed to save existing player:', error);
           setDbError(`Failed to save data: ${error.message}`);
@@ -251,24 +807,26 @@ function App() {
           firstAnalyzed: now,
           lastAnalyzed: now,
           avatar: playerAvatar,
+          appearance: addAppearanceSample(undefined, appearanceSample),
           performanceHistory: [performanceData],
-          averagePerformance: performanceData,
+          averagePerformance: calculateAveragePerformance([performanceData]),
           improvements: [],
-          weaknesses: detectWeaknesses(performanceData)
+          weaknesses: []
         };
         
         const tempPlayer = { ...newPlayer, id: `temp_${Date.now()}` };
         setPlayerDatabase(prev => [...prev, tempPlayer]);
         
         try {
-          const savedPlayer = await databaseService.savePlayerRecord(user.id, newPlayer);
+          const savedPlayer = await databaseService.savePlayerRecord(user.id, newPlayer, activeOrganizationId);
           console.log('✅ New player created successfully, ID:', savedPlayer.id);
           
           await databaseService.savePerformanceRecord(savedPlayer.id!, performanceData);
           console.log('✅ Performance record saved successfully');
           
+          const refreshedPlayer = await refreshGoalProgress(await databaseService.getPlayer(savedPlayer.id!));
           setPlayerDatabase(prev => 
-            prev.map(p => p.id === tempPlayer.id ? savedPlayer : p)
+            prev.map(p => p.id === tempPlayer.id ? refreshedPlayer ?? savedPlayer : p)
           );
         } catch (error) {
           console.error('❌ Failed to save new player:', error);
@@ -283,12 +841,19 @@ function App() {
       console.error('❌ Failed to save player data:', error);
       setDbError(`Failed to save data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    if (matchEntry) {
+      advanceMatchQueue({ status: 'done', performance: performanceData });
+    }
+  };
+
+  const handleSkipMatchPlayer = (error: string) => {
+    advanceMatchQueue({ status: 'failed', error });
   };
 
   const handleUploadMoreVideos = (player: PlayerRecord) => {
     setUploadingForPlayer(player);
-    setViewingPlayerHistory(false);
-    setActiveView('upload');
+    navigate({ name: 'upload' });
   };
 
   const handleDeletePlayer = async (playerId: string) => {
@@ -305,7 +870,7 @@ function App() {
       }).catch(error => {
         console.error('❌ Failed to delete player:', error);
         setDbError(`Failed to delete player: ${error.message}`);
-        loadUserPlayers(user.id);
+        loadUserPlayers(user.id, activeOrganizationId);
       });
       
     } catch (error) {
@@ -315,82 +880,33 @@ function App() {
   };
 
   const handleReturnToPlayerSelection = () => {
-    setActiveView('player-selection');
+    if (uploadSessionId) {
+      navigate({ name: 'upload-select', sessionId: uploadSessionId });
+    }
     setSelectedPlayer(null);
     setExistingPlayer(null);
-    setViewingPlayerHistory(false);
   };
 
-  const handleWatchDemo = () => {
-    setShowDemoModal(true);
+  const handleViewChange = (view: AppView) => {
+    if (view === 'upload') navigate({ name: 'upload' });
+    else if (view === 'database') navigate({ name: 'players' });
+    else if (view === 'teams') navigate({ name: 'teams' });
+    else if (view === 'player-selection' && uploadSessionId) navigate({ name: 'upload-select', sessionId: uploadSessionId });
+    else if (view === 'dashboard' && uploadSessionId) navigate({ name: 'upload-analysis', sessionId: uploadSessionId });
+    else navigate({ name: 'home' });
   };
 
-  const calculateAveragePerformance = (history: PerformanceData[]): PerformanceData => {
-    const total = history.length;
-    const sums = history.reduce((acc, curr) => ({
-      overall: acc.overall + curr.overall,
-      speed: acc.speed + curr.speed,
-      passing: acc.passing + curr.passing,
-      positioning: acc.positioning + curr.positioning,
-      touches: acc.touches + curr.touches,
-      distance: acc.distance + curr.distance,
-      topSpeed: acc.topSpeed + curr.topSpeed,
-      passAccuracy: acc.passAccuracy + curr.passAccuracy,
-      dominantFoot: {
-        right: acc.dominantFoot.right + curr.dominantFoot.right,
-        left: acc.dominantFoot.left + curr.dominantFoot.left
-      }
-    }), {
-      overall: 0, speed: 0, passing: 0, positioning: 0,
-      touches: 0, distance: 0, topSpeed: 0, passAccuracy: 0,
-      dominantFoot: { right: 0, left: 0 }
-    });
-
-    return {
-      matchId: 'average',
-      date: new Date().toISOString(),
-      overall: Math.round(sums.overall / total),
-      speed: Math.round(sums.speed / total),
-      passing: Math.round(sums.passing / total),
-      positioning: Math.round(sums.positioning / total),
-      touches: Math.round(sums.touches / total),
-      distance: Math.round((sums.distance / total) * 10) / 10,
-      topSpeed: Math.round((sums.topSpeed / total) * 10) / 10,
-      passAccuracy: Math.round(sums.passAccuracy / total),
-      dominantFoot: {
-        right: Math.round(sums.dominantFoot.right / total),
-        left: Math.round(sums.dominantFoot.left / total)
-      }
-    };
+  const handleWatchDemo = () => {
+    setShowDemoModal(true);
   };
 
-  const detectImprovements = (history: PerformanceData[], latest: PerformanceData): string[] => {
-    if (history.length < 2) return [];
-    
-    const previous = history[history.length - 2];
-    const improvements: string[] = [];
-    
-    if (latest.overall > previous.overall + 2) improvements.push('Overall performance significantly improved');
-    if (latest.speed > previous.speed + 3) improvements.push('Speed showed notable progress');
-    if (latest.passing > previous.passing + 3) improvements.push('Passing technique improved');
-    if (latest.positioning > previous.positioning + 3) improvements.push('Positioning sense enhanced');
-    if (latest.passAccuracy > previous.passAccuracy + 5) improvements.push('Pass accuracy increased');
-    if (latest.topSpeed > previous.topSpeed + 1) improvements.push('Top speed breakthrough');
-    
-    return improvements;
-  };
+  const route = parseRoute(pathname);
+  const activeView = getRouteView(route);
 
-  const detectWeaknesses = (performance: PerformanceData): string[] => {
-    const weaknesses: string[] = [];
-    
-    if (performance.passing < 75) weaknesses.push('Passing accuracy needs strengthening');
-    if (performance.speed < 80) weaknesses.push('Speed training can be increased');
-    if (performance.positioning < 80) weaknesses.push('Positioning sense needs improvement');
-    if (performance.passAccuracy < 85) weaknesses.push('Pass success rate is low');
-    if (performance.dominantFoot.left < 30) weaknesses.push('Weak foot usage frequency is low');
-    
-    return weaknesses;
-  };
+  // Share links are public and render without signing in
+  if (route.name === 'share') {
+    return <SharedReportPage token={route.token} />;
+  }
 
   if (loading) {
     return (
@@ -434,13 +950,25 @@ function App() {
     return <Auth onAuthSuccess={handleAuthSuccess} />;
   }
 
+  const activeOrganization = organizations.find(org => org.id === activeOrganizationId);
+  const workspaceRole = getWorkspaceRole(organizations, activeOrganizationId);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-green-50">
       <Header 
         activeView={activeView} 
-        onViewChange={setActiveView}
+        onViewChange={handleViewChange}
         user={user}
         onSignOut={handleSignOut}
+        organizations={organizations}
+        activeOrganizationId={activeOrganizationId}
+        pendingInvites={pendingInvites}
+        readOnly={!canAnalyze(workspaceRole)}
+        onWorkspaceChange={handleWorkspaceChange}
+        onCreateOrganization={handleCreateOrganization}
+        onAcceptInvite={handleAcceptInvite}
+        onManageMembers={() => setShowWorkspaceMembers(true)}
+        onManageRules={() => setShowPerformanceRules(true)}
       />
       
       {dbError && (
@@ -473,7 +1001,7 @@ function App() {
       <main className="relative">
         {activeView === 'home' && (
           <>
-            <Hero onGetStarted={() => setActiveView('upload')} onWatchDemo={handleWatchDemo} />
+            <Hero onGetStarted={() => navigate(canAnalyze(workspaceRole) ? { name: 'upload' } : { name: 'players' })} onWatchDemo={handleWatchDemo} />
             <Features />
           </>
         )}
@@ -485,46 +1013,142 @@ function App() {
           />
         )}
         
-        {activeView === 'player-selection' && uploadedVideo && (
+        {route.name === 'upload-select' && route.sessionId === uploadSessionId && uploadedVideo && (
           <PlayerSelection 
             videoFile={uploadedVideo}
-            onPlayerSelected={handlePlayerSelection}
+            onPlayersSelected={handlePlayersSelected}
+            existingMatch={activeMatch}
             playerDatabase={playerDatabase}
+            teams={teams}
             existingDetectedPlayers={detectedPlayers}
+            existingFrames={detectionFrames}
             uploadingForPlayer={uploadingForPlayer}
+            userId={user?.id}
           />
         )}
         
-        {activeView === 'dashboard' && selectedPlayer && (uploadedVideo || viewingPlayerHistory) && (
+        {route.name === 'upload-calibrate' && route.sessionId === uploadSessionId && selectedPlayer && (
+          <PitchCalibration
+            frames={detectionFrames}
+            players={detectedPlayers}
+            playerId={selectedPlayer.id}
+            onComplete={handleCalibrationComplete}
+            onBack={handleReturnToPlayerSelection}
+          />
+        )}
+
+        {route.name === 'upload-analysis' && route.sessionId === uploadSessionId && selectedPlayer && (uploadedVideo || resumeJobId) && (
           <Dashboard 
+            key={selectedPlayer.id}
             playerName={selectedPlayer.name}
             playerId={selectedPlayer.id}
             uploadedVideo={uploadedVideo}
             existingPlayer={existingPlayer}
             onAnalysisComplete={handleAnalysisComplete}
             detectedPlayers={detectedPlayers}
-            viewingHistoryOnly={viewingPlayerHistory}
             onReturnToPlayerSelection={uploadedVideo ? handleReturnToPlayerSelection : undefined}
+            onPlayerTracked={handlePlayerTracked}
+            calibration={pitchCalibration ?? undefined}
+            resumeJobId={uploadedVideo ? null : resumeJobId}
+            onJobStarted={handleJobStarted}
+            match={activeMatch}
+            matchPlayers={matchPlayers}
+            onSkipAnalysis={matchPlayers.some(p => p.status === 'queued') ? handleSkipMatchPlayer : undefined}
+            onShare={canAnalyze(workspaceRole) ? handleShareReport : undefined}
+            rules={resolvePlayerRules(performanceRules, getPlayerRuleContext(existingPlayer?.id, teams))}
           />
         )}
         
-        {activeView === 'database' && (
+        {route.name === 'players' && (
           <PlayerDatabase 
             players={playerDatabase}
             onPlayerSelect={(player) => {
-              setExistingPlayer(player);
-              setSelectedPlayer({ id: 0, name: player.name });
-              setViewingPlayerHistory(true);
-              setUploadedVideo(null);
-              setDetectedPlayers([]);
-              setActiveView('dashboard');
+              if (player.id) {
+                navigate({ name: 'player', playerId: player.id });
+              }
+            }}
+            onUploadMoreVideos={canAnalyze(workspaceRole) ? handleUploadMoreVideos : undefined}
+            onDeletePlayer={canManageWorkspace(workspaceRole) ? handleDeletePlayer : undefined}
+            onCompare={(playerIds) => navigate({ name: 'compare', playerIds })}
+          />
+        )}
+
+        {route.name === 'compare' && (
+          <PlayerComparison
+            players={playerDatabase}
+            playerIds={route.playerIds}
+            onSelectionChange={(playerIds) => navigate({ name: 'compare', playerIds }, { replace: true })}
+            onBack={() => navigate({ name: 'players' })}
+          />
+        )}
+
+        {(route.name === 'player' || route.name === 'player-match') && (
+          <PlayerReport
+            playerId={route.playerId}
+            matchId={route.name === 'player-match' ? route.matchId : undefined}
+            onBack={() => navigate({ name: 'players' })}
+            onSelectPerformance={(performance) => navigate({ name: 'player-match', playerId: route.playerId, matchId: performance.matchId })}
+            onShare={canAnalyze(workspaceRole) ? (player, performance) => setShareTarget({ player, performance }) : undefined}
+            rules={performanceRules}
+            teams={teams}
+            training={{
+              userId: user.id,
+              organizationId: activeOrganizationId,
+              canPlan: canAnalyze(workspaceRole),
+              canManage: canManageWorkspace(workspaceRole)
+            }}
+            onGoalsChanged={() => loadUserPlayers(user.id, activeOrganizationId)}
+          />
+        )}
+
+        {activeView === 'teams' && (
+          <TeamPage
+            userId={user.id}
+            organizationId={activeOrganizationId}
+            readOnly={!canManageWorkspace(workspaceRole)}
+            teams={teams}
+            players={playerDatabase}
+            onTeamsChanged={() => {
+              loadUserTeams(user.id, activeOrganizationId);
+              loadUserPlayers(user.id, activeOrganizationId);
             }}
-            onUploadMoreVideos={handleUploadMoreVideos}
-            onDeletePlayer={handleDeletePlayer}
           />
         )}
       </main>
 
+      {showWorkspaceMembers && activeOrganization && (
+        <WorkspaceMembers
+          organization={activeOrganization}
+          userId={user.id}
+          onClose={() => setShowWorkspaceMembers(false)}
+          onLeft={handleLeftOrganization}
+        />
+      )}
+
+      {showPerformanceRules && (
+        <PerformanceRules
+          userId={user.id}
+          organizationId={activeOrganizationId}
+          rules={performanceRules}
+          readOnly={!canManageWorkspace(workspaceRole)}
+          onClose={() => setShowPerformanceRules(false)}
+          onRulesChanged={() => {
+            loadPerformanceRules(user.id, activeOrganizationId);
+            // Weaknesses and improvements are recomputed by the database with the new rules
+            loadUserPlayers(user.id, activeOrganizationId);
+          }}
+        />
+      )}
+
+      {shareTarget && (
+        <ShareReportDialog
+          player={shareTarget.player}
+          performance={shareTarget.performance}
+          userId={user.id}
+          onClose={() => setShareTarget(null)}
+        />
+      )}
+
       {/* Demo Modal */}
       <DemoModal 
         isOpen={showDemoModal}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Mail, Lock, User, Eye, EyeOff, LogIn, UserPlus, AlertCircle, CheckCircle } from 'lucide-react';
+import { Mail, Lock, User, Eye, EyeOff, LogIn, UserPlus, AlertCircle, CheckCircle, Building2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 
 interface AuthProps {
@@ -14,6 +14,8 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  // Invite links carry ?invite=<token>; the app accepts it once the user is signed in
+  const hasInvite = new URLSearchParams(window.location.search).has('invite');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,6 +51,8 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
         const { data, error } = await supabase.auth.signUp({
           email,
           password,
+          // Keep the invite token through the email confirmation redirect
+          options: hasInvite ? { emailRedirectTo: window.location.href } : undefined,
         });
 
         if (error) {
@@ -105,6 +109,15 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
           </p>
         </div>
 
+        {hasInvite && (
+          <div className="bg-blue-50 border border-blue-200 text-blue-800 rounded-lg p-4 flex items-start space-x-3">
+            <Building2 className="h-5 w-5 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">
+              You have been invited to join an organisation workspace. Sign in or register with the email address the invitation was sent to.
+            </span>
+          </div>
+        )}
+
         <div className="bg-white rounded-2xl shadow-xl p-8">
           <form className="space-y-6" onSubmit={handleSubmit}>
             <div>
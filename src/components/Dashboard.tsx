@@ -2,8 +2,25 @@ import React, { useState, useEffect } from 'react';
 import { Play, Pause, SkipBack, SkipForward, Volume2, Maximize, 
          TrendingUp, Target, Zap, Clock, Star, Trophy, ChevronRight, 
          Download, Share2, User, History, ArrowUp, ArrowDown, Minus, Camera, Loader, AlertCircle, RefreshCw, ArrowLeft } from 'lucide-react';
-import { PlayerRecord, PerformanceData } from '../App';
-import { FootballAI } from '../services/geminiAI';
+import { PlayerRecord, PerformanceData, PerformanceMetric, PerformanceRule, MatchInfo, MatchPlayerEntry } from '../App';
+import MatchView from './MatchView';
+import PerformanceTrends from './PerformanceTrends';
+import TrainingPlan from './TrainingPlan';
+import PlayerGoals from './PlayerGoals';
+import EventTimeline from './EventTimeline';
+import EventAudit from './EventAudit';
+import PitchHeatmap from './PitchHeatmap';
+import { PlayerDetection, MovementTrack, AnalysisJobUpdate, AnalysisJobStatus } from '../services/analysisProvider';
+import { analysisProvider } from '../services/analysis';
+import { analysisJobService } from '../services/analysisJobs';
+import { PlayerTracker, getTrackedBoxAt } from '../services/playerTracker';
+import { BoundingBox } from '../services/playerMatching';
+import { formatMetric, getMetricValue, isMetricAvailable, isUnverifiedPerformance, MATCH_EVENT_LABELS, METRIC_LABELS, TRACKED_WINDOW_METRICS } from '../services/performanceStats';
+import { downloadReportHtml, PlayerReportData, printReportPdf } from '../services/reportExport';
+import { formatRuleText, getTriggeredWeaknessRules } from '../services/performanceRules';
+import { TrainingAccess } from '../services/training';
+import { PitchCalibration, applyMovementStats, computeMovementStats, isMovementReliable } from '../services/pitchCalibration';
+import { buildPositionMap, mergePositionMaps } from '../services/positionMap';
 
 interface DashboardProps {
   playerName: string;
@@ -11,11 +28,48 @@ interface DashboardProps {
   uploadedVideo?: File | null;
   existingPlayer?: PlayerRecord | null;
   onAnalysisComplete: (performanceData: PerformanceData, playerName: string, playerAvatar?: string) => void;
-  detectedPlayers?: any[];
+  detectedPlayers?: PlayerDetection[];
   viewingHistoryOnly?: boolean;
   onReturnToPlayerSelection?: () => void;
+  onPlayerTracked?: (playerId: number, track: MovementTrack) => void;
+  // 球场校准结果，有则由跟踪位置计算跑动距离、冲刺次数和最高速度
+  calibration?: PitchCalibration;
+  // 页面刷新前未完成的分析任务，没有视频文件时继续跟踪
+  resumeJobId?: string | null;
+  onJobStarted?: (jobId: string) => void;
+  // 同一视频中分析多名球员时的比赛和进度
+  match?: MatchInfo | null;
+  matchPlayers?: MatchPlayerEntry[];
+  onSkipAnalysis?: (error: string) => void;
+  // 已保存的单场分析，直接展示而不重新分析（例如分享链接）
+  initialPerformance?: PerformanceData | null;
+  // 传入当前查看的单场分析，查看历史时为 null
+  onShare?: (performance: PerformanceData | null) => void;
+  // 查看历史时打开某一场分析
+  onSelectPerformance?: (performance: PerformanceData) => void;
+  // 球员适用的分析规则，训练建议由命中的待提升规则生成
+  rules?: PerformanceRule[];
+  // 查看历史时的训练计划和目标，按工作区角色决定能否安排和管理
+  training?: TrainingAccess;
+  onGoalsChanged?: () => void;
 }
 
+const JOB_STATUS_LABELS: Record<AnalysisJobStatus, string> = {
+  queued: '分析任务排队中...',
+  uploading: '正在上传视频到 Google Files API...',
+  processing: 'Google Files API 正在处理视频...',
+  analyzing: 'Google Gemini 正在深度分析球员表现...',
+  done: 'AI 分析完成！',
+  failed: '分析失败'
+};
+
+const RULE_ICONS: Partial<Record<PerformanceMetric, typeof Target>> = {
+  speed: TrendingUp,
+  topSpeed: TrendingUp,
+  distance: TrendingUp,
+  dominantFoot: Zap
+};
+
 const Dashboard: React.FC<DashboardProps> = ({ 
   playerName, 
   playerId, 
@@ -24,23 +78,46 @@ const Dashboard: React.FC<DashboardProps> = ({
   onAnalysisComplete,
   detectedPlayers = [],
   viewingHistoryOnly = false,
-  onReturnToPlayerSelection
+  onReturnToPlayerSelection,
+  onPlayerTracked,
+  calibration,
+  resumeJobId,
+  onJobStarted,
+  match,
+  matchPlayers = [],
+  onSkipAnalysis,
+  initialPerformance,
+  onShare,
+  onSelectPerformance,
+  rules = [],
+  training,
+  onGoalsChanged
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(42);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
   const [activeTab, setActiveTab] = useState<'overview' | 'detailed' | 'training' | 'progress'>('overview');
-  const [isAnalyzing, setIsAnalyzing] = useState(!viewingHistoryOnly && !!uploadedVideo);
+  const [isAnalyzing, setIsAnalyzing] = useState(!viewingHistoryOnly && (!!uploadedVideo || !!resumeJobId));
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [analysisStatus, setAnalysisStatus] = useState('正在连接 Google Gemini AI...');
   const [analysisError, setAnalysisError] = useState<string>('');
   const [currentPerformanceData, setCurrentPerformanceData] = useState<PerformanceData | null>(
-    viewingHistoryOnly && existingPlayer ? existingPlayer.averagePerformance : null
+    viewingHistoryOnly && existingPlayer ? existingPlayer.averagePerformance : initialPerformance ?? null
   );
   const [playerAnalysisReport, setPlayerAnalysisReport] = useState<string>('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [videoUrl, setVideoUrl] = useState<string>('');
   
-  const footballAI = new FootballAI();
+  // 选中球员的检测结果，作为跟踪的起点
+  const trackedPlayer = detectedPlayers.find(p => p.id === playerId);
+  const [movementTrack, setMovementTrack] = useState<MovementTrack | undefined>(trackedPlayer?.movementPattern);
+  const [trackingStatus, setTrackingStatus] = useState<'idle' | 'tracking' | 'done' | 'failed'>(
+    trackedPlayer?.movementPattern ? 'done' : 'idle'
+  );
+  const [trackingProgress, setTrackingProgress] = useState(0);
+  
   const videoRef = React.useRef<HTMLVideoElement>(null);
+  const jobIdRef = React.useRef<string | null>(null);
 
   useEffect(() => {
     // 如果有上传的视频，创建视频URL
@@ -64,6 +141,7 @@ const Dashboard: React.FC<DashboardProps> = ({
     };
 
     const handleLoadedMetadata = () => {
+      setVideoDuration(video.duration);
       console.log('Dashboard 视频元数据加载完成:', {
         duration: video.duration,
         videoWidth: video.videoWidth,
@@ -78,50 +156,82 @@ const Dashboard: React.FC<DashboardProps> = ({
       video.removeEventListener('timeupdate', updateTime);
       video.removeEventListener('loadedmetadata', handleLoadedMetadata);
     };
-  }, [videoUrl]);
+  }, [videoUrl, isAnalyzing]);
 
+  // 播放时逐帧刷新时间，让跟踪框平滑移动（timeupdate 每秒只触发几次）
   useEffect(() => {
-    // 只有在不是查看历史且有视频时才开始分析
-    if (!viewingHistoryOnly && uploadedVideo) {
+    const video = videoRef.current;
+    if (!video || !isPlaying) return;
+
+    let frameId = requestAnimationFrame(function tick() {
+      setCurrentTime(video.currentTime);
+      frameId = requestAnimationFrame(tick);
+    });
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    // 只有在不是查看历史且有视频（或待恢复的任务）时才开始分析
+    if (!viewingHistoryOnly && (uploadedVideo || resumeJobId)) {
       performAIAnalysis();
     }
-  }, [playerName, playerId, viewingHistoryOnly, uploadedVideo]);
+  }, [playerName, playerId, viewingHistoryOnly, uploadedVideo, resumeJobId]);
+
+  // 任务状态由服务端推送，进度条显示真实阶段
+  const handleJobUpdate = (update: AnalysisJobUpdate) => {
+    if (jobIdRef.current !== update.jobId) {
+      jobIdRef.current = update.jobId;
+      onJobStarted?.(update.jobId);
+    }
+
+    setAnalysisProgress(update.progress);
+    setAnalysisStatus(update.message || JOB_STATUS_LABELS[update.status]);
+  };
 
   const performAIAnalysis = async () => {
-    if (!uploadedVideo) return;
+    if (!uploadedVideo && !resumeJobId) return;
     
     try {
       setIsAnalyzing(true);
       setAnalysisProgress(0);
-      setAnalysisStatus('正在上传视频到 Google Files API...');
+      setAnalysisStatus(uploadedVideo ? '正在上传视频...' : '正在恢复未完成的分析任务...');
       setAnalysisError('');
 
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setAnalysisProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + Math.random() * 10;
-        });
-      }, 500);
+      // 球场已校准时与分析并行跟踪球员，跑动数据要等跟踪结果
+      const trackingPromise = calibration && uploadedVideo
+        ? movementTrack ? Promise.resolve(movementTrack) : trackSelectedPlayer()
+        : null;
 
-      setAnalysisStatus('Google Files API 正在深度分析球员表现...');
+      const options = { onJobUpdate: handleJobUpdate };
+      let performanceData = uploadedVideo
+        ? await analysisProvider.analyzePlayerPerformance(uploadedVideo, playerId, playerName, existingPlayer, options)
+        : await analysisProvider.resumePlayerPerformance(resumeJobId!, options);
+      analysisJobService.clearPendingJob();
 
-      // Use the actual uploaded video file
-      const performanceData = await footballAI.analyzePlayerPerformance(
-        uploadedVideo,
-        playerId,
-        playerName,
-        existingPlayer
-      );
+      if (trackingPromise && calibration) {
+        setAnalysisStatus('正在根据跟踪位置计算跑动距离和速度...');
+        const track = await trackingPromise;
+        if (track) {
+          const stats = computeMovementStats(track, calibration);
+          console.log('📏 跟踪片段跑动数据:', stats);
+          if (isMovementReliable(stats)) {
+            // 客队的进攻方向与主队相反；未识别球队时按主队处理
+            const attacksRight = trackedPlayer?.team === 'away' ? !calibration.homeAttacksRight : calibration.homeAttacksRight;
+            performanceData = {
+              ...applyMovementStats(performanceData, stats),
+              positionMap: buildPositionMap(track, calibration, attacksRight) ?? undefined
+            };
+          } else {
+            console.warn('⚠️ 跟踪片段过短或镜头移动，不保存跑动数据和位置热图');
+          }
+        }
+      }
 
       // Generate detailed player analysis report
       const report = generatePlayerAnalysisReport(performanceData, playerName, existingPlayer);
       setPlayerAnalysisReport(report);
 
-      clearInterval(progressInterval);
       setAnalysisProgress(100);
       setAnalysisStatus('AI 分析完成！');
       setCurrentPerformanceData(performanceData);
@@ -131,14 +241,64 @@ const Dashboard: React.FC<DashboardProps> = ({
         onAnalysisComplete(performanceData, playerName, existingPlayer?.avatar);
       }, 1500);
 
+      if (!trackingPromise && !movementTrack && trackingStatus !== 'tracking') {
+        trackSelectedPlayer();
+      }
+
     } catch (error) {
       console.error('AI 分析失败:', error);
+      analysisJobService.clearPendingJob();
       setAnalysisError(error instanceof Error ? error.message : 'AI 分析失败，请检查网络连接或稍后重试');
       setAnalysisStatus('分析失败');
       setIsAnalyzing(false);
     }
   };
 
+  // 在采样帧中跟踪选中的球员，得到真实的时间戳位置；失败时返回 undefined
+  const trackSelectedPlayer = async (): Promise<MovementTrack | undefined> => {
+    if (!uploadedVideo || !trackedPlayer) return undefined;
+
+    try {
+      setTrackingStatus('tracking');
+      setTrackingProgress(0);
+
+      const tracker = new PlayerTracker();
+      const track = await tracker.trackPlayer(uploadedVideo, trackedPlayer, {
+        onProgress: (completed, total) => setTrackingProgress(Math.round((completed / total) * 100))
+      });
+
+      setMovementTrack(track);
+      setTrackingStatus('done');
+      onPlayerTracked?.(playerId, track);
+      return track;
+    } catch (error) {
+      console.error('球员跟踪失败:', error);
+      setTrackingStatus('failed');
+      return undefined;
+    }
+  };
+
+  // 将视频百分比坐标换算为容器坐标（视频使用 object-cover，会被裁切）
+  const getOverlayStyle = (box: BoundingBox): React.CSSProperties | null => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || !video.clientWidth) return null;
+
+    const containerWidth = video.clientWidth;
+    const containerHeight = video.clientHeight;
+    const scale = Math.max(containerWidth / video.videoWidth, containerHeight / video.videoHeight);
+    const displayWidth = video.videoWidth * scale;
+    const displayHeight = video.videoHeight * scale;
+    const offsetX = (containerWidth - displayWidth) / 2;
+    const offsetY = (containerHeight - displayHeight) / 2;
+
+    return {
+      left: `${((offsetX + (box.x / 100) * displayWidth) / containerWidth) * 100}%`,
+      top: `${((offsetY + (box.y / 100) * displayHeight) / containerHeight) * 100}%`,
+      width: `${((box.width / 100) * displayWidth / containerWidth) * 100}%`,
+      height: `${((box.height / 100) * displayHeight / containerHeight) * 100}%`
+    };
+  };
+
   const generatePlayerAnalysisReport = (performanceData: PerformanceData, playerName: string, existingPlayer?: PlayerRecord | null): string => {
     const overallGrade = performanceData.overall >= 90 ? '优秀' : performanceData.overall >= 80 ? '良好' : performanceData.overall >= 70 ? '中等' : '待提升';
     const speedGrade = performanceData.speed >= 90 ? '出色' : performanceData.speed >= 80 ? '良好' : '一般';
@@ -153,9 +313,17 @@ const Dashboard: React.FC<DashboardProps> = ({
         : `本场表现与历史平均水平基本持平，展现了稳定的竞技状态。`;
     }
 
-    return `Google Files API 深度分析显示，${playerName} 在本场比赛中展现了${overallGrade}的整体表现，综合评分达到 ${performanceData.overall} 分。在技术层面，球员的速度表现${speedGrade}（${performanceData.speed} 分），最高时速达到 ${performanceData.topSpeed} km/h，展现出良好的爆发力。传球技术方面表现${passingGrade}，成功率为 ${performanceData.passAccuracy}%，共完成 ${performanceData.touches} 次触球。位置感评分 ${performanceData.positioning} 分，显示出不错的战术理解能力。${comparisonText}AI 建议重点加强${performanceData.dominantFoot.left < 30 ? '弱脚训练' : ''}${performanceData.passAccuracy < 85 ? '传球精度练习' : ''}，以进一步提升整体竞技水平。球员在场上跑动距离达 ${performanceData.distance} 公里，体现了良好的体能状态和比赛投入度。`;
+    const trackedMovement = performanceData.trackedMovement;
+    const movementText = trackedMovement
+      ? `在跟踪的 ${trackedMovement.trackedSeconds} 秒片段内，球员跑动 ${trackedMovement.distance} 公里，最高时速 ${trackedMovement.topSpeed} km/h（不代表整场）。`
+      : '';
+
+    return `Google Files API 深度分析显示，${playerName} 在本场比赛中展现了${overallGrade}的整体表现，综合评分达到 ${performanceData.overall} 分。在技术层面，球员的速度表现${speedGrade}（${performanceData.speed} 分）。传球技术方面表现${passingGrade}，成功率为 ${performanceData.passAccuracy}%，共完成 ${performanceData.touches} 次触球。位置感评分 ${performanceData.positioning} 分，显示出不错的战术理解能力。${comparisonText}AI 建议重点加强${performanceData.dominantFoot.left < 30 ? '弱脚训练' : ''}${performanceData.passAccuracy < 85 ? '传球精度练习' : ''}，以进一步提升整体竞技水平。${movementText}`;
   };
 
+  const showMatchView = !!match && matchPlayers.length > 0;
+  const matchPosition = matchPlayers.findIndex(p => p.detectionId === playerId) + 1;
+
   // Show loading screen while analyzing
   if (isAnalyzing) {
     return (
@@ -212,8 +380,20 @@ const Dashboard: React.FC<DashboardProps> = ({
                   </div>
                 </div>
               )}
+
+              {showMatchView && matchPosition > 0 && (
+                <p className="text-sm text-gray-600">
+                  本场第 {matchPosition}/{matchPlayers.length} 名球员
+                </p>
+              )}
             </div>
           </div>
+
+          {showMatchView && (
+            <div className="mt-8">
+              <MatchView match={match!} players={matchPlayers} currentPlayerId={playerId} compact />
+            </div>
+          )}
         </div>
       </section>
     );
@@ -250,13 +430,24 @@ const Dashboard: React.FC<DashboardProps> = ({
               </div>
               
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
-                <button
-                  onClick={performAIAnalysis}
-                  className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:shadow-lg transition-all duration-200 flex items-center justify-center"
-                >
-                  <RefreshCw className="w-5 h-5 mr-2" />
-                  重新分析
-                </button>
+                {uploadedVideo && (
+                  <button
+                    onClick={performAIAnalysis}
+                    className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:shadow-lg transition-all duration-200 flex items-center justify-center"
+                  >
+                    <RefreshCw className="w-5 h-5 mr-2" />
+                    重新分析
+                  </button>
+                )}
+                {onSkipAnalysis && (
+                  <button
+                    onClick={() => onSkipAnalysis(analysisError)}
+                    className="border-2 border-purple-300 text-purple-700 px-8 py-3 rounded-lg font-semibold hover:border-purple-500 transition-all duration-200 flex items-center justify-center"
+                  >
+                    <SkipForward className="w-5 h-5 mr-2" />
+                    跳过，分析下一名球员
+                  </button>
+                )}
                 {onReturnToPlayerSelection && (
                   <button
                     onClick={onReturnToPlayerSelection}
@@ -320,47 +511,15 @@ const Dashboard: React.FC<DashboardProps> = ({
 
   // Generate training recommendations based on AI analysis
   const generateTrainingRecommendations = (performanceData: PerformanceData) => {
-    const recommendations = [];
-    
-    if (performanceData.passing < 80) {
-      recommendations.push({
-        title: '传球精度训练',
-        description: `当前传球评分 ${performanceData.passing}，建议加强传球准确性练习`,
-        duration: '15-20分钟',
-        priority: 'High' as const,
-        icon: Target
-      });
-    }
-    
-    if (performanceData.dominantFoot.left < 30) {
-      recommendations.push({
-        title: '弱脚开发训练',
-        description: `左脚使用率仅 ${performanceData.dominantFoot.left}%，需要加强弱脚练习`,
-        duration: '10-15分钟',
-        priority: 'Medium' as const,
-        icon: Zap
-      });
-    }
-    
-    if (performanceData.speed < 85) {
-      recommendations.push({
-        title: '速度与敏捷训练',
-        description: `当前速度评分 ${performanceData.speed}，建议进行爆发力训练`,
-        duration: '20-25分钟',
-        priority: 'Medium' as const,
-        icon: TrendingUp
-      });
-    }
-    
-    if (performanceData.positioning < 85) {
-      recommendations.push({
-        title: '位置感训练',
-        description: `当前位置感评分 ${performanceData.positioning}，建议加强战术理解`,
-        duration: '15-20分钟',
-        priority: 'Medium' as const,
-        icon: Target
-      });
-    }
+    // 只有设置了训练项目的规则才生成建议
+    const recommendations = getTriggeredWeaknessRules(rules, performanceData)
+      .flatMap(({ rule, value }) => rule.drill ? [{
+        title: rule.drill,
+        description: formatRuleText(rule.drillDescription || rule.message, value),
+        duration: rule.drillDuration || '15-20分钟',
+        priority: rule.priority,
+        icon: RULE_ICONS[rule.metric] ?? Target
+      }] : []);
     
     // If no specific weaknesses, provide general recommendations
     if (recommendations.length === 0) {
@@ -379,7 +538,7 @@ const Dashboard: React.FC<DashboardProps> = ({
   // Generate strengths and weaknesses based on AI analysis
   const generateStrengthsWeaknesses = (performanceData: PerformanceData, existingPlayer?: PlayerRecord | null) => {
     const strengths = [];
-    const weaknesses = [];
+    const weaknesses: { skill: string; score: number; message: string; decline: string | null }[] = [];
     
     // Determine strengths (scores >= 80)
     if (performanceData.speed >= 80) {
@@ -414,44 +573,94 @@ const Dashboard: React.FC<DashboardProps> = ({
       });
     }
     
-    // Determine weaknesses (scores < 80)
-    if (performanceData.passing < 80) {
-      weaknesses.push({
-        skill: '传球技术',
-        score: performanceData.passing,
-        decline: existingPlayer ? `${performanceData.passing < existingPlayer.averagePerformance.passing ? '' : '+'}${(performanceData.passing - existingPlayer.averagePerformance.passing).toFixed(1)}` : null
-      });
-    }
-    
-    if (performanceData.speed < 80) {
-      weaknesses.push({
-        skill: '速度表现',
-        score: performanceData.speed,
-        decline: existingPlayer ? `${performanceData.speed < existingPlayer.averagePerformance.speed ? '' : '+'}${(performanceData.speed - existingPlayer.averagePerformance.speed).toFixed(1)}` : null
-      });
-    }
-    
-    if (performanceData.positioning < 80) {
-      weaknesses.push({
-        skill: '位置感',
-        score: performanceData.positioning,
-        decline: existingPlayer ? `${performanceData.positioning < existingPlayer.averagePerformance.positioning ? '' : '+'}${(performanceData.positioning - existingPlayer.averagePerformance.positioning).toFixed(1)}` : null
-      });
-    }
-    
-    if (performanceData.dominantFoot.left < 30) {
+    // Weaknesses follow the same rules as the training recommendations, so they respect the player's
+    // position and age group and skip metrics that were not measured
+    const weakMetrics = new Set<PerformanceMetric>();
+    getTriggeredWeaknessRules(rules, performanceData).forEach(({ rule, value }) => {
+      if (weakMetrics.has(rule.metric)) return;
+      weakMetrics.add(rule.metric);
+
+      const average = existingPlayer && isMetricAvailable(existingPlayer.averagePerformance, rule.metric)
+        ? getMetricValue(existingPlayer.averagePerformance, rule.metric)
+        : null;
+      const change = average !== null ? value - average : null;
       weaknesses.push({
-        skill: '弱脚使用',
-        score: performanceData.dominantFoot.left,
-        decline: existingPlayer ? `${performanceData.dominantFoot.left < existingPlayer.averagePerformance.dominantFoot.left ? '' : '+'}${(performanceData.dominantFoot.left - existingPlayer.averagePerformance.dominantFoot.left).toFixed(1)}%` : null
+        skill: rule.metric === 'dominantFoot' ? '左脚使用率' : METRIC_LABELS[rule.metric],
+        score: Math.round(value * 10) / 10,
+        message: formatRuleText(rule.message, value),
+        decline: change !== null ? `${change < 0 ? '' : '+'}${change.toFixed(1)}${rule.metric === 'dominantFoot' ? '%' : ''}` : null
       });
-    }
+    });
     
     return { strengths, weaknesses };
   };
 
   const trainingRecommendations = generateTrainingRecommendations(currentPerformanceData);
   const strengthsWeaknesses = generateStrengthsWeaknesses(currentPerformanceData, existingPlayer);
+  const analysisNarrative = viewingHistoryOnly
+    ? `基于 ${existingPlayer?.totalMatches || 0} 场比赛的历史数据分析，${playerName} 展现出稳定的竞技水平。平均综合评分为 ${currentPerformanceData.overall} 分，在速度、传球、位置感等各项技能上都有着均衡的发展。通过长期的数据积累，可以看出球员在技术和战术理解方面都有着持续的进步。`
+    : playerAnalysisReport || generatePlayerAnalysisReport(currentPerformanceData, playerName, existingPlayer);
+
+  // 历史趋势包含本场
+  const previousHistory = existingPlayer?.performanceHistory ?? [];
+  const trendHistory = viewingHistoryOnly
+    ? previousHistory
+    : [...previousHistory.filter(performance => performance.matchId !== currentPerformanceData.matchId), currentPerformanceData];
+
+  // 导出报告使用与页面相同的分析内容
+  const getReportData = (): PlayerReportData => {
+    return {
+      playerName,
+      avatar: existingPlayer?.avatar,
+      performance: currentPerformanceData,
+      isHistoryAverage: viewingHistoryOnly,
+      match,
+      history: trendHistory,
+      narrative: analysisNarrative,
+      strengths: strengthsWeaknesses.strengths.map(({ skill, score, improvement }) => ({ skill, score, change: improvement })),
+      weaknesses: strengthsWeaknesses.weaknesses.map(({ skill, score, decline }) => ({ skill, score, change: decline })),
+      training: trainingRecommendations.map(({ title, description, duration, priority }) => ({ title, description, duration, priority }))
+    };
+  };
+
+  const handleExportReport = (format: 'html' | 'pdf') => {
+    setShowExportMenu(false);
+    const reportData = getReportData();
+    if (format === 'html') {
+      downloadReportHtml(reportData);
+      return;
+    }
+    printReportPdf(reportData).catch(error => {
+      console.error('❌ 打印报告失败:', error);
+      downloadReportHtml(reportData);
+    });
+  };
+
+  const trackedBox = getTrackedBoxAt(movementTrack, currentTime);
+  // 普通触球太多，时间轴只显示关键事件
+  const matchEvents = (currentPerformanceData.events ?? []).filter(event => event.type !== 'touch');
+  // 播放到事件前后时在画面上提示
+  const activeEvent = matchEvents.find(event => Math.abs(currentTime - event.timestamp) < 1.5);
+  // 球场校准后测得，只覆盖跟踪到的片段
+  const trackedMovement = currentPerformanceData.trackedMovement;
+  // 查看历史时合并各场的位置分布
+  const positionHistory = viewingHistoryOnly ? existingPlayer?.performanceHistory ?? [] : [];
+  const positionMap = viewingHistoryOnly
+    ? mergePositionMaps(positionHistory.map(performance => performance.positionMap))
+    : currentPerformanceData.positionMap;
+
+  const seekTo = (time: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+  const trackedBoxStyle = trackedBox ? getOverlayStyle(trackedBox) : null;
+
+  // 未识别的指标和来源未验证的记录需要明确标出；整场跑动距离和最高速度本来就不测量，不算未识别
+  const missingMetricLabels = (currentPerformanceData.missingMetrics ?? [])
+    .filter(metric => !TRACKED_WINDOW_METRICS.includes(metric))
+    .map(metric => METRIC_LABELS[metric]);
+  const unverifiedMatches = existingPlayer?.performanceHistory.filter(isUnverifiedPerformance).length ?? 0;
 
   const getComparisonIcon = (current: number, previous?: number) => {
     if (!previous) return <Minus className="w-4 h-4 text-gray-400" />;
@@ -460,6 +669,13 @@ const Dashboard: React.FC<DashboardProps> = ({
     return <Minus className="w-4 h-4 text-gray-400" />;
   };
 
+  // 只有本次和历史平均都测得该指标时才做对比
+  const getMetricComparison = (metric: PerformanceMetric) => {
+    if (!existingPlayer || viewingHistoryOnly) return null;
+    if (!isMetricAvailable(currentPerformanceData, metric) || !isMetricAvailable(existingPlayer.averagePerformance, metric)) return null;
+    return getComparisonIcon(currentPerformanceData[metric] as number, existingPlayer.averagePerformance[metric] as number);
+  };
+
   return (
     <section className="min-h-screen py-8 bg-gradient-to-br from-slate-50 to-green-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -505,7 +721,7 @@ const Dashboard: React.FC<DashboardProps> = ({
             <p className="text-gray-600">
               {viewingHistoryOnly 
                 ? `历史平均表现 • 首次分析: ${existingPlayer ? new Date(existingPlayer.firstAnalyzed).toLocaleDateString() : ''}`
-                : `比赛对阵${currentPerformanceData.opponent} • ${new Date().toLocaleDateString()}`
+                : `比赛对阵${currentPerformanceData.opponent || '未知对手'} • ${new Date(currentPerformanceData.date).toLocaleDateString()}`
               }
             </p>
             {existingPlayer && !viewingHistoryOnly && (
@@ -527,17 +743,69 @@ const Dashboard: React.FC<DashboardProps> = ({
               </button>
             )}
             
-            <button className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors">
-              <Download className="w-4 h-4 mr-2" />
-              导出 AI 报告
-            </button>
-            <button className="flex items-center border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:border-green-500 hover:text-green-600 transition-colors">
-              <Share2 className="w-4 h-4 mr-2" />
-              分享
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                导出 AI 报告
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+                  <button
+                    onClick={() => handleExportReport('pdf')}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    打印 / 保存为 PDF
+                  </button>
+                  <button
+                    onClick={() => handleExportReport('html')}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    下载 HTML 报告
+                  </button>
+                </div>
+              )}
+            </div>
+            {onShare && (
+              <button
+                onClick={() => onShare(viewingHistoryOnly ? null : currentPerformanceData)}
+                className="flex items-center border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:border-green-500 hover:text-green-600 transition-colors"
+              >
+                <Share2 className="w-4 h-4 mr-2" />
+                分享
+              </button>
+            )}
           </div>
         </div>
 
+        {/* 数据来源提示 */}
+        {(missingMetricLabels.length > 0 || (viewingHistoryOnly && unverifiedMatches > 0)) && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-8 flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-yellow-800 space-y-1">
+              {missingMetricLabels.length > 0 && (
+                <p>
+                  {viewingHistoryOnly ? '历史记录中没有可用数据的指标' : 'AI 未能从本场视频中识别以下指标'}：{missingMetricLabels.join('、')}。这些指标不显示，也不计入平均值。
+                </p>
+              )}
+              {viewingHistoryOnly && unverifiedMatches > 0 && (
+                <p>
+                  {unverifiedMatches} 次分析的数据不完整或来源未经验证（可能来自旧版本的默认分数），请谨慎参考。
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 本场比赛 */}
+        {showMatchView && (
+          <div className="mb-8">
+            <MatchView match={match!} players={matchPlayers} currentPlayerId={playerId} />
+          </div>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Video Player */}
           <div className="lg:col-span-2">
@@ -555,11 +823,24 @@ const Dashboard: React.FC<DashboardProps> = ({
                       loop
                       onLoadedData={() => {
                         if (videoRef.current) {
-                          videoRef.current.currentTime = 10;
+                          // 从选中球员被检测到的时刻开始
+                          videoRef.current.currentTime = trackedPlayer?.timestamp ?? 0;
                         }
                       }}
                     />
                     
+                    {/* 跟踪框：按当前播放时间在跟踪点之间插值 */}
+                    {trackedBoxStyle && (
+                      <div
+                        className="absolute border-2 border-green-400 rounded pointer-events-none shadow-lg"
+                        style={trackedBoxStyle}
+                      >
+                        <div className="absolute -top-6 left-0 bg-green-500 text-white px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap">
+                          {playerName}{trackedPlayer?.jersey ? ` #${trackedPlayer.jersey}` : ''}
+                        </div>
+                      </div>
+                    )}
+                    
                     {/* AI 分析覆盖层 */}
                     <div className="absolute top-4 left-4 bg-gradient-to-r from-green-500 to-blue-500 text-white px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-2">
                       {existingPlayer?.avatar && (
@@ -569,16 +850,36 @@ const Dashboard: React.FC<DashboardProps> = ({
                           className="w-5 h-5 rounded-full object-cover"
                         />
                       )}
-                      <span>{playerName} 已锁定</span>
+                      {trackingStatus === 'tracking' ? (
+                        <>
+                          <Loader className="w-4 h-4 animate-spin" />
+                          <span>正在跟踪 {playerName} · {trackingProgress}%</span>
+                        </>
+                      ) : trackingStatus === 'failed' ? (
+                        <>
+                          <span>{playerName} 跟踪失败</span>
+                          <button onClick={trackSelectedPlayer} className="underline hover:text-green-100">
+                            重试
+                          </button>
+                        </>
+                      ) : movementTrack ? (
+                        <span>{playerName} {trackedBox ? '已锁定' : '不在画面中'}</span>
+                      ) : (
+                        <span>{playerName} 未跟踪</span>
+                      )}
                     </div>
                     
                     <div className="absolute top-4 right-4 bg-blue-500 text-white px-3 py-1 rounded-full text-sm font-medium">
-                      AI 检测速度: {currentPerformanceData.topSpeed} km/h
+                      {trackedMovement
+                        ? `跟踪片段最高速度: ${trackedMovement.topSpeed} km/h`
+                        : `AI 检测速度: ${formatMetric(currentPerformanceData, 'topSpeed', currentPerformanceData.topSpeed, ' km/h')}`}
                     </div>
                     
-                    <div className="absolute bottom-20 left-1/4 bg-yellow-500 text-white px-2 py-1 rounded text-xs">
-                      AI 识别: 关键传球
-                    </div>
+                    {activeEvent && (
+                      <div className="absolute bottom-20 left-4 bg-yellow-500 text-white px-2 py-1 rounded text-xs">
+                        AI 识别: {MATCH_EVENT_LABELS[activeEvent.type]}{activeEvent.description ? ` · ${activeEvent.description}` : ''}
+                      </div>
+                    )}
                   </>
                 ) : (
                   // 没有视频时显示占位符
@@ -637,6 +938,17 @@ const Dashboard: React.FC<DashboardProps> = ({
                   </div>
                 </div>
               </div>
+
+              {videoUrl && matchEvents.length > 0 && (
+                <EventTimeline
+                  events={matchEvents}
+                  duration={videoDuration}
+                  currentTime={currentTime}
+                  onSeek={seekTo}
+                  videoFile={uploadedVideo}
+                  playerName={playerName}
+                />
+              )}
             </div>
           </div>
 
@@ -670,7 +982,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                     />
                   </svg>
                   <div className="absolute inset-0 flex items-center justify-center">
-                    <span className="text-2xl font-bold text-gray-900">{currentPerformanceData.overall}</span>
+                    <span className="text-2xl font-bold text-gray-900">{formatMetric(currentPerformanceData, 'overall', currentPerformanceData.overall)}</span>
                   </div>
                 </div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-1">
@@ -683,9 +995,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                 </p>
                 {existingPlayer && !viewingHistoryOnly && (
                   <div className="flex items-center justify-center space-x-2 mt-2">
-                    {getComparisonIcon(currentPerformanceData.overall, existingPlayer.averagePerformance.overall)}
+                    {getMetricComparison('overall')}
                     <span className="text-sm text-gray-600">
-                      vs 历史平均 {existingPlayer.averagePerformance.overall}
+                      vs 历史平均 {formatMetric(existingPlayer.averagePerformance, 'overall', existingPlayer.averagePerformance.overall)}
                     </span>
                   </div>
                 )}
@@ -699,32 +1011,56 @@ const Dashboard: React.FC<DashboardProps> = ({
                 AI 关键数据
               </h3>
               <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">跑动距离</span>
-                  <div className="flex items-center space-x-2">
-                    <span className="font-semibold">{currentPerformanceData.distance} km</span>
-                    {existingPlayer && !viewingHistoryOnly && getComparisonIcon(currentPerformanceData.distance, existingPlayer.averagePerformance.distance)}
+                {/* 整场跑动距离和最高速度只有旧的分析记录才有 */}
+                {isMetricAvailable(currentPerformanceData, 'distance') && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">跑动距离</span>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold">{currentPerformanceData.distance} km</span>
+                      {getMetricComparison('distance')}
+                    </div>
                   </div>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">最高速度</span>
-                  <div className="flex items-center space-x-2">
-                    <span className="font-semibold">{currentPerformanceData.topSpeed} km/h</span>
-                    {existingPlayer && !viewingHistoryOnly && getComparisonIcon(currentPerformanceData.topSpeed, existingPlayer.averagePerformance.topSpeed)}
+                )}
+                {isMetricAvailable(currentPerformanceData, 'topSpeed') && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">最高速度</span>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold">{currentPerformanceData.topSpeed} km/h</span>
+                      {getMetricComparison('topSpeed')}
+                    </div>
                   </div>
-                </div>
+                )}
+                {trackedMovement && (
+                  <div className="rounded-lg bg-green-50 p-3 space-y-2">
+                    <p className="text-xs text-green-700">
+                      实测：仅跟踪片段 {trackedMovement.trackedSeconds} 秒，约每 {trackedMovement.sampleSeconds} 秒一个位置，不代表整场
+                    </p>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">片段跑动距离</span>
+                      <span className="font-semibold">{trackedMovement.distance} km</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">片段最高速度</span>
+                      <span className="font-semibold">{trackedMovement.topSpeed} km/h</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">片段冲刺次数</span>
+                      <span className="font-semibold">{trackedMovement.sprints}</span>
+                    </div>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">总触球次数</span>
                   <div className="flex items-center space-x-2">
-                    <span className="font-semibold">{currentPerformanceData.touches}</span>
-                    {existingPlayer && !viewingHistoryOnly && getComparisonIcon(currentPerformanceData.touches, existingPlayer.averagePerformance.touches)}
+                    <span className="font-semibold">{formatMetric(currentPerformanceData, 'touches', currentPerformanceData.touches, '')}</span>
+                    {getMetricComparison('touches')}
                   </div>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">传球成功率</span>
                   <div className="flex items-center space-x-2">
-                    <span className="font-semibold text-green-600">{currentPerformanceData.passAccuracy}%</span>
-                    {existingPlayer && !viewingHistoryOnly && getComparisonIcon(currentPerformanceData.passAccuracy, existingPlayer.averagePerformance.passAccuracy)}
+                    <span className="font-semibold text-green-600">{formatMetric(currentPerformanceData, 'passAccuracy', currentPerformanceData.passAccuracy, '%')}</span>
+                    {getMetricComparison('passAccuracy')}
                   </div>
                 </div>
               </div>
@@ -846,72 +1182,86 @@ const Dashboard: React.FC<DashboardProps> = ({
 
             <div className="p-6">
               {activeTab === 'overview' && (
-                <div className="grid md:grid-cols-2 gap-8">
-                  {/* Strengths */}
-                  <div>
-                    <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mr-2" />
-                      AI 识别优势
-                    </h4>
-                    <div className="space-y-3">
-                      {strengthsWeaknesses.strengths.length > 0 ? strengthsWeaknesses.strengths.map((strength, index) => (
-                        <div key={index} className="bg-green-50 rounded-lg p-4">
-                          <div className="flex justify-between items-center mb-2">
-                            <span className="font-medium text-gray-900">{strength.skill}</span>
-                            {strength.improvement && !viewingHistoryOnly && (
-                              <span className="text-green-600 text-sm font-medium">{strength.improvement}</span>
-                            )}
-                          </div>
-                          <div className="flex items-center space-x-3">
-                            <div className="flex-1 bg-green-200 rounded-full h-2">
-                              <div 
-                                className="bg-green-500 h-2 rounded-full"
-                                style={{ width: `${strength.score}%` }}
-                              />
+                <div className="space-y-8">
+                  <div className="grid md:grid-cols-2 gap-8">
+                    {/* Strengths */}
+                    <div>
+                      <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                        <div className="w-2 h-2 bg-green-500 rounded-full mr-2" />
+                        AI 识别优势
+                      </h4>
+                      <div className="space-y-3">
+                        {strengthsWeaknesses.strengths.length > 0 ? strengthsWeaknesses.strengths.map((strength, index) => (
+                          <div key={index} className="bg-green-50 rounded-lg p-4">
+                            <div className="flex justify-between items-center mb-2">
+                              <span className="font-medium text-gray-900">{strength.skill}</span>
+                              {strength.improvement && !viewingHistoryOnly && (
+                                <span className="text-green-600 text-sm font-medium">{strength.improvement}</span>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              <div className="flex-1 bg-green-200 rounded-full h-2">
+                                <div 
+                                  className="bg-green-500 h-2 rounded-full"
+                                  style={{ width: `${strength.score}%` }}
+                                />
+                              </div>
+                              <span className="text-sm font-medium">{strength.score}</span>
                             </div>
-                            <span className="text-sm font-medium">{strength.score}</span>
                           </div>
-                        </div>
-                      )) : (
-                        <div className="bg-gray-50 rounded-lg p-4 text-center">
-                          <p className="text-gray-600">AI 分析显示暂无突出优势项目</p>
-                        </div>
-                      )}
+                        )) : (
+                          <div className="bg-gray-50 rounded-lg p-4 text-center">
+                            <p className="text-gray-600">AI 分析显示暂无突出优势项目</p>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Areas for Improvement */}
-                  <div>
-                    <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-                      <div className="w-2 h-2 bg-orange-500 rounded-full mr-2" />
-                      AI 建议改进
-                    </h4>
-                    <div className="space-y-3">
-                      {strengthsWeaknesses.weaknesses.length > 0 ? strengthsWeaknesses.weaknesses.map((weakness, index) => (
-                        <div key={index} className="bg-orange-50 rounded-lg p-4">
-                          <div className="flex justify-between items-center mb-2">
-                            <span className="font-medium text-gray-900">{weakness.skill}</span>
-                            {weakness.decline && !viewingHistoryOnly && (
-                              <span className="text-orange-600 text-sm font-medium">{weakness.decline}</span>
-                            )}
-                          </div>
-                          <div className="flex items-center space-x-3">
-                            <div className="flex-1 bg-orange-200 rounded-full h-2">
-                              <div 
-                                className="bg-orange-500 h-2 rounded-full"
-                                style={{ width: `${weakness.score}%` }}
-                              />
+                    {/* Areas for Improvement */}
+                    <div>
+                      <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                        <div className="w-2 h-2 bg-orange-500 rounded-full mr-2" />
+                        AI 建议改进
+                      </h4>
+                      <div className="space-y-3">
+                        {strengthsWeaknesses.weaknesses.length > 0 ? strengthsWeaknesses.weaknesses.map((weakness, index) => (
+                          <div key={index} className="bg-orange-50 rounded-lg p-4">
+                            <div className="flex justify-between items-center mb-2">
+                              <span className="font-medium text-gray-900">{weakness.skill}</span>
+                              {weakness.decline && !viewingHistoryOnly && (
+                                <span className="text-orange-600 text-sm font-medium">{weakness.decline}</span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600 mb-2">{weakness.message}</p>
+                            <div className="flex items-center space-x-3">
+                              <div className="flex-1 bg-orange-200 rounded-full h-2">
+                                <div 
+                                  className="bg-orange-500 h-2 rounded-full"
+                                  style={{ width: `${Math.min(100, weakness.score)}%` }}
+                                />
+                              </div>
+                              <span className="text-sm font-medium">{weakness.score}</span>
                             </div>
-                            <span className="text-sm font-medium">{weakness.score}</span>
                           </div>
-                        </div>
-                      )) : (
-                        <div className="bg-gray-50 rounded-lg p-4 text-center">
-                          <p className="text-gray-600">AI 分析显示各项技能均衡发展</p>
-                        </div>
-                      )}
+                        )) : (
+                          <div className="bg-gray-50 rounded-lg p-4 text-center">
+                            <p className="text-gray-600">AI 分析显示各项技能均衡发展</p>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
+
+                  {existingPlayer && (existingPlayer.goals?.length || (training?.canManage && viewingHistoryOnly)) ? (
+                    <PlayerGoals
+                      playerId={existingPlayer.id}
+                      goals={existingPlayer.goals ?? []}
+                      history={existingPlayer.performanceHistory}
+                      userId={training?.userId}
+                      canEdit={training?.canManage && viewingHistoryOnly}
+                      onGoalsChanged={onGoalsChanged}
+                    />
+                  ) : null}
                 </div>
               )}
 
@@ -943,10 +1293,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                         AI 深度分析报告
                       </h5>
                       <p className="text-gray-800 leading-relaxed text-justify">
-                        {viewingHistoryOnly 
-                          ? `基于 ${existingPlayer?.totalMatches || 0} 场比赛的历史数据分析，${playerName} 展现出稳定的竞技水平。平均综合评分为 ${currentPerformanceData.overall} 分，在速度、传球、位置感等各项技能上都有着均衡的发展。通过长期的数据积累，可以看出球员在技术和战术理解方面都有着持续的进步。`
-                          : playerAnalysisReport
-                        }
+                        {analysisNarrative}
                       </p>
                     </div>
 
@@ -958,8 +1305,10 @@ const Dashboard: React.FC<DashboardProps> = ({
                         </div>
                       </div>
                       <div className="bg-white/50 border border-blue-200 rounded-lg p-4 text-center">
-                        <div className="text-2xl font-bold text-blue-900">{currentPerformanceData.topSpeed}</div>
-                        <div className="text-sm text-blue-600">最高时速 (km/h)</div>
+                        <div className="text-2xl font-bold text-blue-900">
+                          {trackedMovement ? trackedMovement.topSpeed : formatMetric(currentPerformanceData, 'topSpeed', currentPerformanceData.topSpeed, '')}
+                        </div>
+                        <div className="text-sm text-blue-600">{trackedMovement ? '片段最高时速 (km/h)' : '最高时速 (km/h)'}</div>
                       </div>
                       <div className="bg-white/50 border border-blue-200 rounded-lg p-4 text-center">
                         <div className="text-2xl font-bold text-blue-900">{currentPerformanceData.passAccuracy}%</div>
@@ -969,7 +1318,10 @@ const Dashboard: React.FC<DashboardProps> = ({
 
                     <div className="flex items-center justify-between mt-6 text-sm text-blue-600">
                       <span>分析时间: {new Date().toLocaleString()}</span>
-                      <button className="flex items-center space-x-1 hover:text-blue-800 transition-colors">
+                      <button
+                        onClick={() => handleExportReport('pdf')}
+                        className="flex items-center space-x-1 hover:text-blue-800 transition-colors"
+                      >
                         <Download className="w-4 h-4" />
                         <span>导出详细报告</span>
                       </button>
@@ -1002,6 +1354,18 @@ const Dashboard: React.FC<DashboardProps> = ({
                       </div>
                     ))}
                   </div>
+
+                  {positionMap && (
+                    <PitchHeatmap
+                      positionMap={positionMap}
+                      matchCount={positionHistory.filter(performance => performance.positionMap).length}
+                    />
+                  )}
+
+                  {/* 单场分析的事件依据 */}
+                  {!viewingHistoryOnly && currentPerformanceData.events && currentPerformanceData.events.length > 0 && (
+                    <EventAudit performance={currentPerformanceData} />
+                  )}
                 </div>
               )}
 
@@ -1060,6 +1424,14 @@ const Dashboard: React.FC<DashboardProps> = ({
                       );
                     })}
                   </div>
+
+                  {training && viewingHistoryOnly && existingPlayer?.id && (
+                    <TrainingPlan
+                      player={{ ...existingPlayer, id: existingPlayer.id }}
+                      rules={rules}
+                      access={training}
+                    />
+                  )}
                 </div>
               )}
 
@@ -1083,6 +1455,8 @@ const Dashboard: React.FC<DashboardProps> = ({
                     </p>
                   </div>
 
+                  <PerformanceTrends history={trendHistory} />
+
                   {!viewingHistoryOnly && (
                     <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
                       {[
@@ -1171,6 +1545,39 @@ const Dashboard: React.FC<DashboardProps> = ({
                       </div>
                     </div>
                   )}
+
+                  {viewingHistoryOnly && onSelectPerformance && existingPlayer.performanceHistory.length > 0 && (
+                    <div className="bg-white border border-gray-200 rounded-xl p-6">
+                      <h5 className="font-semibold text-gray-900 mb-3 flex items-center">
+                        <Clock className="w-5 h-5 mr-2" />
+                        分析记录
+                      </h5>
+                      <div className="divide-y divide-gray-100">
+                        {[...existingPlayer.performanceHistory]
+                          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                          .map(performance => (
+                            <button
+                              key={performance.matchId}
+                              onClick={() => onSelectPerformance(performance)}
+                              className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50 transition-colors"
+                            >
+                              <div>
+                                <div className="font-medium text-gray-900">
+                                  对阵 {performance.opponent || '未知对手'}
+                                </div>
+                                <div className="text-sm text-gray-500">{new Date(performance.date).toLocaleDateString()}</div>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <span className="font-semibold text-gray-900">
+                                  {formatMetric(performance, 'overall', performance.overall)}
+                                </span>
+                                <ChevronRight className="w-4 h-4 text-gray-400" />
+                              </div>
+                            </button>
+                          ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,227 @@
+import React, { useRef, useState } from 'react';
+import { Flag, Trash2 } from 'lucide-react';
+import { PlayerDetection, SampledFrame } from '../services/analysisProvider';
+import { BoundingBox } from '../services/playerMatching';
+import { MIN_ANNOTATION_BOX, createManualDetection, updateDetectionBox } from '../services/detectionAnnotations';
+
+interface DetectionAnnotatorProps {
+  frame: SampledFrame;
+  // Every detection, referees included so they can be unmarked
+  players: PlayerDetection[];
+  getBox: (player: PlayerDetection) => BoundingBox | undefined;
+  selectedId: number | null;
+  onSelect: (playerId: number | null) => void;
+  onChange: (players: PlayerDetection[]) => void;
+}
+
+type Point = { x: number; y: number };
+
+type DragState =
+  | { mode: 'draw'; origin: Point; box: BoundingBox }
+  | { mode: 'move' | 'resize'; playerId: number; origin: Point; start: BoundingBox; box: BoundingBox };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Editing layer over the frame image: drag on empty space to draw a box, drag a box to move it,
+// drag its corner to resize it, and edit team, jersey and referee status of the selected box
+const DetectionAnnotator: React.FC<DetectionAnnotatorProps> = ({ frame, players, getBox, selectedId, onSelect, onChange }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const selectedPlayer = players.find(player => player.id === selectedId);
+
+  const toPercent = (event: React.PointerEvent): Point => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 100, 0, 100),
+      y: clamp(((event.clientY - rect.top) / rect.height) * 100, 0, 100)
+    };
+  };
+
+  const startDrag = (event: React.PointerEvent, state: DragState) => {
+    event.stopPropagation();
+    overlayRef.current?.setPointerCapture(event.pointerId);
+    setDrag(state);
+  };
+
+  const handleBackgroundPointerDown = (event: React.PointerEvent) => {
+    const origin = toPercent(event);
+    onSelect(null);
+    startDrag(event, { mode: 'draw', origin, box: { ...origin, width: 0, height: 0 } });
+  };
+
+  const handleBoxPointerDown = (event: React.PointerEvent, player: PlayerDetection, box: BoundingBox, mode: 'move' | 'resize') => {
+    onSelect(player.id);
+    startDrag(event, { mode, playerId: player.id, origin: toPercent(event), start: box, box });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPercent(event);
+
+    if (drag.mode === 'draw') {
+      setDrag({
+        ...drag,
+        box: {
+          x: Math.min(drag.origin.x, point.x),
+          y: Math.min(drag.origin.y, point.y),
+          width: Math.abs(point.x - drag.origin.x),
+          height: Math.abs(point.y - drag.origin.y)
+        }
+      });
+    } else if (drag.mode === 'move') {
+      setDrag({
+        ...drag,
+        box: {
+          ...drag.start,
+          x: clamp(drag.start.x + point.x - drag.origin.x, 0, 100 - drag.start.width),
+          y: clamp(drag.start.y + point.y - drag.origin.y, 0, 100 - drag.start.height)
+        }
+      });
+    } else {
+      setDrag({
+        ...drag,
+        box: {
+          ...drag.start,
+          width: Math.max(MIN_ANNOTATION_BOX.width, point.x - drag.start.x),
+          height: Math.max(MIN_ANNOTATION_BOX.height, point.y - drag.start.y)
+        }
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+
+    if (drag.mode === 'draw') {
+      if (drag.box.width < MIN_ANNOTATION_BOX.width || drag.box.height < MIN_ANNOTATION_BOX.height) return;
+      const team = selectedPlayer?.team ?? 'home';
+      const added = createManualDetection(players, frame, drag.box, team);
+      console.log('✏️ Player box drawn by hand:', added.id);
+      onChange([...players, added]);
+      onSelect(added.id);
+      return;
+    }
+
+    const { box, start } = drag;
+    if (box.x === start.x && box.y === start.y && box.width === start.width && box.height === start.height) return;
+    onChange(players.map(player => player.id === drag.playerId ? updateDetectionBox(player, frame, box) : player));
+  };
+
+  const updateSelected = (update: Partial<PlayerDetection>) => {
+    if (!selectedPlayer) return;
+    onChange(players.map(player => player.id === selectedPlayer.id ? { ...player, ...update, corrected: true } : player));
+  };
+
+  const handleTeamChange = (team: 'home' | 'away') => {
+    const teamColor = players.find(player => player.team === team && player.id !== selectedId)?.teamColor;
+    updateSelected({ team, teamColor });
+  };
+
+  const handleRemove = () => {
+    if (!selectedPlayer) return;
+    onChange(players.filter(player => player.id !== selectedPlayer.id));
+    onSelect(null);
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-30 cursor-crosshair select-none"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handleBackgroundPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+    >
+      {players.map(player => {
+        const box = drag && drag.mode !== 'draw' && drag.playerId === player.id ? drag.box : getBox(player);
+        if (!box) return null;
+        const isSelected = player.id === selectedId;
+
+        return (
+          <div
+            key={player.id}
+            onPointerDown={(event) => handleBoxPointerDown(event, player, box, 'move')}
+            className={`absolute cursor-move border-2 rounded ${
+              isSelected
+                ? 'border-yellow-400 bg-yellow-400/20'
+                : player.isReferee
+                ? 'border-dashed border-gray-300 bg-gray-500/20'
+                : player.team === 'home'
+                ? 'border-blue-400 bg-blue-400/10'
+                : 'border-red-400 bg-red-400/10'
+            }`}
+            style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width}%`, height: `${box.height}%` }}
+          >
+            <span className="absolute -top-6 left-0 bg-black/70 text-white text-xs px-1.5 py-0.5 rounded whitespace-nowrap pointer-events-none">
+              {player.isReferee ? 'Referee' : `#${player.jersey || player.id}`}{player.corrected && ' ✎'}
+            </span>
+            {isSelected && (
+              <div
+                onPointerDown={(event) => handleBoxPointerDown(event, player, box, 'resize')}
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-yellow-400 border border-white rounded-sm cursor-se-resize"
+              />
+            )}
+          </div>
+        );
+      })}
+
+      {drag?.mode === 'draw' && (
+        <div
+          className="absolute border-2 border-dashed border-yellow-400 bg-yellow-400/10 pointer-events-none"
+          style={{ left: `${drag.box.x}%`, top: `${drag.box.y}%`, width: `${drag.box.width}%`, height: `${drag.box.height}%` }}
+        />
+      )}
+
+      {selectedPlayer && !drag && (
+        <div
+          className="absolute bottom-4 right-4 bg-white rounded-lg shadow-xl p-3 w-56 text-sm cursor-default"
+          onPointerDown={(event) => event.stopPropagation()}
+        >
+          <div className="font-semibold text-gray-900 mb-2">Detection #{selectedPlayer.id}</div>
+          <div className="grid grid-cols-2 gap-1 mb-2">
+            {(['home', 'away'] as const).map(team => (
+              <button
+                key={team}
+                onClick={() => handleTeamChange(team)}
+                disabled={selectedPlayer.isReferee}
+                className={`py-1 rounded border text-xs font-medium disabled:opacity-50 ${
+                  selectedPlayer.team === team
+                    ? team === 'home' ? 'bg-blue-500 border-blue-500 text-white' : 'bg-red-500 border-red-500 text-white'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {team === 'home' ? 'Home' : 'Away'}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={selectedPlayer.jersey ?? ''}
+            onChange={(e) => updateSelected({ jersey: e.target.value.trim() || undefined })}
+            placeholder="Jersey number"
+            disabled={selectedPlayer.isReferee}
+            className="w-full px-2 py-1 border border-gray-300 rounded mb-2 disabled:opacity-50"
+          />
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => updateSelected({ isReferee: !selectedPlayer.isReferee })}
+              className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+            >
+              <Flag className="w-3 h-3 mr-1" />
+              {selectedPlayer.isReferee ? 'Not a referee' : 'Mark as referee'}
+            </button>
+            <button onClick={handleRemove} className="flex items-center text-xs text-red-500 hover:text-red-700">
+              <Trash2 className="w-3 h-3 mr-1" />
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectionAnnotator;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, ListChecks } from 'lucide-react';
+import { PerformanceData } from '../App';
+import { BALL_CONTACT_EVENTS, MATCH_EVENT_LABELS, summarizeMatchEvents } from '../services/performanceStats';
+
+interface EventAuditProps {
+  performance: PerformanceData;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// 单场分析的逐条事件，以及由事件算出的指标的计算过程，方便教练核对数字
+const EventAudit: React.FC<EventAuditProps> = ({ performance }) => {
+  const [showEvents, setShowEvents] = useState(false);
+  const events = performance.events ?? [];
+  const summaries = summarizeMatchEvents(events);
+  const derived = performance.derivedMetrics ?? [];
+
+  const contactSummaries = summaries.filter(summary => BALL_CONTACT_EVENTS.includes(summary.type));
+  const passes = summaries.find(summary => summary.type === 'pass');
+  const judgedPasses = passes ? passes.successful + passes.unsuccessful : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <h5 className="font-semibold text-gray-900 mb-1 flex items-center">
+        <ListChecks className="w-5 h-5 mr-2 text-blue-600" />
+        数据依据
+      </h5>
+      <p className="text-sm text-gray-500 mb-4">
+        AI 共记录 {events.length} 条事件；标记为“按事件计算”的指标直接由下面的事件统计得出，其余指标为模型估计
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <div className="bg-gray-50 rounded-lg p-4 text-sm">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-900">触球次数 {performance.touches}</span>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${derived.includes('touches') ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'}`}>
+              {derived.includes('touches') ? '按事件计算' : '模型估计'}
+            </span>
+          </div>
+          <p className="text-gray-600">
+            {contactSummaries.length > 0
+              ? `${contactSummaries.map(summary => `${MATCH_EVENT_LABELS[summary.type]} ${summary.total}`).join(' + ')} = ${contactSummaries.reduce((sum, summary) => sum + summary.total, 0)}`
+              : '没有记录到触球事件'}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 text-sm">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-900">传球成功率 {performance.passAccuracy}%</span>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${derived.includes('passAccuracy') ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'}`}>
+              {derived.includes('passAccuracy') ? '按事件计算' : '模型估计'}
+            </span>
+          </div>
+          <p className="text-gray-600">
+            {judgedPasses > 0
+              ? `成功传球 ${passes!.successful} / 可判定结果的传球 ${judgedPasses} = ${Math.round((passes!.successful / judgedPasses) * 100)}%`
+              : '没有可判定结果的传球'}
+          </p>
+        </div>
+      </div>
+
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-gray-500 border-b border-gray-200">
+            <th className="text-left font-medium py-2">事件</th>
+            <th className="text-right font-medium py-2">次数</th>
+            <th className="text-right font-medium py-2">成功</th>
+            <th className="text-right font-medium py-2">失败</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summaries.map(summary => (
+            <tr key={summary.type} className="border-b border-gray-100">
+              <td className="py-2 text-gray-900">{MATCH_EVENT_LABELS[summary.type]}</td>
+              <td className="py-2 text-right">{summary.total}</td>
+              <td className="py-2 text-right text-green-600">{summary.successful || '—'}</td>
+              <td className="py-2 text-right text-red-500">{summary.unsuccessful || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button
+        onClick={() => setShowEvents(!showEvents)}
+        className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center"
+      >
+        {showEvents ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+        {showEvents ? '收起事件列表' : '查看全部事件'}
+      </button>
+
+      {showEvents && (
+        <div className="mt-3 max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-2">时间</th>
+                <th className="text-left font-medium py-2">事件</th>
+                <th className="text-left font-medium py-2">结果</th>
+                <th className="text-left font-medium py-2">位置</th>
+                <th className="text-left font-medium py-2">相关球员</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event, index) => (
+                <tr key={`${event.timestamp}-${index}`} className="border-b border-gray-100 text-gray-700">
+                  <td className="py-1.5 font-mono text-gray-500">{formatTime(event.timestamp)}</td>
+                  <td className="py-1.5">{MATCH_EVENT_LABELS[event.type]}</td>
+                  <td className="py-1.5">
+                    {event.outcome ? (event.outcome === 'successful' ? '成功' : '失败') : '—'}
+                  </td>
+                  <td className="py-1.5">
+                    {event.x !== undefined && event.y !== undefined ? `(${event.x}, ${event.y})` : '—'}
+                  </td>
+                  <td className="py-1.5">{event.relatedPlayer ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventAudit;
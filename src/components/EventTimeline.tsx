@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Download, Loader, Play } from 'lucide-react';
+import { MatchEvent, MatchEventType } from '../App';
+import { MATCH_EVENT_LABELS } from '../services/performanceStats';
+import { cutVideoClip, downloadBlob, getClipExtension, getEventClipRange, isClipRecordingSupported } from '../services/videoClips';
+
+interface EventTimelineProps {
+  events: MatchEvent[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  // 原始上传的视频，用于在浏览器中剪出片段；查看已保存的分析时没有
+  videoFile?: File | null;
+  playerName: string;
+}
+
+const EVENT_COLORS: Record<MatchEventType, string> = {
+  pass: 'bg-blue-500',
+  shot: 'bg-red-500',
+  dribble: 'bg-purple-500',
+  tackle: 'bg-orange-500',
+  sprint: 'bg-green-500',
+  touch: 'bg-gray-400'
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// 视频下方的关键事件时间轴：点击跳转，并可下载事件前后的短片段
+const EventTimeline: React.FC<EventTimelineProps> = ({ events, duration, currentTime, onSeek, videoFile, playerName }) => {
+  const [clipping, setClipping] = useState<{ index: number; progress: number } | null>(null);
+  const [clipError, setClipError] = useState('');
+
+  const canClip = !!videoFile && isClipRecordingSupported();
+  const timelineEnd = Math.max(duration, ...events.map(event => event.timestamp), 1);
+
+  const handleDownloadClip = async (event: MatchEvent, index: number) => {
+    if (!videoFile || clipping) return;
+
+    setClipping({ index, progress: 0 });
+    setClipError('');
+    try {
+      const clip = await cutVideoClip(videoFile, getEventClipRange(event, duration), progress =>
+        setClipping({ index, progress })
+      );
+      const safeName = playerName.replace(/[\\/:*?"<>|\s]+/g, '_');
+      downloadBlob(clip, `${safeName}-${MATCH_EVENT_LABELS[event.type]}-${formatTime(event.timestamp).replace(':', 'm')}s.${getClipExtension(clip)}`);
+    } catch (error) {
+      console.error('❌ 剪辑片段失败:', error);
+      setClipError(error instanceof Error ? error.message : '剪辑片段失败');
+    } finally {
+      setClipping(null);
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-gray-900">关键时刻</h4>
+        <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+          {(Object.keys(EVENT_COLORS) as MatchEventType[]).filter(type => events.some(event => event.type === type)).map(type => (
+            <span key={type} className="flex items-center">
+              <span className={`w-2 h-2 rounded-full mr-1 ${EVENT_COLORS[type]}`} />
+              {MATCH_EVENT_LABELS[type]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* 时间轴 */}
+      <div className="relative h-8 mb-4">
+        <div className="absolute top-1/2 left-0 right-0 h-1 -translate-y-1/2 bg-gray-200 rounded-full" />
+        <div
+          className="absolute top-1/2 left-0 h-1 -translate-y-1/2 bg-green-300 rounded-full"
+          style={{ width: `${Math.min(100, (currentTime / timelineEnd) * 100)}%` }}
+        />
+        {events.map((event, index) => (
+          <button
+            key={`${event.type}-${event.timestamp}-${index}`}
+            onClick={() => onSeek(event.timestamp)}
+            className={`absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow hover:scale-150 transition-transform ${EVENT_COLORS[event.type]}`}
+            style={{ left: `${(event.timestamp / timelineEnd) * 100}%` }}
+            title={`${formatTime(event.timestamp)} ${MATCH_EVENT_LABELS[event.type]}${event.description ? ` · ${event.description}` : ''}`}
+          />
+        ))}
+      </div>
+
+      {clipError && <p className="text-sm text-red-600 mb-2">{clipError}</p>}
+
+      <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+        {events.map((event, index) => {
+          const isActive = Math.abs(currentTime - event.timestamp) < 1.5;
+          return (
+            <div
+              key={`${event.type}-${event.timestamp}-${index}`}
+              className={`flex items-center justify-between py-2 px-2 text-sm rounded ${isActive ? 'bg-green-50' : ''}`}
+            >
+              <button onClick={() => onSeek(event.timestamp)} className="flex items-center space-x-3 text-left min-w-0">
+                <span className="font-mono text-gray-500 w-10">{formatTime(event.timestamp)}</span>
+                <span className={`text-xs text-white px-2 py-0.5 rounded-full ${EVENT_COLORS[event.type]}`}>
+                  {MATCH_EVENT_LABELS[event.type]}
+                </span>
+                {event.outcome && (
+                  <span className={`text-xs ${event.outcome === 'successful' ? 'text-green-600' : 'text-red-500'}`}>
+                    {event.outcome === 'successful' ? '成功' : '失败'}
+                  </span>
+                )}
+                {event.relatedPlayer && <span className="text-xs text-gray-400">→ {event.relatedPlayer}</span>}
+                {event.description && <span className="text-gray-600 truncate">{event.description}</span>}
+              </button>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <button
+                  onClick={() => onSeek(event.timestamp)}
+                  className="p-1 text-gray-400 hover:text-green-600"
+                  title="跳转到此处"
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+                {canClip && (
+                  <button
+                    onClick={() => handleDownloadClip(event, index)}
+                    disabled={!!clipping}
+                    className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-50 flex items-center"
+                    title="下载片段"
+                  >
+                    {clipping?.index === index ? (
+                      <>
+                        <Loader className="w-4 h-4 animate-spin mr-1" />
+                        <span className="text-xs">{Math.round(clipping.progress * 100)}%</span>
+                      </>
+                    ) : (
+                      <Download className="w-4 h-4" />
+                    )}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EventTimeline;
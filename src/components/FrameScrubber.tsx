@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Crosshair, Loader, X } from 'lucide-react';
+import { SampledFrame } from '../services/analysisProvider';
+import { BoundingBox } from '../services/playerMatching';
+import { buildSampleRatios, cropAvatar, extractFrames, extractFramesAtTimestamps } from '../services/videoFrames';
+
+interface FrameScrubberProps {
+  videoFile: File;
+  // Runs player detection on the frame at the given time (seconds)
+  onDetectAt: (timestamp: number) => void;
+  // Without it the scrubber only offers detection
+  onAvatarCaptured?: (avatarUrl: string) => void;
+  // Avatar capture needs a selected player to attach the avatar to
+  canCaptureAvatar?: boolean;
+}
+
+type Point = { x: number; y: number };
+
+const THUMBNAIL_COUNT = 8;
+
+// Smaller crops (percent of the frame) are treated as stray clicks
+const MIN_CROP_SIZE = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Preview of the uploaded video with a thumbnail strip: pick the moment to detect players on,
+// or pick a frame and drag a box around the player to use as their avatar
+const FrameScrubber: React.FC<FrameScrubberProps> = ({ videoFile, onDetectAt, onAvatarCaptured, canCaptureAvatar = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
+  const [videoUrl, setVideoUrl] = useState('');
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [thumbnails, setThumbnails] = useState<SampledFrame[]>([]);
+  const [avatarFrame, setAvatarFrame] = useState<SampledFrame | null>(null);
+  const [cropOrigin, setCropOrigin] = useState<Point | null>(null);
+  const [cropBox, setCropBox] = useState<BoundingBox | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ratios = buildSampleRatios(THUMBNAIL_COUNT);
+    extractFrames(videoFile, length => ratios.map(ratio => length * ratio))
+      .then(frames => {
+        if (!cancelled) setThumbnails(frames);
+      })
+      .catch(error => console.warn('⚠️ Unable to build scrubber thumbnails:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [videoFile]);
+
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = clamp(time, 0, duration);
+    setCurrentTime(video.currentTime);
+  };
+
+  const handlePickAvatarFrame = async () => {
+    try {
+      setIsBusy(true);
+      setError('');
+      const [frame] = await extractFramesAtTimestamps(videoFile, [currentTime]);
+      if (!frame) {
+        throw new Error('No frame at this moment');
+      }
+      setAvatarFrame(frame);
+      setCropBox(null);
+    } catch (error) {
+      console.error('❌ Failed to extract avatar frame:', error);
+      setError(error instanceof Error ? error.message : 'Failed to extract frame');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toPercent = (event: React.PointerEvent): Point => {
+    const rect = cropAreaRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 100, 0, 100),
+      y: clamp(((event.clientY - rect.top) / rect.height) * 100, 0, 100)
+    };
+  };
+
+  const handleCropPointerDown = (event: React.PointerEvent) => {
+    cropAreaRef.current?.setPointerCapture(event.pointerId);
+    const origin = toPercent(event);
+    setCropOrigin(origin);
+    setCropBox({ ...origin, width: 0, height: 0 });
+  };
+
+  const handleCropPointerMove = (event: React.PointerEvent) => {
+    if (!cropOrigin) return;
+    const point = toPercent(event);
+    setCropBox({
+      x: Math.min(cropOrigin.x, point.x),
+      y: Math.min(cropOrigin.y, point.y),
+      width: Math.abs(point.x - cropOrigin.x),
+      height: Math.abs(point.y - cropOrigin.y)
+    });
+  };
+
+  const handleCropPointerUp = () => {
+    setCropOrigin(null);
+    if (cropBox && (cropBox.width < MIN_CROP_SIZE || cropBox.height < MIN_CROP_SIZE)) {
+      setCropBox(null);
+    }
+  };
+
+  const handleSaveAvatar = async () => {
+    if (!avatarFrame || !cropBox || !onAvatarCaptured) return;
+
+    try {
+      setIsBusy(true);
+      const avatarUrl = await cropAvatar(avatarFrame.url, cropBox);
+      console.log('📸 Avatar captured from scrubber frame at', avatarFrame.timestamp.toFixed(1), 's');
+      onAvatarCaptured(avatarUrl);
+      setAvatarFrame(null);
+      setCropBox(null);
+    } catch (error) {
+      console.error('❌ Failed to crop avatar:', error);
+      setError(error instanceof Error ? error.message : 'Failed to crop avatar');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-100">
+      <div className="text-sm font-medium text-gray-700 mb-3">
+        Video scrubber - choose another moment to detect players on{onAvatarCaptured && ', or a frame for the avatar'}
+      </div>
+
+      {avatarFrame ? (
+        <div>
+          <div
+            ref={cropAreaRef}
+            className="relative bg-gray-900 aspect-video rounded-lg overflow-hidden cursor-crosshair select-none"
+            style={{ touchAction: 'none' }}
+            onPointerDown={handleCropPointerDown}
+            onPointerMove={handleCropPointerMove}
+            onPointerUp={handleCropPointerUp}
+            onPointerCancel={() => setCropOrigin(null)}
+          >
+            <img src={avatarFrame.url} alt={`Frame at ${avatarFrame.timestamp.toFixed(1)}s`} className="w-full h-full object-cover pointer-events-none" />
+            {cropBox && (
+              <div
+                className="absolute border-2 border-yellow-400 bg-yellow-400/20 pointer-events-none"
+                style={{ left: `${cropBox.x}%`, top: `${cropBox.y}%`, width: `${cropBox.width}%`, height: `${cropBox.height}%` }}
+              />
+            )}
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 bg-black/70 text-white text-xs px-3 py-1 rounded pointer-events-none">
+              Drag a box around the player at {avatarFrame.timestamp.toFixed(1)}s
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-3">
+            <button
+              onClick={() => setAvatarFrame(null)}
+              className="flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-50"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveAvatar}
+              disabled={!cropBox || isBusy}
+              className="flex items-center px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded-lg text-sm text-white disabled:opacity-50"
+            >
+              <Camera className="w-4 h-4 mr-1" />
+              Use as Avatar
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            controls
+            muted
+            playsInline
+            preload="metadata"
+            onLoadedMetadata={(e) => {
+              // Keep the chosen moment when the preview comes back after cropping an avatar
+              setDuration(e.currentTarget.duration);
+              e.currentTarget.currentTime = currentTime;
+            }}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full aspect-video bg-gray-900 rounded-lg object-contain"
+          />
+
+          <div className="flex items-center space-x-3 mt-3">
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.1}
+              value={currentTime}
+              onChange={(e) => seek(Number(e.target.value))}
+              disabled={!duration}
+              className="flex-1 accent-green-600"
+            />
+            <span className="text-sm text-gray-600 w-24 text-right">
+              {currentTime.toFixed(1)}s / {duration.toFixed(1)}s
+            </span>
+          </div>
+
+          {thumbnails.length > 0 && (
+            <div className="flex space-x-2 overflow-x-auto pb-1 mt-3">
+              {thumbnails.map(frame => (
+                <button
+                  key={frame.frameIndex}
+                  onClick={() => seek(frame.timestamp)}
+                  className={`relative flex-shrink-0 w-24 aspect-video rounded overflow-hidden border-2 transition-all duration-200 ${
+                    Math.abs(frame.timestamp - currentTime) < 0.05 ? 'border-green-500' : 'border-transparent hover:border-green-300'
+                  }`}
+                >
+                  <img src={frame.url} alt={`Frame at ${frame.timestamp.toFixed(1)}s`} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs text-center">
+                    {frame.timestamp.toFixed(1)}s
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 justify-end mt-3">
+            {onAvatarCaptured && (
+              <button
+                onClick={handlePickAvatarFrame}
+                disabled={!canCaptureAvatar || !duration || isBusy}
+                title={canCaptureAvatar ? undefined : 'Select a player first'}
+                className="flex items-center px-3 py-1.5 border border-green-500 text-green-700 rounded-lg text-sm hover:bg-green-50 disabled:opacity-50"
+              >
+                {isBusy ? <Loader className="w-4 h-4 mr-1 animate-spin" /> : <Camera className="w-4 h-4 mr-1" />}
+                Avatar from this frame
+              </button>
+            )}
+            <button
+              onClick={() => onDetectAt(currentTime)}
+              disabled={!duration}
+              className="flex items-center px-3 py-1.5 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg text-sm hover:shadow-lg disabled:opacity-50"
+            >
+              <Crosshair className="w-4 h-4 mr-1" />
+              Detect players at {currentTime.toFixed(1)}s
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default FrameScrubber;
@@ -1,22 +1,61 @@
 import React from 'react';
-import { PlayCircle as CirclePlay, Upload, BarChart3, Users, Menu, X, Database, LogOut, User } from 'lucide-react';
+import { PlayCircle as CirclePlay, Upload, BarChart3, Users, Menu, X, Database, LogOut, User, Building2, Check, Mail, Plus, Settings, SlidersHorizontal } from 'lucide-react';
+import { Organization, OrganizationInvite } from '../App';
+import { ROLE_LABELS } from '../services/organizations';
 
 interface HeaderProps {
-  activeView: 'home' | 'upload' | 'player-selection' | 'dashboard' | 'database';
-  onViewChange: (view: 'home' | 'upload' | 'player-selection' | 'dashboard' | 'database') => void;
+  activeView: 'home' | 'upload' | 'player-selection' | 'dashboard' | 'database' | 'teams';
+  onViewChange: (view: 'home' | 'upload' | 'player-selection' | 'dashboard' | 'database' | 'teams') => void;
   user?: any;
   onSignOut?: () => void;
+  organizations?: Organization[];
+  // null is the user's personal workspace
+  activeOrganizationId?: string | null;
+  pendingInvites?: OrganizationInvite[];
+  // Read-only members cannot upload videos
+  readOnly?: boolean;
+  onWorkspaceChange?: (organizationId: string | null) => void;
+  onCreateOrganization?: (name: string) => void;
+  onAcceptInvite?: (invite: OrganizationInvite) => void;
+  onManageMembers?: () => void;
+  onManageRules?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ activeView, onViewChange, user, onSignOut }) => {
+const Header: React.FC<HeaderProps> = ({
+  activeView,
+  onViewChange,
+  user,
+  onSignOut,
+  organizations = [],
+  activeOrganizationId = null,
+  pendingInvites = [],
+  readOnly = false,
+  onWorkspaceChange,
+  onCreateOrganization,
+  onAcceptInvite,
+  onManageMembers,
+  onManageRules
+}) => {
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
   const [showUserMenu, setShowUserMenu] = React.useState(false);
+  const [newOrganizationName, setNewOrganizationName] = React.useState('');
+
+  const activeOrganization = organizations.find(org => org.id === activeOrganizationId);
 
   const navItems = [
     { id: 'home', label: 'Home', icon: CirclePlay },
     { id: 'upload', label: 'Upload Video', icon: Upload },
-    { id: 'database', label: 'My Players', icon: Database },
-  ];
+    { id: 'database', label: activeOrganization ? 'Players' : 'My Players', icon: Database },
+    { id: 'teams', label: activeOrganization ? 'Teams' : 'My Teams', icon: Users },
+  ].filter(item => !(readOnly && item.id === 'upload'));
+
+  const handleCreateOrganization = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newOrganizationName.trim() || !onCreateOrganization) return;
+    onCreateOrganization(newOrganizationName.trim());
+    setNewOrganizationName('');
+    setShowUserMenu(false);
+  };
 
   return (
     <header className="sticky top-0 z-50 bg-white/95 backdrop-blur-sm border-b border-green-100 shadow-sm">
@@ -70,15 +109,112 @@ const Header: React.FC<HeaderProps> = ({ activeView, onViewChange, user, onSignO
                   <span className="hidden md:block text-sm font-medium text-gray-700">
                     {user.email}
                   </span>
+                  {activeOrganization && (
+                    <span className="hidden lg:flex items-center text-xs font-medium bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
+                      <Building2 className="w-3 h-3 mr-1" />
+                      {activeOrganization.name}
+                    </span>
+                  )}
+                  {pendingInvites.length > 0 && (
+                    <span className="w-5 h-5 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                      {pendingInvites.length}
+                    </span>
+                  )}
                 </button>
 
                 {/* User Dropdown */}
                 {showUserMenu && (
-                  <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-2">
+                  <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-50">
                     <div className="px-4 py-2 border-b border-gray-100">
                       <p className="text-sm font-medium text-gray-900">{user.email}</p>
-                      <p className="text-xs text-gray-500">Logged in</p>
+                      <p className="text-xs text-gray-500">
+                        {activeOrganization ? `${ROLE_LABELS[activeOrganization.role]} in ${activeOrganization.name}` : 'Personal workspace'}
+                      </p>
                     </div>
+
+                    {/* Pending Invites */}
+                    {pendingInvites.length > 0 && (
+                      <div className="px-4 py-2 border-b border-gray-100 space-y-2">
+                        <p className="text-xs font-semibold text-gray-500 uppercase">Invitations</p>
+                        {pendingInvites.map(invite => (
+                          <div key={invite.id} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center space-x-2 min-w-0">
+                              <Mail className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                              <span className="truncate">
+                                {invite.organizationName || 'Organisation'} ({ROLE_LABELS[invite.role]})
+                              </span>
+                            </div>
+                            {onAcceptInvite && (
+                              <button
+                                onClick={() => {
+                                  onAcceptInvite(invite);
+                                  setShowUserMenu(false);
+                                }}
+                                className="text-green-600 hover:text-green-700 font-medium ml-2"
+                              >
+                                Accept
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Workspaces */}
+                    {onWorkspaceChange && (
+                      <div className="py-2 border-b border-gray-100">
+                        <p className="px-4 pb-1 text-xs font-semibold text-gray-500 uppercase">Workspace</p>
+                        {[{ id: null, name: 'Personal', role: null }, ...organizations].map(workspace => (
+                          <button
+                            key={workspace.id ?? 'personal'}
+                            onClick={() => {
+                              onWorkspaceChange(workspace.id);
+                              setShowUserMenu(false);
+                            }}
+                            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center justify-between"
+                          >
+                            <span className="flex items-center space-x-2">
+                              {workspace.id ? <Building2 className="w-4 h-4" /> : <User className="w-4 h-4" />}
+                              <span>{workspace.name}</span>
+                              {workspace.role && <span className="text-xs text-gray-400">{ROLE_LABELS[workspace.role]}</span>}
+                            </span>
+                            {workspace.id === activeOrganizationId && <Check className="w-4 h-4 text-green-600" />}
+                          </button>
+                        ))}
+                        {activeOrganization && onManageMembers && (
+                          <button
+                            onClick={() => {
+                              onManageMembers();
+                              setShowUserMenu(false);
+                            }}
+                            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                          >
+                            <Settings className="w-4 h-4" />
+                            <span>Members &amp; Invites</span>
+                          </button>
+                        )}
+                        {onCreateOrganization && (
+                          <form onSubmit={handleCreateOrganization} className="px-4 pt-2 flex items-center space-x-2">
+                            <input
+                              type="text"
+                              value={newOrganizationName}
+                              onChange={(e) => setNewOrganizationName(e.target.value)}
+                              placeholder="New organisation"
+                              className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                            />
+                            <button
+                              type="submit"
+                              disabled={!newOrganizationName.trim()}
+                              className="p-1 text-green-600 hover:text-green-700 disabled:opacity-50"
+                              title="Create organisation"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </button>
+                          </form>
+                        )}
+                      </div>
+                    )}
+
                     <button
                       onClick={() => {
                         onViewChange('database');
@@ -87,8 +223,20 @@ const Header: React.FC<HeaderProps> = ({ activeView, onViewChange, user, onSignO
                       className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
                     >
                       <Database className="w-4 h-4" />
-                      <span>My Players</span>
+                      <span>{activeOrganization ? 'Players' : 'My Players'}</span>
                     </button>
+                    {onManageRules && (
+                      <button
+                        onClick={() => {
+                          onManageRules();
+                          setShowUserMenu(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                      >
+                        <SlidersHorizontal className="w-4 h-4" />
+                        <span>Analysis Rules</span>
+                      </button>
+                    )}
                     {onSignOut && (
                       <button
                         onClick={() => {
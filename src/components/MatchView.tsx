@@ -0,0 +1,142 @@
+import React from 'react';
+import { Trophy, Calendar, MapPin, Loader, CheckCircle, AlertCircle, Clock, User } from 'lucide-react';
+import { MatchInfo, MatchPlayerEntry } from '../App';
+import { formatMetric } from '../services/performanceStats';
+
+interface MatchViewProps {
+  match: MatchInfo;
+  players: MatchPlayerEntry[];
+  currentPlayerId?: number;
+  compact?: boolean;
+}
+
+const STATUS_LABELS: Record<MatchPlayerEntry['status'], string> = {
+  queued: '等待分析',
+  analyzing: '分析中',
+  done: '已完成',
+  failed: '分析失败'
+};
+
+const MatchView: React.FC<MatchViewProps> = ({ match, players, currentPlayerId, compact = false }) => {
+  const hasScore = match.homeScore !== null && match.homeScore !== undefined &&
+    match.awayScore !== null && match.awayScore !== undefined;
+  const completed = players.filter(p => p.status === 'done').length;
+
+  const getStatusIcon = (status: MatchPlayerEntry['status']) => {
+    switch (status) {
+      case 'analyzing':
+        return <Loader className="w-4 h-4 text-blue-600 animate-spin" />;
+      case 'done':
+        return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'failed':
+        return <AlertCircle className="w-4 h-4 text-red-600" />;
+      default:
+        return <Clock className="w-4 h-4 text-gray-400" />;
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 text-left">
+      {/* 比赛信息 */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Trophy className="w-5 h-5 mr-2 text-yellow-600" />
+            {match.homeTeam || '主队'}
+            <span className="mx-3 text-gray-900 font-bold">
+              {hasScore ? `${match.homeScore} : ${match.awayScore}` : 'vs'}
+            </span>
+            {match.awayTeam || '客队'}
+          </h3>
+          <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-gray-500">
+            <span className="flex items-center">
+              <Calendar className="w-4 h-4 mr-1" />
+              {new Date(match.date).toLocaleDateString()}
+            </span>
+            {match.competition && <span>{match.competition}</span>}
+            {match.venue && (
+              <span className="flex items-center">
+                <MapPin className="w-4 h-4 mr-1" />
+                {match.venue}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="mt-3 md:mt-0 bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm font-medium">
+          本场已分析 {completed}/{players.length} 名球员
+        </div>
+      </div>
+
+      {/* 本场球员 */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-200">
+              <th className="text-left font-medium py-2">球员</th>
+              <th className="text-left font-medium py-2">状态</th>
+              {!compact && (
+                <>
+                  <th className="text-right font-medium py-2">综合</th>
+                  <th className="text-right font-medium py-2">速度</th>
+                  <th className="text-right font-medium py-2">传球</th>
+                  <th className="text-right font-medium py-2">位置感</th>
+                  <th className="text-right font-medium py-2">触球</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {players.map((player) => {
+              const performance = player.performance;
+              return (
+                <tr
+                  key={player.detectionId}
+                  className={`border-b border-gray-100 ${player.detectionId === currentPlayerId ? 'bg-green-50' : ''}`}
+                >
+                  <td className="py-3">
+                    <div className="flex items-center space-x-3">
+                      {player.avatar ? (
+                        <img src={player.avatar} alt={player.name} className="w-8 h-8 rounded-full object-cover" />
+                      ) : (
+                        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                          player.team === 'home' ? 'bg-blue-500' : 'bg-red-500'
+                        }`}>
+                          <User className="w-4 h-4 text-white" />
+                        </div>
+                      )}
+                      <div>
+                        <div className="font-medium text-gray-900">{player.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {player.team === 'home' ? match.homeTeam || '主队' : match.awayTeam || '客队'}
+                        </div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="py-3">
+                    <div className="flex items-center space-x-2" title={player.error}>
+                      {getStatusIcon(player.status)}
+                      <span className="text-gray-700">{STATUS_LABELS[player.status]}</span>
+                    </div>
+                  </td>
+                  {!compact && (
+                    <>
+                      <td className="py-3 text-right font-semibold text-gray-900">
+                        {performance ? formatMetric(performance, 'overall', performance.overall) : '—'}
+                      </td>
+                      <td className="py-3 text-right">{performance ? formatMetric(performance, 'speed', performance.speed) : '—'}</td>
+                      <td className="py-3 text-right">{performance ? formatMetric(performance, 'passing', performance.passing) : '—'}</td>
+                      <td className="py-3 text-right">{performance ? formatMetric(performance, 'positioning', performance.positioning) : '—'}</td>
+                      <td className="py-3 text-right">{performance ? formatMetric(performance, 'touches', performance.touches) : '—'}</td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MatchView;
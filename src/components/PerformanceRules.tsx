@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { X, Plus, Pencil, Trash2, Check, AlertCircle, Copy, RotateCcw } from 'lucide-react';
+import { PerformanceMetric, PerformanceRule, PerformanceRuleKind, RuleComparator, RulePriority } from '../App';
+import { ruleService, resolvePlayerRules, PerformanceRuleInput, RULE_COMPARATORS } from '../services/performanceRules';
+import { MATCH_METRICS } from '../services/performanceStats';
+import { AGE_GROUPS, PLAYER_POSITIONS } from '../services/teams';
+
+interface PerformanceRulesProps {
+  userId: string;
+  // Workspace the rules belong to; null is the personal workspace
+  organizationId: string | null;
+  // Workspace rules and the built-in defaults
+  rules: PerformanceRule[];
+  // Rules are edited by owners and coaches
+  readOnly?: boolean;
+  onClose: () => void;
+  onRulesChanged: () => void;
+}
+
+const METRIC_NAMES: Record<PerformanceMetric, string> = {
+  overall: 'Overall',
+  speed: 'Speed',
+  passing: 'Passing',
+  positioning: 'Positioning',
+  touches: 'Touches',
+  distance: 'Distance (km)',
+  topSpeed: 'Top Speed (km/h)',
+  passAccuracy: 'Pass Rate (%)',
+  dominantFoot: 'Left Foot Use (%)'
+};
+
+const PRIORITIES: RulePriority[] = ['High', 'Medium', 'Low'];
+
+const emptyRule = (ageGroup: string | undefined, sortOrder: number): PerformanceRuleInput => ({
+  ageGroup,
+  kind: 'weakness',
+  metric: 'passing',
+  comparator: '<',
+  threshold: 75,
+  message: '',
+  priority: 'Medium',
+  sortOrder
+});
+
+const describeCondition = (rule: PerformanceRuleInput) =>
+  `${rule.kind === 'improvement' ? 'Change in ' : ''}${METRIC_NAMES[rule.metric]} ${rule.comparator} ${rule.threshold}`;
+
+// Editor for the rules that flag weaknesses and improvements and pick training drills
+const PerformanceRules: React.FC<PerformanceRulesProps> = ({ userId, organizationId, rules, readOnly = false, onClose, onRulesChanged }) => {
+  // Empty string is the rule set for every age group
+  const [ageGroup, setAgeGroup] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PerformanceRuleInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const scopeRules = rules.filter(rule => !rule.isDefault && (rule.ageGroup ?? '') === ageGroup);
+  // What players in this age group fall back to while it has no rules of its own
+  const inheritedRules = resolvePlayerRules(rules.filter(rule => !rule.ageGroup), {});
+  const inheritsDefaults = inheritedRules.some(rule => rule.isDefault);
+  const customisedAgeGroups = new Set(rules.filter(rule => !rule.isDefault).map(rule => rule.ageGroup ?? ''));
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await action();
+      setEditingId(null);
+      setDraft(null);
+      onRulesChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (rule: PerformanceRule | null) => {
+    setEditingId(rule?.id ?? 'new');
+    setDraft(rule
+      ? { ...rule }
+      : emptyRule(ageGroup || undefined, Math.max(0, ...scopeRules.map(existing => existing.sortOrder)) + 1));
+  };
+
+  const updateDraft = (update: Partial<PerformanceRuleInput>) => {
+    setDraft(current => current ? { ...current, ...update } : current);
+  };
+
+  const togglePosition = (position: string) => {
+    if (!draft) return;
+    const positions = draft.positions ?? [];
+    updateDraft({
+      positions: positions.includes(position) ? positions.filter(p => p !== position) : [...positions, position]
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    runAction(() => ruleService.saveRule(userId, organizationId, draft, editingId === 'new' ? undefined : editingId ?? undefined));
+  };
+
+  const renderForm = () => draft && (
+    <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg space-y-3">
+      <div className="grid sm:grid-cols-4 gap-2">
+        <select
+          value={draft.kind}
+          onChange={(e) => updateDraft({ kind: e.target.value as PerformanceRuleKind })}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+          aria-label="Rule type"
+        >
+          <option value="weakness">Weakness</option>
+          <option value="improvement">Improvement</option>
+        </select>
+        <select
+          value={draft.metric}
+          onChange={(e) => updateDraft({ metric: e.target.value as PerformanceMetric })}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+          aria-label="Metric"
+        >
+          {(MATCH_METRICS.includes(draft.metric) ? MATCH_METRICS : [...MATCH_METRICS, draft.metric]).map(metric => <option key={metric} value={metric}>{METRIC_NAMES[metric]}</option>)}
+        </select>
+        <select
+          value={draft.comparator}
+          onChange={(e) => updateDraft({ comparator: e.target.value as RuleComparator })}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+          aria-label="Comparator"
+        >
+          {RULE_COMPARATORS.map(comparator => <option key={comparator} value={comparator}>{comparator}</option>)}
+        </select>
+        <input
+          type="number"
+          step="any"
+          value={Number.isFinite(draft.threshold) ? draft.threshold : ''}
+          onChange={(e) => updateDraft({ threshold: e.target.value === '' ? NaN : Number(e.target.value) })}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+          aria-label="Threshold"
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        {draft.kind === 'improvement'
+          ? 'Improvements compare the change since the previous analysis with the threshold.'
+          : 'Weaknesses compare the latest analysis with the threshold.'}
+        {' '}Use {'{value}'} in the texts for the measured value.
+      </p>
+      <input
+        type="text"
+        value={draft.message}
+        onChange={(e) => updateDraft({ message: e.target.value })}
+        placeholder="Message, e.g. Passing accuracy needs strengthening"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-gray-600">Positions:</span>
+        {PLAYER_POSITIONS.map(position => (
+          <label key={position} className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={draft.positions?.includes(position) ?? false}
+              onChange={() => togglePosition(position)}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            <span>{position}</span>
+          </label>
+        ))}
+        <span className="text-xs text-gray-400">None ticked applies to every position</span>
+      </div>
+      {draft.kind === 'weakness' && (
+        <div className="grid sm:grid-cols-3 gap-2">
+          <input
+            type="text"
+            value={draft.drill ?? ''}
+            onChange={(e) => updateDraft({ drill: e.target.value })}
+            placeholder="Training drill"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <input
+            type="text"
+            value={draft.drillDuration ?? ''}
+            onChange={(e) => updateDraft({ drillDuration: e.target.value })}
+            placeholder="Duration, e.g. 15-20 min"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={draft.priority}
+            onChange={(e) => updateDraft({ priority: e.target.value as RulePriority })}
+            className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            aria-label="Priority"
+          >
+            {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority} priority</option>)}
+          </select>
+          <input
+            type="text"
+            value={draft.drillDescription ?? ''}
+            onChange={(e) => updateDraft({ drillDescription: e.target.value })}
+            placeholder="Drill description"
+            className="sm:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      )}
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={() => {
+            setEditingId(null);
+            setDraft(null);
+          }}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !draft.message.trim() || !Number.isFinite(draft.threshold)}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 flex items-center"
+        >
+          <Check className="w-4 h-4 mr-1" />
+          Save Rule
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderRule = (rule: PerformanceRule, editable: boolean) => (
+    editingId === rule.id ? (
+      <div key={rule.id}>{renderForm()}</div>
+    ) : (
+      <div key={rule.id} className="flex items-start justify-between py-3">
+        <div className="text-sm">
+          <div className="flex items-center space-x-2">
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+              rule.kind === 'weakness' ? 'bg-orange-100 text-orange-700' : 'bg-green-100 text-green-700'
+            }`}>
+              {rule.kind === 'weakness' ? 'Weakness' : 'Improvement'}
+            </span>
+            <span className="font-medium text-gray-900">{describeCondition(rule)}</span>
+          </div>
+          <div className="text-gray-600 mt-1">{rule.message}</div>
+          <div className="text-xs text-gray-400 mt-1">
+            {rule.positions ? rule.positions.join(', ') : 'All positions'}
+            {rule.drill && ` • ${rule.drill}${rule.drillDuration ? ` (${rule.drillDuration})` : ''} • ${rule.priority} priority`}
+          </div>
+        </div>
+        {editable && (
+          <div className="flex items-center flex-shrink-0">
+            <button onClick={() => startEditing(rule)} className="p-2 text-gray-400 hover:text-blue-600" title="Edit rule">
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => runAction(() => ruleService.deleteRule(rule.id))}
+              disabled={isSaving}
+              className="p-2 text-gray-400 hover:text-red-600"
+              title="Delete rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  );
+
+  const fallbackLabel = ageGroup && !inheritsDefaults ? 'the rules for all age groups' : 'the built-in defaults';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Analysis Rules</h2>
+            <p className="text-sm text-gray-500">
+              Decide which results are flagged as weaknesses or improvements, and which drills are recommended
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 flex items-center space-x-2 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Age group */}
+          <div className="flex flex-wrap gap-2">
+            {['', ...AGE_GROUPS].map(option => (
+              <button
+                key={option || 'all'}
+                onClick={() => {
+                  setAgeGroup(option);
+                  setEditingId(null);
+                  setDraft(null);
+                }}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  ageGroup === option ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option || 'All age groups'}
+                {customisedAgeGroups.has(option) && ' •'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            A player's age group and position come from their latest squad registration. Players without one get the rules for all age groups.
+            Distance and top speed are only measured over the tracked window of a clip, so rules can't use them.
+          </p>
+
+          {scopeRules.length === 0 ? (
+            <div>
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-gray-700">
+                  {ageGroup || 'This workspace'} uses {fallbackLabel}.
+                </p>
+                {!readOnly && (
+                  <button
+                    onClick={() => runAction(() => ruleService.copyRuleSet(userId, organizationId, ageGroup || null, inheritedRules))}
+                    disabled={isSaving}
+                    className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center disabled:opacity-50"
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Customise{ageGroup && ` for ${ageGroup}`}
+                  </button>
+                )}
+              </div>
+              <div className="divide-y divide-gray-100 mt-2">
+                {inheritedRules.map(rule => renderRule(rule, false))}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <div className="divide-y divide-gray-100">
+                {scopeRules.map(rule => renderRule(rule, !readOnly))}
+              </div>
+              {!readOnly && (
+                <div className="mt-4 space-y-3">
+                  {editingId === 'new' ? renderForm() : (
+                    <div className="flex flex-wrap justify-between gap-2">
+                      <button
+                        onClick={() => startEditing(null)}
+                        className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 flex items-center"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Rule
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Delete these rules? ${ageGroup || 'This workspace'} will use ${fallbackLabel} again.`)) {
+                            runAction(() => ruleService.deleteRuleSet(userId, organizationId, ageGroup || null));
+                          }
+                        }}
+                        disabled={isSaving}
+                        className="text-sm text-gray-600 hover:text-red-600 flex items-center"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Revert to {fallbackLabel}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceRules;
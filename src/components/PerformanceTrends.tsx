@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { PerformanceData, PerformanceMetric } from '../App';
+import { buildMetricTrend, MATCH_METRICS, METRIC_LABELS } from '../services/performanceStats';
+
+interface PerformanceTrendsProps {
+  history: PerformanceData[];
+}
+
+// 0-100 的评分和百分比使用固定纵轴，其余指标按数据范围缩放
+const FIXED_SCALE_METRICS: PerformanceMetric[] = ['overall', 'speed', 'passing', 'positioning', 'passAccuracy', 'dominantFoot'];
+
+const METRIC_UNITS: Partial<Record<PerformanceMetric, string>> = {
+  distance: 'km',
+  topSpeed: 'km/h',
+  passAccuracy: '%',
+  dominantFoot: '%'
+};
+
+const RANGE_PRESETS: { label: string; days: number | null }[] = [
+  { label: '近 30 天', days: 30 },
+  { label: '近 90 天', days: 90 },
+  { label: '近一年', days: 365 },
+  { label: '全部', days: null }
+];
+
+const OPPONENT_COLORS = ['#2563eb', '#dc2626', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777', '#4b5563'];
+const UNKNOWN_OPPONENT = '未知对手';
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 280;
+const PADDING = { top: 16, right: 24, bottom: 36, left: 48 };
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const getMetricLabel = (metric: PerformanceMetric) =>
+  metric === 'dominantFoot' ? '左脚使用率' : METRIC_LABELS[metric];
+
+const PerformanceTrends: React.FC<PerformanceTrendsProps> = ({ history }) => {
+  const [metric, setMetric] = useState<PerformanceMetric>('overall');
+  const [rollingWindow, setRollingWindow] = useState(3);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // 滚动平均在完整历史上计算，筛选日期后区间开头的平均值仍包含更早的比赛
+  const trend = buildMetricTrend(history, metric, rollingWindow);
+  const points = trend.filter(point => {
+    const day = point.performance.date.slice(0, 10);
+    return (!fromDate || day >= fromDate) && (!toDate || day <= toDate);
+  });
+
+  const applyPreset = (days: number | null) => {
+    setFromDate(days ? toDateInput(new Date(Date.now() - days * 24 * 60 * 60 * 1000)) : '');
+    setToDate('');
+  };
+
+  const opponents = Array.from(new Set(points.map(point => point.performance.opponent || UNKNOWN_OPPONENT)));
+  const opponentColor = (opponent?: string) =>
+    OPPONENT_COLORS[opponents.indexOf(opponent || UNKNOWN_OPPONENT) % OPPONENT_COLORS.length];
+
+  const unit = METRIC_UNITS[metric] ?? '';
+  const values = points.map(point => point.value);
+  const fixedScale = FIXED_SCALE_METRICS.includes(metric);
+  const yMax = fixedScale ? 100 : Math.max(1, Math.ceil(Math.max(...values, 0) * 1.1));
+  const yMin = 0;
+
+  const times = points.map(point => new Date(point.performance.date).getTime());
+  const firstTime = Math.min(...times);
+  const lastTime = Math.max(...times);
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (time: number) => lastTime === firstTime
+    ? PADDING.left + plotWidth / 2
+    : PADDING.left + ((time - firstTime) / (lastTime - firstTime)) * plotWidth;
+  const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const line = (getValue: (index: number) => number) =>
+    points.map((_, index) => `${x(times[index])},${y(getValue(index))}`).join(' ');
+
+  const band = points.length > 1
+    ? `${line(index => points[index].rollingMax)} ${points.map((_, index) => {
+        const reverseIndex = points.length - 1 - index;
+        return `${x(times[reverseIndex])},${y(points[reverseIndex].rollingMin)}`;
+      }).join(' ')}`
+    : '';
+
+  const yTicks = Array.from({ length: 5 }, (_, index) => yMin + ((yMax - yMin) / 4) * index);
+  const xLabelIndexes = points.length <= 6
+    ? points.map((_, index) => index)
+    : [0, Math.floor((points.length - 1) / 2), points.length - 1];
+
+  const formatValue = (value: number) => `${Math.round(value * 10) / 10}${unit && unit !== '%' ? ` ${unit}` : unit}`;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-4">
+        <h5 className="font-semibold text-gray-900 flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2 text-green-600" />
+          历史趋势
+        </h5>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {RANGE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => applyPreset(preset.days)}
+              className="px-3 py-1 border border-gray-300 rounded-full text-gray-700 hover:border-green-500 hover:text-green-600 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+            aria-label="开始日期"
+          />
+          <span className="text-gray-400">至</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+            aria-label="结束日期"
+          />
+        </div>
+      </div>
+
+      {/* 指标选择 */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {MATCH_METRICS.map(option => (
+          <button
+            key={option}
+            onClick={() => setMetric(option)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+              metric === option ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {getMetricLabel(option)}
+          </button>
+        ))}
+        <select
+          value={rollingWindow}
+          onChange={(e) => setRollingWindow(Number(e.target.value))}
+          className="ml-auto px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          aria-label="滚动平均窗口"
+        >
+          {[3, 5, 10].map(size => (
+            <option key={size} value={size}>{size} 场滚动平均</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-4">跑动距离和最高时速只在视频的追踪片段内测量，不计入整场趋势</p>
+
+      {points.length === 0 ? (
+        <p className="text-center text-gray-500 py-16">
+          所选时间范围内没有测得{getMetricLabel(metric)}的分析记录
+        </p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${getMetricLabel(metric)}趋势`}>
+            {yTicks.map(tick => (
+              <g key={tick}>
+                <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+                <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+                  {Math.round(tick * 10) / 10}
+                </text>
+              </g>
+            ))}
+
+            {xLabelIndexes.map(index => (
+              <text key={index} x={x(times[index])} y={CHART_HEIGHT - 12} textAnchor="middle" fontSize="11" fill="#6b7280">
+                {new Date(points[index].performance.date).toLocaleDateString()}
+              </text>
+            ))}
+
+            {/* 滚动窗口内的最小值到最大值 */}
+            {band && <polygon points={band} fill="#16a34a" fillOpacity={0.12} />}
+
+            <polyline points={line(index => points[index].value)} fill="none" stroke="#9ca3af" strokeWidth={1.5} />
+            <polyline points={line(index => points[index].rollingAverage)} fill="none" stroke="#16a34a" strokeWidth={2.5} />
+
+            {points.map((point, index) => (
+              <circle
+                key={point.performance.matchId}
+                cx={x(times[index])}
+                cy={y(point.value)}
+                r={5}
+                fill={opponentColor(point.performance.opponent)}
+                stroke="#fff"
+                strokeWidth={1.5}
+              >
+                <title>
+                  {`${new Date(point.performance.date).toLocaleDateString()} · 对阵 ${point.performance.opponent || UNKNOWN_OPPONENT}\n`}
+                  {`${getMetricLabel(metric)}: ${formatValue(point.value)} · 滚动平均 ${formatValue(point.rollingAverage)}`}
+                </title>
+              </circle>
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+            <span className="flex items-center"><span className="w-4 h-0.5 bg-gray-400 mr-1" />单场数值</span>
+            <span className="flex items-center"><span className="w-4 h-1 bg-green-600 mr-1" />{rollingWindow} 场滚动平均</span>
+            <span className="flex items-center"><span className="w-4 h-3 bg-green-600/20 mr-1" />滚动最小/最大值</span>
+            {opponents.map(opponent => (
+              <span key={opponent} className="flex items-center">
+                <span className="w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: opponentColor(opponent) }} />
+                {opponent}
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+            {[
+              { label: '最新', value: values[values.length - 1] },
+              { label: '区间平均', value: values.reduce((sum, value) => sum + value, 0) / values.length },
+              { label: '最高', value: Math.max(...values) },
+              { label: '最低', value: Math.min(...values) }
+            ].map(stat => (
+              <div key={stat.label} className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-lg font-semibold text-gray-900">{formatValue(stat.value)}</div>
+                <div className="text-xs text-gray-500">{stat.label} · {points.length} 场</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceTrends;
@@ -0,0 +1,342 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle, Crosshair, RotateCcw, Ruler } from 'lucide-react';
+import { PlayerDetection, SampledFrame } from '../services/analysisProvider';
+import {
+  DEFAULT_PITCH_LENGTH,
+  DEFAULT_PITCH_WIDTH,
+  MIN_CALIBRATION_POINTS,
+  PitchCalibration as PitchCalibrationResult,
+  Point,
+  buildPitchLandmarks,
+  computeHomography,
+  getFootPoint,
+  getReprojectionError,
+  projectToPitch
+} from '../services/pitchCalibration';
+
+interface PitchCalibrationProps {
+  frames: SampledFrame[];
+  players: PlayerDetection[];
+  // Detection picked for analysis; its best frame is offered first
+  playerId?: number;
+  onComplete: (calibration: PitchCalibrationResult | null) => void;
+  onBack?: () => void;
+}
+
+const PitchCalibration: React.FC<PitchCalibrationProps> = ({ frames, players, playerId, onComplete, onBack }) => {
+  const selectedPlayer = players.find(player => player.id === playerId);
+  const [frameIndex, setFrameIndex] = useState(() =>
+    Math.max(0, frames.findIndex(frame => frame.frameIndex === selectedPlayer?.bestFrameIndex))
+  );
+  const [pitchLength, setPitchLength] = useState(DEFAULT_PITCH_LENGTH);
+  const [pitchWidth, setPitchWidth] = useState(DEFAULT_PITCH_WIDTH);
+  // Clicked positions by landmark id, in percent of the frame
+  const [placed, setPlaced] = useState<Record<string, Point>>({});
+  const [activeLandmarkId, setActiveLandmarkId] = useState('corner-tl');
+  const [homeAttacksRight, setHomeAttacksRight] = useState(true);
+
+  const frame = frames[frameIndex];
+  const landmarks = useMemo(() => buildPitchLandmarks(pitchLength, pitchWidth), [pitchLength, pitchWidth]);
+  const points = useMemo(() => landmarks
+    .filter(landmark => placed[landmark.id])
+    .map(landmark => ({ landmarkId: landmark.id, image: placed[landmark.id], pitch: landmark.position })), [landmarks, placed]);
+
+  const homography = useMemo(() => computeHomography(points), [points]);
+  const error = homography ? getReprojectionError(homography, points) : null;
+
+  // Where the detected players in this frame end up on the pitch, as a sanity check of the fit
+  const projectedPlayers = homography && frame
+    ? players.flatMap(player => {
+      const appearance = player.appearances?.find(item => item.frameIndex === frame.frameIndex);
+      const position = appearance && projectToPitch(homography, getFootPoint(appearance));
+      return position ? [{ id: player.id, team: player.team, position }] : [];
+    })
+    : [];
+
+  const handleFrameClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100
+    };
+    const next = { ...placed, [activeLandmarkId]: point };
+    setPlaced(next);
+
+    // Move on to the next landmark that has not been placed yet
+    const activePosition = landmarks.findIndex(landmark => landmark.id === activeLandmarkId);
+    const upcoming = [...landmarks.slice(activePosition + 1), ...landmarks.slice(0, activePosition)]
+      .find(landmark => !next[landmark.id]);
+    if (upcoming) setActiveLandmarkId(upcoming.id);
+  };
+
+  const removePoint = (landmarkId: string) => {
+    setPlaced(prev => {
+      const next = { ...prev };
+      delete next[landmarkId];
+      return next;
+    });
+    setActiveLandmarkId(landmarkId);
+  };
+
+  // Points only hold for the frame they were placed on when the camera moves
+  const changeFrame = (index: number) => {
+    setFrameIndex(index);
+    setPlaced({});
+  };
+
+  const handleConfirm = () => {
+    if (!homography || !frame) return;
+    onComplete({
+      homography,
+      points,
+      pitchLength,
+      pitchWidth,
+      frameTimestamp: frame.timestamp,
+      error: Math.round((error ?? 0) * 100) / 100,
+      homeAttacksRight
+    });
+  };
+
+  const fitMessage = points.length < MIN_CALIBRATION_POINTS
+    ? { tone: 'text-gray-600', text: `Place at least ${MIN_CALIBRATION_POINTS} landmarks (${points.length} placed)` }
+    : !homography
+    ? { tone: 'text-red-600', text: 'These landmarks lie on one line. Add points from another part of the pitch' }
+    : points.length === MIN_CALIBRATION_POINTS
+    ? { tone: 'text-yellow-700', text: 'Exact fit. Add a fifth landmark to check the accuracy' }
+    : error! <= 1.5
+    ? { tone: 'text-green-700', text: `Good fit, landmarks are off by ${error!.toFixed(1)} m on average` }
+    : error! <= 4
+    ? { tone: 'text-yellow-700', text: `Rough fit, landmarks are off by ${error!.toFixed(1)} m on average` }
+    : { tone: 'text-red-600', text: `Poor fit, landmarks are off by ${error!.toFixed(1)} m on average. Check the placed points` };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 py-12">
+      <div className="container mx-auto px-6">
+        <div className="text-center mb-8">
+          <h2 className="text-4xl font-bold text-gray-900 mb-4">Calibrate the Pitch</h2>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            Click the pitch markings you can see in the frame. Distance covered, sprints and top speed are then measured
+            from the tracked positions for the part of the clip the player was tracked. Use footage from a fixed camera:
+            the calibration does not follow pans or zooms, and tracks that drift off the pitch are discarded
+          </p>
+        </div>
+
+        {frames.length === 0 ? (
+          <div className="max-w-xl mx-auto bg-white rounded-2xl shadow-xl p-8 text-center">
+            <AlertCircle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+            <p className="text-gray-700 mb-6">No frames are available from player detection, so the pitch cannot be calibrated.</p>
+            <button
+              onClick={() => onComplete(null)}
+              className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-xl font-semibold transition-colors"
+            >
+              Continue without calibration
+            </button>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 space-y-4">
+              <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+                <div className="relative bg-gray-900 aspect-video cursor-crosshair" onClick={handleFrameClick}>
+                  <img src={frame.url} alt="Calibration frame" className="w-full h-full object-cover select-none" draggable={false} />
+
+                  {landmarks.filter(landmark => placed[landmark.id]).map((landmark, index) => (
+                    <div
+                      key={landmark.id}
+                      className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                      style={{ left: `${placed[landmark.id].x}%`, top: `${placed[landmark.id].y}%` }}
+                    >
+                      <div className={`w-4 h-4 rounded-full border-2 border-white shadow ${landmark.id === activeLandmarkId ? 'bg-yellow-400' : 'bg-green-500'}`} />
+                      <span className="absolute left-5 -top-1 bg-black/70 text-white text-xs px-1.5 py-0.5 rounded whitespace-nowrap">
+                        {index + 1}. {landmark.label}
+                      </span>
+                    </div>
+                  ))}
+
+                  <div className="absolute top-4 left-4 bg-black/70 backdrop-blur-sm text-white px-3 py-2 rounded-lg text-sm flex items-center space-x-2 pointer-events-none">
+                    <Crosshair className="w-4 h-4" />
+                    <span>Click: {landmarks.find(landmark => landmark.id === activeLandmarkId)?.label}</span>
+                  </div>
+                  <div className="absolute top-4 right-4 bg-black/70 backdrop-blur-sm text-white px-3 py-2 rounded-lg text-sm pointer-events-none">
+                    Frame {frameIndex + 1}/{frames.length} • {frame.timestamp.toFixed(1)}s
+                  </div>
+                </div>
+
+                {/* Sampled Frames Filmstrip */}
+                {frames.length > 1 && (
+                  <div className="flex space-x-2 p-3 overflow-x-auto bg-gray-50">
+                    {frames.map((item, index) => (
+                      <button
+                        key={item.frameIndex}
+                        onClick={() => changeFrame(index)}
+                        className={`flex-shrink-0 w-28 aspect-video rounded-lg overflow-hidden border-2 ${index === frameIndex ? 'border-green-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                        title="Placed points are cleared when the frame changes"
+                      >
+                        <img src={item.url} alt={`Frame ${index + 1}`} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <p className="text-sm text-gray-500">
+                Pick the frame that shows the most pitch markings. Calibration assumes the camera does not move during the clip;
+                with a panning camera the measured distances will be off.
+              </p>
+            </div>
+
+            <div className="space-y-6">
+              {/* Pitch diagram: landmarks to click and the detected players projected onto the pitch */}
+              <div className="bg-white rounded-2xl shadow-xl p-6">
+                <h3 className="font-semibold text-gray-900 mb-3 flex items-center">
+                  <Ruler className="w-5 h-5 mr-2 text-green-600" />
+                  Pitch
+                </h3>
+                <svg viewBox={`-3 -3 ${pitchLength + 6} ${pitchWidth + 6}`} className="w-full bg-green-600 rounded-lg mb-4">
+                  <g fill="none" stroke="white" strokeWidth={0.4}>
+                    <rect x={0} y={0} width={pitchLength} height={pitchWidth} />
+                    <line x1={pitchLength / 2} y1={0} x2={pitchLength / 2} y2={pitchWidth} />
+                    <circle cx={pitchLength / 2} cy={pitchWidth / 2} r={9.15} />
+                    <rect x={0} y={pitchWidth / 2 - 20.16} width={16.5} height={40.32} />
+                    <rect x={pitchLength - 16.5} y={pitchWidth / 2 - 20.16} width={16.5} height={40.32} />
+                  </g>
+                  {projectedPlayers.map(player => (
+                    <circle
+                      key={player.id}
+                      cx={player.position.x}
+                      cy={player.position.y}
+                      r={player.id === playerId ? 1.8 : 1.2}
+                      fill={player.id === playerId ? '#facc15' : player.team === 'home' ? '#3b82f6' : '#ef4444'}
+                      stroke="white"
+                      strokeWidth={0.3}
+                    />
+                  ))}
+                  {landmarks.map(landmark => (
+                    <circle
+                      key={landmark.id}
+                      cx={landmark.position.x}
+                      cy={landmark.position.y}
+                      r={landmark.id === activeLandmarkId ? 2 : 1.2}
+                      fill={landmark.id === activeLandmarkId ? '#facc15' : placed[landmark.id] ? '#22c55e' : 'white'}
+                      stroke="#14532d"
+                      strokeWidth={0.3}
+                      className="cursor-pointer"
+                      onClick={() => setActiveLandmarkId(landmark.id)}
+                    >
+                      <title>{landmark.label}</title>
+                    </circle>
+                  ))}
+                </svg>
+                {projectedPlayers.length > 0 && (
+                  <p className="text-xs text-gray-500 mb-4">Dots show where the detected players stand according to this calibration.</p>
+                )}
+
+                <div className="mb-4">
+                  <p className="text-sm text-gray-600 mb-1">Home team attacks towards</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[false, true].map(right => (
+                      <button
+                        key={String(right)}
+                        onClick={() => setHomeAttacksRight(right)}
+                        className={`flex items-center justify-center py-2 rounded-lg border text-sm font-medium ${homeAttacksRight === right ? 'border-green-500 bg-green-50 text-green-700' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        {right ? <>Right goal<ArrowRight className="w-4 h-4 ml-1" /></> : <><ArrowLeft className="w-4 h-4 mr-1" />Left goal</>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-sm text-gray-600">
+                    Length (m)
+                    <input
+                      type="number"
+                      min={45}
+                      max={120}
+                      value={pitchLength}
+                      onChange={(e) => setPitchLength(Number(e.target.value) || DEFAULT_PITCH_LENGTH)}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    Width (m)
+                    <input
+                      type="number"
+                      min={45}
+                      max={90}
+                      value={pitchWidth}
+                      onChange={(e) => setPitchWidth(Number(e.target.value) || DEFAULT_PITCH_WIDTH)}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-2xl shadow-xl p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-gray-900">Landmarks</h3>
+                  {points.length > 0 && (
+                    <button
+                      onClick={() => setPlaced({})}
+                      className="text-sm text-gray-500 hover:text-gray-700 flex items-center"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+                  {landmarks.map(landmark => (
+                    <div
+                      key={landmark.id}
+                      className={`flex items-center justify-between px-3 py-1.5 rounded-lg text-sm ${landmark.id === activeLandmarkId ? 'bg-yellow-50 border border-yellow-300' : 'hover:bg-gray-50'}`}
+                    >
+                      <button onClick={() => setActiveLandmarkId(landmark.id)} className="flex items-center text-left flex-1">
+                        {placed[landmark.id]
+                          ? <CheckCircle className="w-4 h-4 mr-2 text-green-500" />
+                          : <span className="w-4 h-4 mr-2 rounded-full border-2 border-gray-300" />}
+                        {landmark.label}
+                      </button>
+                      {placed[landmark.id] && (
+                        <button onClick={() => removePoint(landmark.id)} className="text-xs text-gray-400 hover:text-red-500">
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <p className={`text-sm mb-4 ${fitMessage.tone}`}>{fitMessage.text}</p>
+
+                <button
+                  onClick={handleConfirm}
+                  disabled={!homography}
+                  className="w-full bg-gradient-to-r from-green-600 to-blue-600 text-white py-3 rounded-xl font-semibold flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span>Use Calibration</span>
+                  <ArrowRight className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => onComplete(null)}
+                  className="w-full mt-2 text-sm text-gray-600 hover:text-gray-800 py-2"
+                >
+                  Skip. Distance, sprints and top speed will not be measured
+                </button>
+                {onBack && (
+                  <button
+                    onClick={onBack}
+                    className="w-full text-sm text-gray-500 hover:text-gray-700 py-2 flex items-center justify-center"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-1" />
+                    Back to player selection
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PitchCalibration;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { ArrowRight, MapPin } from 'lucide-react';
+import { PositionMap } from '../App';
+
+interface PitchHeatmapProps {
+  positionMap: PositionMap;
+  // 查看历史时合并的场次数
+  matchCount?: number;
+}
+
+// 绘图按标准球场比例，数据本身是百分比坐标
+const PITCH_LENGTH = 105;
+const PITCH_WIDTH = 68;
+
+const ZoneBars: React.FC<{ title: string; zones: { label: string; value: number }[] }> = ({ title, zones }) => (
+  <div>
+    <h6 className="text-sm font-medium text-gray-700 mb-2">{title}</h6>
+    <div className="space-y-2">
+      {zones.map(zone => (
+        <div key={zone.label} className="flex items-center text-sm">
+          <span className="w-12 text-gray-600">{zone.label}</span>
+          <div className="flex-1 bg-gray-200 rounded-full h-2 mx-2">
+            <div className="bg-red-500 h-2 rounded-full" style={{ width: `${zone.value}%` }} />
+          </div>
+          <span className="w-12 text-right font-medium text-gray-900">{zone.value}%</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// 俯视球场上跟踪片段内的位置热图、平均位置和各区域停留比例，进攻方向统一朝右
+const PitchHeatmap: React.FC<PitchHeatmapProps> = ({ positionMap, matchCount }) => {
+  const cellWidth = PITCH_LENGTH / positionMap.columns;
+  const cellHeight = PITCH_WIDTH / positionMap.rows;
+  const maxShare = Math.max(...positionMap.grid, 1);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <h5 className="font-semibold text-gray-900 mb-1 flex items-center">
+        <MapPin className="w-5 h-5 mr-2 text-red-500" />
+        跟踪片段位置热图
+      </h5>
+      <p className="text-sm text-gray-500 mb-4">
+        仅跟踪片段：{positionMap.trackedSeconds} 秒内的 {positionMap.samples} 个跟踪位置{matchCount && matchCount > 1 ? `，合并 ${matchCount} 场分析` : ''}，不代表整场；颜色越深表示停留时间越长
+      </p>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div className="md:col-span-2">
+          <svg viewBox={`-2 -2 ${PITCH_LENGTH + 4} ${PITCH_WIDTH + 4}`} className="w-full bg-green-600 rounded-lg">
+            {positionMap.grid.map((share, index) => share > 0 && (
+              <rect
+                key={index}
+                x={(index % positionMap.columns) * cellWidth}
+                y={Math.floor(index / positionMap.columns) * cellHeight}
+                width={cellWidth}
+                height={cellHeight}
+                fill="#ef4444"
+                fillOpacity={0.15 + (share / maxShare) * 0.7}
+              >
+                <title>{share}%</title>
+              </rect>
+            ))}
+            <g fill="none" stroke="white" strokeWidth={0.4}>
+              <rect x={0} y={0} width={PITCH_LENGTH} height={PITCH_WIDTH} />
+              <line x1={PITCH_LENGTH / 2} y1={0} x2={PITCH_LENGTH / 2} y2={PITCH_WIDTH} />
+              <circle cx={PITCH_LENGTH / 2} cy={PITCH_WIDTH / 2} r={9.15} />
+              <rect x={0} y={PITCH_WIDTH / 2 - 20.16} width={16.5} height={40.32} />
+              <rect x={PITCH_LENGTH - 16.5} y={PITCH_WIDTH / 2 - 20.16} width={16.5} height={40.32} />
+              <line x1={PITCH_LENGTH / 3} y1={0} x2={PITCH_LENGTH / 3} y2={PITCH_WIDTH} strokeDasharray="1 1" strokeOpacity={0.5} />
+              <line x1={(PITCH_LENGTH * 2) / 3} y1={0} x2={(PITCH_LENGTH * 2) / 3} y2={PITCH_WIDTH} strokeDasharray="1 1" strokeOpacity={0.5} />
+            </g>
+            <circle
+              cx={(positionMap.averagePosition.x / 100) * PITCH_LENGTH}
+              cy={(positionMap.averagePosition.y / 100) * PITCH_WIDTH}
+              r={2}
+              fill="#facc15"
+              stroke="white"
+              strokeWidth={0.5}
+            >
+              <title>平均位置</title>
+            </circle>
+          </svg>
+          <div className="flex items-center justify-between text-xs text-gray-500 mt-2">
+            <span className="flex items-center">
+              <span className="w-3 h-3 rounded-full bg-yellow-400 border border-white mr-1" />
+              平均位置
+            </span>
+            <span className="flex items-center">
+              进攻方向
+              <ArrowRight className="w-4 h-4 ml-1" />
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <ZoneBars
+            title="纵向区域"
+            zones={[
+              { label: '后场', value: positionMap.thirds.defensive },
+              { label: '中场', value: positionMap.thirds.middle },
+              { label: '前场', value: positionMap.thirds.attacking }
+            ]}
+          />
+          <ZoneBars
+            title="横向通道"
+            zones={[
+              { label: '左路', value: positionMap.channels.left },
+              { label: '中路', value: positionMap.channels.centre },
+              { label: '右路', value: positionMap.channels.right }
+            ]}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PitchHeatmap;
@@ -0,0 +1,349 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, Download, Plus, User, X, AlertCircle } from 'lucide-react';
+import { PerformanceData, PerformanceMetric, PlayerRecord } from '../App';
+import {
+  calculateAveragePerformance,
+  filterHistoryByPeriod,
+  formatMetric,
+  getPercentileRank,
+  isMetricAvailable,
+  MAX_COMPARED_PLAYERS
+} from '../services/performanceStats';
+import { downloadChartsAsPng } from '../services/reportExport';
+
+interface PlayerComparisonProps {
+  // Every player in the workspace; percentiles are ranked against all of them
+  players: PlayerRecord[];
+  playerIds: string[];
+  onSelectionChange: (playerIds: string[]) => void;
+  onBack: () => void;
+}
+
+const PLAYER_COLORS = ['#16a34a', '#2563eb', '#ea580c', '#9333ea'];
+
+const COMPARED_METRICS: { metric: PerformanceMetric; label: string; suffix?: string }[] = [
+  { metric: 'overall', label: 'Overall' },
+  { metric: 'speed', label: 'Speed' },
+  { metric: 'passing', label: 'Passing' },
+  { metric: 'positioning', label: 'Positioning' },
+  { metric: 'passAccuracy', label: 'Pass Rate', suffix: '%' },
+  { metric: 'touches', label: 'Touches' }
+];
+
+// Ratings and percentages already sit on 0-100; the rest are scaled against the best in the squad
+const RATING_METRICS: PerformanceMetric[] = ['overall', 'speed', 'passing', 'positioning', 'passAccuracy'];
+
+const RADAR_SIZE = 420;
+const RADAR_RADIUS = 140;
+const CHART_FONT = '-apple-system, Segoe UI, PingFang SC, sans-serif';
+
+const usable = (history: PerformanceData[]) => history.filter(p => p.analysisStatus !== 'failed');
+
+// The dates every compared player has been analysed across, so averages cover the same stretch of the season
+const getMatchedPeriod = (players: PlayerRecord[]): { from: Date; to: Date } | null => {
+  const ranges = players.map(player => {
+    const times = usable(player.performanceHistory).map(p => new Date(p.date).getTime());
+    return times.length > 0 ? { first: Math.min(...times), last: Math.max(...times) } : null;
+  });
+  if (ranges.some(range => !range)) return null;
+
+  const from = Math.max(...ranges.map(range => range!.first));
+  const to = Math.min(...ranges.map(range => range!.last));
+  return from <= to ? { from: new Date(from), to: new Date(to) } : null;
+};
+
+const PlayerComparison: React.FC<PlayerComparisonProps> = ({ players, playerIds, onSelectionChange, onBack }) => {
+  const [period, setPeriod] = useState<'all' | 'matched'>('all');
+  const [isExporting, setIsExporting] = useState(false);
+  const radarRef = useRef<SVGSVGElement>(null);
+  const percentileRef = useRef<SVGSVGElement>(null);
+
+  const selected = playerIds
+    .map(id => players.find(player => player.id === id))
+    .filter((player): player is PlayerRecord => !!player)
+    .slice(0, MAX_COMPARED_PLAYERS);
+  const available = players.filter(player => player.id && !playerIds.includes(player.id));
+
+  const matchedPeriod = getMatchedPeriod(selected);
+  const averages = selected.map(player =>
+    period === 'matched' && matchedPeriod
+      ? calculateAveragePerformance(filterHistoryByPeriod(player.performanceHistory, matchedPeriod.from, matchedPeriod.to))
+      : player.averagePerformance
+  );
+
+  const squadValues = (metric: PerformanceMetric) => players
+    .filter(player => isMetricAvailable(player.averagePerformance, metric))
+    .map(player => player.averagePerformance[metric] as number);
+
+  // Radar values on 0-100; unmeasured metrics collapse to the centre
+  const radarValue = (average: PerformanceData, metric: PerformanceMetric) => {
+    if (!isMetricAvailable(average, metric)) return 0;
+    const value = average[metric] as number;
+    if (RATING_METRICS.includes(metric)) return Math.min(100, value);
+    const best = Math.max(...squadValues(metric), ...averages.filter(a => isMetricAvailable(a, metric)).map(a => a[metric] as number));
+    return best > 0 ? (value / best) * 100 : 0;
+  };
+
+  const radarPoint = (index: number, value: number) => {
+    const angle = (Math.PI * 2 * index) / COMPARED_METRICS.length - Math.PI / 2;
+    const radius = (value / 100) * RADAR_RADIUS;
+    return { x: RADAR_SIZE / 2 + radius * Math.cos(angle), y: RADAR_SIZE / 2 + radius * Math.sin(angle) };
+  };
+
+  const percentile = (player: PlayerRecord, metric: PerformanceMetric) =>
+    isMetricAvailable(player.averagePerformance, metric)
+      ? getPercentileRank(player.averagePerformance[metric] as number, squadValues(metric))
+      : null;
+
+  const removePlayer = (id: string) => onSelectionChange(playerIds.filter(playerId => playerId !== id));
+  const addPlayer = (id: string) => {
+    if (id && playerIds.length < MAX_COMPARED_PLAYERS) onSelectionChange([...playerIds, id]);
+  };
+
+  const handleExport = async () => {
+    if (!radarRef.current || !percentileRef.current) return;
+    setIsExporting(true);
+    try {
+      await downloadChartsAsPng(
+        `${selected.map(player => player.name).join(' vs ')}`,
+        [radarRef.current, percentileRef.current],
+        `comparison-${selected.map(player => player.name).join('-')}`
+      );
+    } catch (error) {
+      console.error('❌ Failed to export comparison:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const percentileRowHeight = 24 + selected.length * 14;
+  const percentileHeight = 40 + COMPARED_METRICS.length * percentileRowHeight;
+
+  return (
+    <section className="min-h-screen py-8 bg-gradient-to-br from-slate-50 to-green-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+          <div>
+            <button onClick={onBack} className="flex items-center text-gray-600 hover:text-green-600 mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to players
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Compare Players</h1>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={selected.length < 2 || isExporting}
+            className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? 'Exporting...' : 'Export as Image'}
+          </button>
+        </div>
+
+        {/* Selected players */}
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+          <div className="flex flex-wrap items-center gap-3">
+            {selected.map((player, index) => (
+              <div
+                key={player.id}
+                className="flex items-center space-x-2 pl-2 pr-1 py-1 rounded-full border-2"
+                style={{ borderColor: PLAYER_COLORS[index] }}
+              >
+                {player.avatar ? (
+                  <img src={player.avatar} alt={player.name} className="w-7 h-7 rounded-full object-cover" />
+                ) : (
+                  <User className="w-5 h-5 text-gray-500" />
+                )}
+                <span className="font-medium text-gray-900">{player.name}</span>
+                <button onClick={() => removePlayer(player.id!)} className="p-1 text-gray-400 hover:text-red-600" title="Remove">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {selected.length < MAX_COMPARED_PLAYERS && available.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <Plus className="w-4 h-4 text-gray-400" />
+                <select
+                  value=""
+                  onChange={(e) => addPlayer(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Add player...</option>
+                  {available.map(player => (
+                    <option key={player.id} value={player.id}>{player.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {selected.length >= 2 && (
+            <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+              <span className="text-gray-600">Averages over:</span>
+              <button
+                onClick={() => setPeriod('all')}
+                className={`px-3 py-1 rounded-full ${period === 'all' ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                All analyses
+              </button>
+              <button
+                onClick={() => setPeriod('matched')}
+                disabled={!matchedPeriod}
+                className={`px-3 py-1 rounded-full disabled:opacity-50 ${period === 'matched' ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                Matched period
+              </button>
+              <span className="text-gray-500">
+                {matchedPeriod
+                  ? `${matchedPeriod.from.toLocaleDateString()} – ${matchedPeriod.to.toLocaleDateString()}`
+                  : 'These players have no analysed period in common'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {selected.length < 2 ? (
+          <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+            <AlertCircle className="w-8 h-8 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Select at least two players</h3>
+            <p className="text-gray-600">Pick 2 to {MAX_COMPARED_PLAYERS} players to see them side by side.</p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-8">
+            {/* Radar */}
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Average Profile</h3>
+              <p className="text-sm text-gray-500 mb-4">Touches are scaled against the best in the squad. Distance and top speed are only measured over a tracked window, so they are not compared</p>
+              <svg ref={radarRef} viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`} className="w-full h-auto" fontFamily={CHART_FONT}>
+                {[25, 50, 75, 100].map(ring => (
+                  <polygon
+                    key={ring}
+                    points={COMPARED_METRICS.map((_, index) => {
+                      const point = radarPoint(index, ring);
+                      return `${point.x},${point.y}`;
+                    }).join(' ')}
+                    fill="none"
+                    stroke="#e5e7eb"
+                  />
+                ))}
+                {COMPARED_METRICS.map(({ label }, index) => {
+                  const end = radarPoint(index, 100);
+                  const labelPoint = radarPoint(index, 118);
+                  return (
+                    <g key={label}>
+                      <line x1={RADAR_SIZE / 2} y1={RADAR_SIZE / 2} x2={end.x} y2={end.y} stroke="#e5e7eb" />
+                      <text x={labelPoint.x} y={labelPoint.y + 4} textAnchor="middle" fontSize="12" fill="#374151">{label}</text>
+                    </g>
+                  );
+                })}
+                {averages.map((average, playerIndex) => (
+                  <polygon
+                    key={selected[playerIndex].id}
+                    points={COMPARED_METRICS.map(({ metric }, index) => {
+                      const point = radarPoint(index, radarValue(average, metric));
+                      return `${point.x},${point.y}`;
+                    }).join(' ')}
+                    fill={PLAYER_COLORS[playerIndex]}
+                    fillOpacity={0.15}
+                    stroke={PLAYER_COLORS[playerIndex]}
+                    strokeWidth={2}
+                  />
+                ))}
+                {selected.map((player, index) => (
+                  <g key={player.id} transform={`translate(${12 + index * 100}, ${RADAR_SIZE - 12})`}>
+                    <rect width="10" height="10" y="-9" fill={PLAYER_COLORS[index]} />
+                    <text x="14" fontSize="11" fill="#374151">{player.name.slice(0, 12)}</text>
+                  </g>
+                ))}
+              </svg>
+            </div>
+
+            {/* Percentiles */}
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Percentile in Squad</h3>
+              <p className="text-sm text-gray-500 mb-4">Rank of each player's all-time average among {players.length} players</p>
+              <svg ref={percentileRef} viewBox={`0 0 480 ${percentileHeight}`} className="w-full h-auto" fontFamily={CHART_FONT}>
+                {[0, 50, 100].map(tick => (
+                  <g key={tick}>
+                    <line x1={120 + tick * 3} x2={120 + tick * 3} y1={16} y2={percentileHeight} stroke="#f3f4f6" />
+                    <text x={120 + tick * 3} y={12} textAnchor="middle" fontSize="10" fill="#9ca3af">{tick}</text>
+                  </g>
+                ))}
+                {COMPARED_METRICS.map(({ metric, label }, metricIndex) => {
+                  const top = 28 + metricIndex * percentileRowHeight;
+                  return (
+                    <g key={metric}>
+                      <text x={0} y={top + 12} fontSize="12" fill="#111827">{label}</text>
+                      {selected.map((player, playerIndex) => {
+                        const rank = percentile(player, metric);
+                        const y = top + playerIndex * 14;
+                        return (
+                          <g key={player.id}>
+                            <rect x={120} y={y + 2} width={(rank ?? 0) * 3} height={10} rx={2} fill={PLAYER_COLORS[playerIndex]} />
+                            <text x={126 + (rank ?? 0) * 3} y={y + 11} fontSize="10" fill="#374151">
+                              {rank === null ? '—' : rank}
+                            </text>
+                          </g>
+                        );
+                      })}
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+
+            {/* Averages table */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 lg:col-span-2 overflow-x-auto">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                {period === 'matched' && matchedPeriod ? 'Averages in Matched Period' : 'Averages over All Analyses'}
+              </h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    {selected.map((player, index) => (
+                      <th key={player.id} className="py-2 pr-4 font-medium" style={{ color: PLAYER_COLORS[index] }}>
+                        {player.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {COMPARED_METRICS.map(({ metric, label, suffix }) => {
+                    const measured = averages.filter(average => isMetricAvailable(average, metric)).map(average => average[metric] as number);
+                    const best = measured.length > 1 ? Math.max(...measured) : null;
+                    return (
+                      <tr key={metric} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-700">{label}</td>
+                        {averages.map((average, index) => (
+                          <td
+                            key={selected[index].id}
+                            className={`py-2 pr-4 ${isMetricAvailable(average, metric) && average[metric] === best ? 'font-bold text-gray-900' : 'text-gray-700'}`}
+                          >
+                            {formatMetric(average, metric, average[metric] as number, suffix)}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className="py-2 pr-4 text-gray-500">Analyses</td>
+                    {selected.map(player => (
+                      <td key={player.id} className="py-2 pr-4 text-gray-500">
+                        {period === 'matched' && matchedPeriod
+                          ? filterHistoryByPeriod(usable(player.performanceHistory), matchedPeriod.from, matchedPeriod.to).length
+                          : usable(player.performanceHistory).length}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PlayerComparison;
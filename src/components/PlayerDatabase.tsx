@@ -1,23 +1,46 @@
 import React, { useState } from 'react';
-import { Search, User, TrendingUp, Calendar, Star, ArrowRight, Trophy, Target, History, Camera, Upload, Plus, Trash2, AlertCircle } from 'lucide-react';
-import { PlayerRecord } from '../App';
+import { Search, User, TrendingUp, Calendar, Star, ArrowRight, Trophy, Target, History, Camera, Upload, Plus, Trash2, AlertCircle, BarChart3, Flag } from 'lucide-react';
+import { GoalStatus, PerformanceMetric, PlayerRecord } from '../App';
+import { formatMetric, isMetricAvailable, isUnverifiedPerformance, MAX_COMPARED_PLAYERS } from '../services/performanceStats';
+
+const GOAL_METRIC_NAMES: Record<PerformanceMetric, string> = {
+  overall: 'Overall',
+  speed: 'Speed',
+  passing: 'Passing',
+  positioning: 'Positioning',
+  touches: 'Touches',
+  distance: 'Distance',
+  topSpeed: 'Top Speed',
+  passAccuracy: 'Pass Rate',
+  dominantFoot: 'Left Foot Use'
+};
+
+const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  active: 'In progress',
+  achieved: 'Achieved',
+  missed: 'Missed'
+};
 
 interface PlayerDatabaseProps {
   players: PlayerRecord[];
   onPlayerSelect: (player: PlayerRecord) => void;
-  onUploadMoreVideos: (player: PlayerRecord) => void;
+  // Omitted for read-only workspace members
+  onUploadMoreVideos?: (player: PlayerRecord) => void;
   onDeletePlayer?: (playerId: string) => void;
+  onCompare: (playerIds: string[]) => void;
 }
 
 const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({ 
   players, 
   onPlayerSelect, 
   onUploadMoreVideos,
-  onDeletePlayer 
+  onDeletePlayer,
+  onCompare
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'matches' | 'performance' | 'recent'>('recent');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
   const filteredPlayers = players
     .filter(player => 
@@ -50,6 +73,16 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
     return { label: 'Needs Improvement', color: 'bg-red-500' };
   };
 
+  // Players whose history holds at least one measured overall rating
+  const ratedPlayers = players.filter(p => isMetricAvailable(p.averagePerformance, 'overall'));
+
+  const toggleCompare = (playerId: string) => {
+    setCompareIds(prev => prev.includes(playerId)
+      ? prev.filter(id => id !== playerId)
+      : prev.length < MAX_COMPARED_PLAYERS ? [...prev, playerId] : prev
+    );
+  };
+
   const handleDeletePlayer = async (playerId: string) => {
     if (onDeletePlayer) {
       await onDeletePlayer(playerId);
@@ -93,7 +126,7 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
               <Star className="w-6 h-6 text-white" />
             </div>
             <div className="text-2xl font-bold text-gray-900">
-              {players.length > 0 ? Math.round(players.reduce((sum, p) => sum + p.averagePerformance.overall, 0) / players.length) : 0}
+              {ratedPlayers.length > 0 ? Math.round(ratedPlayers.reduce((sum, p) => sum + p.averagePerformance.overall, 0) / ratedPlayers.length) : '—'}
             </div>
             <div className="text-gray-600">Average Rating</div>
           </div>
@@ -153,6 +186,8 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredPlayers.map((player) => {
               const badge = getPerformanceBadge(player.averagePerformance.overall);
+              const average = player.averagePerformance;
+              const unverifiedCount = player.performanceHistory.filter(isUnverifiedPerformance).length;
               return (
                 <div
                   key={player.id}
@@ -204,28 +239,37 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
                     <div className="bg-white/10 backdrop-blur-sm rounded-lg p-3">
                       <div className="flex items-center justify-between">
                         <span className="text-white/80 text-sm">Average Rating</span>
-                        <span className="text-2xl font-bold">{player.averagePerformance.overall}</span>
+                        <span className="text-2xl font-bold">{formatMetric(average, 'overall', average.overall)}</span>
                       </div>
                     </div>
+                    {unverifiedCount > 0 && (
+                      <div
+                        className="mt-3 flex items-center space-x-2 bg-yellow-400/90 text-yellow-900 rounded-lg px-3 py-1.5 text-xs font-medium"
+                        title="Partial or unverified analyses may contain default scores from older versions; missing metrics are left out of the averages"
+                      >
+                        <AlertCircle className="w-4 h-4" />
+                        <span>{unverifiedCount} of {player.performanceHistory.length} analyses incomplete or unverified</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Player Stats */}
                   <div className="p-6">
                     <div className="grid grid-cols-2 gap-4 mb-6">
                       <div className="text-center">
-                        <div className="text-2xl font-bold text-gray-900">{player.averagePerformance.speed}</div>
+                        <div className="text-2xl font-bold text-gray-900">{formatMetric(average, 'speed', average.speed)}</div>
                         <div className="text-sm text-gray-600">Speed</div>
                       </div>
                       <div className="text-center">
-                        <div className="text-2xl font-bold text-gray-900">{player.averagePerformance.passing}</div>
+                        <div className="text-2xl font-bold text-gray-900">{formatMetric(average, 'passing', average.passing)}</div>
                         <div className="text-sm text-gray-600">Passing</div>
                       </div>
                       <div className="text-center">
-                        <div className="text-2xl font-bold text-gray-900">{player.averagePerformance.positioning}</div>
+                        <div className="text-2xl font-bold text-gray-900">{formatMetric(average, 'positioning', average.positioning)}</div>
                         <div className="text-sm text-gray-600">Positioning</div>
                       </div>
                       <div className="text-center">
-                        <div className="text-2xl font-bold text-gray-900">{player.averagePerformance.passAccuracy}%</div>
+                        <div className="text-2xl font-bold text-gray-900">{formatMetric(average, 'passAccuracy', average.passAccuracy, '%')}</div>
                         <div className="text-sm text-gray-600">Pass Rate</div>
                       </div>
                     </div>
@@ -258,6 +302,32 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
                       </div>
                     )}
 
+                    {/* Goals */}
+                    {player.goals && player.goals.length > 0 && (
+                      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Flag className="w-4 h-4 text-blue-600" />
+                          <span className="text-sm font-medium text-blue-800">Goals</span>
+                        </div>
+                        <div className="space-y-2">
+                          {player.goals.map(goal => (
+                            <div key={goal.id}>
+                              <div className="flex justify-between text-xs text-blue-700 mb-1">
+                                <span>{GOAL_METRIC_NAMES[goal.metric]} ≥ {goal.target} by {goal.deadline}</span>
+                                <span className="font-medium">{GOAL_STATUS_LABELS[goal.status]}</span>
+                              </div>
+                              <div className="bg-blue-100 rounded-full h-1.5">
+                                <div
+                                  className={`h-1.5 rounded-full ${goal.status === 'achieved' ? 'bg-green-500' : goal.status === 'missed' ? 'bg-gray-400' : 'bg-blue-500'}`}
+                                  style={{ width: `${goal.progress}%` }}
+                                />
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Last Analysis */}
                     <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
                       <div className="flex items-center space-x-1">
@@ -269,6 +339,19 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
 
                     {/* Action Buttons */}
                     <div className="space-y-3">
+                      {player.id && (
+                        <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={compareIds.includes(player.id)}
+                            disabled={!compareIds.includes(player.id) && compareIds.length >= MAX_COMPARED_PLAYERS}
+                            onChange={() => toggleCompare(player.id!)}
+                            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                          />
+                          <span>Add to comparison</span>
+                        </label>
+                      )}
+
                       <button
                         onClick={() => onPlayerSelect(player)}
                         className="w-full bg-gradient-to-r from-green-600 to-blue-600 text-white py-3 rounded-lg font-semibold hover:shadow-lg transform hover:-translate-y-1 transition-all duration-200 flex items-center justify-center"
@@ -277,13 +360,15 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
                         <ArrowRight className="w-4 h-4 ml-2" />
                       </button>
                       
-                      <button
-                        onClick={() => onUploadMoreVideos(player)}
-                        className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 rounded-lg font-semibold hover:shadow-lg transform hover:-translate-y-1 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <Upload className="w-4 h-4 mr-2" />
-                        Upload More Videos
-                      </button>
+                      {onUploadMoreVideos && (
+                        <button
+                          onClick={() => onUploadMoreVideos(player)}
+                          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 rounded-lg font-semibold hover:shadow-lg transform hover:-translate-y-1 transition-all duration-200 flex items-center justify-center"
+                        >
+                          <Upload className="w-4 h-4 mr-2" />
+                          Upload More Videos
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -400,6 +485,29 @@ const PlayerDatabase: React.FC<PlayerDatabaseProps> = ({
           </div>
         )}
 
+        {/* Comparison Bar */}
+        {compareIds.length > 0 && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 bg-white rounded-full shadow-2xl border border-gray-200 px-6 py-3 flex items-center space-x-4">
+            <span className="text-sm text-gray-700">
+              {compareIds.length} of {MAX_COMPARED_PLAYERS} players selected
+            </span>
+            <button
+              onClick={() => setCompareIds([])}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => onCompare(compareIds)}
+              disabled={compareIds.length < 2}
+              className="flex items-center bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-2 rounded-full text-sm font-semibold disabled:opacity-50"
+            >
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Compare
+            </button>
+          </div>
+        )}
+
         {/* Delete Confirmation Modal */}
         {showDeleteConfirm && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
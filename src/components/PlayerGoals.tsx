@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Flag, Plus, Trash2, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { GoalStatus, PerformanceData, PerformanceMetric, PlayerGoal } from '../App';
+import { MATCH_METRICS, METRIC_LABELS } from '../services/performanceStats';
+import { goalService, getLatestMeasurement } from '../services/goals';
+
+interface PlayerGoalsProps {
+  playerId?: string;
+  goals: PlayerGoal[];
+  history: PerformanceData[];
+  // 教练可以设定和删除目标
+  userId?: string;
+  canEdit?: boolean;
+  onGoalsChanged?: () => void;
+}
+
+const STATUS_STYLES: Record<GoalStatus, { label: string; bar: string; badge: string; icon: typeof Clock }> = {
+  active: { label: '进行中', bar: 'bg-blue-500', badge: 'bg-blue-100 text-blue-700', icon: Clock },
+  achieved: { label: '已达成', bar: 'bg-green-500', badge: 'bg-green-100 text-green-700', icon: CheckCircle },
+  missed: { label: '已过期', bar: 'bg-gray-400', badge: 'bg-gray-100 text-gray-600', icon: AlertCircle }
+};
+
+const getMetricLabel = (metric: PerformanceMetric) =>
+  metric === 'dominantFoot' ? '左脚使用率' : METRIC_LABELS[metric];
+
+// 球员目标和完成进度；进度在保存新的分析时更新
+const PlayerGoals: React.FC<PlayerGoalsProps> = ({ playerId, goals: initialGoals, history, userId, canEdit = false, onGoalsChanged }) => {
+  const [goals, setGoals] = useState<PlayerGoal[]>(initialGoals);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [metric, setMetric] = useState<PerformanceMetric>('passAccuracy');
+  const [target, setTarget] = useState('');
+  const [deadline, setDeadline] = useState('');
+
+  const editable = canEdit && !!playerId && !!userId;
+  const latest = getLatestMeasurement(history, metric);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!playerId || !userId) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const goal = await goalService.createGoal(userId, playerId, history, { metric, target: Number(target), deadline });
+      setGoals(prev => [...prev, goal]);
+      setTarget('');
+      setDeadline('');
+      setShowForm(false);
+      onGoalsChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '设定目标失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (goalId: string) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await goalService.deleteGoal(goalId);
+      setGoals(prev => prev.filter(goal => goal.id !== goalId));
+      onGoalsChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '删除目标失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sortedGoals = [...goals].sort((a, b) => a.deadline.localeCompare(b.deadline));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Flag className="w-5 h-5 mr-2 text-blue-600" />
+          目标进度
+        </h4>
+        {editable && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-sm text-green-600 hover:text-green-700 font-medium flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            设定目标
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 mb-3 flex items-center space-x-2 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-gray-50 rounded-lg p-4 mb-4 grid md:grid-cols-4 gap-2 text-sm">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as PerformanceMetric)}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            aria-label="指标"
+          >
+            {MATCH_METRICS.map(option => <option key={option} value={option}>{getMetricLabel(option)}</option>)}
+          </select>
+          <input
+            type="number"
+            step="0.1"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={latest ? `目标值（当前 ${latest.value}）` : '目标值'}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            required
+          />
+          <input
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            aria-label="截止日期"
+            required
+          />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-green-600 text-white px-3 py-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              保存
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800"
+            >
+              取消
+            </button>
+          </div>
+          <p className="md:col-span-4 text-xs text-gray-500">跑动距离和最高时速只在视频的追踪片段内测量，不能设为目标</p>
+        </form>
+      )}
+
+      {sortedGoals.length === 0 ? (
+        <div className="bg-gray-50 rounded-lg p-4 text-center">
+          <p className="text-gray-600">还没有设定目标</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-3">
+          {sortedGoals.map(goal => {
+            const style = STATUS_STYLES[goal.status];
+            const StatusIcon = style.icon;
+            return (
+              <div key={goal.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-gray-900">
+                    {getMetricLabel(goal.metric)} ≥ {goal.target}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full flex items-center ${style.badge}`}>
+                      <StatusIcon className="w-3 h-3 mr-1" />
+                      {style.label}
+                    </span>
+                    {editable && (
+                      <button
+                        onClick={() => handleDelete(goal.id)}
+                        disabled={isSaving}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="删除目标"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div className={`${style.bar} h-2 rounded-full`} style={{ width: `${goal.progress}%` }} />
+                  </div>
+                  <span className="text-sm font-medium">{goal.progress}%</span>
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-2">
+                  <span>
+                    当前 {goal.currentValue ?? '—'}
+                    {goal.baseline !== undefined && ` · 起点 ${goal.baseline}`}
+                  </span>
+                  <span>
+                    {goal.status === 'achieved' && goal.achievedAt
+                      ? `${new Date(goal.achievedAt).toLocaleDateString()} 达成`
+                      : `截止 ${goal.deadline}`}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerGoals;
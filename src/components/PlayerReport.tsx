@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, Loader } from 'lucide-react';
+import { PerformanceData, PerformanceRule, PlayerRecord, Team } from '../App';
+import { databaseService } from '../services/database';
+import { calculateAveragePerformance } from '../services/performanceStats';
+import { getPlayerRuleContext, resolvePlayerRules } from '../services/performanceRules';
+import { TrainingAccess } from '../services/training';
+import Dashboard from './Dashboard';
+
+interface PlayerReportProps {
+  playerId: string;
+  // Shows this analysis instead of the player's history
+  matchId?: string;
+  onBack: () => void;
+  onSelectPerformance: (performance: PerformanceData) => void;
+  onShare?: (player: PlayerRecord, performance: PerformanceData | null) => void;
+  // Workspace analysis rules; the player's squad registration picks the ones that apply
+  rules: PerformanceRule[];
+  teams: Team[];
+  // Passed through to the history view's training plan
+  training?: TrainingAccess;
+  onGoalsChanged?: () => void;
+}
+
+// A single analysis is compared with the analyses that came before it
+const getRecordBefore = (player: PlayerRecord, performance: PerformanceData): PlayerRecord | null => {
+  const previous = player.performanceHistory.filter(p =>
+    p.matchId !== performance.matchId && new Date(p.date).getTime() < new Date(performance.date).getTime()
+  );
+  if (previous.length === 0) return null;
+
+  return {
+    ...player,
+    totalMatches: previous.length,
+    performanceHistory: previous,
+    averagePerformance: calculateAveragePerformance(previous),
+    improvements: [],
+    weaknesses: []
+  };
+};
+
+// Player and analysis pages opened by URL load their own data
+const PlayerReport: React.FC<PlayerReportProps> = ({ playerId, matchId, onBack, onSelectPerformance, onShare, rules, teams, training, onGoalsChanged }) => {
+  const [player, setPlayer] = useState<PlayerRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    databaseService.getPlayer(playerId).then(record => {
+      if (cancelled) return;
+      setPlayer(record);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  const performance = matchId ? player?.performanceHistory.find(p => p.matchId === matchId) : undefined;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-32 text-gray-600">
+        <Loader className="w-6 h-6 mr-2 animate-spin text-green-600" />
+        Loading player...
+      </div>
+    );
+  }
+
+  if (!player || (matchId && !performance)) {
+    return (
+      <div className="max-w-md mx-auto py-32 px-4 text-center">
+        <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">
+          {player ? 'Analysis not found' : 'Player not found'}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          It may have been deleted, or it belongs to a workspace you are not currently in.
+        </p>
+        <button
+          onClick={onBack}
+          className="inline-flex items-center bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to players
+        </button>
+      </div>
+    );
+  }
+
+  const playerRules = resolvePlayerRules(rules, getPlayerRuleContext(player.id, teams));
+
+  return performance ? (
+    <Dashboard
+      key={`${player.id}-${performance.matchId}`}
+      playerName={player.name}
+      playerId={0}
+      existingPlayer={getRecordBefore(player, performance)}
+      initialPerformance={performance}
+      onAnalysisComplete={() => {}}
+      onShare={onShare ? () => onShare(player, performance) : undefined}
+      rules={playerRules}
+    />
+  ) : (
+    <Dashboard
+      key={player.id}
+      playerName={player.name}
+      playerId={0}
+      existingPlayer={player}
+      viewingHistoryOnly
+      onAnalysisComplete={() => {}}
+      onSelectPerformance={onSelectPerformance}
+      onShare={onShare ? () => onShare(player, null) : undefined}
+      rules={playerRules}
+      training={training}
+      onGoalsChanged={onGoalsChanged}
+    />
+  );
+};
+
+export default PlayerReport;
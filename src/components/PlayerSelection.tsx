@@ -1,29 +1,49 @@
 import React, { useState, useEffect } from 'react';
-import { Users, User, CheckCircle, ArrowRight, Loader, History, Star, Camera, AlertCircle, RefreshCw, Target, Zap, Brain } from 'lucide-react';
-import { PlayerRecord } from '../App';
-import { FootballAI, PlayerDetection } from '../services/geminiAI';
+import { Users, User, CheckCircle, ArrowRight, Loader, History, Star, Camera, AlertCircle, RefreshCw, Target, Zap, Brain, Plus, X, Trophy, PenSquare } from 'lucide-react';
+import { MatchInfo, PlayerRecord, SelectedPlayerEntry, Team } from '../App';
+import { PlayerDetection, PlayerAppearance, SampledFrame } from '../services/analysisProvider';
+import { analysisProvider } from '../services/analysis';
+import { suggestRosterPlayer, RosterSuggestion } from '../services/teams';
+import { detectionAnnotationService } from '../services/detectionAnnotations';
+import { AppearanceMatch, MIN_PRESELECT_MARGIN, MIN_PRESELECT_SCORE, rankDetectionsByAppearance } from '../services/appearanceSignature';
+import { cropAvatar, extractFramesAtTimestamps } from '../services/videoFrames';
+import DetectionAnnotator from './DetectionAnnotator';
+import FrameScrubber from './FrameScrubber';
 
 interface PlayerSelectionProps {
   videoFile: File;
-  onPlayerSelected: (playerId: number, playerName: string, playerAvatar?: string, players?: PlayerDetection[]) => void;
+  onPlayersSelected: (selections: SelectedPlayerEntry[], match: MatchInfo, players?: PlayerDetection[], frames?: SampledFrame[]) => void;
   playerDatabase: PlayerRecord[];
   existingDetectedPlayers?: PlayerDetection[];
+  existingFrames?: SampledFrame[];
   uploadingForPlayer?: PlayerRecord | null;
+  // Match already opened for this video, when coming back to pick more players
+  existingMatch?: MatchInfo | null;
+  // Squads used to suggest a player from the detected jersey number and kit colour
+  teams?: Team[];
+  // Signed-in user; corrected detections are saved per user and video
+  userId?: string;
 }
 
 const PlayerSelection: React.FC<PlayerSelectionProps> = ({ 
   videoFile, 
-  onPlayerSelected, 
+  onPlayersSelected, 
   playerDatabase, 
   existingDetectedPlayers,
-  uploadingForPlayer
+  existingFrames,
+  uploadingForPlayer,
+  existingMatch,
+  teams = [],
+  userId
 }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(!existingDetectedPlayers || existingDetectedPlayers.length === 0);
   const [detectedPlayers, setDetectedPlayers] = useState<PlayerDetection[]>(existingDetectedPlayers || []);
-  const [bestFrameUrl, setBestFrameUrl] = useState<string>('');
-  const [bestFrameTimestamp, setBestFrameTimestamp] = useState<number>(0);
+  const [sampledFrames, setSampledFrames] = useState<SampledFrame[]>(existingFrames || []);
+  const [activeFrameIndex, setActiveFrameIndex] = useState<number>(0);
   const [selectedPlayerId, setSelectedPlayerId] = useState<number | null>(null);
   const [playerName, setPlayerName] = useState(uploadingForPlayer?.name || '');
+  const [selectedRecordId, setSelectedRecordId] = useState<string | undefined>(uploadingForPlayer?.id);
+  const [rosterSuggestion, setRosterSuggestion] = useState<RosterSuggestion | null>(null);
   const [suggestedPlayers, setSuggestedPlayers] = useState<PlayerRecord[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [capturedAvatar, setCapturedAvatar] = useState<string | null>(uploadingForPlayer?.avatar || null);
@@ -33,68 +53,111 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
   const [teamColors, setTeamColors] = useState<{home: string, away: string}>({home: '', away: ''});
   const [hasAttemptedAnalysis, setHasAttemptedAnalysis] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
-  const footballAI = new FootballAI();
+  // Annotation mode: draw missed players and fix boxes, teams, jerseys and referees by hand
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationSelectedId, setAnnotationSelectedId] = useState<number | null>(null);
+  const [annotationStatus, setAnnotationStatus] = useState<string>('');
+  // How much each detection looks like the player a video is being uploaded for, most likely first
+  const [appearanceMatches, setAppearanceMatches] = useState<AppearanceMatch[]>([]);
+  // Players queued for analysis from this video, all linked to one match
+  const [lineup, setLineup] = useState<SelectedPlayerEntry[]>([]);
+  const [matchDetails, setMatchDetails] = useState<MatchInfo>(() => ({
+    ...existingMatch,
+    date: (existingMatch?.date ? new Date(existingMatch.date) : new Date()).toISOString().slice(0, 10)
+  }));
 
   useEffect(() => {
     if ((!existingDetectedPlayers || existingDetectedPlayers.length === 0) && !hasAttemptedAnalysis) {
       console.log('Starting initial AI optimal frame analysis...');
       setHasAttemptedAnalysis(true);
-      analyzeVideoWithAI();
+      restoreAnnotationOrAnalyze();
     } else if (existingDetectedPlayers && existingDetectedPlayers.length > 0) {
       console.log('Using existing detection results:', existingDetectedPlayers.length, 'players');
       setDetectedPlayers(existingDetectedPlayers);
+      setSampledFrames(existingFrames || []);
       setIsAnalyzing(false);
       
       const homeTeamColor = existingDetectedPlayers.find(p => p.team === 'home')?.teamColor || 'Blue';
       const awayTeamColor = existingDetectedPlayers.find(p => p.team === 'away')?.teamColor || 'Red';
       setTeamColors({ home: homeTeamColor, away: awayTeamColor });
     }
-  }, [videoFile, existingDetectedPlayers, hasAttemptedAnalysis]);
+  }, [videoFile, existingDetectedPlayers, existingFrames, hasAttemptedAnalysis]);
+
+  // Corrections saved for this video replace a new detection run
+  const restoreAnnotationOrAnalyze = async () => {
+    const annotation = userId ? await detectionAnnotationService.getAnnotation(userId, videoFile) : null;
+    if (!annotation) {
+      analyzeVideoWithAI();
+      return;
+    }
+
+    try {
+      setIsAnalyzing(true);
+      setAnalysisProgress(30);
+      setAnalysisStatus('Restoring your corrected detections...');
+      const frames = await extractFramesAtTimestamps(videoFile, annotation.frameTimestamps);
+      if (frames.length !== annotation.frameTimestamps.length) {
+        throw new Error('Saved frames no longer match the video');
+      }
+
+      setSampledFrames(frames);
+      setDetectedPlayers(annotation.players);
+      const frameCounts = frames.map(frame =>
+        annotation.players.filter(player => !player.isReferee && player.appearances?.some(a => a.frameIndex === frame.frameIndex)).length
+      );
+      setActiveFrameIndex(frameCounts.indexOf(Math.max(...frameCounts)));
+
+      const homeTeamColor = annotation.players.find(p => p.team === 'home')?.teamColor || 'Blue';
+      const awayTeamColor = annotation.players.find(p => p.team === 'away')?.teamColor || 'Red';
+      setTeamColors({ home: homeTeamColor, away: awayTeamColor });
+      setAnnotationStatus(`Restored corrections saved ${new Date(annotation.updatedAt).toLocaleString()}`);
+      rankAgainstUploadingPlayer(annotation.players, frames, true);
+      setAnalysisProgress(100);
+      setIsAnalyzing(false);
+    } catch (error) {
+      console.warn('⚠️ Unable to restore saved detections, detecting again:', error);
+      analyzeVideoWithAI();
+    }
+  };
 
-  const analyzeVideoWithAI = async () => {
+  // sampleTimestamps: detect on frames at these times (seconds) instead of sampling across the clip
+  const analyzeVideoWithAI = async (sampleTimestamps?: number[]) => {
     try {
-      console.log('🎯 Starting AI optimal frame analysis...');
+      console.log('🎯 Starting AI optimal frame analysis...', sampleTimestamps ? { sampleTimestamps } : {});
       setIsAnalyzing(true);
       setAnalysisProgress(0);
-      setAnalysisStatus('Extracting frame with most players...');
+      setAnalysisStatus(sampleTimestamps ? 'Extracting the chosen frame...' : 'Sampling frames across the video...');
       setAnalysisError('');
       setDetectedPlayers([]);
+      setAppearanceMatches([]);
 
-      // Enhanced progress simulation
-      const progressStages = [
-        { target: 15, duration: 1000, message: 'Initializing Gemini video analysis...' },
-        { target: 35, duration: 2000, message: 'Scanning video frames for player density...' },
-        { target: 55, duration: 2500, message: 'AI analyzing each frame for optimal detection...' },
-        { target: 75, duration: 2000, message: 'Filtering referees and identifying players...' },
-        { target: 90, duration: 1500, message: 'Generating precise player boundaries...' }
-      ];
-
-      // Animate through progress stages
-      for (const stage of progressStages) {
-        setAnalysisStatus(stage.message);
-        await animateProgress(stage.target, stage.duration);
-      }
-
-      setAnalysisStatus('Gemini is analyzing video, finding optimal frame and filtering referees...');
-
-      const result = await footballAI.uploadAndAnalyzeVideo(videoFile);
+      const result = await analysisProvider.analyzeFullVideo(videoFile, {
+        sampleTimestamps,
+        onProgress: (completedFrames, totalFrames) => {
+          setAnalysisProgress(10 + (completedFrames / totalFrames) * 85);
+          setAnalysisStatus(completedFrames < totalFrames
+            ? `Detecting players in frame ${completedFrames + 1} of ${totalFrames}...`
+            : 'Merging players seen across frames...');
+        }
+      });
       
-      console.log('AI optimal frame analysis complete, detected players:', result.players.length);
+      console.log('AI multi-frame analysis complete, merged players:', result.players.length);
       
       setAnalysisProgress(100);
-      setAnalysisStatus('Gemini analysis complete, optimal frame player identification successful (referees filtered)!');
+      setAnalysisStatus(`Analysis complete, ${result.players.length} players found across ${result.frames.length} frames (referees filtered)!`);
       
       if (result.players && result.players.length > 0) {
         setDetectedPlayers(result.players);
-        setBestFrameUrl(result.bestFrameUrl);
-        setBestFrameTimestamp(result.bestFrameTimestamp);
+        setSampledFrames(result.frames);
+        setActiveFrameIndex(Math.max(0, result.frames.findIndex(frame => frame.url === result.bestFrameUrl)));
         
         const homeTeamColor = result.players.find(p => p.team === 'home')?.teamColor || 'Blue';
         const awayTeamColor = result.players.find(p => p.team === 'away')?.teamColor || 'Red';
         setTeamColors({ home: homeTeamColor, away: awayTeamColor });
+        rankAgainstUploadingPlayer(result.players, result.frames, true);
         
         console.log('Optimal frame data set successfully, team colors:', { home: homeTeamColor, away: awayTeamColor });
-        console.log('Optimal frame timestamp:', result.bestFrameTimestamp, 'seconds');
+        console.log('Default preview frame timestamp:', result.bestFrameTimestamp, 'seconds');
       } else {
         console.warn('AI analysis returned empty results');
         setAnalysisError('Gemini detected no players, please try again');
@@ -113,39 +176,100 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
     }
   };
 
-  const animateProgress = (target: number, duration: number): Promise<void> => {
-    return new Promise(resolve => {
-      const startProgress = analysisProgress;
-      const startTime = Date.now();
-      
-      const animate = () => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-        const currentProgress = startProgress + (target - startProgress) * progress;
-        
-        setAnalysisProgress(currentProgress);
-        
-        if (progress < 1) {
-          requestAnimationFrame(animate);
-        } else {
-          resolve();
-        }
-      };
-      
-      animate();
-    });
+  // Ranks the detections against the stored appearance of the player we are uploading for,
+  // and with preselect picks the best one when it is a clear match
+  const rankAgainstUploadingPlayer = async (players: PlayerDetection[], frames: SampledFrame[], preselect: boolean) => {
+    if (!uploadingForPlayer) return;
+
+    const matches = await rankDetectionsByAppearance(uploadingForPlayer, players, frames);
+    setAppearanceMatches(matches);
+
+    const [best, second] = matches;
+    if (!preselect || !best || best.score < MIN_PRESELECT_SCORE || (second && best.score - second.score < MIN_PRESELECT_MARGIN)) {
+      return;
+    }
+
+    console.log('🔎 Pre-selected likely match for', uploadingForPlayer.name, best);
+    const player = players.find(p => p.id === best.playerId);
+    setSelectedPlayerId(best.playerId);
+    if (player?.bestFrameIndex !== undefined && frames[player.bestFrameIndex]) {
+      setActiveFrameIndex(player.bestFrameIndex);
+    }
   };
 
   const handleRetryAnalysis = () => {
     console.log('User manually retrying analysis...');
     setHasAttemptedAnalysis(false);
     setDetectedPlayers([]);
-    setBestFrameUrl('');
-    setBestFrameTimestamp(0);
+    setSampledFrames([]);
+    setActiveFrameIndex(0);
     setAnalysisError('');
+    setIsAnnotating(false);
+    setAnnotationStatus('');
     analyzeVideoWithAI();
   };
 
+  // Detect again on a moment picked in the scrubber, replacing the current detections
+  const handleDetectAt = (timestamp: number) => {
+    const hasWork = lineup.length > 0 || detectedPlayers.some(player => player.corrected);
+    if (hasWork && !window.confirm('Detecting again replaces the current detections, including corrections and queued players. Continue?')) {
+      return;
+    }
+
+    console.log('🎯 Detecting players at chosen moment:', timestamp.toFixed(1), 's');
+    setSelectedPlayerId(null);
+    setCapturedAvatar(uploadingForPlayer?.avatar || null);
+    setRosterSuggestion(null);
+    setLineup([]);
+    setSampledFrames([]);
+    setActiveFrameIndex(0);
+    setIsAnnotating(false);
+    setAnnotationStatus('');
+    analyzeVideoWithAI([timestamp]);
+  };
+
+  const handleStartAnnotating = () => {
+    setIsAnnotating(true);
+    setAnnotationSelectedId(selectedPlayerId);
+  };
+
+  // Referees and removed boxes can no longer be picked for analysis
+  const handleDetectionsChanged = (players: PlayerDetection[]) => {
+    setDetectedPlayers(players);
+    const selectable = new Set(players.filter(player => !player.isReferee).map(player => player.id));
+    if (selectedPlayerId !== null && !selectable.has(selectedPlayerId)) {
+      setSelectedPlayerId(null);
+      setCapturedAvatar(uploadingForPlayer?.avatar || null);
+    }
+    setLineup(prev => prev.filter(entry => selectable.has(entry.detectionId)));
+  };
+
+  const handleFinishAnnotating = async () => {
+    setIsAnnotating(false);
+    setAnnotationSelectedId(null);
+
+    // The avatar follows a corrected box
+    const selected = detectedPlayers.find(player => player.id === selectedPlayerId);
+    if (selected?.corrected && !uploadingForPlayer) {
+      capturePlayerAvatarFromBestFrame(selected);
+    }
+    rankAgainstUploadingPlayer(detectedPlayers, sampledFrames, selectedPlayerId === null);
+
+    if (!userId) {
+      setAnnotationStatus('Corrections apply to this session only; sign in to keep them');
+      return;
+    }
+
+    try {
+      setAnnotationStatus('Saving corrections...');
+      await detectionAnnotationService.saveAnnotation(userId, videoFile, detectedPlayers, sampledFrames);
+      setAnnotationStatus('Corrections saved and will be restored for this video');
+    } catch (error) {
+      console.error('❌ Failed to save corrections:', error);
+      setAnnotationStatus(error instanceof Error ? error.message : 'Failed to save corrections');
+    }
+  };
+
   // Fixed: Filter suggestions based on starting characters only
   useEffect(() => {
     if (uploadingForPlayer) {
@@ -172,15 +296,40 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
     }
   }, [playerName, playerDatabase, uploadingForPlayer]);
 
+  // Box of a player in a given frame; detections without appearances only have their own frame
+  const getAppearanceInFrame = (player: PlayerDetection, frameIndex: number): PlayerAppearance | undefined => {
+    if (!player.appearances) {
+      return frameIndex === activeFrameIndex ? { ...player, frameIndex } : undefined;
+    }
+    return player.appearances.find(appearance => appearance.frameIndex === frameIndex);
+  };
+
+  const getBestAppearance = (player: PlayerDetection): PlayerAppearance => {
+    const frameIndex = player.bestFrameIndex ?? activeFrameIndex;
+    return getAppearanceInFrame(player, frameIndex) || { ...player, frameIndex };
+  };
+
   const handlePlayerClick = async (playerId: number) => {
     setSelectedPlayerId(playerId);
     
+    const selectedPlayer = detectedPlayers.find(p => p.id === playerId);
+    if (selectedPlayer?.bestFrameIndex !== undefined && sampledFrames[selectedPlayer.bestFrameIndex]) {
+      setActiveFrameIndex(selectedPlayer.bestFrameIndex);
+    }
+    
     if (uploadingForPlayer) {
       return;
     }
+
+    // A confident roster match fills in the name; a weaker one is only offered
+    const suggestion = selectedPlayer ? suggestRosterPlayer(selectedPlayer, teams) : null;
+    if (suggestion && suggestion.confidence === 1 && !playerName.trim()) {
+      applyRosterSuggestion(suggestion);
+    } else {
+      setRosterSuggestion(suggestion);
+    }
     
-    const selectedPlayer = detectedPlayers.find(p => p.id === playerId);
-    if (selectedPlayer && bestFrameUrl) {
+    if (selectedPlayer && sampledFrames.length > 0) {
       setTimeout(() => {
         capturePlayerAvatarFromBestFrame(selectedPlayer);
       }, 500);
@@ -188,104 +337,134 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
   };
 
   const capturePlayerAvatarFromBestFrame = async (player: PlayerDetection) => {
-    if (!bestFrameUrl || !selectedPlayerId) return;
+    const appearance = getBestAppearance(player);
+    const frame = sampledFrames[appearance.frameIndex];
+    if (!frame) return;
     
     setIsCapturingAvatar(true);
     
     try {
-      console.log('📸 Capturing player avatar from optimal frame (boundary box mode)...', { 
+      console.log('📸 Capturing player avatar from best frame (boundary box mode)...', { 
         playerId: player.id, 
-        x: player.x, 
-        y: player.y, 
-        width: player.width, 
-        height: player.height 
+        frameTimestamp: frame.timestamp,
+        x: appearance.x, 
+        y: appearance.y, 
+        width: appearance.width, 
+        height: appearance.height 
       });
       
-      const img = new Image();
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        throw new Error('Unable to create canvas context');
-      }
-
-      img.onload = () => {
-        try {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          ctx.drawImage(img, 0, 0);
-          
-          const cropX = (player.x / 100) * canvas.width;
-          const cropY = (player.y / 100) * canvas.height;
-          const cropWidth = (player.width / 100) * canvas.width;
-          const cropHeight = (player.height / 100) * canvas.height;
-          
-          const safeCropX = Math.max(0, Math.min(canvas.width - cropWidth, cropX));
-          const safeCropY = Math.max(0, Math.min(canvas.height - cropHeight, cropY));
-          const safeCropWidth = Math.min(cropWidth, canvas.width - safeCropX);
-          const safeCropHeight = Math.min(cropHeight, canvas.height - safeCropY);
-          
-          const avatarCanvas = document.createElement('canvas');
-          const avatarCtx = avatarCanvas.getContext('2d');
-          avatarCanvas.width = 150;
-          avatarCanvas.height = 150;
-          
-          if (avatarCtx) {
-            avatarCtx.drawImage(
-              canvas,
-              safeCropX,
-              safeCropY,
-              safeCropWidth,
-              safeCropHeight,
-              0,
-              0,
-              150,
-              150
-            );
-            
-            const avatarDataUrl = avatarCanvas.toDataURL('image/jpeg', 0.8);
-            setCapturedAvatar(avatarDataUrl);
-            console.log('✅ Successfully captured player avatar from optimal frame (boundary box precise positioning)');
-          }
-        } catch (error) {
-          console.error('❌ Failed to capture avatar from optimal frame:', error);
-        } finally {
-          setIsCapturingAvatar(false);
-        }
-      };
-      
-      img.onerror = () => {
-        console.error('❌ Optimal frame image loading failed');
-        setIsCapturingAvatar(false);
-      };
-      
-      img.src = bestFrameUrl;
-      
+      setCapturedAvatar(await cropAvatar(frame.url, appearance));
+      console.log('✅ Successfully captured player avatar from optimal frame (boundary box precise positioning)');
     } catch (error) {
       console.error('❌ Failed to capture avatar from optimal frame:', error);
+    } finally {
       setIsCapturingAvatar(false);
     }
   };
 
+  const applyRosterSuggestion = (suggestion: RosterSuggestion) => {
+    setPlayerName(suggestion.member.playerName);
+    setSelectedRecordId(suggestion.member.playerId);
+    setRosterSuggestion(null);
+  };
+
+  const handlePlayerNameChange = (name: string) => {
+    setPlayerName(name);
+    setSelectedRecordId(undefined);
+  };
+
   const handleSuggestionSelect = (player: PlayerRecord) => {
     setPlayerName(player.name);
+    setSelectedRecordId(player.id);
     setShowSuggestions(false);
     if (player.avatar) {
       setCapturedAvatar(player.avatar);
     }
   };
 
+  const getCurrentEntry = (): SelectedPlayerEntry | null => {
+    const detection = detectedPlayers.find(p => p.id === selectedPlayerId);
+    if (!detection || !playerName.trim()) return null;
+    return {
+      detectionId: detection.id,
+      name: playerName.trim(),
+      playerRecordId: selectedRecordId,
+      avatar: capturedAvatar || undefined,
+      team: detection.team
+    };
+  };
+
+  const handleAddToLineup = () => {
+    const entry = getCurrentEntry();
+    if (!entry) return;
+
+    setLineup(prev => [...prev.filter(p => p.detectionId !== entry.detectionId), entry]);
+    setSelectedPlayerId(null);
+    setPlayerName('');
+    setSelectedRecordId(undefined);
+    setRosterSuggestion(null);
+    setCapturedAvatar(null);
+  };
+
+  const handleRemoveFromLineup = (detectionId: number) => {
+    setLineup(prev => prev.filter(p => p.detectionId !== detectionId));
+  };
+
+  const updateMatchDetails = (update: Partial<MatchInfo>) => {
+    setMatchDetails(prev => ({ ...prev, ...update }));
+  };
+
+  const parseScore = (value: string) => (value === '' ? null : Math.max(0, Number(value)));
+
   const handleConfirmSelection = () => {
-    if (selectedPlayerId && playerName.trim()) {
-      onPlayerSelected(selectedPlayerId, playerName.trim(), capturedAvatar || undefined, detectedPlayers);
-    }
+    const current = getCurrentEntry();
+    const selections = current
+      ? [...lineup.filter(p => p.detectionId !== current.detectionId), current]
+      : lineup;
+    if (selections.length === 0) return;
+
+    onPlayersSelected(selections, {
+      ...matchDetails,
+      date: matchDetails.date ? new Date(matchDetails.date).toISOString() : new Date().toISOString(),
+      homeTeam: matchDetails.homeTeam?.trim() || undefined,
+      awayTeam: matchDetails.awayTeam?.trim() || undefined,
+      competition: matchDetails.competition?.trim() || undefined,
+      venue: matchDetails.venue?.trim() || undefined,
+      videoName: videoFile.name,
+      videoSize: videoFile.size
+    }, detectedPlayers, sampledFrames);
   };
 
   const selectedPlayer = detectedPlayers.find(p => p.id === selectedPlayerId);
-  const existingPlayer = playerDatabase.find(p => 
+  const activeFrame = sampledFrames[activeFrameIndex];
+  const bestFrameUrl = activeFrame?.url || '';
+  const bestFrameTimestamp = activeFrame?.timestamp || 0;
+  // Detections marked as referee stay editable in annotation mode but are not offered for analysis
+  const selectablePlayers = detectedPlayers.filter(player => !player.isReferee);
+  const playersInActiveFrame = selectablePlayers.filter(player => getAppearanceInFrame(player, activeFrameIndex));
+  const getFrameCount = (player: PlayerDetection) => player.appearances?.length || 1;
+  const getLineupEntry = (playerId: number) => lineup.find(entry => entry.detectionId === playerId);
+  const getAppearanceMatch = (playerId: number) => appearanceMatches.find(match => match.playerId === playerId);
+  const getMatchLabel = (score: number) => score >= 0.75 ? 'High' : score >= MIN_PRESELECT_SCORE ? 'Medium' : 'Low';
+  // Uploading for a known player lists the likeliest detections first
+  const listedPlayers = appearanceMatches.length > 0
+    ? [...selectablePlayers].sort((a, b) => (getAppearanceMatch(b.id)?.score ?? -1) - (getAppearanceMatch(a.id)?.score ?? -1))
+    : selectablePlayers;
+  const bestMatch = appearanceMatches[0];
+  const bestMatchPlayer = bestMatch && selectablePlayers.find(player => player.id === bestMatch.playerId);
+
+  // Background style that shows only the player's box out of a full frame
+  const getCropStyle = (frame: SampledFrame, box: PlayerAppearance): React.CSSProperties => ({
+    backgroundImage: `url(${frame.url})`,
+    backgroundSize: `${(100 / box.width) * 100}% ${(100 / box.height) * 100}%`,
+    backgroundPosition: `${box.width < 100 ? (box.x / (100 - box.width)) * 100 : 0}% ${box.height < 100 ? (box.y / (100 - box.height)) * 100 : 0}%`
+  });
+  const sameNamePlayers = playerDatabase.filter(p => 
     p.name.toLowerCase() === playerName.toLowerCase()
   );
+  const existingPlayer = selectedRecordId
+    ? playerDatabase.find(p => p.id === selectedRecordId)
+    : sameNamePlayers.length === 1 ? sameNamePlayers[0] : undefined;
 
   return (
     <section className="min-h-screen py-8 bg-gradient-to-br from-slate-50 to-green-50">
@@ -423,7 +602,7 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
               </div>
             </div>
           </div>
-        ) : detectedPlayers.length === 0 ? (
+        ) : detectedPlayers.length === 0 && !isAnnotating ? (
           <div className="bg-white rounded-3xl shadow-xl p-12 text-center">
             <div className="space-y-6">
               <div className="inline-flex p-4 bg-yellow-100 rounded-full">
@@ -457,6 +636,15 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                   <RefreshCw className="w-5 h-5 mr-2" />
                   Retry Analysis
                 </button>
+                {sampledFrames.length > 0 && (
+                  <button
+                    onClick={handleStartAnnotating}
+                    className="border-2 border-green-500 text-green-700 px-8 py-3 rounded-lg font-semibold hover:bg-green-50 transition-all duration-200 flex items-center justify-center"
+                  >
+                    <PenSquare className="w-5 h-5 mr-2" />
+                    Mark Players by Hand
+                  </button>
+                )}
                 <button
                   onClick={() => window.location.reload()}
                   className="border-2 border-gray-300 text-gray-700 px-8 py-3 rounded-lg font-semibold hover:border-red-500 hover:text-red-600 transition-all duration-200"
@@ -464,6 +652,13 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                   Return to Re-upload
                 </button>
               </div>
+
+              <div className="max-w-3xl mx-auto text-left border border-gray-100 rounded-lg">
+                <FrameScrubber
+                  videoFile={videoFile}
+                  onDetectAt={handleDetectAt}
+                />
+              </div>
             </div>
           </div>
         ) : (
@@ -490,14 +685,14 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                   {/* AI Analysis Overlay */}
                   <div className="absolute top-4 left-4 bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center space-x-2">
                     <Brain className="w-4 h-4" />
-                    <span>Gemini Identification - Detected {detectedPlayers.length} players (referees filtered)</span>
+                    <span>Gemini Identification - {playersInActiveFrame.length} of {selectablePlayers.length} players in this frame (referees filtered)</span>
                   </div>
                   
                   {/* Best Frame Info */}
                   <div className="absolute top-4 right-4 bg-black/70 backdrop-blur-sm text-white px-3 py-2 rounded-lg text-sm">
                     <div className="flex items-center space-x-2">
                       <Zap className="w-4 h-4" />
-                      <span>Timestamp: {bestFrameTimestamp.toFixed(1)}s</span>
+                      <span>Frame {activeFrameIndex + 1}/{Math.max(sampledFrames.length, 1)} • {bestFrameTimestamp.toFixed(1)}s</span>
                     </div>
                   </div>
                   
@@ -517,9 +712,34 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                     </div>
                   )}
                   
-                  {/* Player Boundary Box Markers - Display on optimal frame */}
-                  {detectedPlayers.map((player) => {
+                  {/* Annotation Layer - replaces the clickable boxes while correcting detections */}
+                  {isAnnotating && activeFrame && (
+                    <>
+                      <DetectionAnnotator
+                        frame={activeFrame}
+                        players={detectedPlayers}
+                        getBox={(player) => getAppearanceInFrame(player, activeFrameIndex)}
+                        selectedId={annotationSelectedId}
+                        onSelect={setAnnotationSelectedId}
+                        onChange={handleDetectionsChanged}
+                      />
+                      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 bg-black/80 text-white px-4 py-2 rounded-lg text-sm flex items-center space-x-3">
+                        <span>Drag to draw a missed player, drag a box to move it or its corner to resize it</span>
+                        <button
+                          onClick={handleFinishAnnotating}
+                          className="bg-green-600 hover:bg-green-700 px-3 py-1 rounded font-medium whitespace-nowrap"
+                        >
+                          Done
+                        </button>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Player Boundary Box Markers - players visible in the current frame */}
+                  {!isAnnotating && playersInActiveFrame.map((player) => {
                     const isSelected = selectedPlayerId === player.id;
+                    const lineupEntry = getLineupEntry(player.id);
+                    const box = getAppearanceInFrame(player, activeFrameIndex)!;
                     
                     return (
                       <button
@@ -529,10 +749,10 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                           isSelected ? 'z-20' : 'hover:scale-105 z-10'
                         }`}
                         style={{
-                          left: `${player.x}%`,
-                          top: `${player.y}%`,
-                          width: `${player.width}%`,
-                          height: `${player.height}%`,
+                          left: `${box.x}%`,
+                          top: `${box.y}%`,
+                          width: `${box.width}%`,
+                          height: `${box.height}%`,
                         }}
                       >
                         <div className={`relative w-full h-full ${isSelected ? 'animate-pulse' : ''}`}>
@@ -540,6 +760,8 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                           <div className={`w-full h-full border-3 rounded-lg transition-all duration-300 ${
                             isSelected
                               ? 'border-green-400 bg-green-400/30 shadow-xl'
+                              : lineupEntry
+                              ? 'border-purple-400 bg-purple-400/30'
                               : player.team === 'home'
                               ? 'border-blue-400 bg-blue-400/20 hover:bg-blue-400/30'
                               : 'border-red-400 bg-red-400/20 hover:bg-red-400/30'
@@ -548,11 +770,13 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                             <div className={`absolute -top-8 left-1/2 transform -translate-x-1/2 px-2 py-1 rounded-full text-xs font-bold text-white shadow-lg ${
                               isSelected
                                 ? 'bg-green-500'
+                                : lineupEntry
+                                ? 'bg-purple-500'
                                 : player.team === 'home'
                                 ? 'bg-blue-500'
                                 : 'bg-red-500'
                             }`}>
-                              #{player.jersey || player.id}
+                              #{player.jersey || player.id}{lineupEntry && ` ${lineupEntry.name}`}
                             </div>
                             
                             {/* Selection Indicator */}
@@ -565,7 +789,8 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                             {/* AI Confidence Indicator */}
                             <div className="absolute -bottom-6 left-1/2 transform -translate-x-1/2">
                               <div className="bg-black/70 text-white text-xs px-2 py-1 rounded whitespace-nowrap">
-                                AI: {Math.round(player.confidence * 100)}%
+                                AI: {Math.round(box.confidence * 100)}%
+                                {getAppearanceMatch(player.id) && ` • Match ${Math.round(getAppearanceMatch(player.id)!.score * 100)}%`}
                               </div>
                             </div>
                           </div>
@@ -582,26 +807,86 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                   })}
                   
                   {/* Best Frame Controls */}
-                  <div className="absolute bottom-4 left-4">
-                    <div className="bg-black/50 backdrop-blur-sm rounded-lg p-3">
-                      <div className="text-white text-sm flex items-center space-x-2">
-                        <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-                        <span>Gemini precise identification (referees filtered)</span>
-                      </div>
+                  {!isAnnotating && (
+                    <div className="absolute bottom-4 left-4">
+                      <div className="bg-black/50 backdrop-blur-sm rounded-lg p-3">
+                        <div className="text-white text-sm flex items-center space-x-2">
+                          <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
+                          <span>Gemini precise identification (referees filtered)</span>
+                        </div>
                       
-                      {selectedPlayerId && !uploadingForPlayer && (
+                        {selectedPlayerId && !uploadingForPlayer && (
+                          <button
+                            onClick={() => capturePlayerAvatarFromBestFrame(selectedPlayer!)}
+                            disabled={isCapturingAvatar}
+                            className="mt-2 flex items-center space-x-2 bg-green-600 hover:bg-green-700 px-3 py-1 rounded-lg text-white text-sm transition-colors"
+                          >
+                            <Camera className="w-4 h-4" />
+                            <span>{isCapturingAvatar ? 'Capturing...' : 'Capture Avatar'}</span>
+                          </button>
+                        )}
+
                         <button
-                          onClick={() => capturePlayerAvatarFromBestFrame(selectedPlayer!)}
-                          disabled={isCapturingAvatar}
-                          className="mt-2 flex items-center space-x-2 bg-green-600 hover:bg-green-700 px-3 py-1 rounded-lg text-white text-sm transition-colors"
+                          onClick={handleStartAnnotating}
+                          className="mt-2 flex items-center space-x-2 bg-white/20 hover:bg-white/30 px-3 py-1 rounded-lg text-white text-sm transition-colors"
                         >
-                          <Camera className="w-4 h-4" />
-                          <span>{isCapturingAvatar ? 'Capturing...' : 'Capture Avatar'}</span>
+                          <PenSquare className="w-4 h-4" />
+                          <span>Correct Detections</span>
                         </button>
-                      )}
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
+
+                {annotationStatus && !isAnnotating && (
+                  <div className="px-4 py-2 bg-blue-50 text-blue-800 text-sm border-t border-blue-100">
+                    {annotationStatus}
+                  </div>
+                )}
+
+                {/* Sampled Frames Filmstrip */}
+                {sampledFrames.length > 1 && (
+                  <div className="p-4 border-t border-gray-100">
+                    <div className="text-sm font-medium text-gray-700 mb-3">
+                      Sampled frames ({sampledFrames.length}) - click to browse detections
+                    </div>
+                    <div className="flex space-x-3 overflow-x-auto pb-1">
+                      {sampledFrames.map((frame) => {
+                        const playerCount = selectablePlayers.filter(player => getAppearanceInFrame(player, frame.frameIndex)).length;
+                        const containsSelected = !!selectedPlayer && !!getAppearanceInFrame(selectedPlayer, frame.frameIndex);
+                        return (
+                          <button
+                            key={frame.frameIndex}
+                            onClick={() => setActiveFrameIndex(frame.frameIndex)}
+                            className={`relative flex-shrink-0 w-32 aspect-video rounded-lg overflow-hidden border-2 transition-all duration-200 ${
+                              frame.frameIndex === activeFrameIndex
+                                ? 'border-green-500 shadow-lg'
+                                : containsSelected
+                                ? 'border-blue-300 hover:border-green-400'
+                                : 'border-transparent hover:border-green-300'
+                            }`}
+                          >
+                            <img src={frame.url} alt={`Frame at ${frame.timestamp.toFixed(1)}s`} className="w-full h-full object-cover" />
+                            <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs px-2 py-0.5 flex justify-between">
+                              <span>{frame.timestamp.toFixed(1)}s</span>
+                              <span>{playerCount} players</span>
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* Video Scrubber - detect on another moment or take the avatar from any frame */}
+                {!isAnnotating && (
+                  <FrameScrubber
+                    videoFile={videoFile}
+                    onDetectAt={handleDetectAt}
+                    onAvatarCaptured={setCapturedAvatar}
+                    canCaptureAvatar={!!selectedPlayer && !uploadingForPlayer}
+                  />
+                )}
               </div>
             </div>
 
@@ -613,21 +898,23 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                   <div className="bg-gradient-to-r from-green-500 to-blue-500 p-2 rounded-lg mr-3">
                     <Brain className="w-5 h-5 text-white" />
                   </div>
-                  Gemini Identification Results ({detectedPlayers.length})
+                  Gemini Identification Results ({selectablePlayers.length})
                 </h3>
                 
                 {/* Best Frame Info */}
                 <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg mb-4">
                   <h4 className="font-medium text-gray-800 mb-2 flex items-center">
                     <Zap className="w-4 h-4 mr-2 text-green-600" />
-                    Optimal Frame Info:
+                    Multi-Frame Detection Info:
                   </h4>
                   <div className="text-sm text-gray-700 space-y-1">
-                    <p>⏱️ Extraction time: {bestFrameTimestamp.toFixed(1)} seconds</p>
-                    <p>🎯 Players detected: {detectedPlayers.length}</p>
-                    <p>📊 Average confidence: {detectedPlayers.length > 0 ? Math.round(detectedPlayers.reduce((sum, p) => sum + p.confidence, 0) / detectedPlayers.length * 100) : 0}%</p>
-                    <p>🏠 Home team players: {detectedPlayers.filter(p => p.team === 'home').length}</p>
-                    <p>🏃 Away team players: {detectedPlayers.filter(p => p.team === 'away').length}</p>
+                    <p>🎞️ Frames sampled: {sampledFrames.length}</p>
+                    <p>⏱️ Current frame: {bestFrameTimestamp.toFixed(1)} seconds</p>
+                    <p>🎯 Unique players: {selectablePlayers.length}</p>
+                    <p>📊 Average confidence: {selectablePlayers.length > 0 ? Math.round(selectablePlayers.reduce((sum, p) => sum + p.confidence, 0) / selectablePlayers.length * 100) : 0}%</p>
+                    <p>🏠 Home team players: {selectablePlayers.filter(p => p.team === 'home').length}</p>
+                    <p>🏃 Away team players: {selectablePlayers.filter(p => p.team === 'away').length}</p>
+                    <p>✏️ Corrected by hand: {detectedPlayers.filter(p => p.corrected).length}</p>
                     <p>📦 Boundary box precise positioning: 100% coverage</p>
                     <p>🚫 Referee filtering: Enabled</p>
                   </div>
@@ -650,8 +937,42 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                   </div>
                 )}
                 
+                {/* Likely Match - from the appearance stored with earlier analyses */}
+                {uploadingForPlayer && bestMatch && bestMatchPlayer && (
+                  <button
+                    onClick={() => handlePlayerClick(bestMatchPlayer.id)}
+                    className="w-full bg-purple-50 border border-purple-200 rounded-lg p-4 mb-4 text-left hover:border-purple-400 transition-colors"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium text-purple-900">
+                        Likely {uploadingForPlayer.name}: Player #{bestMatchPlayer.jersey || bestMatchPlayer.id}
+                      </span>
+                      <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+                        getMatchLabel(bestMatch.score) === 'High'
+                          ? 'bg-green-100 text-green-700'
+                          : getMatchLabel(bestMatch.score) === 'Medium'
+                          ? 'bg-yellow-100 text-yellow-700'
+                          : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {getMatchLabel(bestMatch.score)} confidence
+                      </span>
+                    </div>
+                    <div className="flex items-center text-sm text-purple-700">
+                      <div className="flex-1 bg-purple-100 rounded-full h-2 mr-3">
+                        <div className="bg-purple-500 h-2 rounded-full" style={{ width: `${bestMatch.score * 100}%` }} />
+                      </div>
+                      <span>{Math.round(bestMatch.score * 100)}% match</span>
+                    </div>
+                    <div className="text-xs text-purple-600 mt-2">
+                      {selectedPlayerId === bestMatchPlayer.id
+                        ? 'Pre-selected from jersey number, kit colour and look in earlier matches - pick another player if this is wrong'
+                        : 'Compared by jersey number, kit colour and look in earlier matches - click to select'}
+                    </div>
+                  </button>
+                )}
+
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {detectedPlayers.map((player) => (
+                  {listedPlayers.map((player) => (
                     <button
                       key={player.id}
                       onClick={() => handlePlayerClick(player.id)}
@@ -667,6 +988,13 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                         }`}>
                           {player.jersey || player.id}
                         </div>
+                        {sampledFrames[getBestAppearance(player).frameIndex] && (
+                          <div
+                            className="w-8 h-12 rounded border border-gray-200 bg-gray-900 flex-shrink-0"
+                            style={getCropStyle(sampledFrames[getBestAppearance(player).frameIndex], getBestAppearance(player))}
+                            title="Best frame preview"
+                          />
+                        )}
                         <div className="text-left">
                           <div className="font-medium text-gray-900 flex items-center space-x-2">
                             <span>Player #{player.jersey || player.id}</span>
@@ -675,14 +1003,23 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                           <div className="text-sm text-gray-500">
                             {player.team === 'home' ? `Home (${teamColors.home || 'Blue'})` : `Away (${teamColors.away || 'Red'})`} • AI confidence {Math.round(player.confidence * 100)}%
                           </div>
+                          {getAppearanceMatch(player.id) && (
+                            <div className="text-xs text-purple-600">
+                              Looks like {uploadingForPlayer?.name}: {Math.round(getAppearanceMatch(player.id)!.score * 100)}% ({getMatchLabel(getAppearanceMatch(player.id)!.score)})
+                            </div>
+                          )}
                           <div className="text-xs text-gray-400">
-                            Boundary box: {player.width.toFixed(1)}% × {player.height.toFixed(1)}%
+                            Seen in {getFrameCount(player)} of {Math.max(sampledFrames.length, 1)} frames • best at {getBestAppearance(player).timestamp.toFixed(1)}s
                           </div>
                         </div>
                       </div>
                       
-                      {selectedPlayerId === player.id && (
+                      {selectedPlayerId === player.id ? (
                         <CheckCircle className="w-5 h-5 text-green-500" />
+                      ) : getLineupEntry(player.id) && (
+                        <span className="text-xs font-medium text-purple-700 bg-purple-100 px-2 py-1 rounded-full">
+                          {getLineupEntry(player.id)!.name}
+                        </span>
                       )}
                     </button>
                   ))}
@@ -719,7 +1056,7 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                             <div className="text-sm text-gray-600">
                               {uploadingForPlayer 
                                 ? `From ${uploadingForPlayer.name}'s historical records`
-                                : `From optimal frame boundary box (${bestFrameTimestamp.toFixed(1)}s)`
+                                : `From best frame boundary box (${getBestAppearance(selectedPlayer).timestamp.toFixed(1)}s)`
                               }
                             </div>
                           </div>
@@ -766,7 +1103,7 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                       <input
                         type="text"
                         value={playerName}
-                        onChange={(e) => setPlayerName(e.target.value)}
+                        onChange={(e) => handlePlayerNameChange(e.target.value)}
                         placeholder="Enter player name"
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
                         disabled={!!uploadingForPlayer}
@@ -813,6 +1150,26 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                       )}
                     </div>
                     
+                    {/* Roster Suggestion */}
+                    {rosterSuggestion && !uploadingForPlayer && (
+                      <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 flex items-center justify-between">
+                        <div className="text-sm">
+                          <div className="font-medium text-purple-900">
+                            #{rosterSuggestion.member.jerseyNumber} {rosterSuggestion.member.playerName}
+                          </div>
+                          <div className="text-purple-700">
+                            {rosterSuggestion.team.name} squad • Match confidence {Math.round(rosterSuggestion.confidence * 100)}%
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => applyRosterSuggestion(rosterSuggestion)}
+                          className="bg-purple-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors"
+                        >
+                          Use
+                        </button>
+                      </div>
+                    )}
+
                     {/* Existing Player Info */}
                     {(existingPlayer || uploadingForPlayer) && (
                       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -852,6 +1209,21 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                       </div>
                     )}
                     
+                    {!uploadingForPlayer && (
+                      <button
+                        onClick={handleAddToLineup}
+                        disabled={!playerName.trim()}
+                        className={`w-full py-3 rounded-lg font-semibold border-2 transition-colors flex items-center justify-center ${
+                          playerName.trim()
+                            ? 'border-purple-500 text-purple-700 hover:bg-purple-50'
+                            : 'border-gray-200 text-gray-400 cursor-not-allowed'
+                        }`}
+                      >
+                        <Plus className="w-5 h-5 mr-2" />
+                        Add to Match Lineup and Pick Another Player
+                      </button>
+                    )}
+
                     <button
                       onClick={handleConfirmSelection}
                       disabled={!playerName.trim()}
@@ -863,16 +1235,150 @@ const PlayerSelection: React.FC<PlayerSelectionProps> = ({
                     >
                       {uploadingForPlayer 
                         ? `Continue Analysis for "${uploadingForPlayer.name}"` 
+                        : lineup.length > 0
+                        ? `Analyze ${lineup.length + 1} Players from This Match`
                         : existingPlayer 
                         ? 'Continue AI Deep Analysis' 
                         : 'Start AI Smart Analysis'
-                      } {!uploadingForPlayer && playerName.trim() && `"${playerName}"`}
+                      } {!uploadingForPlayer && lineup.length === 0 && playerName.trim() && `"${playerName}"`}
                       <ArrowRight className="w-5 h-5 ml-2" />
                     </button>
                   </div>
                 </div>
               )}
 
+              {/* Match Lineup */}
+              {lineup.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                    <Users className="w-5 h-5 mr-2 text-purple-600" />
+                    Match Lineup ({lineup.length})
+                  </h3>
+                  <div className="space-y-2 mb-4">
+                    {lineup.map((entry) => {
+                      const detection = detectedPlayers.find(p => p.id === entry.detectionId);
+                      return (
+                        <div key={entry.detectionId} className="flex items-center justify-between p-3 rounded-lg bg-purple-50 border border-purple-200">
+                          <div className="flex items-center space-x-3">
+                            {entry.avatar ? (
+                              <img src={entry.avatar} alt={entry.name} className="w-10 h-10 rounded-full object-cover" />
+                            ) : (
+                              <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white text-sm font-bold ${
+                                entry.team === 'home' ? 'bg-blue-500' : 'bg-red-500'
+                              }`}>
+                                {detection?.jersey || entry.detectionId}
+                              </div>
+                            )}
+                            <div>
+                              <div className="font-medium text-gray-900">{entry.name}</div>
+                              <div className="text-xs text-gray-500">
+                                #{detection?.jersey || entry.detectionId} • {entry.team === 'home' ? 'Home' : 'Away'}
+                              </div>
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleRemoveFromLineup(entry.detectionId)}
+                            className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Remove from lineup"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {!selectedPlayer && (
+                    <button
+                      onClick={handleConfirmSelection}
+                      className="w-full py-3 rounded-lg font-semibold bg-gradient-to-r from-green-600 to-blue-600 text-white hover:shadow-lg transition-all duration-200 flex items-center justify-center"
+                    >
+                      Analyze {lineup.length} {lineup.length === 1 ? 'Player' : 'Players'} from This Match
+                      <ArrowRight className="w-5 h-5 ml-2" />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Match Details */}
+              {(selectedPlayer || lineup.length > 0) && (
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                    <Trophy className="w-5 h-5 mr-2 text-yellow-600" />
+                    Match Details
+                  </h3>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <label className="col-span-2">
+                      <span className="block text-gray-700 mb-1">Competition</span>
+                      <input
+                        type="text"
+                        value={matchDetails.competition || ''}
+                        onChange={(e) => updateMatchDetails({ competition: e.target.value })}
+                        placeholder="e.g. League round 5"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-gray-700 mb-1">Home team</span>
+                      <input
+                        type="text"
+                        value={matchDetails.homeTeam || ''}
+                        onChange={(e) => updateMatchDetails({ homeTeam: e.target.value })}
+                        placeholder={teamColors.home ? `${teamColors.home} shirts` : 'Home'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-gray-700 mb-1">Away team</span>
+                      <input
+                        type="text"
+                        value={matchDetails.awayTeam || ''}
+                        onChange={(e) => updateMatchDetails({ awayTeam: e.target.value })}
+                        placeholder={teamColors.away ? `${teamColors.away} shirts` : 'Away'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-gray-700 mb-1">Home score</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={matchDetails.homeScore ?? ''}
+                        onChange={(e) => updateMatchDetails({ homeScore: parseScore(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-gray-700 mb-1">Away score</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={matchDetails.awayScore ?? ''}
+                        onChange={(e) => updateMatchDetails({ awayScore: parseScore(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-gray-700 mb-1">Date</span>
+                      <input
+                        type="date"
+                        value={matchDetails.date}
+                        onChange={(e) => updateMatchDetails({ date: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-gray-700 mb-1">Venue</span>
+                      <input
+                        type="text"
+                        value={matchDetails.venue || ''}
+                        onChange={(e) => updateMatchDetails({ venue: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
               {/* AI Instructions */}
               <div className="bg-gradient-to-r from-blue-50 to-green-50 rounded-2xl p-6 border border-blue-200">
                 <h4 className="font-semibold text-blue-900 mb-3 flex items-center">
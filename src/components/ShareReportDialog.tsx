@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Link2, Copy, CheckCircle, AlertCircle, Loader, Trash2 } from 'lucide-react';
+import { PerformanceData, PlayerRecord, SharedReportLink } from '../App';
+import { shareService, getShareLink } from '../services/sharing';
+
+interface ShareReportDialogProps {
+  player: PlayerRecord;
+  // 当前查看的单场分析；查看历史时为 null，只能分享全部记录
+  performance: PerformanceData | null;
+  userId: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '7 天后过期', days: 7 },
+  { label: '30 天后过期', days: 30 },
+  { label: '永不过期', days: null }
+];
+
+const ShareReportDialog: React.FC<ShareReportDialogProps> = ({ player, performance, userId, onClose }) => {
+  const [shares, setShares] = useState<SharedReportLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [scope, setScope] = useState<'match' | 'player'>(performance ? 'match' : 'player');
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadShares = useCallback(async () => {
+    if (!player.id) return;
+    const playerShares = await shareService.getPlayerShares(player.id);
+    setShares(playerShares);
+    setIsLoading(false);
+  }, [player.id]);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  const copyLink = async (share: SharedReportLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLink(share.token));
+      setCopiedToken(share.token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch {
+      console.warn('⚠️ 剪贴板不可用');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!player.id) return;
+    setError('');
+    setIsCreating(true);
+    try {
+      const share = await shareService.createShare(
+        userId,
+        player.id,
+        scope === 'match' && performance ? performance.matchId : null,
+        expiresInDays
+      );
+      await copyLink(share);
+      await loadShares();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '创建分享链接失败');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: SharedReportLink) => {
+    setError('');
+    try {
+      await shareService.revokeShare(share.id);
+      await loadShares();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '撤销分享链接失败');
+    }
+  };
+
+  const describeScope = (share: SharedReportLink) => {
+    if (!share.matchId) return '全部记录';
+    const sharedPerformance = player.performanceHistory.find(p => p.matchId === share.matchId);
+    return sharedPerformance
+      ? `单场分析 · ${new Date(sharedPerformance.date).toLocaleDateString()}`
+      : '单场分析';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">分享 {player.name} 的报告</h2>
+            <p className="text-sm text-gray-500">获得链接的人无需登录即可查看只读报告</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 flex items-center space-x-2 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* 新建链接 */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => setScope('match')}
+                disabled={!performance}
+                className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  scope === 'match' ? 'border-green-500 bg-green-50 text-green-700' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                仅本场分析
+              </button>
+              <button
+                onClick={() => setScope('player')}
+                className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                  scope === 'player' ? 'border-green-500 bg-green-50 text-green-700' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                全部历史记录
+              </button>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <select
+                value={expiresInDays ?? ''}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center disabled:opacity-50"
+              >
+                {isCreating ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+                生成链接
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">链接生成后会自动复制到剪贴板，可以随时撤销。</p>
+          </div>
+
+          {/* 有效链接 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">有效的分享链接</h3>
+            {isLoading ? (
+              <div className="flex items-center text-gray-500 text-sm">
+                <Loader className="w-4 h-4 mr-2 animate-spin" />
+                正在加载...
+              </div>
+            ) : shares.length === 0 ? (
+              <p className="text-sm text-gray-500">还没有分享链接</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {shares.map(share => (
+                  <div key={share.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <div className="text-gray-900">{describeScope(share)}</div>
+                      <div className="text-gray-500">
+                        {share.expiresAt ? `${new Date(share.expiresAt).toLocaleDateString()} 过期` : '永不过期'}
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => copyLink(share)}
+                        className="p-2 text-gray-400 hover:text-green-600"
+                        title="复制链接"
+                      >
+                        {copiedToken === share.token ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(share)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="撤销链接"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareReportDialog;
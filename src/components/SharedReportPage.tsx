@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { PlayCircle as CirclePlay, Eye, AlertCircle, Loader } from 'lucide-react';
+import { SharedReport } from '../App';
+import { shareService } from '../services/sharing';
+import Dashboard from './Dashboard';
+
+interface SharedReportPageProps {
+  token: string;
+}
+
+// 分享链接的只读页面，访问者无需登录
+const SharedReportPage: React.FC<SharedReportPageProps> = ({ token }) => {
+  const [report, setReport] = useState<SharedReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    shareService.getSharedReport(token)
+      .then(sharedReport => {
+        if (!sharedReport) {
+          setError('该分享链接不存在、已被撤销或已过期。');
+        }
+        setReport(sharedReport);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : '加载分享报告失败'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-green-50">
+      <header className="bg-white/95 backdrop-blur-sm border-b border-green-100 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex justify-between items-center h-16">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-blue-600 rounded-lg flex items-center justify-center">
+              <CirclePlay className="w-5 h-5 text-white" />
+            </div>
+            <span className="text-xl font-bold bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent">
+              Football AI
+            </span>
+          </div>
+          <span className="flex items-center text-sm text-gray-500">
+            <Eye className="w-4 h-4 mr-1" />
+            只读报告
+          </span>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-32 text-gray-600">
+          <Loader className="w-6 h-6 mr-2 animate-spin text-green-600" />
+          正在加载报告...
+        </div>
+      ) : report ? (
+        // 单场分享只渲染这一场分析，不使用球员的整体记录
+        report.performance ? (
+          <Dashboard
+            playerName={report.player.name}
+            playerId={0}
+            initialPerformance={report.performance}
+            match={report.match}
+            rules={report.rules}
+            onAnalysisComplete={() => {}}
+          />
+        ) : (
+          <Dashboard
+            playerName={report.player.name}
+            playerId={0}
+            existingPlayer={report.player}
+            viewingHistoryOnly
+            rules={report.rules}
+            onAnalysisComplete={() => {}}
+          />
+        )
+      ) : (
+        <div className="max-w-md mx-auto py-32 px-4 text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">无法打开报告</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedReportPage;
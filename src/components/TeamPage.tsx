@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { Users, Plus, Trash2, Shirt, User, AlertCircle, Pencil, Check, X } from 'lucide-react';
+import { PlayerRecord, SquadMember, Team } from '../App';
+import { teamService, getCurrentSeason, AGE_GROUPS, PLAYER_POSITIONS } from '../services/teams';
+
+interface TeamPageProps {
+  userId: string;
+  // Workspace new teams and players are created in; null is the personal workspace
+  organizationId: string | null;
+  // Squads are only managed by owners and coaches
+  readOnly?: boolean;
+  teams: Team[];
+  players: PlayerRecord[];
+  onTeamsChanged: () => void;
+}
+
+const parseJersey = (value: string) => (value === '' ? undefined : Math.max(0, Math.min(99, Number(value))));
+
+const TeamPage: React.FC<TeamPageProps> = ({ userId, organizationId, readOnly = false, teams, players, onTeamsChanged }) => {
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(teams[0]?.id ?? null);
+  const [season, setSeason] = useState(getCurrentSeason());
+  const [newTeamName, setNewTeamName] = useState('');
+  const [newTeamColor, setNewTeamColor] = useState('');
+  const [newTeamAgeGroup, setNewTeamAgeGroup] = useState('');
+  const [memberPlayerId, setMemberPlayerId] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const [memberJersey, setMemberJersey] = useState('');
+  const [memberPosition, setMemberPosition] = useState('');
+  const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
+  const [editJersey, setEditJersey] = useState('');
+  const [editPosition, setEditPosition] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const selectedTeam = teams.find(team => team.id === selectedTeamId) || teams[0];
+  const seasons = Array.from(new Set([getCurrentSeason(), ...teams.flatMap(team => team.squad.map(member => member.season))])).sort().reverse();
+  const squad = selectedTeam ? selectedTeam.squad.filter(member => member.season === season) : [];
+  const availablePlayers = players.filter(player => !squad.some(member => member.playerId === player.id));
+
+  // Runs a team operation, then asks the app to reload teams and players
+  const runTeamAction = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await action();
+      onTeamsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateTeam = () => {
+    if (!newTeamName.trim()) return;
+    runTeamAction(async () => {
+      const team = await teamService.createTeam(userId, newTeamName, newTeamColor, organizationId, newTeamAgeGroup);
+      setSelectedTeamId(team.id);
+      setNewTeamName('');
+      setNewTeamColor('');
+      setNewTeamAgeGroup('');
+    });
+  };
+
+  const handleAddMember = () => {
+    if (!selectedTeam || (!memberPlayerId && !memberName.trim())) return;
+    runTeamAction(async () => {
+      await teamService.addSquadMember(userId, selectedTeam.id, {
+        playerId: memberPlayerId || undefined,
+        playerName: memberName,
+        season,
+        jerseyNumber: parseJersey(memberJersey),
+        position: memberPosition
+      }, organizationId);
+      setMemberPlayerId('');
+      setMemberName('');
+      setMemberJersey('');
+      setMemberPosition('');
+    });
+  };
+
+  const startEditing = (member: SquadMember) => {
+    setEditingMemberId(member.id);
+    setEditJersey(member.jerseyNumber?.toString() ?? '');
+    setEditPosition(member.position ?? '');
+  };
+
+  const handleSaveMember = (member: SquadMember) => {
+    runTeamAction(async () => {
+      await teamService.updateSquadMember(member.id, {
+        season: member.season,
+        jerseyNumber: parseJersey(editJersey),
+        position: editPosition
+      });
+      setEditingMemberId(null);
+    });
+  };
+
+  return (
+    <section className="min-h-screen py-8 bg-gradient-to-br from-slate-50 to-green-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">My Teams</h1>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            Register squads with jersey numbers and kit colours, so detected players are matched to the right person
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6 flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Team List */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Users className="w-5 h-5 mr-2 text-blue-600" />
+                Teams ({teams.length})
+              </h3>
+              {teams.length === 0 ? (
+                <p className="text-sm text-gray-500">No teams yet.{!readOnly && ' Create your first team below.'}</p>
+              ) : (
+                <div className="space-y-2">
+                  {teams.map(team => (
+                    <div
+                      key={team.id}
+                      className={`flex items-center justify-between p-3 rounded-lg border-2 cursor-pointer transition-colors ${
+                        selectedTeam?.id === team.id ? 'border-green-500 bg-green-50' : 'border-gray-200 hover:border-green-300'
+                      }`}
+                      onClick={() => setSelectedTeamId(team.id)}
+                    >
+                      <div>
+                        <div className="font-medium text-gray-900">{team.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {team.ageGroup && `${team.ageGroup} • `}
+                          {team.kitColor ? `${team.kitColor} kit` : 'No kit colour'} • {team.squad.length} registrations
+                        </div>
+                      </div>
+                      {!readOnly && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (window.confirm(`Delete ${team.name}? Players are kept, only the squad registrations are removed.`)) {
+                              runTeamAction(() => teamService.deleteTeam(team.id));
+                            }
+                          }}
+                          className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Delete Team"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!readOnly && (
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                  <Plus className="w-5 h-5 mr-2 text-green-600" />
+                  New Team
+                </h3>
+                <div className="space-y-3">
+                  <input
+                    type="text"
+                    value={newTeamName}
+                    onChange={(e) => setNewTeamName(e.target.value)}
+                    placeholder="Team name"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                  <input
+                    type="text"
+                    value={newTeamColor}
+                    onChange={(e) => setNewTeamColor(e.target.value)}
+                    placeholder="Kit colour, e.g. Blue"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                  <select
+                    value={newTeamAgeGroup}
+                    onChange={(e) => setNewTeamAgeGroup(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  >
+                    <option value="">Age group (optional)</option>
+                    {AGE_GROUPS.map(ageGroup => <option key={ageGroup} value={ageGroup}>{ageGroup}</option>)}
+                  </select>
+                  <button
+                    onClick={handleCreateTeam}
+                    disabled={isSaving || !newTeamName.trim()}
+                    className="w-full bg-gradient-to-r from-green-600 to-blue-600 text-white py-2 rounded-lg font-semibold disabled:opacity-50 transition-all duration-200"
+                  >
+                    Create Team
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Squad */}
+          <div className="lg:col-span-2">
+            {selectedTeam ? (
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+                  <h3 className="text-2xl font-bold text-gray-900 flex items-center">
+                    <Shirt className="w-6 h-6 mr-3 text-green-600" />
+                    {selectedTeam.name} Squad
+                  </h3>
+                  <div className="mt-3 md:mt-0 flex items-center space-x-2">
+                    {/* The age group picks which analysis rules apply to the squad */}
+                    <select
+                      value={selectedTeam.ageGroup ?? ''}
+                      onChange={(e) => runTeamAction(() => teamService.updateTeamAgeGroup(selectedTeam.id, e.target.value || null))}
+                      disabled={readOnly || isSaving}
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      aria-label="Age group"
+                    >
+                      <option value="">No age group</option>
+                      {AGE_GROUPS.map(ageGroup => <option key={ageGroup} value={ageGroup}>{ageGroup}</option>)}
+                    </select>
+                    <select
+                      value={season}
+                      onChange={(e) => setSeason(e.target.value)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    >
+                      {seasons.map(option => (
+                        <option key={option} value={option}>Season {option}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {squad.length === 0 ? (
+                  <p className="text-gray-500 mb-6">No players registered for season {season}.</p>
+                ) : (
+                  <table className="w-full text-sm mb-6">
+                    <thead>
+                      <tr className="text-gray-500 border-b border-gray-200">
+                        <th className="text-left font-medium py-2 w-16">#</th>
+                        <th className="text-left font-medium py-2">Player</th>
+                        <th className="text-left font-medium py-2">Position</th>
+                        <th className="py-2 w-24"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {squad.map(member => (
+                        <tr key={member.id} className="border-b border-gray-100">
+                          {editingMemberId === member.id ? (
+                            <>
+                              <td className="py-3">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={99}
+                                  value={editJersey}
+                                  onChange={(e) => setEditJersey(e.target.value)}
+                                  className="w-14 px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="py-3 font-medium text-gray-900">{member.playerName}</td>
+                              <td className="py-3">
+                                <select
+                                  value={editPosition}
+                                  onChange={(e) => setEditPosition(e.target.value)}
+                                  className="px-2 py-1 border border-gray-300 rounded"
+                                >
+                                  <option value="">—</option>
+                                  {PLAYER_POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+                                </select>
+                              </td>
+                              <td className="py-3 text-right space-x-1">
+                                <button onClick={() => handleSaveMember(member)} disabled={isSaving} className="p-2 text-green-600 hover:text-green-700" title="Save">
+                                  <Check className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => setEditingMemberId(null)} className="p-2 text-gray-400 hover:text-gray-600" title="Cancel">
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </td>
+                            </>
+                          ) : (
+                            <>
+                              <td className="py-3 font-bold text-gray-900">{member.jerseyNumber ?? '—'}</td>
+                              <td className="py-3">
+                                <div className="flex items-center space-x-3">
+                                  {member.avatar ? (
+                                    <img src={member.avatar} alt={member.playerName} className="w-8 h-8 rounded-full object-cover" />
+                                  ) : (
+                                    <div className="bg-gray-200 p-2 rounded-full">
+                                      <User className="w-4 h-4 text-gray-500" />
+                                    </div>
+                                  )}
+                                  <span className="font-medium text-gray-900">{member.playerName}</span>
+                                </div>
+                              </td>
+                              <td className="py-3 text-gray-600">{member.position || '—'}</td>
+                              <td className="py-3 text-right space-x-1">
+                                {!readOnly && (
+                                  <>
+                                    <button onClick={() => startEditing(member)} className="p-2 text-gray-400 hover:text-blue-600" title="Edit">
+                                      <Pencil className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                      onClick={() => runTeamAction(() => teamService.removeSquadMember(member.id))}
+                                      className="p-2 text-gray-400 hover:text-red-600"
+                                      title="Remove from squad"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  </>
+                                )}
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {/* Add Squad Member */}
+                {!readOnly && (
+                  <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg">
+                    <h4 className="font-medium text-gray-800 mb-3">Register a player for {season}</h4>
+                    <div className="grid md:grid-cols-4 gap-3">
+                      <select
+                        value={memberPlayerId}
+                        onChange={(e) => setMemberPlayerId(e.target.value)}
+                        className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      >
+                        <option value="">New player...</option>
+                        {availablePlayers.map(player => (
+                          <option key={player.id} value={player.id}>
+                            {player.name} ({player.totalMatches} analyses)
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        max={99}
+                        value={memberJersey}
+                        onChange={(e) => setMemberJersey(e.target.value)}
+                        placeholder="Jersey #"
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                      <select
+                        value={memberPosition}
+                        onChange={(e) => setMemberPosition(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      >
+                        <option value="">Position</option>
+                        {PLAYER_POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+                      </select>
+                      {!memberPlayerId && (
+                        <input
+                          type="text"
+                          value={memberName}
+                          onChange={(e) => setMemberName(e.target.value)}
+                          placeholder="New player name"
+                          className="md:col-span-4 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                        />
+                      )}
+                    </div>
+                    <button
+                      onClick={handleAddMember}
+                      disabled={isSaving || (!memberPlayerId && !memberName.trim())}
+                      className="mt-3 bg-gradient-to-r from-green-600 to-blue-600 text-white px-6 py-2 rounded-lg font-semibold disabled:opacity-50 transition-all duration-200 flex items-center"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add to Squad
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+                <div className="bg-gray-100 p-4 rounded-full inline-block mb-4">
+                  <Users className="w-8 h-8 text-gray-400" />
+                </div>
+                <h3 className="text-xl font-semibold text-gray-900 mb-2">No Team Selected</h3>
+                <p className="text-gray-600">Create a team to start registering your squad</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TeamPage;
@@ -0,0 +1,384 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarDays, CheckCircle, Circle, Trash2, Plus, Loader, AlertCircle, BookOpen, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { Drill, PerformanceMetric, PerformanceRule, PlayerRecord, TrainingSession } from '../App';
+import { getTriggeredWeaknessRules } from '../services/performanceRules';
+import { MATCH_METRICS, METRIC_LABELS } from '../services/performanceStats';
+import { trainingService, buildWeeklyPlan, getTrainingImpact, getWeekStart, toDateKey, PlannedSession, TrainingAccess } from '../services/training';
+
+interface TrainingPlanProps {
+  player: PlayerRecord & { id: string };
+  // 球员适用的分析规则，计划按命中的待提升规则挑选训练
+  rules: PerformanceRule[];
+  access: TrainingAccess;
+}
+
+const WEEKDAYS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+const PRIORITY_LABELS = { High: '高', Medium: '中', Low: '低' };
+
+const getMetricLabel = (metric: PerformanceMetric) =>
+  metric === 'dominantFoot' ? '左脚使用率' : METRIC_LABELS[metric];
+
+const formatDay = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return `${month}月${day}日 ${WEEKDAYS[date.getDay()]}`;
+};
+
+const groupByDate = <T extends { scheduledDate: string }>(sessions: T[]) =>
+  sessions.reduce<Record<string, T[]>>((groups, session) => {
+    (groups[session.scheduledDate] ||= []).push(session);
+    return groups;
+  }, {});
+
+// 球员的训练计划：按待提升的指标生成每周计划，记录完成情况，并对照训练前后的分析结果
+const TrainingPlan: React.FC<TrainingPlanProps> = ({ player, rules, access }) => {
+  const [drills, setDrills] = useState<Drill[]>([]);
+  const [sessions, setSessions] = useState<TrainingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [weekOffset, setWeekOffset] = useState(1);
+  const [draftPlan, setDraftPlan] = useState<PlannedSession[] | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const { userId, organizationId, canPlan, canManage } = access;
+  const [newDrill, setNewDrill] = useState({ name: '', metric: 'passing' as PerformanceMetric, durationMinutes: 20, description: '' });
+
+  const loadTraining = useCallback(async () => {
+    const [loadedDrills, loadedSessions] = await Promise.all([
+      trainingService.getDrills(userId, organizationId),
+      trainingService.getPlayerSessions(player.id)
+    ]);
+    setDrills(loadedDrills);
+    setSessions(loadedSessions);
+    setIsLoading(false);
+  }, [userId, organizationId, player.id]);
+
+  useEffect(() => {
+    loadTraining();
+  }, [loadTraining]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await action();
+      await loadTraining();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 计划针对最近一次有效分析中命中的待提升规则
+  const latestPerformance = [...player.performanceHistory]
+    .filter(performance => performance.analysisStatus !== 'failed')
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+
+  const weekStart = getWeekStart();
+  weekStart.setDate(weekStart.getDate() + weekOffset * 7);
+  const weekStartKey = toDateKey(weekStart);
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+  const weekEndKey = toDateKey(weekEnd);
+  const weekHasSessions = sessions.some(session => session.scheduledDate >= weekStartKey && session.scheduledDate <= weekEndKey);
+
+  const handleGenerate = () => {
+    const triggered = latestPerformance ? getTriggeredWeaknessRules(rules, latestPerformance) : [];
+    setDraftPlan(buildWeeklyPlan(player.id, triggered, drills, weekStart));
+  };
+
+  const handleAddDrill = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await trainingService.createDrill(userId, organizationId, newDrill);
+      setNewDrill({ name: '', metric: newDrill.metric, durationMinutes: 20, description: '' });
+    });
+  };
+
+  const todayKey = toDateKey(new Date());
+  const sessionsByDate = groupByDate(sessions);
+  const impact = getTrainingImpact(sessions, player.performanceHistory);
+  const completedCount = sessions.filter(session => session.completedAt).length;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-500 text-sm">
+        <Loader className="w-4 h-4 mr-2 animate-spin" />
+        正在加载训练计划...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 flex items-center space-x-2 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* 生成每周计划 */}
+      {canPlan && (
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+            <h5 className="font-semibold text-gray-900 flex items-center">
+              <CalendarDays className="w-5 h-5 mr-2 text-green-600" />
+              每周训练计划
+            </h5>
+            <div className="flex items-center gap-2 text-sm">
+              {[0, 1].map(offset => (
+                <button
+                  key={offset}
+                  onClick={() => {
+                    setWeekOffset(offset);
+                    setDraftPlan(null);
+                  }}
+                  className={`px-3 py-1 rounded-full font-medium transition-colors ${
+                    weekOffset === offset ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {offset === 0 ? '本周' : '下周'}
+                </button>
+              ))}
+              <button
+                onClick={handleGenerate}
+                disabled={drills.length === 0}
+                className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-1.5 rounded-lg font-medium disabled:opacity-50"
+              >
+                生成计划
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-500">
+            根据{latestPerformance ? `${new Date(latestPerformance.date).toLocaleDateString()} 的分析中` : ''}需要加强的指标，从训练库挑选训练安排到 {formatDay(weekStartKey)} 起的训练日，高优先级的训练安排更多次。
+            {weekHasSessions && ' 这一周已经有训练安排，新计划会追加在后面。'}
+          </p>
+
+          {draftPlan && (
+            <div className="mt-4">
+              {draftPlan.length === 0 ? (
+                <p className="text-sm text-gray-500">训练库中没有与待提升指标对应的训练。</p>
+              ) : (
+                <div className="grid md:grid-cols-3 gap-4">
+                  {Object.entries(groupByDate(draftPlan)).map(([date, daySessions]) => (
+                    <div key={date} className="bg-gray-50 rounded-lg p-4">
+                      <div className="font-medium text-gray-900 mb-2">{formatDay(date)}</div>
+                      {daySessions.map(session => (
+                        <div key={session.drillName} className="text-sm text-gray-700 flex justify-between py-1">
+                          <span>{session.drillName}</span>
+                          <span className="text-gray-500">{session.durationMinutes} 分钟 · {PRIORITY_LABELS[session.priority]}</span>
+                        </div>
+                      ))}
+                      <div className="text-xs text-gray-500 mt-2 pt-2 border-t border-gray-200">
+                        共 {daySessions.reduce((sum, session) => sum + session.durationMinutes, 0)} 分钟
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-end space-x-2 mt-4">
+                <button onClick={() => setDraftPlan(null)} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">
+                  取消
+                </button>
+                <button
+                  onClick={() => runAction(async () => {
+                    await trainingService.createSessions(userId, draftPlan);
+                    setDraftPlan(null);
+                  })}
+                  disabled={isSaving || draftPlan.length === 0}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                >
+                  保存计划
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 训练安排 */}
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <h5 className="font-semibold text-gray-900 mb-4">
+          训练安排
+          <span className="ml-2 text-sm font-normal text-gray-500">已完成 {completedCount} / {sessions.length}</span>
+        </h5>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">还没有训练安排。</p>
+        ) : (
+          <div className="space-y-4">
+            {Object.entries(sessionsByDate).map(([date, daySessions]) => (
+              <div key={date}>
+                <div className={`text-sm font-medium mb-1 ${date === todayKey ? 'text-green-600' : 'text-gray-700'}`}>
+                  {formatDay(date)}{date === todayKey && ' · 今天'}
+                </div>
+                <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                  {daySessions.map(session => (
+                    <div key={session.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <button
+                        onClick={() => runAction(() => trainingService.setSessionCompleted(session.id, !session.completedAt))}
+                        disabled={!canPlan || isSaving}
+                        className="flex items-center space-x-2 text-left disabled:cursor-default"
+                        title={session.completedAt ? '标记为未完成' : '标记为已完成'}
+                      >
+                        {session.completedAt
+                          ? <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                          : <Circle className="w-5 h-5 text-gray-300 flex-shrink-0" />}
+                        <span className={session.completedAt ? 'text-gray-500 line-through' : 'text-gray-900'}>
+                          {session.drillName}
+                        </span>
+                        <span className="text-xs text-gray-400">{getMetricLabel(session.metric)}</span>
+                      </button>
+                      <div className="flex items-center space-x-3 text-gray-500">
+                        <span>{session.durationMinutes} 分钟 · {PRIORITY_LABELS[session.priority]}优先级</span>
+                        {canManage && (
+                          <button
+                            onClick={() => runAction(() => trainingService.deleteSession(session.id))}
+                            disabled={isSaving}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="删除训练安排"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 训练效果 */}
+      {impact.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <h5 className="font-semibold text-gray-900 mb-1">训练前后对比</h5>
+          <p className="text-sm text-gray-500 mb-4">对比第一次完成该项训练前最近的分析和之后最新的分析</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-2">指标</th>
+                <th className="text-left font-medium py-2">已完成训练</th>
+                <th className="text-right font-medium py-2">训练前</th>
+                <th className="text-right font-medium py-2">训练后</th>
+                <th className="text-right font-medium py-2">变化</th>
+              </tr>
+            </thead>
+            <tbody>
+              {impact.map(item => {
+                const change = item.before && item.after ? Math.round((item.after.value - item.before.value) * 10) / 10 : null;
+                return (
+                  <tr key={item.metric} className="border-b border-gray-100">
+                    <td className="py-2 font-medium text-gray-900">{getMetricLabel(item.metric)}</td>
+                    <td className="py-2 text-gray-600">{item.completedSessions} 次 · {item.completedMinutes} 分钟</td>
+                    <td className="py-2 text-right text-gray-600">
+                      {item.before ? item.before.value : '—'}
+                    </td>
+                    <td className="py-2 text-right text-gray-600">
+                      {item.after ? item.after.value : <span className="text-xs text-gray-400">等待下一次分析</span>}
+                    </td>
+                    <td className="py-2 text-right">
+                      {change === null ? '—' : (
+                        <span className={`inline-flex items-center font-medium ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {change > 0 ? <ArrowUp className="w-3 h-3 mr-1" /> : change < 0 ? <ArrowDown className="w-3 h-3 mr-1" /> : <Minus className="w-3 h-3 mr-1" />}
+                          {change > 0 ? `+${change}` : change}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 训练库 */}
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <button
+          onClick={() => setShowLibrary(!showLibrary)}
+          className="font-semibold text-gray-900 flex items-center"
+        >
+          <BookOpen className="w-5 h-5 mr-2 text-blue-600" />
+          训练库（{drills.length}）
+        </button>
+        {showLibrary && (
+          <div className="mt-4">
+            <div className="divide-y divide-gray-100">
+              {drills.map(drill => (
+                <div key={drill.id} className="flex items-start justify-between py-2 text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {drill.name}
+                      <span className="ml-2 text-xs text-gray-400">{getMetricLabel(drill.metric)} · {drill.durationMinutes} 分钟</span>
+                    </div>
+                    {drill.description && <div className="text-gray-500">{drill.description}</div>}
+                  </div>
+                  {canManage && !drill.isDefault && (
+                    <button
+                      onClick={() => runAction(() => trainingService.deleteDrill(drill.id))}
+                      disabled={isSaving}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="删除训练"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {canManage && (
+              <form onSubmit={handleAddDrill} className="mt-4 grid md:grid-cols-4 gap-2 text-sm">
+                <input
+                  type="text"
+                  value={newDrill.name}
+                  onChange={(e) => setNewDrill({ ...newDrill, name: e.target.value })}
+                  placeholder="训练名称"
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <select
+                  value={newDrill.metric}
+                  onChange={(e) => setNewDrill({ ...newDrill, metric: e.target.value as PerformanceMetric })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                  aria-label="针对的指标"
+                >
+                  {MATCH_METRICS.map(metric => <option key={metric} value={metric}>{getMetricLabel(metric)}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  value={newDrill.durationMinutes}
+                  onChange={(e) => setNewDrill({ ...newDrill, durationMinutes: Number(e.target.value) })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                  aria-label="时长（分钟）"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving || !newDrill.name.trim()}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 flex items-center justify-center"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  添加训练
+                </button>
+                <input
+                  type="text"
+                  value={newDrill.description}
+                  onChange={(e) => setNewDrill({ ...newDrill, description: e.target.value })}
+                  placeholder="训练说明（可选）"
+                  className="md:col-span-4 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrainingPlan;
@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Mail, Trash2, Copy, CheckCircle, AlertCircle, Loader, UserPlus, LogOut } from 'lucide-react';
+import { Organization, OrganizationInvite, OrganizationMember, OrganizationRole } from '../App';
+import { organizationService, canManageWorkspace, getInviteLink, ROLE_LABELS } from '../services/organizations';
+
+interface WorkspaceMembersProps {
+  organization: Organization;
+  userId: string;
+  onClose: () => void;
+  onLeft: () => void;
+}
+
+const ROLES: OrganizationRole[] = ['owner', 'coach', 'analyst', 'viewer'];
+
+const WorkspaceMembers: React.FC<WorkspaceMembersProps> = ({ organization, userId, onClose, onLeft }) => {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('coach');
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const isOwner = organization.role === 'owner';
+  const canInvite = canManageWorkspace(organization.role);
+  const ownerCount = members.filter(member => member.role === 'owner').length;
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const [loadedMembers, loadedInvites] = await Promise.all([
+        organizationService.getMembers(organization.id),
+        canInvite ? organizationService.getOrganizationInvites(organization.id) : Promise.resolve([])
+      ]);
+      setMembers(loadedMembers);
+      setInvites(loadedInvites);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organization.id, canInvite]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+      // A rejected change (e.g. demoting the last owner) leaves the list as it is in the database
+      await loadMembers();
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const invite = await organizationService.inviteMember(organization.id, userId, inviteEmail, inviteRole);
+      setInviteEmail('');
+      await copyInviteLink(invite);
+    });
+  };
+
+  const copyInviteLink = async (invite: OrganizationInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.token));
+      setCopiedToken(invite.token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch {
+      console.warn('⚠️ Clipboard not available');
+    }
+  };
+
+  const handleLeave = () => {
+    const me = members.find(member => member.userId === userId);
+    if (!me) return;
+    if (me.role === 'owner' && ownerCount <= 1) {
+      setError('Make another member an owner before leaving');
+      return;
+    }
+    if (window.confirm(`Leave ${organization.name}? You will lose access to its players.`)) {
+      organizationService.removeMember(me.id)
+        .then(onLeft)
+        .catch(err => {
+          setError(err instanceof Error ? err.message : 'Operation failed');
+          loadMembers();
+        });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{organization.name}</h2>
+            <p className="text-sm text-gray-500">Your role: {ROLE_LABELS[organization.role]}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 flex items-center space-x-2 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Members */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Members</h3>
+            {isLoading ? (
+              <div className="flex items-center text-gray-500 text-sm">
+                <Loader className="w-4 h-4 mr-2 animate-spin" />
+                Loading members...
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {members.map(member => (
+                  <div key={member.id} className="flex items-center justify-between py-3">
+                    <div className="text-sm">
+                      <div className="font-medium text-gray-900">
+                        {member.email || member.userId}
+                        {member.userId === userId && <span className="ml-2 text-gray-400">(you)</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isOwner && member.userId !== userId ? (
+                        <>
+                          <select
+                            value={member.role}
+                            onChange={(e) => runAction(() => organizationService.updateMemberRole(member.id, e.target.value as OrganizationRole))}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                          </select>
+                          <button
+                            onClick={() => runAction(() => organizationService.removeMember(member.id))}
+                            className="p-2 text-gray-400 hover:text-red-600"
+                            title="Remove member"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs font-medium bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+                          {ROLE_LABELS[member.role]}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Invites */}
+          {canInvite && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Invite by Email</h3>
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                <div className="relative flex-1">
+                  <Mail className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="email"
+                    required
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="coach@academy.com"
+                    className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                </div>
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  {ROLES.filter(role => isOwner || role !== 'owner').map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center justify-center"
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Invite
+                </button>
+              </form>
+              <p className="text-xs text-gray-500 mt-2">
+                The invite link is copied to your clipboard. The invitee signs in or registers with this email address to join.
+              </p>
+
+              {invites.length > 0 && (
+                <div className="mt-4 divide-y divide-gray-100">
+                  {invites.map(invite => (
+                    <div key={invite.id} className="flex items-center justify-between py-2 text-sm">
+                      <div>
+                        <span className="text-gray-900">{invite.email}</span>
+                        <span className="ml-2 text-gray-500">
+                          {ROLE_LABELS[invite.role]} • expires {new Date(invite.expiresAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => copyInviteLink(invite)}
+                          className="p-2 text-gray-400 hover:text-green-600"
+                          title="Copy invite link"
+                        >
+                          {copiedToken === invite.token ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => runAction(() => organizationService.revokeInvite(invite.id))}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          title="Revoke invite"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-gray-200">
+            <button
+              onClick={handleLeave}
+              className="text-sm text-red-600 hover:text-red-700 flex items-center"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave organisation
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceMembers;
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import { AppearanceSignature, PositionMap, TrackedMovement } from '../App'
+import { PlayerDetection } from '../services/analysisProvider'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -49,11 +51,14 @@ export interface User {
 export interface PlayerRecord {
   id: string
   user_id: string
+  // NULL 表示个人工作区
+  organization_id: string | null
   name: string
   total_matches: number
   first_analyzed: string
   last_analyzed: string
   avatar_url?: string
+  appearance_signature: AppearanceSignature | null
   average_performance: any
   improvements: string[]
   weaknesses: string[]
@@ -66,16 +71,211 @@ export interface PerformanceRecord {
   player_id: string
   match_id: string
   date: string
-  opponent?: string
-  overall: number
-  speed: number
-  passing: number
-  positioning: number
-  touches: number
-  distance: number
-  top_speed: number
-  pass_accuracy: number
-  dominant_foot_right: number
-  dominant_foot_left: number
-  created_at: string
-}
\ No newline at end of file
+  opponent?: string | null
+  // 未测得的指标为 NULL
+  overall: number | null
+  speed: number | null
+  passing: number | null
+  positioning: number | null
+  touches: number | null
+  distance: number | null
+  top_speed: number | null
+  pass_accuracy: number | null
+  dominant_foot_right: number | null
+  dominant_foot_left: number | null
+  // 旧记录没有来源标记
+  analysis_status: 'real' | 'partial' | 'failed' | null
+  match_ref: string | null
+  derived_metrics: string[] | null
+  // 仅在球场校准后测得，只覆盖跟踪到的片段
+  tracked_movement: TrackedMovement | null
+  position_map: PositionMap | null
+  events?: EventRecord[]
+  created_at: string
+}
+
+export interface EventRecord {
+  id: string
+  performance_id: string
+  timestamp_seconds: number
+  type: 'pass' | 'shot' | 'dribble' | 'tackle' | 'sprint' | 'touch'
+  outcome: 'successful' | 'unsuccessful' | null
+  x: number | null
+  y: number | null
+  related_player: string | null
+  description: string | null
+  created_at: string
+}
+
+export interface MatchRecord {
+  id: string
+  user_id: string
+  organization_id: string | null
+  date: string
+  competition: string | null
+  home_team: string | null
+  away_team: string | null
+  home_score: number | null
+  away_score: number | null
+  venue: string | null
+  video_name: string | null
+  video_size: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface DetectionAnnotationRecord {
+  id: string
+  user_id: string
+  video_name: string
+  video_size: number
+  // 标注时各采样帧的时间戳（秒）
+  frame_timestamps: number[]
+  // 修正后的检测结果，不含跟踪轨迹
+  players: PlayerDetection[]
+  created_at: string
+  updated_at: string
+}
+
+export interface AnalysisJobRecord {
+  id: string
+  user_id: string
+  player_name: string
+  detection_id?: number
+  status: 'queued' | 'uploading' | 'processing' | 'analyzing' | 'done' | 'failed'
+  progress: number
+  message?: string
+  error?: string
+  result?: unknown
+  created_at: string
+  updated_at: string
+}
+
+export interface TeamRecord {
+  id: string
+  user_id: string
+  organization_id: string | null
+  name: string
+  kit_color: string | null
+  age_group: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PerformanceRuleRecord {
+  id: string
+  // 系统默认规则两者都为 NULL
+  user_id: string | null
+  organization_id: string | null
+  age_group: string | null
+  kind: 'weakness' | 'improvement'
+  metric: string
+  comparator: '<' | '<=' | '>' | '>='
+  threshold: number
+  positions: string[] | null
+  message: string
+  drill: string | null
+  drill_description: string | null
+  drill_duration: string | null
+  priority: 'High' | 'Medium' | 'Low'
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export interface DrillRecord {
+  id: string
+  // 系统自带训练两者都为 NULL
+  user_id: string | null
+  organization_id: string | null
+  name: string
+  metric: string
+  description: string | null
+  duration_minutes: number
+  created_at: string
+  updated_at: string
+}
+
+export interface TrainingSessionRecord {
+  id: string
+  player_id: string
+  drill_id: string | null
+  drill_name: string
+  metric: string
+  scheduled_date: string
+  duration_minutes: number
+  priority: 'High' | 'Medium' | 'Low'
+  completed_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PlayerGoalRecord {
+  id: string
+  player_id: string
+  metric: string
+  target: number
+  deadline: string
+  baseline: number | null
+  current_value: number | null
+  progress: number
+  status: 'active' | 'achieved' | 'missed'
+  achieved_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SquadMembershipRecord {
+  id: string
+  team_id: string
+  player_id: string
+  season: string
+  jersey_number: number | null
+  position: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface OrganizationRecord {
+  id: string
+  name: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface OrganizationMemberRecord {
+  id: string
+  organization_id: string
+  user_id: string
+  email: string | null
+  role: 'owner' | 'coach' | 'analyst' | 'viewer'
+  created_at: string
+  updated_at: string
+}
+
+export interface OrganizationInviteRecord {
+  id: string
+  organization_id: string
+  email: string
+  role: 'owner' | 'coach' | 'analyst' | 'viewer'
+  token: string
+  invited_by: string | null
+  accepted_at: string | null
+  expires_at: string
+  created_at: string
+}
+
+export interface SharedReportRecord {
+  id: string
+  token: string
+  player_id: string
+  // 为 NULL 时分享球员的全部记录
+  match_id: string | null
+  created_by: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
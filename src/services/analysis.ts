@@ -0,0 +1,20 @@
+import { AnalysisProvider } from './analysisProvider';
+import { GeminiAnalysisProvider } from './geminiAI';
+import { MockAnalysisProvider } from './mockAnalysis';
+
+// Backend is chosen with VITE_ANALYSIS_PROVIDER: 'gemini' (default) or 'mock'
+export function createAnalysisProvider(name: string = import.meta.env.VITE_ANALYSIS_PROVIDER || 'gemini'): AnalysisProvider {
+  switch (name) {
+    case 'mock':
+      return new MockAnalysisProvider();
+    case 'gemini':
+      return new GeminiAnalysisProvider();
+    default:
+      console.warn(`⚠️ Unknown analysis provider "${name}", falling back to Gemini`);
+      return new GeminiAnalysisProvider();
+  }
+}
+
+export const analysisProvider = createAnalysisProvider();
+
+console.log(`🔌 Analysis provider: ${analysisProvider.name}`);
@@ -0,0 +1,146 @@
+import { supabase, AnalysisJobRecord } from '../lib/supabase';
+import { MatchInfo, PerformanceData, SelectedPlayerEntry } from '../App';
+import { AnalysisJobUpdate } from './analysisProvider';
+
+// 浏览器中记录进行中的任务，刷新页面后继续跟踪
+const PENDING_JOB_KEY = 'football-ai-pending-job';
+// Realtime 不可用时的轮询间隔
+const POLL_INTERVAL_MS = 5000;
+// 任务这么久没有任何更新，说明 Edge Function 已中断（超时或内存不足）；与服务端 _shared/jobs.ts 保持一致
+const STALE_JOB_MS = 10 * 60 * 1000;
+// 无论是否仍有进展，最多等待这么久
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+// 连续读取失败这么多次（任务已删除或无权访问）后放弃
+const MAX_POLL_FAILURES = 6;
+
+const isFinished = (job: AnalysisJobRecord) => job.status === 'done' || job.status === 'failed';
+
+export interface PendingAnalysisJob {
+  jobId: string;
+  userId: string;
+  playerId: number;
+  playerName: string;
+  // 保存到的已有球员；新球员时为空
+  existingPlayerId?: string;
+  // 分析所属的比赛和球员在其中的条目（球队、头像），恢复后仍关联到这场比赛
+  match?: MatchInfo | null;
+  matchEntry?: SelectedPlayerEntry;
+}
+
+export class AnalysisJobService {
+  // 获取单个分析任务
+  async getJob(jobId: string): Promise<AnalysisJobRecord> {
+    const { data, error } = await supabase
+      .from('analysis_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`获取分析任务失败: ${error?.message || '任务不存在'}`);
+    }
+
+    return data as AnalysisJobRecord;
+  }
+
+  // 跟踪任务直到完成：优先使用 Realtime 推送，同时轮询兜底；任务停滞、超时或无法读取时失败
+  watchJob(jobId: string, onUpdate?: (update: AnalysisJobUpdate) => void): Promise<PerformanceData> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let lastUpdatedAt = '';
+      let pollFailures = 0;
+
+      const cleanup = () => {
+        settled = true;
+        clearInterval(pollTimer);
+        clearTimeout(deadlineTimer);
+        supabase.removeChannel(channel);
+      };
+
+      const fail = (message: string) => {
+        if (settled) return;
+        cleanup();
+        reject(new Error(message));
+      };
+
+      const handleJob = (job: AnalysisJobRecord) => {
+        if (settled || job.updated_at === lastUpdatedAt) return;
+        lastUpdatedAt = job.updated_at;
+
+        console.log(`📡 分析任务 ${jobId}: ${job.status} (${job.progress}%)`);
+        onUpdate?.({
+          jobId,
+          status: job.status,
+          progress: job.progress,
+          message: job.message,
+          error: job.error
+        });
+
+        if (job.status === 'done') {
+          cleanup();
+          if (job.result) {
+            resolve(job.result as PerformanceData);
+          } else {
+            reject(new Error('分析任务已完成，但没有返回表现数据'));
+          }
+        } else if (job.status === 'failed') {
+          cleanup();
+          reject(new Error(job.error || '分析任务失败'));
+        }
+      };
+
+      const poll = async () => {
+        try {
+          const job = await this.getJob(jobId);
+          pollFailures = 0;
+          handleJob(job);
+
+          if (!isFinished(job) && Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS) {
+            fail('分析任务长时间没有进展，服务端可能已中断，请重新上传视频');
+          }
+        } catch (error) {
+          console.warn('⚠️ 轮询分析任务失败:', error);
+          if (++pollFailures >= MAX_POLL_FAILURES) {
+            fail(error instanceof Error ? error.message : '无法读取分析任务');
+          }
+        }
+      };
+
+      const channel = supabase
+        .channel(`analysis-job-${jobId}`)
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `id=eq.${jobId}` },
+          (payload: { new: AnalysisJobRecord }) => handleJob(payload.new)
+        )
+        .subscribe();
+
+      const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      const deadlineTimer = setTimeout(() => fail('分析任务超时，请稍后重新上传视频'), JOB_TIMEOUT_MS);
+      // 订阅建立前任务可能已有进展，先读取一次当前状态
+      poll();
+    });
+  }
+
+  savePendingJob(job: PendingAnalysisJob) {
+    localStorage.setItem(PENDING_JOB_KEY, JSON.stringify(job));
+  }
+
+  getPendingJob(userId: string): PendingAnalysisJob | null {
+    try {
+      const stored = localStorage.getItem(PENDING_JOB_KEY);
+      if (!stored) return null;
+
+      const job = JSON.parse(stored) as PendingAnalysisJob;
+      return job.userId === userId ? job : null;
+    } catch {
+      return null;
+    }
+  }
+
+  clearPendingJob() {
+    localStorage.removeItem(PENDING_JOB_KEY);
+  }
+}
+
+export const analysisJobService = new AnalysisJobService();
@@ -0,0 +1,97 @@
+import { PerformanceData, PlayerRecord } from '../App';
+
+export interface PlayerDetection {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+  jersey?: string;
+  team?: 'home' | 'away';
+  teamColor?: string;
+  timestamp: number;
+  isReferee?: boolean;
+  // Real tracked positions, filled in by PlayerTracker once the player is selected
+  movementPattern?: MovementTrack;
+  // Every sampled frame this player was detected in (multi-frame detection)
+  appearances?: PlayerAppearance[];
+  bestFrameIndex?: number;
+  // Drawn or adjusted by hand in PlayerSelection's annotation mode
+  corrected?: boolean;
+}
+
+export interface PlayerAppearance {
+  frameIndex: number;
+  timestamp: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+export interface MovementTrack {
+  timestamps: number[];
+  positions: { x: number; y: number; width: number; height: number }[];
+}
+
+export interface SampledFrame {
+  frameIndex: number;
+  timestamp: number;
+  url: string;
+}
+
+export interface VideoDetectionOptions {
+  // Positions to sample as ratios of the video duration (0.0 to 1.0)
+  sampleRatios?: number[];
+  // Positions to sample in seconds, e.g. a moment picked in the scrubber; take precedence over sampleRatios
+  sampleTimestamps?: number[];
+  onProgress?: (completedFrames: number, totalFrames: number) => void;
+}
+
+export interface VideoDetectionResult {
+  players: PlayerDetection[];
+  frames: SampledFrame[];
+  bestFrameUrl: string;
+  bestFrameTimestamp: number;
+}
+
+// Lifecycle of a server-side analysis job
+export type AnalysisJobStatus = 'queued' | 'uploading' | 'processing' | 'analyzing' | 'done' | 'failed';
+
+export interface AnalysisJobUpdate {
+  jobId: string;
+  status: AnalysisJobStatus;
+  progress: number;
+  message?: string;
+  error?: string;
+}
+
+export interface PerformanceAnalysisOptions {
+  onJobUpdate?: (update: AnalysisJobUpdate) => void;
+}
+
+// One analysis backend (Gemini, local fixtures, ...). Components never talk to a backend directly,
+// they use the provider selected in ./analysis
+export interface AnalysisProvider {
+  readonly name: string;
+
+  // Detect players in one still frame (JPEG data URL)
+  detectPlayersInFrame(frameDataUrl: string, timestamp: number): Promise<PlayerDetection[]>;
+
+  // Detect players across the whole clip and merge them into one roster
+  analyzeFullVideo(videoFile: File, options?: VideoDetectionOptions): Promise<VideoDetectionResult>;
+
+  // Score one selected player's performance in the clip
+  analyzePlayerPerformance(
+    videoFile: File,
+    selectedPlayerId: number,
+    playerName: string,
+    existingPlayerData?: PlayerRecord | null,
+    options?: PerformanceAnalysisOptions
+  ): Promise<PerformanceData>;
+
+  // Keep following a job started earlier, e.g. after a page reload
+  resumePlayerPerformance(jobId: string, options?: PerformanceAnalysisOptions): Promise<PerformanceData>;
+}
@@ -0,0 +1,184 @@
+import { PlayerDetection, PlayerAppearance, SampledFrame } from './analysisProvider';
+import { BoundingBox, normalizeColor } from './playerMatching';
+import { cropAvatar } from './videoFrames';
+import { AppearanceSample, AppearanceSignature, PlayerRecord } from '../App';
+
+export interface AppearanceMatch {
+  playerId: number;
+  // 0 to 1, how much the detection looks like the stored signature
+  score: number;
+}
+
+// Only the latest matches are kept, so a new kit gradually replaces the old one
+const MAX_SIGNATURE_SAMPLES = 5;
+const SAMPLE_CROP_SIZE = 64;
+
+const HUE_BINS = 12;
+// Dark, grey and light for pixels with too little colour to have a reliable hue
+const NEUTRAL_BINS = 3;
+const MIN_SATURATION = 0.2;
+const MIN_VALUE = 0.15;
+
+// Shirt area of a player box in percent of the box; legs, socks and the grass around them vary too much
+const SHIRT_AREA = { x: 20, y: 15, width: 60, height: 40 };
+
+// How much each cue counts; cues that are unknown on either side are left out
+const SCORE_WEIGHTS = { jersey: 0.5, look: 0.3, teamColor: 0.2 };
+
+// The best detection is pre-selected only when it is this likely and clearly ahead of the next one
+export const MIN_PRESELECT_SCORE = 0.5;
+export const MIN_PRESELECT_MARGIN = 0.1;
+
+const FULL_FRAME: BoundingBox = { x: 0, y: 0, width: 100, height: 100 };
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image loading failed'));
+    img.src = url;
+  });
+}
+
+function getBestAppearance(detection: PlayerDetection): PlayerAppearance {
+  const frameIndex = detection.bestFrameIndex ?? 0;
+  return detection.appearances?.find(appearance => appearance.frameIndex === frameIndex) || { ...detection, frameIndex };
+}
+
+// Normalised hue histogram of the shirt area of a box (percent of the image)
+function shirtHistogram(img: HTMLImageElement, box: BoundingBox): number[] {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to create canvas context');
+  }
+
+  const sx = ((box.x + (box.width * SHIRT_AREA.x) / 100) / 100) * img.width;
+  const sy = ((box.y + (box.height * SHIRT_AREA.y) / 100) / 100) * img.height;
+  const sw = Math.max(1, ((box.width * SHIRT_AREA.width) / 10000) * img.width);
+  const sh = Math.max(1, ((box.height * SHIRT_AREA.height) / 10000) * img.height);
+  canvas.width = 16;
+  canvas.height = 16;
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const bins = new Array<number>(HUE_BINS + NEUTRAL_BINS).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const max = Math.max(r, g, b);
+    const delta = max - Math.min(r, g, b);
+    const saturation = max > 0 ? delta / max : 0;
+
+    if (max < MIN_VALUE || saturation < MIN_SATURATION) {
+      bins[HUE_BINS + Math.min(NEUTRAL_BINS - 1, Math.floor(max * NEUTRAL_BINS))]++;
+      continue;
+    }
+
+    const hue = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    bins[Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS))]++;
+  }
+
+  const total = data.length / 4;
+  return bins.map(count => Math.round((count / total) * 1000) / 1000);
+}
+
+// Histogram intersection: 1 for identical colour distributions, 0 for nothing in common
+function compareHistograms(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  return a.reduce((sum, value, index) => sum + Math.min(value, b[index]), 0);
+}
+
+// Share of the stored values that agree with the detection, or undefined when either side is unknown
+function historyAgreement(history: string[], value: string | undefined, matches: (a: string, b: string) => boolean) {
+  if (!value || history.length === 0) return undefined;
+  return history.filter(entry => matches(entry, value)).length / history.length;
+}
+
+const colorsMatch = (a: string, b: string) => {
+  const left = normalizeColor(a);
+  const right = normalizeColor(b);
+  return !!left && !!right && (left.includes(right) || right.includes(left));
+};
+
+// Appearance of the analysed detection in this video, to be added to the player's signature
+export async function captureAppearanceSample(detection: PlayerDetection, frames: SampledFrame[]): Promise<AppearanceSample | null> {
+  const appearance = getBestAppearance(detection);
+  const frame = frames[appearance.frameIndex];
+  if (!frame) return null;
+
+  try {
+    const img = await loadImage(frame.url);
+    return {
+      crop: await cropAvatar(frame.url, appearance, SAMPLE_CROP_SIZE),
+      histogram: shirtHistogram(img, appearance),
+      jersey: detection.jersey,
+      teamColor: detection.teamColor,
+      capturedAt: new Date().toISOString()
+    };
+  } catch (error) {
+    console.warn('⚠️ Unable to capture appearance sample:', error);
+    return null;
+  }
+}
+
+export function addAppearanceSample(signature: AppearanceSignature | undefined, sample: AppearanceSample | null): AppearanceSignature | undefined {
+  if (!sample) return signature;
+  return { samples: [...(signature?.samples ?? []), sample].slice(-MAX_SIGNATURE_SAMPLES) };
+}
+
+// Orders the detections by how much they look like the player, most likely first.
+// Players analysed before signatures were stored are compared by their avatar only.
+export async function rankDetectionsByAppearance(player: PlayerRecord, detections: PlayerDetection[], frames: SampledFrame[]): Promise<AppearanceMatch[]> {
+  const samples = player.appearance?.samples ?? [];
+  const histograms = samples.map(sample => sample.histogram);
+  if (histograms.length === 0 && player.avatar) {
+    try {
+      histograms.push(shirtHistogram(await loadImage(player.avatar), FULL_FRAME));
+    } catch (error) {
+      console.warn('⚠️ Unable to read stored avatar for matching:', error);
+    }
+  }
+  if (histograms.length === 0) return [];
+
+  const jerseys = samples.flatMap(sample => sample.jersey ? [sample.jersey] : []);
+  const teamColors = samples.flatMap(sample => sample.teamColor ? [sample.teamColor] : []);
+
+  // Every frame image is decoded once however many players it holds
+  const images = new Map<number, Promise<HTMLImageElement>>();
+  const getFrameImage = (frame: SampledFrame) => {
+    if (!images.has(frame.frameIndex)) images.set(frame.frameIndex, loadImage(frame.url));
+    return images.get(frame.frameIndex)!;
+  };
+
+  const matches: AppearanceMatch[] = [];
+  for (const detection of detections) {
+    if (detection.isReferee) continue;
+
+    const appearance = getBestAppearance(detection);
+    const frame = frames[appearance.frameIndex];
+    let look: number | undefined;
+    if (frame) {
+      try {
+        const histogram = shirtHistogram(await getFrameImage(frame), appearance);
+        look = Math.max(...histograms.map(stored => compareHistograms(stored, histogram)));
+      } catch (error) {
+        console.warn('⚠️ Unable to compare detection appearance:', detection.id, error);
+      }
+    }
+
+    const cues = [
+      { weight: SCORE_WEIGHTS.jersey, value: historyAgreement(jerseys, detection.jersey, (a, b) => a === b) },
+      { weight: SCORE_WEIGHTS.look, value: look },
+      { weight: SCORE_WEIGHTS.teamColor, value: historyAgreement(teamColors, detection.teamColor, colorsMatch) }
+    ].filter((cue): cue is { weight: number; value: number } => cue.value !== undefined);
+
+    if (cues.length === 0) continue;
+    const weight = cues.reduce((sum, cue) => sum + cue.weight, 0);
+    const score = cues.reduce((sum, cue) => sum + cue.weight * cue.value, 0) / weight;
+    matches.push({ playerId: detection.id, score: Math.round(score * 100) / 100 });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -1,25 +1,32 @@
-import { supabase, PlayerRecord, PerformanceRecord } from '../lib/supabase';
-import { PerformanceData, PlayerRecord as AppPlayerRecord } from '../App';
+import { supabase, PlayerRecord, PerformanceRecord, MatchRecord, PlayerGoalRecord, EventRecord } from '../lib/supabase';
+import { MatchEvent, MatchInfo, PerformanceData, PerformanceMetric, PlayerRecord as AppPlayerRecord } from '../App';
+import { calculateAveragePerformance, isMetricAvailable, PERFORMANCE_METRICS } from './performanceStats';
+import { goalService } from './goals';
 
 export class DatabaseService {
-  // 获取当前用户的所有球员
-  async getUserPlayers(userId: string): Promise<AppPlayerRecord[]> {
+  // 获取当前工作区的所有球员；organizationId 为 null 时是用户的个人工作区
+  async getUserPlayers(userId: string, organizationId: string | null = null): Promise<AppPlayerRecord[]> {
     try {
-      console.log('🔍 获取用户球员数据:', userId);
+      console.log('🔍 获取用户球员数据:', userId, organizationId ? `组织 ${organizationId}` : '个人工作区');
       
       // 添加超时控制
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error('数据库查询超时')), 10000); // 10秒超时
       });
 
-      const queryPromise = supabase
+      const baseQuery = supabase
         .from('players')
         .select(`
           *,
-          performances (*)
-        `)
-        .eq('user_id', userId)
-        .order('last_analyzed', { ascending: false });
+          performances (*, events (*)),
+          player_goals (*)
+        `);
+
+      // 组织球员对所有成员可见，由 RLS 按成员身份过滤
+      const queryPromise = (organizationId
+        ? baseQuery.eq('organization_id', organizationId)
+        : baseQuery.eq('user_id', userId).is('organization_id', null)
+      ).order('last_analyzed', { ascending: false });
 
       const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
 
@@ -45,7 +52,7 @@ export class DatabaseService {
   }
 
   // 保存或更新球员记录
-  async savePlayerRecord(userId: string, playerData: AppPlayerRecord): Promise<AppPlayerRecord> {
+  async savePlayerRecord(userId: string, playerData: AppPlayerRecord, organizationId: string | null = null): Promise<AppPlayerRecord> {
     try {
       console.log('💾 保存球员记录:', playerData.name);
       
@@ -59,40 +66,25 @@ export class DatabaseService {
         setTimeout(() => reject(new Error('保存操作超时')), 15000); // 15秒超时
       });
 
-      // 检查球员是否已存在
-      const searchPromise = supabase
-        .from('players')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('name', playerData.name)
-        .maybeSingle(); // 使用 maybeSingle 避免多条记录错误
-
-      const { data: existingPlayer, error: searchError } = await Promise.race([searchPromise, timeoutPromise]);
-
-      if (searchError && searchError.code !== 'PGRST116') {
-        console.error('❌ 查询现有球员失败:', searchError);
-        throw new Error(`查询球员失败: ${searchError.message}`);
-      }
+      // 球员按 ID 识别，同名球员互不影响，改名也不会拆分记录；临时 ID 表示尚未保存
+      const existingPlayerId = playerData.id && !playerData.id.startsWith('temp_') ? playerData.id : null;
 
+      // 场次、分析时间、平均表现、进步和待提升由数据库根据表现记录维护，这里不写入
       const playerRecord = {
         name: playerData.name,
-        total_matches: playerData.totalMatches || 1,
-        last_analyzed: playerData.lastAnalyzed || new Date().toISOString(),
         avatar_url: playerData.avatar || null,
-        average_performance: playerData.averagePerformance || {},
-        improvements: playerData.improvements || [],
-        weaknesses: playerData.weaknesses || [],
+        appearance_signature: playerData.appearance ?? null,
         updated_at: new Date().toISOString()
       };
 
-      if (existingPlayer) {
+      if (existingPlayerId) {
         // 更新现有球员
-        console.log('🔄 更新现有球员:', existingPlayer.id);
+        console.log('🔄 更新现有球员:', existingPlayerId);
         
         const updatePromise = supabase
           .from('players')
           .update(playerRecord)
-          .eq('id', existingPlayer.id)
+          .eq('id', existingPlayerId)
           .select()
           .single();
 
@@ -111,7 +103,7 @@ export class DatabaseService {
         
         const newPlayerRecord = {
           user_id: userId,
-          first_analyzed: playerData.firstAnalyzed || new Date().toISOString(),
+          organization_id: organizationId,
           ...playerRecord
         };
 
@@ -147,21 +139,30 @@ export class DatabaseService {
         throw new Error('球员ID和表现数据不能为空');
       }
 
+      // 未测得的指标存为 NULL，不再用默认分数填充
+      const metric = (name: PerformanceMetric, value: number, max = Infinity) =>
+        isMetricAvailable(performanceData, name) ? Math.max(0, Math.min(max, value)) : null;
+
       const performanceRecord = {
         player_id: playerId,
         match_id: performanceData.matchId || `match_${Date.now()}`,
         date: performanceData.date || new Date().toISOString(),
-        opponent: performanceData.opponent || '对手队伍',
-        overall: Math.max(0, Math.min(100, performanceData.overall || 75)),
-        speed: Math.max(0, Math.min(100, performanceData.speed || 80)),
-        passing: Math.max(0, Math.min(100, performanceData.passing || 78)),
-        positioning: Math.max(0, Math.min(100, performanceData.positioning || 82)),
-        touches: Math.max(0, performanceData.touches || 120),
-        distance: Math.max(0, performanceData.distance || 7.5),
-        top_speed: Math.max(0, performanceData.topSpeed || 22.5),
-        pass_accuracy: Math.max(0, Math.min(100, performanceData.passAccuracy || 85)),
-        dominant_foot_right: Math.max(0, Math.min(100, performanceData.dominantFoot?.right || 65)),
-        dominant_foot_left: Math.max(0, Math.min(100, performanceData.dominantFoot?.left || 35))
+        opponent: performanceData.opponent || null,
+        overall: metric('overall', performanceData.overall, 100),
+        speed: metric('speed', performanceData.speed, 100),
+        passing: metric('passing', performanceData.passing, 100),
+        positioning: metric('positioning', performanceData.positioning, 100),
+        touches: metric('touches', performanceData.touches),
+        distance: metric('distance', performanceData.distance),
+        top_speed: metric('topSpeed', performanceData.topSpeed),
+        pass_accuracy: metric('passAccuracy', performanceData.passAccuracy, 100),
+        dominant_foot_right: metric('dominantFoot', performanceData.dominantFoot.right, 100),
+        dominant_foot_left: metric('dominantFoot', performanceData.dominantFoot.left, 100),
+        analysis_status: performanceData.analysisStatus ?? null,
+        match_ref: performanceData.matchRef ?? null,
+        derived_metrics: performanceData.derivedMetrics?.length ? performanceData.derivedMetrics : null,
+        tracked_movement: performanceData.trackedMovement ?? null,
+        position_map: performanceData.positionMap ?? null
       };
 
       // 添加超时控制
@@ -169,24 +170,69 @@ export class DatabaseService {
         setTimeout(() => reject(new Error('保存表现记录超时')), 10000);
       });
 
-      const insertPromise = supabase
-        .from('performances')
-        .insert(performanceRecord);
+      // 表现记录和逐条事件（汇总指标的依据）在同一个事务中写入，避免只保存一半后重试产生重复场次
+      const events = performanceData.events ?? [];
+      const savePromise = supabase.rpc('save_performance', {
+        performance: performanceRecord,
+        performance_events: events.map(event => ({
+          timestamp_seconds: event.timestamp,
+          type: event.type,
+          outcome: event.outcome ?? null,
+          x: event.x ?? null,
+          y: event.y ?? null,
+          related_player: event.relatedPlayer ?? null,
+          description: event.description ?? null
+        }))
+      });
 
-      const { error } = await Promise.race([insertPromise, timeoutPromise]);
+      const { error } = await Promise.race([savePromise, timeoutPromise]);
 
       if (error) {
         console.error('❌ 保存表现记录失败:', error);
         throw new Error(`保存表现记录失败: ${error.message}`);
       }
       
-      console.log('✅ 表现记录保存成功');
+      console.log('✅ 表现记录保存成功，比赛事件:', events.length, '条');
     } catch (error) {
       console.error('❌ 保存表现记录失败:', error);
       throw error;
     }
   }
 
+  // 按 ID 获取单个球员及其表现记录，用于从链接直接打开球员页面；找不到或无权访问时返回 null
+  async getPlayer(playerId: string): Promise<AppPlayerRecord | null> {
+    try {
+      console.log('🔍 获取球员记录:', playerId);
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('获取球员记录超时')), 10000);
+      });
+
+      const queryPromise = supabase
+        .from('players')
+        .select(`
+          *,
+          performances (*, events (*)),
+          player_goals (*)
+        `)
+        .eq('id', playerId)
+        .maybeSingle();
+
+      const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 获取球员记录失败:', error);
+        return null;
+      }
+
+      return data ? this.convertToAppPlayerRecord(data) : null;
+    } catch (error) {
+      console.error('❌ 获取球员记录失败:', error);
+      return null;
+    }
+  }
+
   // 获取球员的所有表现记录
   async getPlayerPerformances(playerId: string): Promise<PerformanceData[]> {
     try {
@@ -199,7 +245,7 @@ export class DatabaseService {
 
       const queryPromise = supabase
         .from('performances')
-        .select('*')
+        .select('*, events (*)')
         .eq('player_id', playerId)
         .order('date', { ascending: false });
 
@@ -212,23 +258,7 @@ export class DatabaseService {
 
       console.log('✅ 成功获取表现记录:', data?.length || 0, '条记录');
 
-      return (data || []).map(perf => ({
-        matchId: perf.match_id,
-        date: perf.date,
-        opponent: perf.opponent,
-        overall: perf.overall,
-        speed: perf.speed,
-        passing: perf.passing,
-        positioning: perf.positioning,
-        touches: perf.touches,
-        distance: perf.distance,
-        topSpeed: perf.top_speed,
-        passAccuracy: perf.pass_accuracy,
-        dominantFoot: {
-          right: perf.dominant_foot_right,
-          left: perf.dominant_foot_left
-        }
-      }));
+      return (data || []).map(perf => this.convertToAppPerformance(perf));
     } catch (error) {
       console.error('❌ 获取表现记录失败:', error);
       return []; // 返回空数组而不是抛出错误
@@ -277,10 +307,171 @@ export class DatabaseService {
     }
   }
 
+  // 创建比赛记录，同一视频中分析的球员都关联到这场比赛
+  async createMatch(userId: string, match: MatchInfo, organizationId: string | null = null): Promise<MatchInfo> {
+    try {
+      console.log('💾 创建比赛记录:', match.homeTeam, 'vs', match.awayTeam);
+
+      if (!userId) {
+        throw new Error('用户ID不能为空');
+      }
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('创建比赛记录超时')), 10000);
+      });
+
+      const insertPromise = supabase
+        .from('matches')
+        .insert({
+          user_id: userId,
+          organization_id: organizationId,
+          date: match.date || new Date().toISOString(),
+          competition: match.competition || null,
+          home_team: match.homeTeam || null,
+          away_team: match.awayTeam || null,
+          home_score: match.homeScore ?? null,
+          away_score: match.awayScore ?? null,
+          venue: match.venue || null,
+          video_name: match.videoName || null,
+          video_size: match.videoSize ?? null
+        })
+        .select()
+        .single();
+
+      const { data, error } = await Promise.race([insertPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 创建比赛记录失败:', error);
+        throw new Error(`创建比赛记录失败: ${error.message}`);
+      }
+
+      console.log('✅ 比赛记录创建成功, ID:', data.id);
+      return this.convertToAppMatch(data);
+    } catch (error) {
+      console.error('❌ 创建比赛记录失败:', error);
+      throw error;
+    }
+  }
+
+  // 更新比赛信息（例如补充比分后继续分析同一视频中的其他球员）
+  async updateMatch(matchId: string, match: MatchInfo): Promise<MatchInfo> {
+    try {
+      console.log('💾 更新比赛记录:', matchId);
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('更新比赛记录超时')), 10000);
+      });
+
+      const updatePromise = supabase
+        .from('matches')
+        .update({
+          date: match.date || new Date().toISOString(),
+          competition: match.competition || null,
+          home_team: match.homeTeam || null,
+          away_team: match.awayTeam || null,
+          home_score: match.homeScore ?? null,
+          away_score: match.awayScore ?? null,
+          venue: match.venue || null
+        })
+        .eq('id', matchId)
+        .select()
+        .single();
+
+      const { data, error } = await Promise.race([updatePromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 更新比赛记录失败:', error);
+        throw new Error(`更新比赛记录失败: ${error.message}`);
+      }
+
+      console.log('✅ 比赛记录更新成功');
+      return this.convertToAppMatch(data);
+    } catch (error) {
+      console.error('❌ 更新比赛记录失败:', error);
+      throw error;
+    }
+  }
+
+  // 转换数据库比赛记录为应用格式
+  convertToAppMatch(match: MatchRecord): MatchInfo {
+    return {
+      id: match.id,
+      date: match.date,
+      competition: match.competition || undefined,
+      homeTeam: match.home_team || undefined,
+      awayTeam: match.away_team || undefined,
+      homeScore: match.home_score,
+      awayScore: match.away_score,
+      venue: match.venue || undefined,
+      videoName: match.video_name || undefined,
+      videoSize: match.video_size ?? undefined
+    };
+  }
+
+  // 转换数据库表现记录为应用格式，NULL 指标记为缺失
+  private convertToAppPerformance(perf: PerformanceRecord): PerformanceData {
+    const columns: Record<PerformanceMetric, unknown[]> = {
+      overall: [perf.overall],
+      speed: [perf.speed],
+      passing: [perf.passing],
+      positioning: [perf.positioning],
+      touches: [perf.touches],
+      distance: [perf.distance],
+      topSpeed: [perf.top_speed],
+      passAccuracy: [perf.pass_accuracy],
+      dominantFoot: [perf.dominant_foot_right, perf.dominant_foot_left]
+    };
+    const missingMetrics = PERFORMANCE_METRICS.filter(metric =>
+      columns[metric].some(value => value === null || value === undefined)
+    );
+
+    return {
+      matchId: perf.match_id || `match_${Date.now()}`,
+      date: perf.date || new Date().toISOString(),
+      opponent: perf.opponent || undefined,
+      overall: Number(perf.overall ?? 0),
+      speed: Number(perf.speed ?? 0),
+      passing: Number(perf.passing ?? 0),
+      positioning: Number(perf.positioning ?? 0),
+      touches: Number(perf.touches ?? 0),
+      distance: Number(perf.distance ?? 0),
+      topSpeed: Number(perf.top_speed ?? 0),
+      passAccuracy: Number(perf.pass_accuracy ?? 0),
+      dominantFoot: {
+        right: Number(perf.dominant_foot_right ?? 0),
+        left: Number(perf.dominant_foot_left ?? 0)
+      },
+      analysisStatus: perf.analysis_status ?? undefined,
+      missingMetrics,
+      matchRef: perf.match_ref ?? undefined,
+      derivedMetrics: perf.derived_metrics?.length ? perf.derived_metrics as PerformanceMetric[] : undefined,
+      trackedMovement: perf.tracked_movement ?? undefined,
+      positionMap: perf.position_map ?? undefined,
+      events: perf.events?.length ? perf.events
+        .map(event => this.convertToAppEvent(event))
+        .sort((a, b) => a.timestamp - b.timestamp) : undefined
+    };
+  }
+
+  private convertToAppEvent(event: EventRecord): MatchEvent {
+    return {
+      type: event.type,
+      timestamp: Number(event.timestamp_seconds),
+      outcome: event.outcome ?? undefined,
+      x: event.x !== null ? Number(event.x) : undefined,
+      y: event.y !== null ? Number(event.y) : undefined,
+      relatedPlayer: event.related_player ?? undefined,
+      description: event.description ?? undefined
+    };
+  }
+
   // 转换数据库记录为应用格式
-  private convertToAppPlayerRecord(dbPlayer: any): AppPlayerRecord {
+  convertToAppPlayerRecord(dbPlayer: any): AppPlayerRecord {
     try {
-      const performances = dbPlayer.performances || [];
+      const performanceHistory: PerformanceData[] = (dbPlayer.performances || [])
+        .map((perf: PerformanceRecord) => this.convertToAppPerformance(perf));
       
       return {
         id: dbPlayer.id,
@@ -289,61 +480,24 @@ export class DatabaseService {
         firstAnalyzed: dbPlayer.first_analyzed || new Date().toISOString(),
         lastAnalyzed: dbPlayer.last_analyzed || new Date().toISOString(),
         avatar: dbPlayer.avatar_url || undefined,
-        averagePerformance: dbPlayer.average_performance || {
-          matchId: 'average',
-          date: '',
-          overall: 75,
-          speed: 80,
-          passing: 78,
-          positioning: 82,
-          touches: 120,
-          distance: 7.5,
-          topSpeed: 22.5,
-          passAccuracy: 85,
-          dominantFoot: { right: 65, left: 35 }
-        },
+        appearance: dbPlayer.appearance_signature || undefined,
+        // 平均值由数据库触发器计算，尚无表现记录时为空
+        averagePerformance: dbPlayer.average_performance || calculateAveragePerformance([]),
         improvements: dbPlayer.improvements || [],
         weaknesses: dbPlayer.weaknesses || [],
-        performanceHistory: performances.map((perf: any) => ({
-          matchId: perf.match_id || `match_${Date.now()}`,
-          date: perf.date || new Date().toISOString(),
-          opponent: perf.opponent || '对手队伍',
-          overall: perf.overall || 75,
-          speed: perf.speed || 80,
-          passing: perf.passing || 78,
-          positioning: perf.positioning || 82,
-          touches: perf.touches || 120,
-          distance: perf.distance || 7.5,
-          topSpeed: perf.top_speed || 22.5,
-          passAccuracy: perf.pass_accuracy || 85,
-          dominantFoot: {
-            right: perf.dominant_foot_right || 65,
-            left: perf.dominant_foot_left || 35
-          }
-        }))
+        performanceHistory,
+        goals: (dbPlayer.player_goals || []).map((goal: PlayerGoalRecord) => goalService.convertToAppGoal(goal))
       };
     } catch (error) {
       console.error('❌ 转换球员记录失败:', error);
-      // 返回一个默认的球员记录
+      // 返回一个没有任何表现数据的球员记录
       return {
         id: dbPlayer.id || 'unknown',
         name: dbPlayer.name || '未知球员',
         totalMatches: 0,
         firstAnalyzed: new Date().toISOString(),
         lastAnalyzed: new Date().toISOString(),
-        averagePerformance: {
-          matchId: 'average',
-          date: '',
-          overall: 75,
-          speed: 80,
-          passing: 78,
-          positioning: 82,
-          touches: 120,
-          distance: 7.5,
-          topSpeed: 22.5,
-          passAccuracy: 85,
-          dominantFoot: { right: 65, left: 35 }
-        },
+        averagePerformance: calculateAveragePerformance([]),
         improvements: [],
         weaknesses: [],
         performanceHistory: []
@@ -0,0 +1,119 @@
+import { supabase, DetectionAnnotationRecord } from '../lib/supabase';
+import { PlayerDetection, SampledFrame } from './analysisProvider';
+import { BoundingBox } from './playerMatching';
+
+export interface DetectionAnnotation {
+  frameTimestamps: number[];
+  players: PlayerDetection[];
+  updatedAt: string;
+}
+
+// 小于这个尺寸（画面百分比）的框视为误拖
+export const MIN_ANNOTATION_BOX = { width: 1, height: 2 };
+
+const roundBox = (box: BoundingBox): BoundingBox => ({
+  x: Math.round(box.x * 10) / 10,
+  y: Math.round(box.y * 10) / 10,
+  width: Math.round(box.width * 10) / 10,
+  height: Math.round(box.height * 10) / 10
+});
+
+// 手动修正某一帧中的框；修正过的帧成为该球员的最佳帧，跟踪和头像截取都以它为起点
+export function updateDetectionBox(player: PlayerDetection, frame: SampledFrame, box: BoundingBox): PlayerDetection {
+  const corrected = { ...roundBox(box), frameIndex: frame.frameIndex, timestamp: frame.timestamp, confidence: 1 };
+  const appearances = [
+    ...(player.appearances ?? []).filter(appearance => appearance.frameIndex !== frame.frameIndex),
+    corrected
+  ].sort((a, b) => a.frameIndex - b.frameIndex);
+
+  return {
+    ...player,
+    ...roundBox(box),
+    timestamp: frame.timestamp,
+    confidence: 1,
+    appearances,
+    bestFrameIndex: frame.frameIndex,
+    corrected: true
+  };
+}
+
+// 补画模型漏检的球员
+export function createManualDetection(players: PlayerDetection[], frame: SampledFrame, box: BoundingBox, team: 'home' | 'away'): PlayerDetection {
+  const id = Math.max(0, ...players.map(player => player.id)) + 1;
+  const teamColor = players.find(player => player.team === team)?.teamColor;
+  return updateDetectionBox({ id, ...roundBox(box), confidence: 1, team, teamColor, timestamp: frame.timestamp, isReferee: false }, frame, box);
+}
+
+export const getVideoKey = (videoFile: File) => ({ videoName: videoFile.name, videoSize: videoFile.size });
+
+export class DetectionAnnotationService {
+  // 获取用户对同一视频保存过的标注，没有时返回 null
+  async getAnnotation(userId: string, videoFile: File): Promise<DetectionAnnotation | null> {
+    try {
+      const { videoName, videoSize } = getVideoKey(videoFile);
+
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('获取检测标注超时')), 10000);
+      });
+
+      const queryPromise = supabase
+        .from('detection_annotations')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('video_name', videoName)
+        .eq('video_size', videoSize)
+        .maybeSingle();
+
+      const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 获取检测标注失败:', error);
+        return null;
+      }
+
+      if (!data) return null;
+
+      console.log('✅ 找到已保存的检测标注:', (data as DetectionAnnotationRecord).players.length, '名球员');
+      return this.convertToAppAnnotation(data as DetectionAnnotationRecord);
+    } catch (error) {
+      console.error('❌ 获取检测标注失败:', error);
+      return null;
+    }
+  }
+
+  // 保存修正后的检测结果，同一视频只保留最新一份
+  async saveAnnotation(userId: string, videoFile: File, players: PlayerDetection[], frames: SampledFrame[]): Promise<DetectionAnnotation> {
+    const { videoName, videoSize } = getVideoKey(videoFile);
+
+    const { data, error } = await supabase
+      .from('detection_annotations')
+      .upsert({
+        user_id: userId,
+        video_name: videoName,
+        video_size: videoSize,
+        frame_timestamps: frames.map(frame => Math.round(frame.timestamp * 1000) / 1000),
+        // 跟踪轨迹随分析重新生成，不随标注保存
+        players: players.map(player => ({ ...player, movementPattern: undefined }))
+      }, { onConflict: 'user_id,video_name,video_size' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ 保存检测标注失败:', error);
+      throw new Error(`保存检测标注失败: ${error.message}`);
+    }
+
+    console.log('✅ 检测标注已保存:', players.length, '名球员');
+    return this.convertToAppAnnotation(data as DetectionAnnotationRecord);
+  }
+
+  private convertToAppAnnotation(record: DetectionAnnotationRecord): DetectionAnnotation {
+    return {
+      frameTimestamps: record.frame_timestamps.map(Number),
+      players: record.players,
+      updatedAt: record.updated_at
+    };
+  }
+}
+
+export const detectionAnnotationService = new DetectionAnnotationService();
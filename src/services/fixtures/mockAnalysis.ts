@@ -0,0 +1,81 @@
+import { PerformanceData } from '../../App';
+import { PlayerDetection } from '../analysisProvider';
+
+export interface MockPlayerFixture extends Omit<PlayerDetection, 'id' | 'timestamp'> {
+  // Drift in percent of the frame per second, so tracking sees the player move
+  velocity: { x: number; y: number };
+}
+
+export const mockTeamColors = { home: 'Blue', away: 'Red' };
+
+// Roster as it appears at 0s; positions at later timestamps are derived from velocity
+export const mockPlayers: MockPlayerFixture[] = [
+  { x: 12.0, y: 40.0, width: 5.5, height: 16.0, confidence: 0.94, jersey: '1', team: 'home', teamColor: 'Blue', velocity: { x: 0.1, y: 0.2 } },
+  { x: 24.5, y: 28.0, width: 6.0, height: 17.5, confidence: 0.91, jersey: '4', team: 'home', teamColor: 'Blue', velocity: { x: 0.6, y: 0.3 } },
+  { x: 30.0, y: 55.0, width: 6.2, height: 18.0, confidence: 0.89, jersey: '8', team: 'home', teamColor: 'Blue', velocity: { x: 0.8, y: -0.4 } },
+  { x: 42.0, y: 38.5, width: 6.4, height: 18.5, confidence: 0.93, jersey: '10', team: 'home', teamColor: 'Blue', velocity: { x: 1.2, y: 0.2 } },
+  { x: 48.0, y: 62.0, width: 6.0, height: 17.0, confidence: 0.82, team: 'home', teamColor: 'Blue', velocity: { x: 0.9, y: -0.6 } },
+  { x: 55.5, y: 30.0, width: 6.1, height: 17.8, confidence: 0.9, jersey: '5', team: 'away', teamColor: 'Red', velocity: { x: -0.7, y: 0.4 } },
+  { x: 61.0, y: 48.0, width: 6.3, height: 18.2, confidence: 0.92, jersey: '9', team: 'away', teamColor: 'Red', velocity: { x: -1.0, y: -0.2 } },
+  { x: 70.0, y: 58.0, width: 5.8, height: 17.0, confidence: 0.86, jersey: '11', team: 'away', teamColor: 'Red', velocity: { x: -0.5, y: -0.5 } },
+  { x: 84.0, y: 42.0, width: 5.6, height: 16.5, confidence: 0.95, jersey: '1', team: 'away', teamColor: 'Red', velocity: { x: -0.1, y: 0.1 } }
+];
+
+// Picked by selected player id, so the same selection always gets the same scores.
+// Distance and top speed are placeholders; the analysis does not measure them for the whole match
+export const mockPerformances: Omit<PerformanceData, 'matchId' | 'date'>[] = [
+  {
+    opponent: 'Fixture United',
+    overall: 82,
+    speed: 78,
+    passing: 85,
+    positioning: 80,
+    touches: 64,
+    distance: 0,
+    topSpeed: 0,
+    passAccuracy: 87,
+    dominantFoot: { right: 72, left: 28 },
+    events: [
+      { type: 'pass', timestamp: 4.2, outcome: 'successful', x: 42, y: 48, relatedPlayer: '#8', description: 'Short pass into midfield' },
+      { type: 'dribble', timestamp: 9.8, outcome: 'successful', x: 58, y: 35 },
+      { type: 'pass', timestamp: 15.5, outcome: 'unsuccessful', x: 66, y: 40, relatedPlayer: '#9', description: 'Through ball intercepted' },
+      { type: 'shot', timestamp: 22.1, outcome: 'successful', x: 82, y: 46, description: 'Shot on target from the edge of the box' }
+    ]
+  },
+  {
+    opponent: 'Fixture United',
+    overall: 74,
+    speed: 88,
+    passing: 68,
+    positioning: 71,
+    touches: 41,
+    distance: 0,
+    topSpeed: 0,
+    passAccuracy: 76,
+    dominantFoot: { right: 85, left: 15 },
+    events: [
+      { type: 'sprint', timestamp: 3.0, x: 55, y: 70, description: 'Run in behind the back line' },
+      { type: 'tackle', timestamp: 11.4, outcome: 'successful', x: 38, y: 62, relatedPlayer: '#5' },
+      { type: 'sprint', timestamp: 18.7, x: 64, y: 75 },
+      { type: 'shot', timestamp: 24.3, outcome: 'unsuccessful', x: 86, y: 58, description: 'Shot wide of the far post' }
+    ]
+  },
+  {
+    opponent: 'Fixture United',
+    overall: 88,
+    speed: 84,
+    passing: 91,
+    positioning: 89,
+    touches: 92,
+    distance: 0,
+    topSpeed: 0,
+    passAccuracy: 92,
+    dominantFoot: { right: 55, left: 45 },
+    events: [
+      { type: 'pass', timestamp: 2.6, outcome: 'successful', x: 35, y: 50, relatedPlayer: '#4' },
+      { type: 'pass', timestamp: 7.9, outcome: 'successful', x: 48, y: 62, relatedPlayer: '#11', description: 'Switch of play to the left wing' },
+      { type: 'dribble', timestamp: 13.2, outcome: 'successful', x: 67, y: 44, description: 'Beats two defenders' },
+      { type: 'pass', timestamp: 19.4, outcome: 'successful', x: 78, y: 38, relatedPlayer: '#10', description: 'Assist' }
+    ]
+  }
+];
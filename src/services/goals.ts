@@ -0,0 +1,156 @@
+import { supabase, PlayerGoalRecord } from '../lib/supabase';
+import { GoalStatus, PerformanceData, PerformanceMetric, PlayerGoal } from '../App';
+import { getMetricValue, isMetricAvailable } from './performanceStats';
+import { toDateKey } from './training';
+
+export type GoalInput = Pick<PlayerGoal, 'metric' | 'target' | 'deadline'>;
+export type GoalProgress = Pick<PlayerGoal, 'currentValue' | 'progress' | 'status' | 'achievedAt'>;
+
+// 最近一次测得该指标的分析
+export const getLatestMeasurement = (history: PerformanceData[], metric: PerformanceMetric) => {
+  const latest = history
+    .filter(performance => isMetricAvailable(performance, metric))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+  return latest ? { value: getMetricValue(latest, metric), date: latest.date } : undefined;
+};
+
+// 截止日期前有一场分析达到目标即为达成；进度按从设定时的值到目标值之间完成的比例计算
+export const evaluateGoal = (
+  goal: Pick<PlayerGoal, 'metric' | 'target' | 'deadline' | 'baseline' | 'status' | 'achievedAt'>,
+  history: PerformanceData[],
+  today = toDateKey(new Date())
+): GoalProgress => {
+  const latest = getLatestMeasurement(history, goal.metric);
+  const reached = history
+    .filter(performance =>
+      isMetricAvailable(performance, goal.metric) &&
+      toDateKey(new Date(performance.date)) <= goal.deadline &&
+      getMetricValue(performance, goal.metric) >= goal.target
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+
+  if (goal.status === 'achieved' || reached) {
+    return {
+      currentValue: latest?.value,
+      progress: 100,
+      status: 'achieved',
+      achievedAt: goal.achievedAt ?? reached?.date
+    };
+  }
+
+  let progress = 0;
+  if (latest) {
+    const start = goal.baseline !== undefined && goal.baseline < goal.target ? goal.baseline : 0;
+    progress = Math.round(Math.min(Math.max((latest.value - start) / (goal.target - start), 0), 1) * 100);
+  }
+
+  return {
+    currentValue: latest?.value,
+    progress,
+    status: goal.deadline < today ? 'missed' : 'active',
+    achievedAt: undefined
+  };
+};
+
+export class GoalService {
+  // 设定目标时记录最近一次测得的值作为起点
+  async createGoal(userId: string, playerId: string, history: PerformanceData[], input: GoalInput): Promise<PlayerGoal> {
+    if (!Number.isFinite(input.target)) {
+      throw new Error('目标值必须是数字');
+    }
+    if (!input.deadline) {
+      throw new Error('请选择截止日期');
+    }
+
+    const baseline = getLatestMeasurement(history, input.metric)?.value;
+    const progress = evaluateGoal({ ...input, baseline, status: 'active' }, history);
+
+    const { data, error } = await supabase
+      .from('player_goals')
+      .insert({
+        player_id: playerId,
+        metric: input.metric,
+        target: input.target,
+        deadline: input.deadline,
+        baseline: baseline ?? null,
+        ...this.convertToProgressRecord(progress),
+        created_by: userId
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ 设定目标失败:', error);
+      throw new Error(`设定目标失败: ${error.message}`);
+    }
+
+    console.log('✅ 目标已设定:', data.id);
+    return this.convertToAppGoal(data);
+  }
+
+  async deleteGoal(goalId: string): Promise<void> {
+    const { error } = await supabase
+      .from('player_goals')
+      .delete()
+      .eq('id', goalId);
+
+    if (error) {
+      console.error('❌ 删除目标失败:', error);
+      throw new Error(`删除目标失败: ${error.message}`);
+    }
+  }
+
+  // 保存新的分析后按表现历史重新计算进度，只写回有变化的目标
+  async refreshGoalProgress(goals: PlayerGoal[], history: PerformanceData[]): Promise<PlayerGoal[]> {
+    return Promise.all(goals.map(async goal => {
+      const progress = evaluateGoal(goal, history);
+      if (
+        progress.currentValue === goal.currentValue &&
+        progress.progress === goal.progress &&
+        progress.status === goal.status &&
+        progress.achievedAt === goal.achievedAt
+      ) {
+        return goal;
+      }
+
+      const { error } = await supabase
+        .from('player_goals')
+        .update(this.convertToProgressRecord(progress))
+        .eq('id', goal.id);
+
+      if (error) {
+        console.error('❌ 更新目标进度失败:', error);
+        throw new Error(`更新目标进度失败: ${error.message}`);
+      }
+
+      console.log('🎯 目标进度已更新:', goal.id, progress.status, `${progress.progress}%`);
+      return { ...goal, ...progress };
+    }));
+  }
+
+  convertToAppGoal(goal: PlayerGoalRecord): PlayerGoal {
+    return {
+      id: goal.id,
+      playerId: goal.player_id,
+      metric: goal.metric as PerformanceMetric,
+      target: Number(goal.target),
+      deadline: goal.deadline,
+      baseline: goal.baseline !== null ? Number(goal.baseline) : undefined,
+      currentValue: goal.current_value !== null ? Number(goal.current_value) : undefined,
+      progress: Number(goal.progress),
+      status: goal.status as GoalStatus,
+      achievedAt: goal.achieved_at || undefined
+    };
+  }
+
+  private convertToProgressRecord(progress: GoalProgress) {
+    return {
+      current_value: progress.currentValue ?? null,
+      progress: progress.progress,
+      status: progress.status,
+      achieved_at: progress.achievedAt ?? null
+    };
+  }
+}
+
+export const goalService = new GoalService();
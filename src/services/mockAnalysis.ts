@@ -0,0 +1,94 @@
+import { PerformanceData, PlayerRecord } from '../App';
+import { AnalysisJobStatus, AnalysisProvider, PerformanceAnalysisOptions, PlayerDetection, VideoDetectionOptions, VideoDetectionResult } from './analysisProvider';
+import { detectPlayersAcrossFrames } from './videoFrames';
+import { mockPlayers, mockPerformances } from './fixtures/mockAnalysis';
+import { TRACKED_WINDOW_METRICS } from './performanceStats';
+
+// Simulated response time, so loading states stay visible during local development
+const MOCK_LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 300);
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Same stages the server-side job goes through
+const MOCK_JOB_STAGES: { status: AnalysisJobStatus; progress: number; message: string }[] = [
+  { status: 'queued', progress: 0, message: '任务已创建，等待处理' },
+  { status: 'uploading', progress: 20, message: '正在上传视频...' },
+  { status: 'processing', progress: 45, message: '正在处理视频文件...' },
+  { status: 'analyzing', progress: 70, message: '正在分析球员表现...' }
+];
+
+// Deterministic provider backed by local fixtures: no network access, no API quota
+export class MockAnalysisProvider implements AnalysisProvider {
+  readonly name = 'mock';
+
+  async detectPlayersInFrame(_frameDataUrl: string, timestamp: number): Promise<PlayerDetection[]> {
+    await delay();
+
+    const players = mockPlayers.map(({ velocity, ...player }, index) => ({
+      ...player,
+      id: index + 1,
+      x: Math.round(clamp(player.x + velocity.x * timestamp, 0, 100 - player.width) * 10) / 10,
+      y: Math.round(clamp(player.y + velocity.y * timestamp, 0, 100 - player.height) * 10) / 10,
+      timestamp,
+      isReferee: false
+    }));
+
+    console.log(`🧪 Mock detection at ${timestamp.toFixed(1)}s: ${players.length} players`);
+    return players;
+  }
+
+  async analyzeFullVideo(videoFile: File, options: VideoDetectionOptions = {}): Promise<VideoDetectionResult> {
+    console.log('🧪 Starting mock video analysis...', { fileName: videoFile.name });
+
+    return detectPlayersAcrossFrames(
+      videoFile,
+      (frameDataUrl, timestamp) => this.detectPlayersInFrame(frameDataUrl, timestamp),
+      options
+    );
+  }
+
+  async analyzePlayerPerformance(
+    videoFile: File,
+    selectedPlayerId: number,
+    playerName: string,
+    existingPlayerData?: PlayerRecord | null,
+    options: PerformanceAnalysisOptions = {}
+  ): Promise<PerformanceData> {
+    console.log(`🧪 Mock performance analysis for ${playerName}`, {
+      fileName: videoFile.name,
+      playerId: selectedPlayerId,
+      hasExistingData: !!existingPlayerData
+    });
+
+    // The job id carries the player id, so a resumed job returns the same fixture
+    return this.runMockJob(`mock-${selectedPlayerId}-${Date.now()}`, selectedPlayerId, options);
+  }
+
+  async resumePlayerPerformance(jobId: string, options: PerformanceAnalysisOptions = {}): Promise<PerformanceData> {
+    const selectedPlayerId = Number(jobId.split('-')[1]) || 1;
+    return this.runMockJob(jobId, selectedPlayerId, options);
+  }
+
+  private async runMockJob(jobId: string, selectedPlayerId: number, options: PerformanceAnalysisOptions): Promise<PerformanceData> {
+    for (const stage of MOCK_JOB_STAGES) {
+      options.onJobUpdate?.({ jobId, ...stage });
+      await delay();
+    }
+
+    const fixture = mockPerformances[Math.abs(selectedPlayerId - 1) % mockPerformances.length];
+    options.onJobUpdate?.({ jobId, status: 'done', progress: 100, message: 'AI 分析完成' });
+
+    return {
+      ...fixture,
+      dominantFoot: { ...fixture.dominantFoot },
+      events: fixture.events?.map(event => ({ ...event })),
+      matchId: `match_${Date.now()}`,
+      date: new Date().toISOString(),
+      analysisStatus: 'real',
+      // Like the edge function: distance and top speed are only measured over the tracked window
+      missingMetrics: [...TRACKED_WINDOW_METRICS]
+    };
+  }
+}
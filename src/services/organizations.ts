@@ -0,0 +1,244 @@
+import { supabase, OrganizationRecord, OrganizationMemberRecord, OrganizationInviteRecord } from '../lib/supabase';
+import { Organization, OrganizationInvite, OrganizationMember, OrganizationRole } from '../App';
+
+const ACTIVE_WORKSPACE_KEY = 'football-ai-active-workspace';
+// 数据库触发器 ensure_organization_has_owner 拒绝移除或降级最后一名 owner 时的错误码
+const LAST_OWNER_ERROR_CODE = '23514';
+const LAST_OWNER_MESSAGE = '组织至少需要保留一名 owner，请先把其他成员设为 owner';
+
+type MembershipRow = OrganizationMemberRecord & { organizations?: Pick<OrganizationRecord, 'id' | 'name'> | null };
+type InviteRow = OrganizationInviteRecord & { organizations?: Pick<OrganizationRecord, 'name'> | null };
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  coach: 'Coach',
+  analyst: 'Analyst',
+  viewer: 'Read-only'
+};
+
+// 当前工作区中的角色；个人工作区（organizationId 为 null）拥有全部权限
+export const getWorkspaceRole = (organizations: Organization[], organizationId: string | null): OrganizationRole =>
+  organizationId ? organizations.find(org => org.id === organizationId)?.role ?? 'viewer' : 'owner';
+
+// 与 RLS 策略保持一致：analyst 以上可以分析和保存，coach 以上可以删除、管理球队和邀请
+export const canAnalyze = (role: OrganizationRole) => role !== 'viewer';
+export const canManageWorkspace = (role: OrganizationRole) => role === 'owner' || role === 'coach';
+
+export const getInviteLink = (token: string) => `${window.location.origin}/?invite=${token}`;
+
+export class OrganizationService {
+  // 获取用户所属的组织及角色
+  async getUserOrganizations(userId: string): Promise<Organization[]> {
+    try {
+      console.log('🔍 获取用户组织:', userId);
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('获取组织数据超时')), 10000);
+      });
+
+      const queryPromise = supabase
+        .from('organization_members')
+        .select('*, organizations (id, name)')
+        .eq('user_id', userId);
+
+      const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 获取组织失败:', error);
+        return [];
+      }
+
+      return (data || [])
+        .filter((row: MembershipRow) => row.organizations)
+        .map((row: MembershipRow) => ({
+          id: row.organization_id,
+          name: row.organizations!.name,
+          role: row.role
+        }))
+        .sort((a: Organization, b: Organization) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('❌ 获取组织失败:', error);
+      return [];
+    }
+  }
+
+  // 创建组织，创建者成为 owner
+  async createOrganization(name: string): Promise<string> {
+    if (!name.trim()) {
+      throw new Error('组织名称不能为空');
+    }
+
+    const { data, error } = await supabase.rpc('create_organization', { org_name: name.trim() });
+
+    if (error) {
+      console.error('❌ 创建组织失败:', error);
+      throw new Error(`创建组织失败: ${error.message}`);
+    }
+
+    console.log('✅ 组织创建成功:', data);
+    return data as string;
+  }
+
+  async getMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ 获取组织成员失败:', error);
+      throw new Error(`获取组织成员失败: ${error.message}`);
+    }
+
+    return (data || []).map((member: OrganizationMemberRecord) => ({
+      id: member.id,
+      userId: member.user_id,
+      email: member.email || undefined,
+      role: member.role
+    }));
+  }
+
+  async updateMemberRole(memberId: string, role: OrganizationRole): Promise<void> {
+    const { error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('❌ 修改成员角色失败:', error);
+      throw new Error(error.code === LAST_OWNER_ERROR_CODE ? LAST_OWNER_MESSAGE : `修改成员角色失败: ${error.message}`);
+    }
+  }
+
+  // 移除成员；移除自己即退出组织
+  async removeMember(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('❌ 移除成员失败:', error);
+      throw new Error(error.code === LAST_OWNER_ERROR_CODE ? LAST_OWNER_MESSAGE : `移除成员失败: ${error.message}`);
+    }
+  }
+
+  // 按邮箱邀请成员，返回的邀请中包含可发送给对方的 token
+  async inviteMember(organizationId: string, invitedBy: string, email: string, role: OrganizationRole): Promise<OrganizationInvite> {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      throw new Error('邮箱格式不正确');
+    }
+
+    const { data, error } = await supabase
+      .from('organization_invites')
+      .insert({
+        organization_id: organizationId,
+        email: normalizedEmail,
+        role,
+        invited_by: invitedBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ 发送邀请失败:', error);
+      throw new Error(`发送邀请失败: ${error.message}`);
+    }
+
+    console.log('✅ 邀请已创建:', normalizedEmail);
+    return this.convertToAppInvite(data);
+  }
+
+  // 组织中尚未接受的邀请
+  async getOrganizationInvites(organizationId: string): Promise<OrganizationInvite[]> {
+    const { data, error } = await supabase
+      .from('organization_invites')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ 获取邀请失败:', error);
+      return [];
+    }
+
+    return (data || []).map((invite: InviteRow) => this.convertToAppInvite(invite));
+  }
+
+  async revokeInvite(inviteId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organization_invites')
+      .delete()
+      .eq('id', inviteId);
+
+    if (error) {
+      console.error('❌ 撤销邀请失败:', error);
+      throw new Error(`撤销邀请失败: ${error.message}`);
+    }
+  }
+
+  // 发给当前登录邮箱、尚未接受的邀请
+  async getPendingInvites(email: string): Promise<OrganizationInvite[]> {
+    const { data, error } = await supabase
+      .from('organization_invites')
+      .select('*, organizations (name)')
+      .eq('email', email.trim().toLowerCase())
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.error('❌ 获取待处理邀请失败:', error);
+      return [];
+    }
+
+    return (data || []).map((invite: InviteRow) => this.convertToAppInvite(invite));
+  }
+
+  // 接受邀请，返回加入的组织 ID
+  async acceptInvite(token: string): Promise<string> {
+    const { data, error } = await supabase.rpc('accept_organization_invite', { invite_token: token });
+
+    if (error) {
+      console.error('❌ 接受邀请失败:', error);
+      throw new Error(`接受邀请失败: ${error.message}`);
+    }
+
+    console.log('✅ 已加入组织:', data);
+    return data as string;
+  }
+
+  saveActiveWorkspace(userId: string, organizationId: string | null) {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, JSON.stringify({ userId, organizationId }));
+  }
+
+  getActiveWorkspace(userId: string): string | null {
+    try {
+      const stored = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+      if (!stored) return null;
+
+      const workspace = JSON.parse(stored) as { userId: string; organizationId: string | null };
+      return workspace.userId === userId ? workspace.organizationId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private convertToAppInvite(invite: InviteRow): OrganizationInvite {
+    return {
+      id: invite.id,
+      organizationId: invite.organization_id,
+      organizationName: invite.organizations?.name,
+      email: invite.email,
+      role: invite.role,
+      token: invite.token,
+      expiresAt: invite.expires_at
+    };
+  }
+}
+
+export const organizationService = new OrganizationService();
@@ -0,0 +1,215 @@
+import { supabase, PerformanceRuleRecord } from '../lib/supabase';
+import { PerformanceData, PerformanceMetric, PerformanceRule, RuleComparator, Team } from '../App';
+import { getMetricValue, isMetricAvailable } from './performanceStats';
+
+export type PerformanceRuleInput = Omit<PerformanceRule, 'id' | 'isDefault'>;
+
+// 决定球员适用哪套规则：年龄组取自球队，位置取自阵容登记
+export interface PlayerRuleContext {
+  position?: string;
+  ageGroup?: string;
+}
+
+export interface TriggeredRule {
+  rule: PerformanceRule;
+  value: number;
+}
+
+export const RULE_COMPARATORS: RuleComparator[] = ['<', '<=', '>', '>='];
+
+// 与数据库 resolve_player_rules 一致：按最近赛季的阵容登记确定年龄组和位置
+export const getPlayerRuleContext = (playerId: string | undefined, teams: Team[]): PlayerRuleContext => {
+  if (!playerId) return {};
+
+  const registrations = teams.flatMap(team =>
+    team.squad
+      .filter(member => member.playerId === playerId)
+      .map(member => ({ member, team }))
+  );
+  if (registrations.length === 0) return {};
+
+  const latest = registrations.reduce((best, current) => current.member.season > best.member.season ? current : best);
+  return { position: latest.member.position, ageGroup: latest.team.ageGroup };
+};
+
+// 与数据库 resolve_player_rules 一致：年龄组规则 > 工作区通用规则 > 系统默认规则，再按位置过滤
+export const resolvePlayerRules = (rules: PerformanceRule[], context: PlayerRuleContext): PerformanceRule[] => {
+  const workspaceRules = rules.filter(rule => !rule.isDefault);
+  const ageGroupRules = context.ageGroup ? workspaceRules.filter(rule => rule.ageGroup === context.ageGroup) : [];
+  const generalRules = workspaceRules.filter(rule => !rule.ageGroup);
+
+  const ruleSet = ageGroupRules.length > 0
+    ? ageGroupRules
+    : generalRules.length > 0 ? generalRules : rules.filter(rule => rule.isDefault);
+
+  return ruleSet.filter(rule =>
+    !rule.positions || !context.position || rule.positions.includes(context.position)
+  );
+};
+
+export const ruleMatches = (value: number, comparator: RuleComparator, threshold: number) => {
+  switch (comparator) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+  }
+};
+
+export const formatRuleText = (text: string, value: number) =>
+  text.split('{value}').join(String(Math.round(value * 10) / 10));
+
+// 本场命中的待提升规则，未测得的指标不参与判断
+export const getTriggeredWeaknessRules = (rules: PerformanceRule[], performance: PerformanceData): TriggeredRule[] =>
+  rules
+    .filter(rule => rule.kind === 'weakness' && isMetricAvailable(performance, rule.metric))
+    .map(rule => ({ rule, value: getMetricValue(performance, rule.metric) }))
+    .filter(({ rule, value }) => ruleMatches(value, rule.comparator, rule.threshold));
+
+export class RuleService {
+  // 当前工作区的规则和系统默认规则
+  async getRules(userId: string, organizationId: string | null = null): Promise<PerformanceRule[]> {
+    try {
+      console.log('🔍 获取分析规则');
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('获取分析规则超时')), 10000);
+      });
+
+      const workspaceFilter = organizationId
+        ? `organization_id.eq.${organizationId}`
+        : `and(user_id.eq.${userId},organization_id.is.null)`;
+
+      const queryPromise = supabase
+        .from('performance_rules')
+        .select('*')
+        .or(`and(user_id.is.null,organization_id.is.null),${workspaceFilter}`)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 获取分析规则失败:', error);
+        return [];
+      }
+
+      console.log('✅ 成功获取分析规则:', data?.length || 0, '条');
+      return (data || []).map((rule: PerformanceRuleRecord) => this.convertToAppRule(rule));
+    } catch (error) {
+      console.error('❌ 获取分析规则失败:', error);
+      return [];
+    }
+  }
+
+  // 创建或更新工作区规则；系统默认规则不能修改
+  async saveRule(userId: string, organizationId: string | null, input: PerformanceRuleInput, ruleId?: string): Promise<PerformanceRule> {
+    if (!input.message.trim()) {
+      throw new Error('规则提示文字不能为空');
+    }
+    if (!Number.isFinite(input.threshold)) {
+      throw new Error('阈值必须是数字');
+    }
+
+    const record = this.convertToRuleRecord(input);
+    const { data, error } = await (ruleId
+      ? supabase.from('performance_rules').update(record).eq('id', ruleId)
+      : supabase.from('performance_rules').insert({ ...record, user_id: userId, organization_id: organizationId })
+    ).select().single();
+
+    if (error) {
+      console.error('❌ 保存分析规则失败:', error);
+      throw new Error(`保存分析规则失败: ${error.message}`);
+    }
+
+    console.log('✅ 分析规则已保存:', data.id);
+    return this.convertToAppRule(data);
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('performance_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('❌ 删除分析规则失败:', error);
+      throw new Error(`删除分析规则失败: ${error.message}`);
+    }
+  }
+
+  // 以现有规则为模板，为工作区或某个年龄组建立自己的规则集
+  async copyRuleSet(userId: string, organizationId: string | null, ageGroup: string | null, rules: PerformanceRule[]): Promise<void> {
+    if (rules.length === 0) return;
+
+    const { error } = await supabase
+      .from('performance_rules')
+      .insert(rules.map(rule => ({
+        ...this.convertToRuleRecord({ ...rule, ageGroup: ageGroup || undefined }),
+        user_id: userId,
+        organization_id: organizationId
+      })));
+
+    if (error) {
+      console.error('❌ 复制分析规则失败:', error);
+      throw new Error(`复制分析规则失败: ${error.message}`);
+    }
+
+    console.log('✅ 已建立规则集:', ageGroup || '通用', rules.length, '条');
+  }
+
+  // 删除工作区或某个年龄组的规则集，之后回退到上一级规则
+  async deleteRuleSet(userId: string, organizationId: string | null, ageGroup: string | null): Promise<void> {
+    let query = supabase.from('performance_rules').delete();
+    query = organizationId
+      ? query.eq('organization_id', organizationId)
+      : query.eq('user_id', userId).is('organization_id', null);
+    query = ageGroup ? query.eq('age_group', ageGroup) : query.is('age_group', null);
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('❌ 删除规则集失败:', error);
+      throw new Error(`删除规则集失败: ${error.message}`);
+    }
+  }
+
+  convertToAppRule(rule: PerformanceRuleRecord): PerformanceRule {
+    return {
+      id: rule.id,
+      isDefault: !rule.user_id && !rule.organization_id,
+      ageGroup: rule.age_group || undefined,
+      kind: rule.kind,
+      metric: rule.metric as PerformanceMetric,
+      comparator: rule.comparator,
+      threshold: Number(rule.threshold),
+      positions: rule.positions && rule.positions.length > 0 ? rule.positions : undefined,
+      message: rule.message,
+      drill: rule.drill || undefined,
+      drillDescription: rule.drill_description || undefined,
+      drillDuration: rule.drill_duration || undefined,
+      priority: rule.priority,
+      sortOrder: rule.sort_order
+    };
+  }
+
+  private convertToRuleRecord(input: PerformanceRuleInput) {
+    return {
+      age_group: input.ageGroup || null,
+      kind: input.kind,
+      metric: input.metric,
+      comparator: input.comparator,
+      threshold: input.threshold,
+      positions: input.positions && input.positions.length > 0 ? input.positions : null,
+      message: input.message.trim(),
+      drill: input.drill?.trim() || null,
+      drill_description: input.drillDescription?.trim() || null,
+      drill_duration: input.drillDuration?.trim() || null,
+      priority: input.priority,
+      sort_order: input.sortOrder
+    };
+  }
+}
+
+export const ruleService = new RuleService();
@@ -0,0 +1,157 @@
+import { MatchEvent, MatchEventType, PerformanceData, PerformanceMetric } from '../App';
+
+export const PERFORMANCE_METRICS: PerformanceMetric[] = [
+  'overall', 'speed', 'passing', 'positioning', 'touches',
+  'distance', 'topSpeed', 'passAccuracy', 'dominantFoot'
+];
+
+// Not estimated for the whole match any more: the calibrated pitch only measures them over the tracked window
+// (PerformanceData.trackedMovement). Older analyses may still have match values
+export const TRACKED_WINDOW_METRICS: PerformanceMetric[] = ['distance', 'topSpeed'];
+
+// Metrics a new analysis measures for the whole match, offered for charts, rules, goals and drills
+export const MATCH_METRICS = PERFORMANCE_METRICS.filter(metric => !TRACKED_WINDOW_METRICS.includes(metric));
+
+export const METRIC_LABELS: Record<PerformanceMetric, string> = {
+  overall: '综合评分',
+  speed: '速度',
+  passing: '传球',
+  positioning: '位置感',
+  touches: '触球次数',
+  distance: '跑动距离',
+  topSpeed: '最高速度',
+  passAccuracy: '传球成功率',
+  dominantFoot: '惯用脚'
+};
+
+export const MATCH_EVENT_LABELS: Record<MatchEventType, string> = {
+  pass: '传球',
+  shot: '射门',
+  dribble: '带球突破',
+  tackle: '抢断',
+  sprint: '冲刺',
+  touch: '触球'
+};
+
+// Event types counted as touches; mirrors BALL_CONTACT_EVENTS in the edge functions
+export const BALL_CONTACT_EVENTS: MatchEventType[] = ['pass', 'shot', 'dribble', 'touch'];
+
+export interface EventTypeSummary {
+  type: MatchEventType;
+  total: number;
+  successful: number;
+  unsuccessful: number;
+}
+
+// Counts per event type, in the order of MATCH_EVENT_LABELS; types that never happened are left out
+export const summarizeMatchEvents = (events: MatchEvent[]): EventTypeSummary[] =>
+  (Object.keys(MATCH_EVENT_LABELS) as MatchEventType[])
+    .map(type => {
+      const ofType = events.filter(event => event.type === type);
+      return {
+        type,
+        total: ofType.length,
+        successful: ofType.filter(event => event.outcome === 'successful').length,
+        unsuccessful: ofType.filter(event => event.outcome === 'unsuccessful').length
+      };
+    })
+    .filter(summary => summary.total > 0);
+
+// A metric the analysis could not measure only holds a placeholder value
+export const isMetricAvailable = (performance: PerformanceData, metric: PerformanceMetric) =>
+  performance.analysisStatus !== 'failed' && !performance.missingMetrics?.includes(metric);
+
+// Anything other than a complete model result, including records saved before provenance was tracked
+export const isUnverifiedPerformance = (performance: PerformanceData) =>
+  performance.analysisStatus !== 'real';
+
+export const formatMetric = (performance: PerformanceData, metric: PerformanceMetric, value: number, suffix = '') =>
+  isMetricAvailable(performance, metric) ? `${value}${suffix}` : '—';
+
+const average = (values: number[], precision = 1) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * precision) / precision : 0;
+
+// Failed analyses are left out entirely, partial ones only contribute the metrics they measured
+export const calculateAveragePerformance = (history: PerformanceData[]): PerformanceData => {
+  const usable = history.filter(performance => performance.analysisStatus !== 'failed');
+  const valuesFor = (metric: PerformanceMetric) =>
+    usable.filter(performance => isMetricAvailable(performance, metric));
+
+  const missingMetrics = PERFORMANCE_METRICS.filter(metric => valuesFor(metric).length === 0);
+  const footSamples = valuesFor('dominantFoot');
+
+  return {
+    matchId: 'average',
+    date: new Date().toISOString(),
+    overall: average(valuesFor('overall').map(p => p.overall)),
+    speed: average(valuesFor('speed').map(p => p.speed)),
+    passing: average(valuesFor('passing').map(p => p.passing)),
+    positioning: average(valuesFor('positioning').map(p => p.positioning)),
+    touches: average(valuesFor('touches').map(p => p.touches)),
+    distance: average(valuesFor('distance').map(p => p.distance), 10),
+    topSpeed: average(valuesFor('topSpeed').map(p => p.topSpeed), 10),
+    passAccuracy: average(valuesFor('passAccuracy').map(p => p.passAccuracy)),
+    dominantFoot: {
+      right: average(footSamples.map(p => p.dominantFoot.right)),
+      left: average(footSamples.map(p => p.dominantFoot.left))
+    },
+    analysisStatus: missingMetrics.length === PERFORMANCE_METRICS.length
+      ? 'failed'
+      : missingMetrics.length > 0 ? 'partial' : 'real',
+    missingMetrics
+  };
+};
+
+// The foot split is charted as the share of touches with the left foot
+export const getMetricValue = (performance: PerformanceData, metric: PerformanceMetric): number =>
+  metric === 'dominantFoot' ? performance.dominantFoot.left : performance[metric] as number;
+
+export interface TrendPoint {
+  performance: PerformanceData;
+  value: number;
+  // Trailing window ending at this point
+  rollingAverage: number;
+  rollingMin: number;
+  rollingMax: number;
+}
+
+// Chronological series of one metric, skipping analyses that did not measure it
+export const buildMetricTrend = (history: PerformanceData[], metric: PerformanceMetric, window = 3): TrendPoint[] => {
+  const measured = history
+    .filter(performance => isMetricAvailable(performance, metric))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return measured.map((performance, index) => {
+    const windowValues = measured
+      .slice(Math.max(0, index - window + 1), index + 1)
+      .map(p => getMetricValue(p, metric));
+
+    return {
+      performance,
+      value: getMetricValue(performance, metric),
+      rollingAverage: average(windowValues, 10),
+      rollingMin: Math.min(...windowValues),
+      rollingMax: Math.max(...windowValues)
+    };
+  });
+};
+
+// Players that fit side by side on the comparison screen
+export const MAX_COMPARED_PLAYERS = 4;
+
+// Share of the other values this one is above, ties counting half (0-100)
+export const getPercentileRank = (value: number, values: number[]) => {
+  const others = values.length - 1;
+  if (others <= 0) return 100;
+
+  const below = values.filter(v => v < value).length;
+  const tied = values.filter(v => v === value).length - 1;
+  return Math.round(((below + tied / 2) / others) * 100);
+};
+
+// Analyses dated inside the period, both ends inclusive
+export const filterHistoryByPeriod = (history: PerformanceData[], from: Date, to: Date) =>
+  history.filter(performance => {
+    const time = new Date(performance.date).getTime();
+    return time >= from.getTime() && time <= to.getTime();
+  });
@@ -0,0 +1,232 @@
+import { MovementTrack } from './analysisProvider';
+import { BoundingBox } from './playerMatching';
+import { PerformanceData, TrackedMovement } from '../App';
+
+// Image points are in percent of the frame (like detection boxes), pitch points in metres
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface PitchLandmark {
+  id: string;
+  label: string;
+  // Metres from the top-left corner: x along the touchline, y along the goal line
+  position: Point;
+}
+
+export interface CalibrationPoint {
+  landmarkId: string;
+  image: Point;
+  pitch: Point;
+}
+
+export interface PitchCalibration {
+  // Row-major 3x3 matrix mapping frame percent to pitch metres
+  homography: number[];
+  points: CalibrationPoint[];
+  pitchLength: number;
+  pitchWidth: number;
+  frameTimestamp: number;
+  // Mean landmark reprojection error in metres; 0 when exactly four points were placed
+  error: number;
+  // Whether the home team attacks the right-hand goal of the calibration frame
+  homeAttacksRight: boolean;
+}
+
+export interface MovementStats extends TrackedMovement {
+  // Tracked positions that projected onto the pitch, and those that landed off it
+  samples: number;
+  offPitchSamples: number;
+}
+
+export const DEFAULT_PITCH_LENGTH = 105;
+export const DEFAULT_PITCH_WIDTH = 68;
+export const MIN_CALIBRATION_POINTS = 4;
+
+// A run at or above this speed counts as a sprint (7 m/s)
+export const SPRINT_SPEED_KMH = 25.2;
+// Segments faster than this are tracking jumps, not running
+const MAX_PLAUSIBLE_SPEED_KMH = 40;
+// Positions further apart in time than this are not joined into a segment
+const MAX_SEGMENT_SECONDS = 6;
+// Shorter tracks say too little about the player's running to be kept
+export const MIN_TRACKED_SECONDS = 20;
+// Positions projected further off the pitch than this (metres) are not on the calibrated pitch
+const OFF_PITCH_TOLERANCE_METRES = 5;
+// The homography only holds for a fixed camera. When it pans or zooms the tracked players drift off the
+// calibrated pitch, so a track with this share of off-pitch positions is treated as a moving camera
+const MAX_OFF_PITCH_SHARE = 0.2;
+
+// Box sizes are fixed by the laws of the game; only the outer dimensions vary between pitches
+export const buildPitchLandmarks = (length = DEFAULT_PITCH_LENGTH, width = DEFAULT_PITCH_WIDTH): PitchLandmark[] => {
+  const mid = width / 2;
+  const boxHalf = 20.16;
+  return [
+    { id: 'corner-tl', label: 'Top-left corner', position: { x: 0, y: 0 } },
+    { id: 'corner-tr', label: 'Top-right corner', position: { x: length, y: 0 } },
+    { id: 'corner-bl', label: 'Bottom-left corner', position: { x: 0, y: width } },
+    { id: 'corner-br', label: 'Bottom-right corner', position: { x: length, y: width } },
+    { id: 'halfway-top', label: 'Halfway line, top', position: { x: length / 2, y: 0 } },
+    { id: 'halfway-bottom', label: 'Halfway line, bottom', position: { x: length / 2, y: width } },
+    { id: 'centre-spot', label: 'Centre spot', position: { x: length / 2, y: mid } },
+    { id: 'circle-top', label: 'Centre circle, top', position: { x: length / 2, y: mid - 9.15 } },
+    { id: 'circle-bottom', label: 'Centre circle, bottom', position: { x: length / 2, y: mid + 9.15 } },
+    { id: 'left-box-goal-top', label: 'Left penalty box, goal line top', position: { x: 0, y: mid - boxHalf } },
+    { id: 'left-box-goal-bottom', label: 'Left penalty box, goal line bottom', position: { x: 0, y: mid + boxHalf } },
+    { id: 'left-box-top', label: 'Left penalty box, top corner', position: { x: 16.5, y: mid - boxHalf } },
+    { id: 'left-box-bottom', label: 'Left penalty box, bottom corner', position: { x: 16.5, y: mid + boxHalf } },
+    { id: 'left-penalty-spot', label: 'Left penalty spot', position: { x: 11, y: mid } },
+    { id: 'right-box-goal-top', label: 'Right penalty box, goal line top', position: { x: length, y: mid - boxHalf } },
+    { id: 'right-box-goal-bottom', label: 'Right penalty box, goal line bottom', position: { x: length, y: mid + boxHalf } },
+    { id: 'right-box-top', label: 'Right penalty box, top corner', position: { x: length - 16.5, y: mid - boxHalf } },
+    { id: 'right-box-bottom', label: 'Right penalty box, bottom corner', position: { x: length - 16.5, y: mid + boxHalf } },
+    { id: 'right-penalty-spot', label: 'Right penalty spot', position: { x: length - 11, y: mid } }
+  ];
+};
+
+// Solves a square linear system with Gaussian elimination; null when it is (nearly) singular
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+// Direct linear transform with h33 = 1, least squares over all placed points
+export function computeHomography(points: Pick<CalibrationPoint, 'image' | 'pitch'>[]): number[] | null {
+  if (points.length < MIN_CALIBRATION_POINTS) return null;
+
+  const rows: number[][] = [];
+  const targets: number[] = [];
+  points.forEach(({ image: { x: u, y: v }, pitch: { x, y } }) => {
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x]);
+    targets.push(x);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y]);
+    targets.push(y);
+  });
+
+  // Normal equations: (AᵀA) h = Aᵀb
+  const normal = Array.from({ length: 8 }, (_, i) =>
+    Array.from({ length: 8 }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const rhs = Array.from({ length: 8 }, (_, i) => rows.reduce((sum, row, r) => sum + row[i] * targets[r], 0));
+
+  const solution = solveLinearSystem(normal, rhs);
+  return solution && solution.every(Number.isFinite) ? [...solution, 1] : null;
+}
+
+export function projectToPitch(homography: number[], point: Point): Point | null {
+  const [a, b, c, d, e, f, g, h, i] = homography;
+  const w = g * point.x + h * point.y + i;
+  if (Math.abs(w) < 1e-10) return null;
+  return {
+    x: (a * point.x + b * point.y + c) / w,
+    y: (d * point.x + e * point.y + f) / w
+  };
+}
+
+export function getReprojectionError(homography: number[], points: Pick<CalibrationPoint, 'image' | 'pitch'>[]): number {
+  const errors = points.map(point => {
+    const projected = projectToPitch(homography, point.image);
+    return projected ? Math.hypot(projected.x - point.pitch.x, projected.y - point.pitch.y) : Infinity;
+  });
+  return errors.reduce((sum, error) => sum + error, 0) / Math.max(errors.length, 1);
+}
+
+// Players stand on the pitch at the bottom centre of their box
+export const getFootPoint = (box: BoundingBox): Point => ({ x: box.x + box.width / 2, y: box.y + box.height });
+
+// Distance, sprints and top speed from the tracked boxes, measured on the calibrated pitch. Only covers the
+// tracked window, and with positions seconds apart the top speed and sprints are lower bounds
+export function computeMovementStats(track: MovementTrack, calibration: PitchCalibration): MovementStats {
+  const projected = track.timestamps
+    .map((timestamp, index) => ({ timestamp, point: projectToPitch(calibration.homography, getFootPoint(track.positions[index])) }))
+    .filter((sample): sample is { timestamp: number; point: Point } => !!sample.point);
+  const positions = projected
+    .filter(({ point }) =>
+      point.x >= -OFF_PITCH_TOLERANCE_METRES && point.x <= calibration.pitchLength + OFF_PITCH_TOLERANCE_METRES &&
+      point.y >= -OFF_PITCH_TOLERANCE_METRES && point.y <= calibration.pitchWidth + OFF_PITCH_TOLERANCE_METRES
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let metres = 0;
+  let trackedSeconds = 0;
+  let topSpeed = 0;
+  let sprints = 0;
+  let sprinting = false;
+  const segmentSeconds: number[] = [];
+
+  for (let i = 1; i < positions.length; i++) {
+    const seconds = positions[i].timestamp - positions[i - 1].timestamp;
+    if (seconds <= 0 || seconds > MAX_SEGMENT_SECONDS) {
+      sprinting = false;
+      continue;
+    }
+
+    const segment = Math.hypot(positions[i].point.x - positions[i - 1].point.x, positions[i].point.y - positions[i - 1].point.y);
+    const speed = (segment / seconds) * 3.6;
+    if (speed > MAX_PLAUSIBLE_SPEED_KMH) {
+      sprinting = false;
+      continue;
+    }
+
+    metres += segment;
+    trackedSeconds += seconds;
+    segmentSeconds.push(seconds);
+    topSpeed = Math.max(topSpeed, speed);
+
+    // Consecutive fast segments are one sprint
+    if (speed >= SPRINT_SPEED_KMH && !sprinting) sprints++;
+    sprinting = speed >= SPRINT_SPEED_KMH;
+  }
+
+  const sortedSegments = [...segmentSeconds].sort((a, b) => a - b);
+  return {
+    distance: Math.round(metres / 10) / 100,
+    topSpeed: Math.round(topSpeed * 10) / 10,
+    sprints,
+    trackedSeconds: Math.round(trackedSeconds),
+    sampleSeconds: sortedSegments.length > 0 ? Math.round(sortedSegments[Math.floor(sortedSegments.length / 2)] * 10) / 10 : 0,
+    samples: positions.length,
+    offPitchSamples: projected.length - positions.length
+  };
+}
+
+// Whether the track is long enough and stayed on the calibrated pitch
+export function isMovementReliable(stats: MovementStats): boolean {
+  const total = stats.samples + stats.offPitchSamples;
+  return stats.trackedSeconds >= MIN_TRACKED_SECONDS && total > 0 && stats.offPitchSamples / total <= MAX_OFF_PITCH_SHARE;
+}
+
+// Attaches the movement of the tracked window. The match distance and top speed stay unmeasured:
+// the window is a small part of the match and must not feed the averages or goals
+export function applyMovementStats(performance: PerformanceData, stats: MovementStats): PerformanceData {
+  if (!isMovementReliable(stats)) return performance;
+
+  const { distance, topSpeed, sprints, trackedSeconds, sampleSeconds } = stats;
+  return {
+    ...performance,
+    trackedMovement: { distance, topSpeed, sprints, trackedSeconds, sampleSeconds }
+  };
+}
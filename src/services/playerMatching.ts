@@ -0,0 +1,158 @@
+import { PlayerDetection, PlayerAppearance } from './analysisProvider';
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameDetections {
+  frameIndex: number;
+  timestamp: number;
+  players: PlayerDetection[];
+}
+
+// Minimum box overlap for two detections without jersey numbers to count as the same player
+const MIN_MERGE_IOU = 0.3;
+
+// Intersection over union of two boxes (percentage coordinates)
+export function calculateIoU(a: BoundingBox, b: BoundingBox): number {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  if (right <= left || bottom <= top) return 0;
+
+  const intersection = (right - left) * (bottom - top);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+export function normalizeColor(color?: string): string {
+  return (color || '').trim().toLowerCase();
+}
+
+interface PlayerCluster {
+  appearances: PlayerAppearance[];
+  jerseys: string[];
+  team?: 'home' | 'away';
+  teamColor?: string;
+  bestDetection: PlayerDetection;
+}
+
+// Score how likely a detection belongs to an existing cluster, or -1 if it cannot
+function scoreMatch(cluster: PlayerCluster, detection: PlayerDetection, frameIndex: number): number {
+  // A player can only appear once per frame
+  if (cluster.appearances.some(a => a.frameIndex === frameIndex)) return -1;
+
+  if (cluster.team && detection.team && cluster.team !== detection.team) return -1;
+
+  const clusterColor = normalizeColor(cluster.teamColor);
+  const detectionColor = normalizeColor(detection.teamColor);
+  if (clusterColor && detectionColor && clusterColor !== detectionColor) return -1;
+
+  const lastAppearance = cluster.appearances[cluster.appearances.length - 1];
+  const iou = calculateIoU(lastAppearance, detection);
+
+  if (detection.jersey && cluster.jerseys.length > 0) {
+    // Both sides have a visible number: it decides the match
+    return cluster.jerseys.includes(detection.jersey) ? 1 + iou : -1;
+  }
+
+  return iou >= MIN_MERGE_IOU ? iou : -1;
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  let best: string | undefined;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Merge per-frame detections into one roster entry per player, keeping every appearance
+export function mergeFrameDetections(frames: FrameDetections[]): PlayerDetection[] {
+  const clusters: PlayerCluster[] = [];
+
+  for (const frame of frames) {
+    // Highest confidence detections claim clusters first
+    const ordered = [...frame.players].sort((a, b) => b.confidence - a.confidence);
+
+    for (const detection of ordered) {
+      const appearance: PlayerAppearance = {
+        frameIndex: frame.frameIndex,
+        timestamp: frame.timestamp,
+        x: detection.x,
+        y: detection.y,
+        width: detection.width,
+        height: detection.height,
+        confidence: detection.confidence
+      };
+
+      let bestCluster: PlayerCluster | null = null;
+      let bestScore = -1;
+      for (const cluster of clusters) {
+        const score = scoreMatch(cluster, detection, frame.frameIndex);
+        if (score > bestScore) {
+          bestScore = score;
+          bestCluster = cluster;
+        }
+      }
+
+      if (bestCluster) {
+        bestCluster.appearances.push(appearance);
+        if (detection.jersey) bestCluster.jerseys.push(detection.jersey);
+        bestCluster.team = bestCluster.team || detection.team;
+        bestCluster.teamColor = bestCluster.teamColor || detection.teamColor;
+        if (detection.confidence > bestCluster.bestDetection.confidence) {
+          bestCluster.bestDetection = detection;
+        }
+      } else {
+        clusters.push({
+          appearances: [appearance],
+          jerseys: detection.jersey ? [detection.jersey] : [],
+          team: detection.team,
+          teamColor: detection.teamColor,
+          bestDetection: detection
+        });
+      }
+    }
+  }
+
+  return clusters
+    .map(cluster => {
+      const best = cluster.appearances.reduce((top, current) =>
+        current.confidence > top.confidence ? current : top
+      );
+      const appearances = [...cluster.appearances].sort((a, b) => a.timestamp - b.timestamp);
+
+      return {
+        id: 0,
+        x: best.x,
+        y: best.y,
+        width: best.width,
+        height: best.height,
+        confidence: best.confidence,
+        jersey: mostCommon(cluster.jerseys),
+        team: cluster.team,
+        teamColor: cluster.teamColor,
+        timestamp: best.timestamp,
+        isReferee: false,
+        movementPattern: cluster.bestDetection.movementPattern,
+        appearances,
+        bestFrameIndex: best.frameIndex
+      };
+    })
+    // Players seen in more frames first, then by confidence
+    .sort((a, b) => b.appearances.length - a.appearances.length || b.confidence - a.confidence)
+    .map((player, index) => ({ ...player, id: index + 1 }));
+}
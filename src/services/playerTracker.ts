@@ -0,0 +1,259 @@
+import { PlayerDetection, MovementTrack, SampledFrame } from './analysisProvider';
+import { analysisProvider } from './analysis';
+import { extractFramesAtTimestamps } from './videoFrames';
+import { calculateIoU, normalizeColor, BoundingBox } from './playerMatching';
+
+export interface TrackingOptions {
+  // Seconds between sampled frames
+  intervalSeconds?: number;
+  // Upper bound on sampled frames (each one costs a detection request)
+  maxFrames?: number;
+  onProgress?: (completedFrames: number, totalFrames: number) => void;
+}
+
+const DEFAULT_TRACKING_INTERVAL = Number(import.meta.env.VITE_TRACKING_INTERVAL_SECONDS) || 2;
+const DEFAULT_MAX_TRACKING_FRAMES = 30;
+// Stop following a direction after this many frames without a match
+const MAX_CONSECUTIVE_MISSES = 3;
+// Largest centre shift (percent of the frame) accepted per second between samples
+const MAX_SHIFT_PER_SECOND = 12;
+const MIN_MATCH_SCORE = 0.3;
+const HISTOGRAM_BINS = 4;
+
+type ColorHistogram = number[];
+
+interface TrackPoint {
+  timestamp: number;
+  box: BoundingBox;
+}
+
+const center = (box: BoundingBox) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+const roundBox = (box: BoundingBox): BoundingBox => ({
+  x: Math.round(box.x * 10) / 10,
+  y: Math.round(box.y * 10) / 10,
+  width: Math.round(box.width * 10) / 10,
+  height: Math.round(box.height * 10) / 10
+});
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Frame image loading failed'));
+    img.src = url;
+  });
+}
+
+// Colour histogram of the jersey area (upper-middle of the box), used as the appearance signature
+function computeHistogram(img: HTMLImageElement, box: BoundingBox): ColorHistogram | null {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  canvas.width = 16;
+  canvas.height = 16;
+
+  const sx = ((box.x + box.width * 0.2) / 100) * img.width;
+  const sy = ((box.y + box.height * 0.15) / 100) * img.height;
+  const sw = ((box.width * 0.6) / 100) * img.width;
+  const sh = ((box.height * 0.45) / 100) * img.height;
+  if (sw < 1 || sh < 1) return null;
+
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const histogram: ColorHistogram = new Array(HISTOGRAM_BINS ** 3).fill(0);
+  const binSize = 256 / HISTOGRAM_BINS;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = Math.floor(data[i] / binSize);
+    const g = Math.floor(data[i + 1] / binSize);
+    const b = Math.floor(data[i + 2] / binSize);
+    histogram[(r * HISTOGRAM_BINS + g) * HISTOGRAM_BINS + b]++;
+  }
+
+  const total = data.length / 4;
+  return histogram.map(count => count / total);
+}
+
+// Bhattacharyya coefficient: 1 for identical histograms, 0 for disjoint ones
+function histogramSimilarity(a: ColorHistogram | null, b: ColorHistogram | null): number {
+  if (!a || !b) return 0.5;
+  return a.reduce((sum, value, i) => sum + Math.sqrt(value * b[i]), 0);
+}
+
+// Box position at a moment of the video, interpolated between tracked samples
+export function getTrackedBoxAt(track: MovementTrack | undefined, time: number, maxGap: number = DEFAULT_TRACKING_INTERVAL): BoundingBox | null {
+  if (!track || track.timestamps.length === 0) return null;
+
+  const { timestamps, positions } = track;
+  if (time < timestamps[0] - maxGap || time > timestamps[timestamps.length - 1] + maxGap) return null;
+  if (time <= timestamps[0]) return positions[0];
+  if (time >= timestamps[timestamps.length - 1]) return positions[positions.length - 1];
+
+  const next = timestamps.findIndex(t => t >= time);
+  const prev = next - 1;
+  const span = timestamps[next] - timestamps[prev];
+  const ratio = span > 0 ? (time - timestamps[prev]) / span : 0;
+  const lerp = (a: number, b: number) => a + (b - a) * ratio;
+
+  return {
+    x: lerp(positions[prev].x, positions[next].x),
+    y: lerp(positions[prev].y, positions[next].y),
+    width: lerp(positions[prev].width, positions[next].width),
+    height: lerp(positions[prev].height, positions[next].height)
+  };
+}
+
+export class PlayerTracker {
+  // Follow one selected detection through frames sampled around its timestamp
+  async trackPlayer(videoFile: File, target: PlayerDetection, options: TrackingOptions = {}): Promise<MovementTrack> {
+    const interval = options.intervalSeconds || DEFAULT_TRACKING_INTERVAL;
+    const maxFrames = Math.max(2, options.maxFrames || DEFAULT_MAX_TRACKING_FRAMES);
+    const seedTime = target.timestamp;
+    const seedBox: BoundingBox = { x: target.x, y: target.y, width: target.width, height: target.height };
+
+    console.log('🛰️ Starting player tracking...', { playerId: target.id, seedTime, interval, maxFrames });
+
+    // Sample backwards and forwards from the seed, half of the budget each way
+    const backward: number[] = [];
+    for (let t = seedTime - interval; t >= 0 && backward.length < Math.floor((maxFrames - 1) / 2); t -= interval) {
+      backward.push(t);
+    }
+    const forward: number[] = [];
+    for (let k = 1; forward.length < maxFrames - 1 - backward.length; k++) {
+      forward.push(seedTime + k * interval);
+    }
+
+    const frames = await extractFramesAtTimestamps(
+      videoFile,
+      [...backward.reverse(), seedTime, ...forward]
+    );
+    if (frames.length === 0) {
+      throw new Error('Unable to extract frames for tracking');
+    }
+
+    const seedIndex = frames.reduce((best, frame, index) =>
+      Math.abs(frame.timestamp - seedTime) < Math.abs(frames[best].timestamp - seedTime) ? index : best, 0);
+
+    const seedImage = await loadImage(frames[seedIndex].url);
+    const referenceHistogram = computeHistogram(seedImage, seedBox);
+
+    const totalFrames = frames.length - 1;
+    let completedFrames = 0;
+    const reportProgress = () => {
+      completedFrames++;
+      options.onProgress?.(completedFrames, totalFrames);
+    };
+
+    const points: TrackPoint[] = [{ timestamp: frames[seedIndex].timestamp, box: seedBox }];
+    const forwardFrames = frames.slice(seedIndex + 1);
+    const backwardFrames = frames.slice(0, seedIndex).reverse();
+
+    points.push(...await this.followDirection(forwardFrames, target, points[0], referenceHistogram, reportProgress));
+    points.push(...await this.followDirection(backwardFrames, target, points[0], referenceHistogram, reportProgress));
+
+    points.sort((a, b) => a.timestamp - b.timestamp);
+    console.log(`✅ Tracking complete: ${points.length} positions over ${totalFrames + 1} sampled frames`);
+
+    return {
+      timestamps: points.map(point => Math.round(point.timestamp * 10) / 10),
+      positions: points.map(point => roundBox(point.box))
+    };
+  }
+
+  private async followDirection(
+    frames: SampledFrame[],
+    target: PlayerDetection,
+    seed: TrackPoint,
+    referenceHistogram: ColorHistogram | null,
+    reportProgress: () => void
+  ): Promise<TrackPoint[]> {
+    const points: TrackPoint[] = [];
+    let last = seed;
+    let velocity = { x: 0, y: 0 };
+    let reference = referenceHistogram;
+    let misses = 0;
+
+    for (const frame of frames) {
+      if (misses >= MAX_CONSECUTIVE_MISSES) {
+        reportProgress();
+        continue;
+      }
+
+      try {
+        const detections = await analysisProvider.detectPlayersInFrame(frame.url, frame.timestamp);
+        const image = await loadImage(frame.url);
+        const dt = Math.abs(frame.timestamp - last.timestamp);
+        const predicted: BoundingBox = {
+          ...last.box,
+          x: last.box.x + velocity.x * dt,
+          y: last.box.y + velocity.y * dt
+        };
+
+        let best: { detection: PlayerDetection; score: number; histogram: ColorHistogram | null } | null = null;
+        for (const detection of detections) {
+          const histogram = computeHistogram(image, detection);
+          const score = this.scoreCandidate(target, predicted, detection, dt, reference, histogram);
+          if (score > MIN_MATCH_SCORE && (!best || score > best.score)) {
+            best = { detection, score, histogram };
+          }
+        }
+
+        if (best) {
+          const box: BoundingBox = { x: best.detection.x, y: best.detection.y, width: best.detection.width, height: best.detection.height };
+          if (dt > 0) {
+            velocity = {
+              x: (center(box).x - center(last.box).x) / dt,
+              y: (center(box).y - center(last.box).y) / dt
+            };
+          }
+          // Let the signature drift slowly with lighting and pose changes
+          if (reference && best.histogram) {
+            reference = reference.map((value, i) => value * 0.8 + best!.histogram![i] * 0.2);
+          }
+          last = { timestamp: frame.timestamp, box };
+          points.push(last);
+          misses = 0;
+        } else {
+          misses++;
+        }
+      } catch (error) {
+        console.warn(`⚠️ Tracking frame at ${frame.timestamp.toFixed(1)}s failed:`, error);
+        misses++;
+      }
+
+      reportProgress();
+    }
+
+    return points;
+  }
+
+  private scoreCandidate(
+    target: PlayerDetection,
+    predicted: BoundingBox,
+    candidate: PlayerDetection,
+    dt: number,
+    reference: ColorHistogram | null,
+    histogram: ColorHistogram | null
+  ): number {
+    if (target.team && candidate.team && target.team !== candidate.team) return -1;
+
+    const targetColor = normalizeColor(target.teamColor);
+    const candidateColor = normalizeColor(candidate.teamColor);
+    if (targetColor && candidateColor && targetColor !== candidateColor) return -1;
+
+    if (target.jersey && candidate.jersey && target.jersey !== candidate.jersey) return -1;
+
+    const maxShift = MAX_SHIFT_PER_SECOND * dt + 5;
+    const shift = Math.hypot(center(candidate).x - center(predicted).x, center(candidate).y - center(predicted).y);
+    if (shift > maxShift) return -1;
+
+    const jerseyBonus = target.jersey && candidate.jersey === target.jersey ? 0.5 : 0;
+
+    return 0.4 * calculateIoU(predicted, candidate)
+      + 0.4 * histogramSimilarity(reference, histogram)
+      + 0.2 * (1 - shift / maxShift)
+      + jerseyBonus;
+  }
+}
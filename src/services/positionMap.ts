@@ -0,0 +1,95 @@
+import { MovementTrack } from './analysisProvider';
+import { PitchCalibration, getFootPoint, projectToPitch } from './pitchCalibration';
+import { PositionMap } from '../App';
+
+export const POSITION_MAP_COLUMNS = 12;
+export const POSITION_MAP_ROWS = 8;
+
+// Positions further off the pitch than this (percent) are projection noise, not play
+const OFF_PITCH_TOLERANCE = 10;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const toShares = (counts: number[], total: number) => counts.map(count => round1((count / total) * 100));
+
+// Where the player was during the tracked part of the clip, in the same pitch percent as match events.
+// attacksRight: the player's team attacks towards the right-hand goal of the calibration frame
+export function buildPositionMap(track: MovementTrack, calibration: PitchCalibration, attacksRight: boolean): PositionMap | null {
+  const timestamps: number[] = [];
+  const positions = track.positions.flatMap((box, index) => {
+    const point = projectToPitch(calibration.homography, getFootPoint(box));
+    if (!point) return [];
+
+    const x = (point.x / calibration.pitchLength) * 100;
+    const y = (point.y / calibration.pitchWidth) * 100;
+    if (x < -OFF_PITCH_TOLERANCE || x > 100 + OFF_PITCH_TOLERANCE || y < -OFF_PITCH_TOLERANCE || y > 100 + OFF_PITCH_TOLERANCE) {
+      return [];
+    }
+
+    timestamps.push(track.timestamps[index]);
+    // Facing the right-hand goal the top touchline is on the player's left
+    const clamped = { x: Math.max(0, Math.min(100, x)), y: Math.max(0, Math.min(100, y)) };
+    return [attacksRight ? clamped : { x: 100 - clamped.x, y: 100 - clamped.y }];
+  });
+
+  if (positions.length === 0) return null;
+
+  const grid = new Array<number>(POSITION_MAP_COLUMNS * POSITION_MAP_ROWS).fill(0);
+  const thirds = [0, 0, 0];
+  const channels = [0, 0, 0];
+  positions.forEach(({ x, y }) => {
+    const column = Math.min(POSITION_MAP_COLUMNS - 1, Math.floor((x / 100) * POSITION_MAP_COLUMNS));
+    const row = Math.min(POSITION_MAP_ROWS - 1, Math.floor((y / 100) * POSITION_MAP_ROWS));
+    grid[row * POSITION_MAP_COLUMNS + column]++;
+    thirds[Math.min(2, Math.floor(x / (100 / 3)))]++;
+    channels[Math.min(2, Math.floor(y / (100 / 3)))]++;
+  });
+
+  const [defensive, middle, attacking] = toShares(thirds, positions.length);
+  const [left, centre, right] = toShares(channels, positions.length);
+  return {
+    columns: POSITION_MAP_COLUMNS,
+    rows: POSITION_MAP_ROWS,
+    grid: toShares(grid, positions.length),
+    averagePosition: {
+      x: round1(positions.reduce((sum, point) => sum + point.x, 0) / positions.length),
+      y: round1(positions.reduce((sum, point) => sum + point.y, 0) / positions.length)
+    },
+    thirds: { defensive, middle, attacking },
+    channels: { left, centre, right },
+    samples: positions.length,
+    trackedSeconds: Math.round(Math.max(...timestamps) - Math.min(...timestamps))
+  };
+}
+
+// Combines the maps of several analyses, weighting each by its number of tracked positions
+export function mergePositionMaps(maps: (PositionMap | undefined)[]): PositionMap | null {
+  const usable = maps.filter((map): map is PositionMap =>
+    !!map && map.samples > 0 && map.columns === POSITION_MAP_COLUMNS && map.rows === POSITION_MAP_ROWS
+  );
+  if (usable.length === 0) return null;
+  if (usable.length === 1) return usable[0];
+
+  const samples = usable.reduce((sum, map) => sum + map.samples, 0);
+  const weighted = (value: (map: PositionMap) => number) =>
+    round1(usable.reduce((sum, map) => sum + value(map) * map.samples, 0) / samples);
+
+  return {
+    columns: POSITION_MAP_COLUMNS,
+    rows: POSITION_MAP_ROWS,
+    grid: usable[0].grid.map((_, index) => weighted(map => map.grid[index])),
+    averagePosition: { x: weighted(map => map.averagePosition.x), y: weighted(map => map.averagePosition.y) },
+    thirds: {
+      defensive: weighted(map => map.thirds.defensive),
+      middle: weighted(map => map.thirds.middle),
+      attacking: weighted(map => map.thirds.attacking)
+    },
+    channels: {
+      left: weighted(map => map.channels.left),
+      centre: weighted(map => map.channels.centre),
+      right: weighted(map => map.channels.right)
+    },
+    samples,
+    trackedSeconds: usable.reduce((sum, map) => sum + map.trackedSeconds, 0)
+  };
+}
@@ -0,0 +1,357 @@
+import { MatchInfo, PerformanceData, PerformanceMetric } from '../App';
+import { formatMetric, isMetricAvailable, METRIC_LABELS } from './performanceStats';
+
+export interface ReportSkill {
+  skill: string;
+  score: number;
+  // Difference from the player's history, e.g. "+3.5"; null without history
+  change: string | null;
+}
+
+export interface ReportTraining {
+  title: string;
+  description: string;
+  duration: string;
+  priority: 'High' | 'Medium' | 'Low';
+}
+
+export interface PlayerReportData {
+  playerName: string;
+  avatar?: string;
+  performance: PerformanceData;
+  // The performance is the player's historical average rather than a single match
+  isHistoryAverage: boolean;
+  match?: MatchInfo | null;
+  history: PerformanceData[];
+  narrative: string;
+  strengths: ReportSkill[];
+  weaknesses: ReportSkill[];
+  training: ReportTraining[];
+}
+
+const PRIORITY_LABELS: Record<ReportTraining['priority'], string> = {
+  High: '高优先级',
+  Medium: '中优先级',
+  Low: '低优先级'
+};
+
+const METRIC_CARDS: { metric: PerformanceMetric; suffix?: string }[] = [
+  { metric: 'overall' },
+  { metric: 'speed' },
+  { metric: 'passing' },
+  { metric: 'positioning' },
+  { metric: 'touches' },
+  { metric: 'passAccuracy', suffix: '%' }
+];
+
+const TREND_SERIES: { metric: PerformanceMetric; color: string }[] = [
+  { metric: 'overall', color: '#16a34a' },
+  { metric: 'speed', color: '#2563eb' },
+  { metric: 'passing', color: '#9333ea' },
+  { metric: 'positioning', color: '#ea580c' }
+];
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// Line chart of the 0-100 ratings over time; failed analyses and unmeasured metrics get no point
+const buildTrendChart = (history: PerformanceData[]) => {
+  const records = history
+    .filter(performance => performance.analysisStatus !== 'failed')
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  if (records.length < 2) {
+    return '<p class="muted">至少需要两次分析才能显示趋势。</p>';
+  }
+
+  const width = 640;
+  const height = 220;
+  const padding = { top: 16, right: 16, bottom: 32, left: 36 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const x = (index: number) => padding.left + (index / (records.length - 1)) * plotWidth;
+  const y = (value: number) => padding.top + (1 - Math.max(0, Math.min(100, value)) / 100) * plotHeight;
+
+  const gridLines = [0, 25, 50, 75, 100].map(value => `
+    <line x1="${padding.left}" x2="${width - padding.right}" y1="${y(value)}" y2="${y(value)}" stroke="#e5e7eb" />
+    <text x="${padding.left - 6}" y="${y(value) + 4}" text-anchor="end" font-size="10" fill="#6b7280">${value}</text>`).join('');
+
+  const dateLabels = records.map((performance, index) =>
+    index === 0 || index === records.length - 1 || records.length <= 6
+      ? `<text x="${x(index)}" y="${height - 10}" text-anchor="middle" font-size="10" fill="#6b7280">${escapeHtml(formatDate(performance.date))}</text>`
+      : ''
+  ).join('');
+
+  const lines = TREND_SERIES.map(({ metric, color }) => {
+    const points = records
+      .map((performance, index) => isMetricAvailable(performance, metric)
+        ? { x: x(index), y: y(performance[metric] as number) }
+        : null)
+      .filter((point): point is { x: number; y: number } => point !== null);
+    if (points.length === 0) return '';
+
+    return `
+      <polyline fill="none" stroke="${color}" stroke-width="2" points="${points.map(p => `${p.x},${p.y}`).join(' ')}" />
+      ${points.map(p => `<circle cx="${p.x}" cy="${p.y}" r="3" fill="${color}" />`).join('')}`;
+  }).join('');
+
+  const legend = TREND_SERIES.map(({ metric, color }) =>
+    `<span class="legend-item"><span class="legend-swatch" style="background:${color}"></span>${METRIC_LABELS[metric]}</span>`
+  ).join('');
+
+  return `
+    <svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="历史表现趋势">
+      ${gridLines}
+      ${lines}
+      ${dateLabels}
+    </svg>
+    <div class="legend">${legend}</div>`;
+};
+
+const buildSkillList = (skills: ReportSkill[], emptyText: string) =>
+  skills.length === 0
+    ? `<p class="muted">${emptyText}</p>`
+    : `<ul class="skills">${skills.map(skill => `
+        <li>
+          <span>${escapeHtml(skill.skill)}</span>
+          <span><strong>${skill.score}</strong>${skill.change ? ` <span class="muted">(${escapeHtml(skill.change)})</span>` : ''}</span>
+        </li>`).join('')}
+      </ul>`;
+
+const buildMatchLine = (data: PlayerReportData) => {
+  const { match, performance } = data;
+  if (data.isHistoryAverage) {
+    return `历史平均表现 • 共 ${data.history.length} 次分析`;
+  }
+  if (!match) {
+    return `对阵 ${escapeHtml(performance.opponent || '未知对手')} • ${formatDate(performance.date)}`;
+  }
+
+  const hasScore = match.homeScore !== null && match.homeScore !== undefined &&
+    match.awayScore !== null && match.awayScore !== undefined;
+  return [
+    `${escapeHtml(match.homeTeam || '主队')} ${hasScore ? `${match.homeScore} : ${match.awayScore}` : 'vs'} ${escapeHtml(match.awayTeam || '客队')}`,
+    formatDate(match.date),
+    match.competition ? escapeHtml(match.competition) : '',
+    match.venue ? escapeHtml(match.venue) : ''
+  ].filter(Boolean).join(' • ');
+};
+
+// Self-contained document with inline styles and charts so it opens and prints offline
+export const buildReportHtml = (data: PlayerReportData): string => {
+  const { performance } = data;
+  const missing = (performance.missingMetrics ?? []).map(metric => METRIC_LABELS[metric]);
+
+  const metricCards = METRIC_CARDS.map(({ metric, suffix }) => `
+    <div class="card">
+      <div class="card-value">${formatMetric(performance, metric, performance[metric] as number, suffix)}</div>
+      <div class="card-label">${METRIC_LABELS[metric]}</div>
+    </div>`).join('');
+
+  const footCard = isMetricAvailable(performance, 'dominantFoot')
+    ? `<div class="card">
+        <div class="card-value">${performance.dominantFoot.right}% / ${performance.dominantFoot.left}%</div>
+        <div class="card-label">右脚 / 左脚</div>
+      </div>`
+    : '';
+
+  const training = data.training.map(item => `
+    <div class="training">
+      <div class="training-head">
+        <strong>${escapeHtml(item.title)}</strong>
+        <span class="badge badge-${item.priority.toLowerCase()}">${PRIORITY_LABELS[item.priority]}</span>
+      </div>
+      <p>${escapeHtml(item.description)}</p>
+      <p class="muted">建议时长：${escapeHtml(item.duration)}</p>
+    </div>`).join('');
+
+  const avatar = data.avatar
+    ? `<img class="avatar" src="${escapeHtml(data.avatar)}" alt="${escapeHtml(data.playerName)}" />`
+    : `<div class="avatar avatar-placeholder">${escapeHtml(data.playerName.slice(0, 1))}</div>`;
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(data.playerName)} - AI 表现分析报告</title>
+<style>
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", "Segoe UI", sans-serif; color: #111827; margin: 0; padding: 32px; background: #fff; }
+  .report { max-width: 800px; margin: 0 auto; }
+  header { display: flex; align-items: center; gap: 20px; border-bottom: 3px solid #16a34a; padding-bottom: 20px; margin-bottom: 24px; }
+  .avatar { width: 88px; height: 88px; border-radius: 50%; object-fit: cover; border: 3px solid #e5e7eb; }
+  .avatar-placeholder { display: flex; align-items: center; justify-content: center; background: linear-gradient(135deg, #16a34a, #2563eb); color: #fff; font-size: 36px; font-weight: 700; }
+  h1 { margin: 0 0 6px; font-size: 26px; }
+  h2 { font-size: 18px; margin: 28px 0 12px; color: #166534; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .notice { background: #fefce8; border: 1px solid #fde68a; color: #854d0e; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; }
+  .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 10px; padding: 14px; text-align: center; }
+  .card-value { font-size: 22px; font-weight: 700; }
+  .card-label { font-size: 12px; color: #6b7280; margin-top: 4px; }
+  .narrative { line-height: 1.8; text-align: justify; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+  .skills { list-style: none; padding: 0; margin: 0; }
+  .skills li { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6; }
+  .training { border: 1px solid #e5e7eb; border-radius: 10px; padding: 12px 14px; margin-bottom: 10px; }
+  .training p { margin: 6px 0 0; font-size: 14px; }
+  .training-head { display: flex; justify-content: space-between; align-items: center; }
+  .badge { font-size: 11px; padding: 2px 8px; border-radius: 999px; }
+  .badge-high { background: #fee2e2; color: #991b1b; }
+  .badge-medium { background: #fef3c7; color: #92400e; }
+  .badge-low { background: #dcfce7; color: #166534; }
+  .legend { display: flex; gap: 16px; justify-content: center; font-size: 12px; margin-top: 6px; }
+  .legend-item { display: inline-flex; align-items: center; gap: 6px; }
+  .legend-swatch { width: 12px; height: 3px; display: inline-block; }
+  footer { margin-top: 32px; padding-top: 12px; border-top: 1px solid #e5e7eb; font-size: 12px; color: #9ca3af; text-align: center; }
+  @media print {
+    body { padding: 0; }
+    h2 { break-after: avoid; }
+    .card, .training, svg { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<div class="report">
+  <header>
+    ${avatar}
+    <div>
+      <h1>${escapeHtml(data.playerName)} 的${data.isHistoryAverage ? '历史' : ''}表现分析报告</h1>
+      <div class="muted">${buildMatchLine(data)}</div>
+    </div>
+  </header>
+
+  ${performance.analysisStatus === 'partial' || missing.length > 0
+    ? `<div class="notice">AI 未能识别以下指标，报告中以 “—” 表示：${missing.map(escapeHtml).join('、')}</div>`
+    : ''}
+
+  <h2>关键指标</h2>
+  <div class="cards">${metricCards}${footCard}</div>
+
+  <h2>AI 分析</h2>
+  <p class="narrative">${escapeHtml(data.narrative)}</p>
+
+  <div class="columns">
+    <div>
+      <h2>优势</h2>
+      ${buildSkillList(data.strengths, '暂无明显优势项。')}
+    </div>
+    <div>
+      <h2>待提升</h2>
+      ${buildSkillList(data.weaknesses, '暂无明显短板。')}
+    </div>
+  </div>
+
+  <h2>训练计划</h2>
+  ${training}
+
+  <h2>历史趋势</h2>
+  ${buildTrendChart(data.history)}
+
+  <footer>Football AI • 生成于 ${new Date().toLocaleString()}</footer>
+</div>
+</body>
+</html>`;
+};
+
+const getReportFileName = (data: PlayerReportData) =>
+  `${data.playerName.replace(/[\\/:*?"<>|\s]+/g, '_')}-报告-${new Date().toISOString().slice(0, 10)}`;
+
+export const downloadReportHtml = (data: PlayerReportData) => {
+  const blob = new Blob([buildReportHtml(data)], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${getReportFileName(data)}.html`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints the report from a hidden iframe; the browser's print dialog offers "Save as PDF"
+export const printReportPdf = (data: PlayerReportData): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    iframe.setAttribute('aria-hidden', 'true');
+
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow;
+      if (!frameWindow) {
+        iframe.remove();
+        reject(new Error('无法打开打印窗口'));
+        return;
+      }
+
+      frameWindow.onafterprint = () => iframe.remove();
+      frameWindow.document.title = getReportFileName(data);
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+
+    iframe.srcdoc = buildReportHtml(data);
+    document.body.appendChild(iframe);
+  });
+};
+
+const loadSvgImage = (svg: SVGSVGElement, scale: number): Promise<{ image: HTMLImageElement; width: number; height: number }> => {
+  const { width, height } = svg.viewBox.baseVal;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width * scale));
+  clone.setAttribute('height', String(height * scale));
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' }));
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ image, width: width * scale, height: height * scale });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('图表渲染失败'));
+    };
+    image.src = url;
+  });
+};
+
+// Stacks in-app SVG charts under a title and downloads them as one PNG; charts must use inline attributes, not CSS classes
+export const downloadChartsAsPng = async (title: string, charts: SVGSVGElement[], fileName: string) => {
+  const scale = 2;
+  const padding = 24 * scale;
+  const titleHeight = 40 * scale;
+  const images = await Promise.all(charts.map(chart => loadSvgImage(chart, scale)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(...images.map(image => image.width)) + padding * 2;
+  canvas.height = titleHeight + images.reduce((sum, image) => sum + image.height + padding, padding);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('浏览器不支持导出图片');
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#111827';
+  context.font = `bold ${20 * scale}px -apple-system, "Segoe UI", "PingFang SC", sans-serif`;
+  context.fillText(title, padding, padding + 20 * scale);
+
+  let top = padding + titleHeight;
+  images.forEach(({ image, width, height }) => {
+    context.drawImage(image, (canvas.width - width) / 2, top, width, height);
+    top += height + padding;
+  });
+
+  const link = document.createElement('a');
+  link.href = canvas.toDataURL('image/png');
+  link.download = `${fileName.replace(/[\\/:*?"<>|\s]+/g, '_')}.png`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
@@ -0,0 +1,117 @@
+import { useSyncExternalStore } from 'react';
+
+export type AppView = 'home' | 'upload' | 'player-selection' | 'dashboard' | 'database' | 'teams';
+
+// Every screen the app can show, as addressed by the URL
+export type Route =
+  | { name: 'home' }
+  | { name: 'upload' }
+  // An upload session only lives in memory, so its routes fall back to /upload after a reload
+  | { name: 'upload-select'; sessionId: string }
+  | { name: 'upload-calibrate'; sessionId: string }
+  | { name: 'upload-analysis'; sessionId: string }
+  | { name: 'players' }
+  | { name: 'player'; playerId: string }
+  | { name: 'player-match'; playerId: string; matchId: string }
+  | { name: 'compare'; playerIds: string[] }
+  | { name: 'teams' }
+  | { name: 'share'; token: string };
+
+const NAVIGATE_EVENT = 'football-ai-navigate';
+
+const decode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export const parseRoute = (pathname: string): Route => {
+  const segments = pathname.split('/').filter(Boolean).map(decode);
+  const [first, second, third, fourth] = segments;
+
+  switch (first) {
+    case undefined:
+      return { name: 'home' };
+    case 'upload':
+      if (!second) return { name: 'upload' };
+      if (third === 'select') return { name: 'upload-select', sessionId: second };
+      if (third === 'calibrate') return { name: 'upload-calibrate', sessionId: second };
+      if (third === 'analysis') return { name: 'upload-analysis', sessionId: second };
+      return { name: 'upload' };
+    case 'players':
+      if (!second) return { name: 'players' };
+      if (third === 'matches' && fourth) return { name: 'player-match', playerId: second, matchId: fourth };
+      return { name: 'player', playerId: second };
+    case 'compare':
+      return { name: 'compare', playerIds: second ? second.split(',').filter(Boolean) : [] };
+    case 'teams':
+      return { name: 'teams' };
+    case 'share':
+      return second ? { name: 'share', token: second } : { name: 'home' };
+    default:
+      return { name: 'home' };
+  }
+};
+
+export const buildPath = (route: Route): string => {
+  const encode = encodeURIComponent;
+  switch (route.name) {
+    case 'home': return '/';
+    case 'upload': return '/upload';
+    case 'upload-select': return `/upload/${encode(route.sessionId)}/select`;
+    case 'upload-calibrate': return `/upload/${encode(route.sessionId)}/calibrate`;
+    case 'upload-analysis': return `/upload/${encode(route.sessionId)}/analysis`;
+    case 'players': return '/players';
+    case 'player': return `/players/${encode(route.playerId)}`;
+    case 'player-match': return `/players/${encode(route.playerId)}/matches/${encode(route.matchId)}`;
+    case 'compare': return `/compare/${route.playerIds.map(encode).join(',')}`;
+    case 'teams': return '/teams';
+    case 'share': return `/share/${encode(route.token)}`;
+  }
+};
+
+// The navigation entry a route belongs to
+export const getRouteView = (route: Route): AppView => {
+  switch (route.name) {
+    case 'upload': return 'upload';
+    case 'upload-select':
+    case 'upload-calibrate':
+      return 'player-selection';
+    case 'upload-analysis':
+    case 'player':
+    case 'player-match':
+      return 'dashboard';
+    case 'players':
+    case 'compare':
+      return 'database';
+    case 'teams': return 'teams';
+    default: return 'home';
+  }
+};
+
+export const navigate = (route: Route, options: { replace?: boolean } = {}) => {
+  const path = buildPath(route);
+  if (path === window.location.pathname) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+  window.scrollTo(0, 0);
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+// Current pathname, re-rendering on navigate() and browser back/forward
+export const usePathname = () => useSyncExternalStore(subscribe, () => window.location.pathname);
@@ -0,0 +1,120 @@
+import { supabase, PerformanceRuleRecord, SharedReportRecord } from '../lib/supabase';
+import { PerformanceRule, SharedReport, SharedReportLink } from '../App';
+import { databaseService } from './database';
+import { ruleService } from './performanceRules';
+import { buildPath } from './router';
+
+export const getShareLink = (token: string) => `${window.location.origin}${buildPath({ name: 'share', token })}`;
+
+export class ShareService {
+  // 创建分享链接；matchId 为空时分享球员的全部记录，expiresInDays 为空时永不过期
+  async createShare(userId: string, playerId: string, matchId: string | null, expiresInDays: number | null): Promise<SharedReportLink> {
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const { data, error } = await supabase
+      .from('shared_reports')
+      .insert({
+        player_id: playerId,
+        match_id: matchId,
+        created_by: userId,
+        expires_at: expiresAt
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ 创建分享链接失败:', error);
+      throw new Error(`创建分享链接失败: ${error.message}`);
+    }
+
+    console.log('✅ 分享链接已创建:', data.id);
+    return this.convertToAppLink(data);
+  }
+
+  // 球员当前有效的分享链接
+  async getPlayerShares(playerId: string): Promise<SharedReportLink[]> {
+    const { data, error } = await supabase
+      .from('shared_reports')
+      .select('*')
+      .eq('player_id', playerId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ 获取分享链接失败:', error);
+      return [];
+    }
+
+    return (data || []).map((share: SharedReportRecord) => this.convertToAppLink(share));
+  }
+
+  // 撤销后链接立即失效，记录保留以便追溯
+  async revokeShare(shareId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shared_reports')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', shareId);
+
+    if (error) {
+      console.error('❌ 撤销分享链接失败:', error);
+      throw new Error(`撤销分享链接失败: ${error.message}`);
+    }
+  }
+
+  // 未登录也可以调用；链接无效、已撤销或已过期时返回 null
+  async getSharedReport(token: string): Promise<SharedReport | null> {
+    const { data, error } = await supabase.rpc('get_shared_report', { share_token: token });
+
+    if (error) {
+      console.error('❌ 获取分享报告失败:', error);
+      // 令牌格式不正确时数据库报错，按无效链接处理
+      if (error.code === '22P02') return null;
+      throw new Error(`获取分享报告失败: ${error.message}`);
+    }
+
+    if (!data?.player) return null;
+
+    const player = databaseService.convertToAppPlayerRecord(data.player);
+    const performance = data.match_id
+      ? player.performanceHistory.find(performance => performance.matchId === data.match_id) ?? null
+      : null;
+
+    // 分享的那场分析已被删除
+    if (data.match_id && !performance) return null;
+
+    return {
+      player,
+      performance,
+      match: data.match ? databaseService.convertToAppMatch(data.match) : null,
+      rules: await this.getSharedReportRules(token)
+    };
+  }
+
+  // 球员适用的分析规则；读取失败时不生成具体训练建议，报告照常显示
+  private async getSharedReportRules(token: string): Promise<PerformanceRule[]> {
+    const { data, error } = await supabase.rpc('get_shared_report_rules', { share_token: token });
+
+    if (error) {
+      console.error('❌ 获取分享报告规则失败:', error);
+      return [];
+    }
+
+    return (data || []).map((rule: PerformanceRuleRecord) => ruleService.convertToAppRule(rule));
+  }
+
+  private convertToAppLink(share: SharedReportRecord): SharedReportLink {
+    return {
+      id: share.id,
+      token: share.token,
+      playerId: share.player_id,
+      matchId: share.match_id || undefined,
+      expiresAt: share.expires_at || undefined,
+      createdAt: share.created_at
+    };
+  }
+}
+
+export const shareService = new ShareService();
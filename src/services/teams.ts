@@ -0,0 +1,291 @@
+import { supabase, TeamRecord, SquadMembershipRecord } from '../lib/supabase';
+import { SquadMember, Team } from '../App';
+import { PlayerDetection } from './analysisProvider';
+
+type TeamRow = TeamRecord & {
+  squad_memberships?: (SquadMembershipRecord & { players?: { name: string; avatar_url: string | null } | null })[];
+};
+
+export interface SquadMemberInput {
+  playerId?: string;
+  // 没有 playerId 时按该姓名创建新球员
+  playerName?: string;
+  season: string;
+  jerseyNumber?: number;
+  position?: string;
+}
+
+export interface RosterSuggestion {
+  team: Team;
+  member: SquadMember;
+  // 号码与队服颜色都匹配为 1，只有号码匹配时较低
+  confidence: number;
+}
+
+export const PLAYER_POSITIONS = ['Goalkeeper', 'Defender', 'Midfielder', 'Forward'];
+
+// 球队年龄组，决定适用的分析规则
+export const AGE_GROUPS = ['U8', 'U10', 'U12', 'U14', 'U16', 'U18', 'U21', 'Senior'];
+
+// 当前赛季，例如 2025-26
+export const getCurrentSeason = (date = new Date()) => {
+  const startYear = date.getMonth() >= 6 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+const normalizeColor = (color?: string) => (color || '').trim().toLowerCase();
+
+// 根据 AI 识别的号码和队服颜色，在阵容中寻找最可能的球员
+export const suggestRosterPlayer = (detection: PlayerDetection, teams: Team[]): RosterSuggestion | null => {
+  const jersey = Number(detection.jersey);
+  if (!detection.jersey || !Number.isFinite(jersey)) return null;
+
+  const detectedColor = normalizeColor(detection.teamColor);
+  const candidates: RosterSuggestion[] = [];
+
+  teams.forEach(team => {
+    const kitColor = normalizeColor(team.kitColor);
+    const colorMatches = !!detectedColor && !!kitColor &&
+      (detectedColor.includes(kitColor) || kitColor.includes(detectedColor));
+
+    team.squad
+      .filter(member => member.jerseyNumber === jersey)
+      .forEach(member => candidates.push({ team, member, confidence: colorMatches ? 1 : 0.5 }));
+  });
+
+  if (candidates.length === 0) return null;
+
+  // 优先颜色匹配、当前赛季的登记
+  const season = getCurrentSeason();
+  candidates.sort((a, b) =>
+    b.confidence - a.confidence ||
+    Number(b.member.season === season) - Number(a.member.season === season)
+  );
+
+  // 同样可信的候选不止一个时降低置信度，避免误选
+  const [best, second] = candidates;
+  if (second && second.confidence === best.confidence) {
+    return { ...best, confidence: best.confidence / 2 };
+  }
+  return best;
+};
+
+export class TeamService {
+  // 获取当前工作区的所有球队及阵容
+  async getUserTeams(userId: string, organizationId: string | null = null): Promise<Team[]> {
+    try {
+      console.log('🔍 获取用户球队数据:', userId);
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('获取球队数据超时')), 10000);
+      });
+
+      const baseQuery = supabase
+        .from('teams')
+        .select(`
+          *,
+          squad_memberships (
+            *,
+            players (name, avatar_url)
+          )
+        `);
+
+      const queryPromise = (organizationId
+        ? baseQuery.eq('organization_id', organizationId)
+        : baseQuery.eq('user_id', userId).is('organization_id', null)
+      ).order('name', { ascending: true });
+
+      const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 获取球队数据失败:', error);
+        return []; // 返回空数组而不是抛出错误
+      }
+
+      console.log('✅ 成功获取球队数据:', data?.length || 0, '支球队');
+      return (data || []).map((team: TeamRow) => this.convertToAppTeam(team));
+    } catch (error) {
+      console.error('❌ 获取球队数据失败:', error);
+      return [];
+    }
+  }
+
+  // 创建球队
+  async createTeam(userId: string, name: string, kitColor?: string, organizationId: string | null = null, ageGroup?: string): Promise<Team> {
+    try {
+      console.log('💾 创建球队:', name);
+
+      if (!userId || !name.trim()) {
+        throw new Error('用户ID和球队名称不能为空');
+      }
+
+      const { data, error } = await supabase
+        .from('teams')
+        .insert({
+          user_id: userId,
+          organization_id: organizationId,
+          name: name.trim(),
+          kit_color: kitColor?.trim() || null,
+          age_group: ageGroup || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 创建球队失败:', error);
+        throw new Error(`创建球队失败: ${error.message}`);
+      }
+
+      console.log('✅ 球队创建成功:', data.id);
+      return this.convertToAppTeam(data);
+    } catch (error) {
+      console.error('❌ 创建球队失败:', error);
+      throw error;
+    }
+  }
+
+  // 更新年龄组，数据库随之按新年龄组的规则重新计算阵容球员
+  async updateTeamAgeGroup(teamId: string, ageGroup: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('teams')
+      .update({ age_group: ageGroup })
+      .eq('id', teamId);
+
+    if (error) {
+      console.error('❌ 更新球队年龄组失败:', error);
+      throw new Error(`更新球队年龄组失败: ${error.message}`);
+    }
+  }
+
+  // 删除球队（阵容登记随之删除，球员保留）
+  async deleteTeam(teamId: string): Promise<void> {
+    const { error } = await supabase
+      .from('teams')
+      .delete()
+      .eq('id', teamId);
+
+    if (error) {
+      console.error('❌ 删除球队失败:', error);
+      throw new Error(`删除球队失败: ${error.message}`);
+    }
+
+    console.log('✅ 球队删除成功');
+  }
+
+  // 登记阵容球员；新球员先在球队所在的工作区创建球员记录
+  async addSquadMember(userId: string, teamId: string, input: SquadMemberInput, organizationId: string | null = null): Promise<SquadMember> {
+    try {
+      let playerId = input.playerId;
+
+      if (!playerId) {
+        if (!input.playerName?.trim()) {
+          throw new Error('请选择球员或输入新球员姓名');
+        }
+
+        console.log('➕ 为阵容创建新球员:', input.playerName);
+        const { data: player, error: playerError } = await supabase
+          .from('players')
+          .insert({
+            user_id: userId,
+            organization_id: organizationId,
+            name: input.playerName.trim(),
+            total_matches: 0,
+            average_performance: null
+          })
+          .select('id')
+          .single();
+
+        if (playerError) {
+          throw new Error(`创建球员失败: ${playerError.message}`);
+        }
+        playerId = player.id;
+      }
+
+      const { data, error } = await supabase
+        .from('squad_memberships')
+        .insert({
+          team_id: teamId,
+          player_id: playerId,
+          season: input.season,
+          jersey_number: input.jerseyNumber ?? null,
+          position: input.position?.trim() || null
+        })
+        .select('*, players (name, avatar_url)')
+        .single();
+
+      if (error) {
+        console.error('❌ 登记阵容失败:', error);
+        throw new Error(error.code === '23505'
+          ? '该球员本赛季已在阵容中，或号码已被占用'
+          : `登记阵容失败: ${error.message}`);
+      }
+
+      console.log('✅ 阵容登记成功');
+      return this.convertToAppSquadMember(data);
+    } catch (error) {
+      console.error('❌ 登记阵容失败:', error);
+      throw error;
+    }
+  }
+
+  // 更新号码、位置或赛季
+  async updateSquadMember(memberId: string, update: Pick<SquadMemberInput, 'season' | 'jerseyNumber' | 'position'>): Promise<SquadMember> {
+    const { data, error } = await supabase
+      .from('squad_memberships')
+      .update({
+        season: update.season,
+        jersey_number: update.jerseyNumber ?? null,
+        position: update.position?.trim() || null
+      })
+      .eq('id', memberId)
+      .select('*, players (name, avatar_url)')
+      .single();
+
+    if (error) {
+      console.error('❌ 更新阵容失败:', error);
+      throw new Error(error.code === '23505' ? '号码已被占用' : `更新阵容失败: ${error.message}`);
+    }
+
+    return this.convertToAppSquadMember(data);
+  }
+
+  async removeSquadMember(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('squad_memberships')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('❌ 移除阵容球员失败:', error);
+      throw new Error(`移除阵容球员失败: ${error.message}`);
+    }
+  }
+
+  private convertToAppTeam(team: TeamRow): Team {
+    return {
+      id: team.id,
+      name: team.name,
+      kitColor: team.kit_color || undefined,
+      ageGroup: team.age_group || undefined,
+      squad: (team.squad_memberships || [])
+        .map(member => this.convertToAppSquadMember(member))
+        .sort((a, b) => (a.jerseyNumber ?? 100) - (b.jerseyNumber ?? 100))
+    };
+  }
+
+  private convertToAppSquadMember(member: NonNullable<TeamRow['squad_memberships']>[number]): SquadMember {
+    return {
+      id: member.id,
+      teamId: member.team_id,
+      playerId: member.player_id,
+      playerName: member.players?.name || '未知球员',
+      avatar: member.players?.avatar_url || undefined,
+      season: member.season,
+      jerseyNumber: member.jersey_number ?? undefined,
+      position: member.position || undefined
+    };
+  }
+}
+
+export const teamService = new TeamService();
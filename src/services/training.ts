@@ -0,0 +1,311 @@
+import { supabase, DrillRecord, TrainingSessionRecord } from '../lib/supabase';
+import { Drill, PerformanceData, PerformanceMetric, RulePriority, TrainingSession } from '../App';
+import { TriggeredRule } from './performanceRules';
+import { getMetricValue, isMetricAvailable } from './performanceStats';
+
+export type DrillInput = Omit<Drill, 'id' | 'isDefault'>;
+export type PlannedSession = Omit<TrainingSession, 'id' | 'completedAt'>;
+
+// 训练计划所在的工作区，以及当前角色能否安排训练、管理训练库
+export interface TrainingAccess {
+  userId: string;
+  organizationId: string | null;
+  canPlan: boolean;
+  canManage: boolean;
+}
+
+export interface TrainingImpact {
+  metric: PerformanceMetric;
+  completedSessions: number;
+  completedMinutes: number;
+  firstCompletedAt: string;
+  // 第一次完成训练前最近的分析，以及之后最新的分析
+  before?: { value: number; date: string };
+  after?: { value: number; date: string };
+}
+
+// 每周的训练日：周一、周三、周五
+const TRAINING_DAY_OFFSETS = [0, 2, 4];
+const DEFAULT_MINUTES_PER_DAY = 60;
+
+// 优先级越高，一周内安排的次数越多
+const PRIORITY_REPEATS: Record<RulePriority, number> = { High: 3, Medium: 2, Low: 1 };
+const PRIORITY_ORDER: RulePriority[] = ['High', 'Medium', 'Low'];
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// 所在周的周一
+export const getWeekStart = (date = new Date()) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// 按命中的待提升规则从训练库挑选训练，排进一周的训练日；每个训练日不超过时长上限
+export const buildWeeklyPlan = (
+  playerId: string,
+  triggeredRules: TriggeredRule[],
+  drills: Drill[],
+  weekStart: Date,
+  minutesPerDay = DEFAULT_MINUTES_PER_DAY
+): PlannedSession[] => {
+  const items: { drill: Drill; priority: RulePriority; repeats: number }[] = [];
+
+  [...triggeredRules]
+    .sort((a, b) => PRIORITY_ORDER.indexOf(a.rule.priority) - PRIORITY_ORDER.indexOf(b.rule.priority))
+    .forEach(({ rule }) => {
+      // 优先使用规则指定的训练，库里没有时按指标挑选
+      const drill = drills.find(candidate => candidate.name === rule.drill) ??
+        drills.find(candidate => candidate.metric === rule.metric);
+      if (!drill || items.some(item => item.drill.id === drill.id)) return;
+      items.push({ drill, priority: rule.priority, repeats: PRIORITY_REPEATS[rule.priority] });
+    });
+
+  // 没有需要加强的指标时安排综合训练保持状态
+  if (items.length === 0) {
+    const general = drills.find(drill => drill.metric === 'overall');
+    if (general) items.push({ drill: general, priority: 'Low', repeats: TRAINING_DAY_OFFSETS.length });
+  }
+
+  const days = TRAINING_DAY_OFFSETS.map(offset => {
+    const date = new Date(weekStart);
+    date.setDate(date.getDate() + offset);
+    return { date: toDateKey(date), minutes: 0, drillIds: new Set<string>() };
+  });
+
+  const sessions: PlannedSession[] = [];
+  items.forEach(({ drill, priority, repeats }) => {
+    for (let i = 0; i < Math.min(repeats, days.length); i++) {
+      // 放进安排最少、还没有这项训练且时间够用的一天
+      const day = days
+        .filter(candidate => !candidate.drillIds.has(drill.id) && candidate.minutes + drill.durationMinutes <= minutesPerDay)
+        .sort((a, b) => a.minutes - b.minutes)[0];
+      if (!day) return;
+
+      day.minutes += drill.durationMinutes;
+      day.drillIds.add(drill.id);
+      sessions.push({
+        playerId,
+        drillId: drill.id,
+        drillName: drill.name,
+        metric: drill.metric,
+        scheduledDate: day.date,
+        durationMinutes: drill.durationMinutes,
+        priority
+      });
+    }
+  });
+
+  return sessions.sort((a, b) =>
+    a.scheduledDate.localeCompare(b.scheduledDate) ||
+    PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority)
+  );
+};
+
+// 已完成的训练按指标汇总，并与训练前后的分析结果对照
+export const getTrainingImpact = (sessions: TrainingSession[], history: PerformanceData[]): TrainingImpact[] => {
+  const completed = sessions.filter(session => session.completedAt);
+  const metrics = Array.from(new Set(completed.map(session => session.metric)));
+
+  return metrics.map(metric => {
+    const metricSessions = completed.filter(session => session.metric === metric);
+    const firstCompletedAt = metricSessions
+      .map(session => session.completedAt as string)
+      .sort()[0];
+    const firstCompletedTime = new Date(firstCompletedAt).getTime();
+
+    const measured = history
+      .filter(performance => isMetricAvailable(performance, metric))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const before = measured.filter(performance => new Date(performance.date).getTime() <= firstCompletedTime).pop();
+    const after = measured.filter(performance => new Date(performance.date).getTime() > firstCompletedTime).pop();
+
+    return {
+      metric,
+      completedSessions: metricSessions.length,
+      completedMinutes: metricSessions.reduce((sum, session) => sum + session.durationMinutes, 0),
+      firstCompletedAt,
+      before: before ? { value: getMetricValue(before, metric), date: before.date } : undefined,
+      after: after ? { value: getMetricValue(after, metric), date: after.date } : undefined
+    };
+  });
+};
+
+export class TrainingService {
+  // 当前工作区的训练和系统自带训练
+  async getDrills(userId: string, organizationId: string | null = null): Promise<Drill[]> {
+    try {
+      console.log('🔍 获取训练库');
+
+      // 添加超时控制
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('获取训练库超时')), 10000);
+      });
+
+      const workspaceFilter = organizationId
+        ? `organization_id.eq.${organizationId}`
+        : `and(user_id.eq.${userId},organization_id.is.null)`;
+
+      const queryPromise = supabase
+        .from('drills')
+        .select('*')
+        .or(`and(user_id.is.null,organization_id.is.null),${workspaceFilter}`)
+        .order('name', { ascending: true });
+
+      const { data, error } = await Promise.race([queryPromise, timeoutPromise]);
+
+      if (error) {
+        console.error('❌ 获取训练库失败:', error);
+        return [];
+      }
+
+      console.log('✅ 成功获取训练库:', data?.length || 0, '项训练');
+      return (data || []).map((drill: DrillRecord) => this.convertToAppDrill(drill));
+    } catch (error) {
+      console.error('❌ 获取训练库失败:', error);
+      return [];
+    }
+  }
+
+  async createDrill(userId: string, organizationId: string | null, input: DrillInput): Promise<Drill> {
+    if (!input.name.trim()) {
+      throw new Error('训练名称不能为空');
+    }
+    if (!Number.isFinite(input.durationMinutes) || input.durationMinutes <= 0) {
+      throw new Error('训练时长必须大于 0');
+    }
+
+    const { data, error } = await supabase
+      .from('drills')
+      .insert({
+        user_id: userId,
+        organization_id: organizationId,
+        name: input.name.trim(),
+        metric: input.metric,
+        description: input.description?.trim() || null,
+        duration_minutes: Math.round(input.durationMinutes)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ 添加训练失败:', error);
+      throw new Error(`添加训练失败: ${error.message}`);
+    }
+
+    console.log('✅ 训练已添加:', data.id);
+    return this.convertToAppDrill(data);
+  }
+
+  // 已安排的训练保留名称，不受影响
+  async deleteDrill(drillId: string): Promise<void> {
+    const { error } = await supabase
+      .from('drills')
+      .delete()
+      .eq('id', drillId);
+
+    if (error) {
+      console.error('❌ 删除训练失败:', error);
+      throw new Error(`删除训练失败: ${error.message}`);
+    }
+  }
+
+  async getPlayerSessions(playerId: string): Promise<TrainingSession[]> {
+    const { data, error } = await supabase
+      .from('training_sessions')
+      .select('*')
+      .eq('player_id', playerId)
+      .order('scheduled_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ 获取训练安排失败:', error);
+      return [];
+    }
+
+    return (data || []).map((session: TrainingSessionRecord) => this.convertToAppSession(session));
+  }
+
+  async createSessions(userId: string, sessions: PlannedSession[]): Promise<TrainingSession[]> {
+    if (sessions.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('training_sessions')
+      .insert(sessions.map(session => ({
+        player_id: session.playerId,
+        drill_id: session.drillId ?? null,
+        drill_name: session.drillName,
+        metric: session.metric,
+        scheduled_date: session.scheduledDate,
+        duration_minutes: session.durationMinutes,
+        priority: session.priority,
+        created_by: userId
+      })))
+      .select();
+
+    if (error) {
+      console.error('❌ 保存训练计划失败:', error);
+      throw new Error(`保存训练计划失败: ${error.message}`);
+    }
+
+    console.log('✅ 训练计划已保存:', data?.length || 0, '项训练');
+    return (data || []).map((session: TrainingSessionRecord) => this.convertToAppSession(session));
+  }
+
+  // 标记完成时记录完成时间，取消时清空
+  async setSessionCompleted(sessionId: string, completed: boolean): Promise<TrainingSession> {
+    const { data, error } = await supabase
+      .from('training_sessions')
+      .update({ completed_at: completed ? new Date().toISOString() : null })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ 更新训练安排失败:', error);
+      throw new Error(`更新训练安排失败: ${error.message}`);
+    }
+
+    return this.convertToAppSession(data);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('training_sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('❌ 删除训练安排失败:', error);
+      throw new Error(`删除训练安排失败: ${error.message}`);
+    }
+  }
+
+  private convertToAppDrill(drill: DrillRecord): Drill {
+    return {
+      id: drill.id,
+      isDefault: !drill.user_id && !drill.organization_id,
+      name: drill.name,
+      metric: drill.metric as PerformanceMetric,
+      description: drill.description || undefined,
+      durationMinutes: drill.duration_minutes
+    };
+  }
+
+  private convertToAppSession(session: TrainingSessionRecord): TrainingSession {
+    return {
+      id: session.id,
+      playerId: session.player_id,
+      drillId: session.drill_id || undefined,
+      drillName: session.drill_name,
+      metric: session.metric as PerformanceMetric,
+      scheduledDate: session.scheduled_date,
+      durationMinutes: session.duration_minutes,
+      priority: session.priority,
+      completedAt: session.completed_at || undefined
+    };
+  }
+}
+
+export const trainingService = new TrainingService();
@@ -0,0 +1,119 @@
+import { MatchEvent } from '../App';
+
+// Seconds kept before and after an event when cutting its clip
+const CLIP_LEAD_SECONDS = 3;
+const CLIP_TAIL_SECONDS = 4;
+
+// Browsers support different recorder formats; the first supported one is used
+const CLIP_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+// captureStream is not in the DOM typings yet; Firefox still prefixes it
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+export const getEventClipRange = (event: MatchEvent, duration: number): ClipRange => ({
+  start: Math.max(0, event.timestamp - CLIP_LEAD_SECONDS),
+  end: Math.min(duration || Infinity, event.timestamp + CLIP_TAIL_SECONDS)
+});
+
+export const isClipRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  ('captureStream' in HTMLMediaElement.prototype || 'mozCaptureStream' in HTMLMediaElement.prototype);
+
+// Cut [start, end] out of the uploaded file by playing that range into a MediaRecorder.
+// Recording runs in real time, so a clip takes as long as it lasts; the file never leaves the browser
+export async function cutVideoClip(videoFile: File, range: ClipRange, onProgress?: (progress: number) => void): Promise<Blob> {
+  if (!isClipRecordingSupported()) {
+    throw new Error('This browser cannot record video clips');
+  }
+
+  const mimeType = CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const video = document.createElement('video') as CapturableVideo;
+  const objectUrl = URL.createObjectURL(videoFile);
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      const chunks: Blob[] = [];
+      let recorder: MediaRecorder | null = null;
+      const timeout = setTimeout(() => {
+        reject(new Error('Clip recording timeout'));
+      }, 30000 + (range.end - range.start) * 2000);
+
+      const fail = (error: Error) => {
+        clearTimeout(timeout);
+        if (recorder && recorder.state !== 'inactive') recorder.stop();
+        reject(error);
+      };
+
+      video.onloadedmetadata = () => {
+        video.currentTime = range.start;
+      };
+
+      video.onseeked = () => {
+        if (recorder) return;
+
+        const stream = video.captureStream ? video.captureStream() : video.mozCaptureStream?.();
+        if (!stream) {
+          fail(new Error('Unable to capture the video stream'));
+          return;
+        }
+
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+          clearTimeout(timeout);
+          resolve(new Blob(chunks, { type: recorder?.mimeType || 'video/webm' }));
+        };
+        recorder.start(250);
+        video.play().catch(error => fail(error instanceof Error ? error : new Error('Unable to play the video')));
+      };
+
+      video.ontimeupdate = () => {
+        if (!recorder || recorder.state === 'inactive') return;
+        onProgress?.(Math.min(1, (video.currentTime - range.start) / (range.end - range.start)));
+        if (video.currentTime >= range.end) {
+          video.pause();
+          recorder.stop();
+        }
+      };
+
+      video.onended = () => {
+        if (recorder && recorder.state !== 'inactive') recorder.stop();
+      };
+
+      video.onerror = () => {
+        fail(new Error('Video loading failed, unable to cut clip'));
+      };
+
+      video.src = objectUrl;
+    });
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+export const getClipExtension = (clip: Blob) => clip.type.includes('mp4') ? 'mp4' : 'webm';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,193 @@
+import { PlayerDetection, SampledFrame, VideoDetectionOptions, VideoDetectionResult } from './analysisProvider';
+import { mergeFrameDetections, FrameDetections, BoundingBox } from './playerMatching';
+
+// Frame count can be tuned with VITE_DETECTION_FRAME_COUNT
+const DEFAULT_DETECTION_FRAME_COUNT = Number(import.meta.env.VITE_DETECTION_FRAME_COUNT) || 5;
+
+export function buildSampleRatios(frameCount: number = DEFAULT_DETECTION_FRAME_COUNT): number[] {
+  const count = Math.max(1, Math.min(20, Math.round(frameCount)));
+  // Evenly spaced, skipping the very first and last moments of the clip
+  return Array.from({ length: count }, (_, i) => (i + 1) / (count + 1));
+}
+
+// Extract frames at absolute timestamps (seconds); times past the end of the clip are dropped
+export async function extractFramesAtTimestamps(videoFile: File, timestamps: number[]): Promise<SampledFrame[]> {
+  return extractFrames(videoFile, duration => timestamps.filter(t => t >= 0 && t <= duration));
+}
+
+// Extract frames at times computed from the video duration, reusing one video element
+export async function extractFrames(videoFile: File, resolveTimestamps: (duration: number) => number[]): Promise<SampledFrame[]> {
+  try {
+    const video = document.createElement('video');
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Unable to create canvas context');
+    }
+
+    const objectUrl = URL.createObjectURL(videoFile);
+
+    return await new Promise<SampledFrame[]>((resolve, reject) => {
+      const frames: SampledFrame[] = [];
+      let targetTimestamps: number[] = [];
+      let timeout = setTimeout(() => {
+        reject(new Error('Frame extraction timeout'));
+      }, 30000);
+
+      const finish = (error?: Error) => {
+        clearTimeout(timeout);
+        URL.revokeObjectURL(objectUrl);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(frames);
+        }
+      };
+
+      const seekNext = () => {
+        video.currentTime = Math.max(0, Math.min(video.duration, targetTimestamps[frames.length]));
+      };
+
+      video.onloadedmetadata = () => {
+        console.log(`📹 Video info: Duration ${video.duration.toFixed(1)}s, Size ${video.videoWidth}x${video.videoHeight}`);
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+
+        targetTimestamps = resolveTimestamps(video.duration);
+        console.log('🎬 Extracting frames at timestamps:', targetTimestamps.map(t => t.toFixed(1)));
+        if (targetTimestamps.length === 0) {
+          finish();
+          return;
+        }
+
+        // Allow a few seconds per frame on top of the initial load
+        clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          finish(new Error('Frame extraction timeout'));
+        }, 30000 + targetTimestamps.length * 5000);
+        seekNext();
+      };
+
+      video.onseeked = () => {
+        try {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          frames.push({
+            frameIndex: frames.length,
+            timestamp: video.currentTime,
+            url: canvas.toDataURL('image/jpeg', 0.9)
+          });
+          console.log(`✅ Frame ${frames.length}/${targetTimestamps.length} extracted at ${video.currentTime.toFixed(1)}s`);
+
+          if (frames.length < targetTimestamps.length) {
+            seekNext();
+          } else {
+            finish();
+          }
+        } catch (error) {
+          console.error('❌ Error drawing frame:', error);
+          finish(error instanceof Error ? error : new Error('Unable to draw video frame'));
+        }
+      };
+
+      video.onerror = () => {
+        finish(new Error('Video loading failed, unable to extract frame'));
+      };
+
+      video.src = objectUrl;
+    });
+
+  } catch (error) {
+    console.error('❌ Frame extraction failed:', error);
+    throw new Error('Frame extraction failed, please try again');
+  }
+}
+
+// Square avatar cropped out of a frame; box is in percent of the frame
+export function cropAvatar(frameUrl: string, box: BoundingBox, size = 150): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const cropX = (box.x / 100) * img.width;
+      const cropY = (box.y / 100) * img.height;
+      const cropWidth = (box.width / 100) * img.width;
+      const cropHeight = (box.height / 100) * img.height;
+
+      const safeCropX = Math.max(0, Math.min(img.width - cropWidth, cropX));
+      const safeCropY = Math.max(0, Math.min(img.height - cropHeight, cropY));
+      const safeCropWidth = Math.min(cropWidth, img.width - safeCropX);
+      const safeCropHeight = Math.min(cropHeight, img.height - safeCropY);
+
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx || safeCropWidth < 1 || safeCropHeight < 1) {
+        reject(new Error('Unable to crop avatar from frame'));
+        return;
+      }
+
+      canvas.width = size;
+      canvas.height = size;
+      ctx.drawImage(img, safeCropX, safeCropY, safeCropWidth, safeCropHeight, 0, 0, size, size);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+
+    img.onerror = () => reject(new Error('Frame image loading failed'));
+    img.src = frameUrl;
+  });
+}
+
+// Sample several frames across the clip, detect players in each with the given detector and merge them into one roster
+export async function detectPlayersAcrossFrames(
+  videoFile: File,
+  detectFrame: (frameDataUrl: string, timestamp: number) => Promise<PlayerDetection[]>,
+  options: VideoDetectionOptions = {}
+): Promise<VideoDetectionResult> {
+  const sampleRatios = options.sampleRatios && options.sampleRatios.length > 0
+    ? options.sampleRatios
+    : buildSampleRatios();
+
+  const sampleTimestamps = options.sampleTimestamps ?? [];
+
+  console.log('🎯 Extracting sampled frames for analysis...', { sampledFrames: sampleTimestamps.length || sampleRatios.length });
+  const frames = sampleTimestamps.length > 0
+    ? await extractFramesAtTimestamps(videoFile, sampleTimestamps)
+    : await extractFrames(videoFile, duration => sampleRatios.map(ratio => duration * ratio));
+  if (frames.length === 0) {
+    throw new Error('No frames could be extracted at the chosen moments');
+  }
+  options.onProgress?.(0, frames.length);
+
+  const frameDetections: FrameDetections[] = [];
+  for (const frame of frames) {
+    try {
+      console.log(`🔍 Detecting players in frame ${frame.frameIndex + 1}/${frames.length} (${frame.timestamp.toFixed(1)}s)...`);
+      const players = await detectFrame(frame.url, frame.timestamp);
+      frameDetections.push({ frameIndex: frame.frameIndex, timestamp: frame.timestamp, players });
+    } catch (frameError) {
+      // One bad frame should not lose the players found in the others
+      console.warn(`⚠️ Skipping frame ${frame.frameIndex + 1}:`, frameError);
+    }
+    options.onProgress?.(frame.frameIndex + 1, frames.length);
+  }
+
+  if (frameDetections.length === 0) {
+    throw new Error('Player detection failed on every sampled frame, please try again');
+  }
+
+  const players = mergeFrameDetections(frameDetections);
+
+  // The frame with the most detections is used as the default preview
+  const busiestFrame = frameDetections.reduce((best, current) =>
+    current.players.length > best.players.length ? current : best
+  );
+
+  console.log(`✅ Player detection complete! Merged ${players.length} players from ${frameDetections.length} frames`);
+
+  return {
+    players,
+    frames,
+    bestFrameUrl: frames[busiestFrame.frameIndex].url,
+    bestFrameTimestamp: busiestFrame.timestamp
+  };
+}
@@ -0,0 +1,32 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// 校验调用者的 Supabase 用户 JWT，返回登录用户；匿名 key 或无效 token 返回 null
+export async function getAuthenticatedUser(req: Request) {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  )
+
+  const { data, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+  if (error || !data.user) {
+    console.warn('用户身份校验失败:', error?.message)
+    return null
+  }
+
+  return data.user
+}
+
+// Gemini 密钥只保存在服务端 secrets 中: supabase secrets set GEMINI_API_KEY=...
+export function getGeminiApiKey(): string {
+  const apiKey = Deno.env.get('GEMINI_API_KEY')
+  if (!apiKey) {
+    throw new Error('服务器未配置 GEMINI_API_KEY')
+  }
+  return apiKey
+}
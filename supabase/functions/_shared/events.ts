@@ -0,0 +1,88 @@
+// 比赛事件：分析返回的逐条记录，用来核对汇总指标
+
+export const MATCH_EVENT_TYPES = ['pass', 'shot', 'dribble', 'tackle', 'sprint', 'touch'] as const
+export type MatchEventType = typeof MATCH_EVENT_TYPES[number]
+export type MatchEventOutcome = 'successful' | 'unsuccessful'
+
+export interface MatchEvent {
+  type: MatchEventType
+  // 距视频开头的秒数
+  timestamp: number
+  outcome?: MatchEventOutcome
+  // 球场坐标（百分比）：x 从本方球门到对方球门，y 从左边线到右边线
+  x?: number
+  y?: number
+  // 传球接应者、抢断对象等相关球员，球衣号码或描述
+  relatedPlayer?: string
+  description?: string
+}
+
+// 单段视频最多保留的事件数
+export const MAX_MATCH_EVENTS = 300
+
+// 计入触球次数的事件类型，与前端 BALL_CONTACT_EVENTS 一致
+const BALL_CONTACT_EVENTS: MatchEventType[] = ['pass', 'shot', 'dribble', 'touch']
+
+// 附加在分析提示词中的事件格式说明
+export const MATCH_EVENT_PROMPT = `
+      - type 只能是 pass（传球）、shot（射门）、dribble（带球突破）、tackle（抢断）、sprint（冲刺）、touch（其他触球，如停球、解围）之一
+      - timestamp: 事件发生时距视频开头的秒数（小数）
+      - outcome: successful 或 unsuccessful；传球是否到达队友、射门是否射正、突破或抢断是否成功，无法判断或冲刺时省略
+      - x, y: 事件发生在球场上的位置，0-100 的百分比；x 从本方球门（0）到对方球门（100），y 从左边线（0）到右边线（100）；无法判断时省略
+      - relatedPlayer: 相关球员，例如传球的接应者或被抢断的对手，尽量使用球衣号码，如 "#9"；无法判断时省略
+      - description: 一句话描述，可省略
+      - 每一次触球都要单独记录，汇总指标会按事件核对`
+
+const readCoordinate = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return undefined
+  const numeric = Number(value)
+  return Number.isFinite(numeric) ? Math.round(Math.max(0, Math.min(100, numeric)) * 10) / 10 : undefined
+}
+
+const readText = (value: unknown) =>
+  (typeof value === 'string' || typeof value === 'number') && String(value).trim() ? String(value).trim() : undefined
+
+// 校验 AI 返回的事件：类型不在列表中或时间戳无效的事件直接丢弃，其余字段无效时省略
+export function validateMatchEvents(value: unknown): MatchEvent[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+
+  return value
+    .filter((event): event is Record<string, unknown> => !!event && typeof event === 'object')
+    .map(event => {
+      const outcome = String(event.outcome ?? '').toLowerCase()
+      return {
+        type: String(event.type ?? '').toLowerCase() as MatchEventType,
+        timestamp: Math.round(Number(event.timestamp) * 10) / 10,
+        outcome: outcome === 'successful' || outcome === 'unsuccessful' ? outcome as MatchEventOutcome : undefined,
+        x: readCoordinate(event.x),
+        y: readCoordinate(event.y),
+        relatedPlayer: readText(event.relatedPlayer),
+        description: readText(event.description)
+      }
+    })
+    .filter(event => MATCH_EVENT_TYPES.includes(event.type) && Number.isFinite(event.timestamp) && event.timestamp >= 0)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, MAX_MATCH_EVENTS)
+}
+
+// 能由事件直接算出的指标：触球次数和传球成功率。事件被截断时不再推算触球次数
+export function deriveMetricsFromEvents(events: MatchEvent[]) {
+  const derived: { touches?: number; passAccuracy?: number } = {}
+  if (events.length === 0) {
+    return derived
+  }
+
+  if (events.length < MAX_MATCH_EVENTS) {
+    derived.touches = events.filter(event => BALL_CONTACT_EVENTS.includes(event.type)).length
+  }
+
+  const judgedPasses = events.filter(event => event.type === 'pass' && event.outcome)
+  if (judgedPasses.length > 0) {
+    const completed = judgedPasses.filter(event => event.outcome === 'successful').length
+    derived.passAccuracy = Math.round((completed / judgedPasses.length) * 100)
+  }
+
+  return derived
+}
@@ -0,0 +1,74 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// 任务生命周期: queued → uploading → processing → analyzing → done / failed
+export type AnalysisJobStatus = 'queued' | 'uploading' | 'processing' | 'analyzing' | 'done' | 'failed'
+
+export interface AnalysisJobUpdate {
+  status?: AnalysisJobStatus
+  progress?: number
+  message?: string
+  error?: string
+  result?: unknown
+}
+
+// 这么久没有更新的进行中任务视为已中断（Edge Function 超出时限或内存不足后不会再写入）；与前端保持一致
+const STALE_JOB_MINUTES = 10
+
+// 任务状态只允许服务端写入，使用 service role 绕过 RLS
+function createAdminClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+}
+
+// 把用户停滞的任务标记为失败，避免它们永远停留在进行中
+export async function failStaleAnalysisJobs(userId: string) {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000).toISOString()
+  const { error } = await createAdminClient()
+    .from('analysis_jobs')
+    .update({ status: 'failed', error: '分析任务长时间没有进展，服务端可能已中断' })
+    .eq('user_id', userId)
+    .not('status', 'in', '("done","failed")')
+    .lt('updated_at', staleBefore)
+
+  if (error) {
+    console.error('清理停滞的分析任务失败:', error.message)
+  }
+}
+
+export async function createAnalysisJob(userId: string, playerName: string, detectionId: number): Promise<string> {
+  // 每次创建任务时顺带清理该用户之前中断的任务
+  await failStaleAnalysisJobs(userId)
+
+  const { data, error } = await createAdminClient()
+    .from('analysis_jobs')
+    .insert({
+      user_id: userId,
+      player_name: playerName,
+      detection_id: Number.isFinite(detectionId) ? detectionId : null,
+      status: 'queued',
+      progress: 0,
+      message: '任务已创建，等待处理'
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`创建分析任务失败: ${error?.message ?? '未知错误'}`)
+  }
+
+  return data.id
+}
+
+export async function updateAnalysisJob(jobId: string, update: AnalysisJobUpdate) {
+  const { error } = await createAdminClient()
+    .from('analysis_jobs')
+    .update(update)
+    .eq('id', jobId)
+
+  // 状态更新失败不应中断分析本身
+  if (error) {
+    console.error(`更新分析任务 ${jobId} 失败:`, error.message)
+  }
+}
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getAuthenticatedUser, getGeminiApiKey } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,14 +13,25 @@ serve(async (req) => {
   }
 
   try {
+    // 校验调用者身份，拒绝未登录的请求
+    const user = await getAuthenticatedUser(req)
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: '未授权，请先登录' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // Parse the multipart form data
     const formData = await req.formData()
     const videoFile = formData.get('video') as File
-    const apiKey = formData.get('apiKey') as string
 
-    if (!videoFile || !apiKey) {
+    if (!videoFile) {
       return new Response(
-        JSON.stringify({ success: false, error: '缺少视频文件或 API 密钥' }),
+        JSON.stringify({ success: false, error: '缺少视频文件' }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -27,7 +39,9 @@ serve(async (req) => {
       )
     }
 
-    console.log(`开始处理视频文件: ${videoFile.name}, 大小: ${(videoFile.size / 1024 / 1024).toFixed(2)}MB, MIME类型: ${videoFile.type}`)
+    const apiKey = getGeminiApiKey()
+
+    console.log(`用户 ${user.id} 开始处理视频文件: ${videoFile.name}, 大小: ${(videoFile.size / 1024 / 1024).toFixed(2)}MB, MIME类型: ${videoFile.type}`)
 
     // 使用 Google Files API 上传大文件
     const uploadedFile = await uploadVideoToFilesAPI(videoFile, apiKey)
@@ -341,14 +355,8 @@ async function analyzeVideoWithFilesAPI(fileUri: string, mimeType: string, apiKe
     jersey: player.jersey || (index + 1).toString(),
     team: player.team || (index % 2 === 0 ? 'home' : 'away'),
     teamColor: player.teamColor || (player.team === 'home' ? analysisResult.teamColors?.home : analysisResult.teamColors?.away) || (index % 2 === 0 ? '蓝色' : '红色'),
-    timestamp: typeof player.timestamp === 'number' ? player.timestamp : 0,
-    movementPattern: {
-      timestamps: [5, 10, 15, 20, 25, 30, 35],
-      positions: Array.from({ length: 7 }, (_, i) => ({
-        x: Math.max(5, Math.min(95, (player.x || 50) + (Math.random() - 0.5) * 15)),
-        y: Math.max(5, Math.min(95, (player.y || 50) + (Math.random() - 0.5) * 10))
-      }))
-    }
+    timestamp: typeof player.timestamp === 'number' ? player.timestamp : 0
+    // 运动轨迹由客户端 PlayerTracker 在选中球员后跟踪得到
   }))
 
   console.log(`Files API 分析完成，最终返回 ${processedPlayers.length} 名球员`)
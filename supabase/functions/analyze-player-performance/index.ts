@@ -1,4 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getAuthenticatedUser, getGeminiApiKey } from '../_shared/auth.ts'
+import { AnalysisJobStatus, createAnalysisJob, updateAnalysisJob } from '../_shared/jobs.ts'
+import { deriveMetricsFromEvents, MATCH_EVENT_PROMPT, validateMatchEvents } from '../_shared/events.ts'
+
+// Supabase Edge Runtime 提供，用于在响应返回后继续执行后台任务
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,15 +18,26 @@ serve(async (req) => {
   }
 
   try {
+    // 校验调用者身份，拒绝未登录的请求
+    const user = await getAuthenticatedUser(req)
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: '未授权，请先登录' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // Parse the multipart form data
     const formData = await req.formData()
     const videoFile = formData.get('video') as File
-    const apiKey = formData.get('apiKey') as string
     const playerId = formData.get('playerId') as string
     const playerName = formData.get('playerName') as string
     const existingPlayerDataStr = formData.get('existingPlayerData') as string
 
-    if (!videoFile || !apiKey || !playerId || !playerName) {
+    if (!videoFile || !playerId || !playerName) {
       return new Response(
         JSON.stringify({ success: false, error: '缺少必要参数' }),
         { 
@@ -39,8 +56,10 @@ serve(async (req) => {
       }
     }
 
+    const apiKey = getGeminiApiKey()
+
     const fileSizeMB = (videoFile.size / 1024 / 1024).toFixed(2)
-    console.log(`开始分析球员 ${playerName} 的表现，视频大小: ${fileSizeMB}MB，MIME类型: ${videoFile.type}`)
+    console.log(`用户 ${user.id} 开始分析球员 ${playerName} 的表现，视频大小: ${fileSizeMB}MB，MIME类型: ${videoFile.type}`)
 
     // 检查文件大小，如果过大则返回错误
     const MAX_SIZE_MB = 500 // 500MB 限制
@@ -57,69 +76,19 @@ serve(async (req) => {
       )
     }
 
-    // 使用 Google Files API 上传大文件 - 优化内存使用
-    let uploadedFile
-    try {
-      uploadedFile = await uploadVideoToFilesAPI(videoFile, apiKey)
-      console.log('文件上传成功，开始表现分析...')
-    } catch (uploadError) {
-      console.error('文件上传失败:', uploadError)
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: `文件上传失败: ${uploadError instanceof Error ? uploadError.message : '未知错误'}` 
-        }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
-    }
+    const jobId = await createAnalysisJob(user.id, playerName, Number(playerId))
+    console.log(`分析任务已创建: ${jobId}`)
 
-    // 使用上传的文件进行球员表现分析
-    let performanceData
-    try {
-      performanceData = await analyzePlayerPerformanceWithFilesAPI(uploadedFile.uri, uploadedFile.mimeType, playerName, existingPlayerData, apiKey)
-    } catch (analysisError) {
-      console.error('表现分析失败:', analysisError)
-      
-      // 清理上传的文件
-      try {
-        await deleteFileFromFilesAPI(uploadedFile.name, apiKey)
-      } catch (cleanupError) {
-        console.warn('清理临时文件失败:', cleanupError)
-      }
-      
-      // 返回默认的表现数据而不是错误，确保应用继续运行
-      console.log('使用默认表现数据作为后备方案')
-      const fallbackData = generateFallbackPerformanceData(playerName)
-      
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          performanceData: fallbackData,
-          warning: 'AI分析失败，使用默认数据'
-        }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-    
-    // 清理上传的文件
-    try {
-      await deleteFileFromFilesAPI(uploadedFile.name, apiKey)
-      console.log('临时文件已清理')
-    } catch (cleanupError) {
-      console.warn('清理临时文件失败:', cleanupError)
-    }
+    // 分析在后台继续执行，请求立即返回任务 ID；进度写入 analysis_jobs 表
+    EdgeRuntime.waitUntil(runAnalysisJob(jobId, videoFile, playerName, existingPlayerData, apiKey))
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        performanceData: performanceData
+        jobId
       }),
       { 
+        status: 202,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     )
@@ -139,6 +108,63 @@ serve(async (req) => {
   }
 })
 
+// 后台执行分析任务，每个阶段更新任务状态
+async function runAnalysisJob(jobId: string, videoFile: File, playerName: string, existingPlayerData: unknown, apiKey: string) {
+  // 使用 Google Files API 上传大文件 - 优化内存使用
+  let uploadedFile
+  try {
+    await updateAnalysisJob(jobId, { status: 'uploading', progress: 5, message: '正在上传视频到 Google Files API...' })
+    uploadedFile = await uploadVideoToFilesAPI(videoFile, apiKey, (status, progress, message) =>
+      updateAnalysisJob(jobId, { status, progress, message })
+    )
+    console.log('文件上传成功，开始表现分析...')
+  } catch (uploadError) {
+    console.error('文件上传失败:', uploadError)
+    await updateAnalysisJob(jobId, {
+      status: 'failed',
+      error: `文件上传失败: ${uploadError instanceof Error ? uploadError.message : '未知错误'}`
+    })
+    return
+  }
+
+  // 使用上传的文件进行球员表现分析；失败时如实标记任务失败，不再生成替代数据
+  let performanceData
+  let analysisError
+  try {
+    await updateAnalysisJob(jobId, { status: 'analyzing', progress: 60, message: `Gemini 正在分析 ${playerName} 的表现...` })
+    performanceData = await analyzePlayerPerformanceWithFilesAPI(uploadedFile.uri, uploadedFile.mimeType, playerName, existingPlayerData, apiKey)
+  } catch (error) {
+    console.error('表现分析失败:', error)
+    analysisError = error
+  }
+  
+  // 清理上传的文件
+  try {
+    await deleteFileFromFilesAPI(uploadedFile.name, apiKey)
+    console.log('临时文件已清理')
+  } catch (cleanupError) {
+    console.warn('清理临时文件失败:', cleanupError)
+  }
+
+  if (!performanceData) {
+    await updateAnalysisJob(jobId, {
+      status: 'failed',
+      error: `AI 分析失败: ${analysisError instanceof Error ? analysisError.message : '未知错误'}`
+    })
+    return
+  }
+
+  const unrecognizedMetrics = performanceData.missingMetrics.filter(metric => !TRACKED_WINDOW_METRICS.includes(metric))
+  await updateAnalysisJob(jobId, {
+    status: 'done',
+    progress: 100,
+    message: unrecognizedMetrics.length > 0
+      ? `AI 分析完成，部分指标未能识别: ${unrecognizedMetrics.join(', ')}`
+      : 'AI 分析完成',
+    result: performanceData
+  })
+}
+
 // Helper function to validate date strings
 function isValidDateString(dateString: string): boolean {
   if (!dateString || dateString === 'unknown' || dateString.trim() === '') {
@@ -148,31 +174,86 @@ function isValidDateString(dateString: string): boolean {
   return !isNaN(date.getTime());
 }
 
-// 生成后备表现数据
-function generateFallbackPerformanceData(playerName: string) {
-  const baseScore = 70 + Math.floor(Math.random() * 20) // 70-90之间的随机分数
-  
+type PerformanceMetric =
+  | 'overall' | 'speed' | 'passing' | 'positioning' | 'touches'
+  | 'distance' | 'topSpeed' | 'passAccuracy' | 'dominantFoot'
+
+// 跑动距离和最高速度不再由模型估计；前端在球场校准后只能测量跟踪到的片段，整场数值保持缺失，也不算作未识别
+const TRACKED_WINDOW_METRICS: PerformanceMetric[] = ['distance', 'topSpeed']
+
+// 读取 AI 返回的数值指标；缺失或无法解析时返回 null，而不是填充默认值
+function readMetric(value: unknown, max: number): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  const numeric = Number(value)
+  return Number.isFinite(numeric) ? Math.max(0, Math.min(max, numeric)) : null
+}
+
+// 校验 AI 返回的表现数据，记录未能识别的指标；能由事件算出的指标以事件为准
+function validatePerformanceData(performanceData: Record<string, unknown>) {
+  const foot = (performanceData.dominantFoot ?? {}) as Record<string, unknown>
+  const events = validateMatchEvents(performanceData.events)
+  const derived = deriveMetricsFromEvents(events)
+  const metrics = {
+    overall: readMetric(performanceData.overall, 100),
+    speed: readMetric(performanceData.speed, 100),
+    passing: readMetric(performanceData.passing, 100),
+    positioning: readMetric(performanceData.positioning, 100),
+    touches: readMetric(performanceData.touches, 500),
+    passAccuracy: readMetric(performanceData.passAccuracy, 100)
+  }
+  const derivedMetrics = (Object.keys(derived) as (keyof typeof derived)[])
+  derivedMetrics.forEach(metric => {
+    metrics[metric] = derived[metric] ?? metrics[metric]
+  })
+  const footRight = readMetric(foot.right, 100)
+  const footLeft = readMetric(foot.left, 100)
+
+  const missingMetrics: PerformanceMetric[] = (Object.keys(metrics) as (keyof typeof metrics)[])
+    .filter(metric => metrics[metric] === null)
+  if (footRight === null || footLeft === null) {
+    missingMetrics.push('dominantFoot')
+  }
+
+  if (missingMetrics.length === Object.keys(metrics).length + 1) {
+    throw new Error('AI 响应中没有任何可用的表现指标')
+  }
+  const analysisStatus = missingMetrics.length > 0 ? 'partial' : 'real'
+  missingMetrics.push(...TRACKED_WINDOW_METRICS)
+
+  const opponent = typeof performanceData.opponent === 'string' ? performanceData.opponent.trim() : ''
+
   return {
-    matchId: `match_${Date.now()}`,
-    date: new Date().toISOString(),
-    opponent: '对手队伍',
-    overall: baseScore,
-    speed: baseScore + Math.floor(Math.random() * 10) - 5,
-    passing: baseScore + Math.floor(Math.random() * 10) - 5,
-    positioning: baseScore + Math.floor(Math.random() * 10) - 5,
-    touches: 80 + Math.floor(Math.random() * 60), // 80-140
-    distance: 6.0 + Math.random() * 3.0, // 6.0-9.0 km
-    topSpeed: 20.0 + Math.random() * 8.0, // 20.0-28.0 km/h
-    passAccuracy: 75 + Math.floor(Math.random() * 20), // 75-95%
+    matchId: typeof performanceData.matchId === 'string' && performanceData.matchId ? performanceData.matchId : `match_${Date.now()}`,
+    date: isValidDateString(performanceData.date as string) ? performanceData.date as string : new Date().toISOString(),
+    // 模型无法识别对手时不猜测
+    opponent: opponent && !opponent.includes('未知') ? opponent : undefined,
+    overall: metrics.overall ?? 0,
+    speed: metrics.speed ?? 0,
+    passing: metrics.passing ?? 0,
+    positioning: metrics.positioning ?? 0,
+    touches: metrics.touches ?? 0,
+    distance: 0,
+    topSpeed: 0,
+    passAccuracy: metrics.passAccuracy ?? 0,
     dominantFoot: {
-      right: 60 + Math.floor(Math.random() * 30),
-      left: 40 - Math.floor(Math.random() * 30)
-    }
+      right: footRight ?? 0,
+      left: footLeft ?? 0
+    },
+    analysisStatus,
+    // 缺失指标的数值只是占位，前端不会展示或计入平均
+    missingMetrics,
+    // 由事件推算的指标，前端据此展示计算依据
+    derivedMetrics,
+    events
   }
 }
 
+type StageReporter = (status: AnalysisJobStatus, progress: number, message: string) => Promise<void>
+
 // 使用 Google Files API 上传视频文件 - 优化内存使用
-async function uploadVideoToFilesAPI(videoFile: File, apiKey: string) {
+async function uploadVideoToFilesAPI(videoFile: File, apiKey: string, reportStage?: StageReporter) {
   console.log('开始使用 Files API 上传视频...')
   
   // 检查文件大小，避免内存溢出
@@ -235,6 +316,7 @@ async function uploadVideoToFilesAPI(videoFile: File, apiKey: string) {
     console.log('Files API 上传成功')
 
     // 等待文件处理完成
+    await reportStage?.('processing', 40, 'Google 正在处理视频文件...')
     await waitForFileProcessing(uploadResult.file.name, apiKey)
     return uploadResult.file
   } else {
@@ -248,6 +330,7 @@ async function uploadVideoToFilesAPI(videoFile: File, apiKey: string) {
       const chunkSize = end - start
       
       console.log(`上传第 ${i + 1}/${chunks} 块 (${start}-${end})`)
+      await reportStage?.('uploading', 5 + Math.round((i / chunks) * 30), `正在上传视频 (${i + 1}/${chunks})...`)
       
       // 创建文件块
       const chunk = videoFile.slice(start, end)
@@ -276,6 +359,7 @@ async function uploadVideoToFilesAPI(videoFile: File, apiKey: string) {
         console.log('分块上传完成')
         
         // 等待文件处理完成
+        await reportStage?.('processing', 40, 'Google 正在处理视频文件...')
         await waitForFileProcessing(uploadResult.file.name, apiKey)
         return uploadResult.file
       }
@@ -399,18 +483,20 @@ async function analyzePlayerPerformanceWithFilesAPI(fileUri: string, mimeType: s
       "passing": 82,
       "positioning": 86,
       "touches": 120,
-      "distance": 7.5,
-      "topSpeed": 23.5,
       "passAccuracy": 87,
-      "dominantFoot": {"right": 70, "left": 30}
+      "dominantFoot": {"right": 70, "left": 30},
+      "events": [
+        {"type": "pass", "timestamp": 12.5, "outcome": "successful", "x": 55, "y": 40, "relatedPlayer": "#9", "description": "中路直塞"},
+        {"type": "sprint", "timestamp": 31.0, "x": 62, "y": 70, "description": "反击冲刺"}
+      ]
     }
 
     要求：
+    - 无法从视频中判断的指标请返回 null，不要猜测
     - overall, speed, passing, positioning, passAccuracy: 0-100的整数
     - touches: 正整数
-    - distance: 小数（公里）
-    - topSpeed: 小数（公里/小时）
     - dominantFoot: right和left加起来应该等于100
+    - events: 该球员本人参与的事件，按时间先后排列；没有识别到时返回空数组${MATCH_EVENT_PROMPT}
 
     只返回JSON，不要任何其他内容。
   `
@@ -446,7 +532,7 @@ async function analyzePlayerPerformanceWithFilesAPI(fileUri: string, mimeType: s
           ],
           generationConfig: {
             temperature: 0.1,
-            maxOutputTokens: 2000,
+            maxOutputTokens: 8000,
             topP: 0.8,
             topK: 10
           }
@@ -482,22 +568,13 @@ async function analyzePlayerPerformanceWithFilesAPI(fileUri: string, mimeType: s
       }
 
       // Validate and process the performance data
-      const validatedData = {
-        matchId: performanceData.matchId || `match_${Date.now()}`,
-        date: isValidDateString(performanceData.date) ? performanceData.date : new Date().toISOString(),
-        opponent: performanceData.opponent || '对手队伍',
-        overall: Math.max(0, Math.min(100, Number(performanceData.overall) || 75)),
-        speed: Math.max(0, Math.min(100, Number(performanceData.speed) || 80)),
-        passing: Math.max(0, Math.min(100, Number(performanceData.passing) || 78)),
-        positioning: Math.max(0, Math.min(100, Number(performanceData.positioning) || 82)),
-        touches: Math.max(0, Math.min(500, Number(performanceData.touches) || 120)),
-        distance: Math.max(0, Math.min(20, Number(performanceData.distance) || 7.5)),
-        topSpeed: Math.max(0, Math.min(50, Number(performanceData.topSpeed) || 22.5)),
-        passAccuracy: Math.max(0, Math.min(100, Number(performanceData.passAccuracy) || 85)),
-        dominantFoot: {
-          right: Math.max(0, Math.min(100, Number(performanceData.dominantFoot?.right) || 65)),
-          left: Math.max(0, Math.min(100, Number(performanceData.dominantFoot?.left) || 35))
-        }
+      let validatedData
+      try {
+        validatedData = validatePerformanceData(performanceData)
+      } catch (validationError) {
+        console.error(`第 ${attempt} 次尝试 - 表现数据无效:`, validationError)
+        lastError = validationError
+        continue
       }
 
       console.log(`第 ${attempt} 次尝试成功 - 球员表现分析完成`)
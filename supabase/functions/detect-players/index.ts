@@ -0,0 +1,259 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getAuthenticatedUser, getGeminiApiKey } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// 模型返回的 JSON，字段逐个校验后再使用
+interface GeminiDetectionResult {
+  players?: Record<string, unknown>[]
+  teamColors?: { home?: string; away?: string }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // 校验调用者身份，拒绝未登录的请求
+    const user = await getAuthenticatedUser(req)
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: '未授权，请先登录' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // 请求体: { frame: JPEG data URL, timestamp: 秒 }
+    const { frame, timestamp } = await req.json()
+
+    if (typeof frame !== 'string' || !frame.includes(',') || typeof timestamp !== 'number') {
+      return new Response(
+        JSON.stringify({ success: false, error: '缺少视频帧或时间戳' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const apiKey = getGeminiApiKey()
+
+    console.log(`用户 ${user.id} 请求检测 ${timestamp.toFixed(1)}s 帧中的球员`)
+
+    const analysisResult = await detectPlayersWithGemini(frame.split(',')[1], timestamp, apiKey)
+
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        players: analysisResult.players,
+        teamColors: analysisResult.teamColors
+      }),
+      { 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+
+  } catch (error) {
+    console.error('服务器端球员检测错误:', error)
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: `服务器处理失败: ${error instanceof Error ? error.message : '未知错误'}` 
+      }),
+      { 
+        status: 500, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+})
+
+// 使用 Gemini 检测单帧中的球员（过滤裁判）
+async function detectPlayersWithGemini(imageBase64: string, timestamp: number, apiKey: string) {
+  const prompt = `
+    You are an expert football analyst. Analyze this static football image with MAXIMUM PRECISION to identify all players.
+
+    CRITICAL REQUIREMENTS FOR ACCURACY:
+    1. ONLY identify players wearing team jerseys - NEVER identify referees
+    2. Referees wear black, yellow, bright green, or distinctly different colors from team jerseys
+    3. Look for players in typical football formations and positions
+    4. Each player must be clearly wearing a team uniform (not referee attire)
+    5. Provide EXTREMELY PRECISE boundary box coordinates:
+       - x, y: Top-left corner (percentage 0-100 relative to image dimensions)
+       - width, height: Box dimensions (percentage 0-100 relative to image)
+    6. Boundary boxes must TIGHTLY frame only the player's body
+    7. Confidence scores should reflect actual detection certainty (0.7-0.95)
+    8. Identify jersey numbers only if clearly visible, otherwise omit the jersey field
+    9. Determine team based on jersey colors and field positioning
+
+    ENHANCED ACCURACY GUIDELINES:
+    - Focus on players actively participating in the match
+    - Avoid anyone in referee uniforms (black/yellow/bright colors)
+    - Ensure boundary boxes don't include grass, stands, or other players
+    - Look for typical football player body language and positioning
+    - Verify each detected person is wearing team colors
+    - Double-check that boundary coordinates accurately frame the player
+
+    STATIC IMAGE ANALYSIS ADVANTAGE:
+    - Take time to carefully examine each potential player
+    - Verify team affiliation through jersey colors
+    - Ensure precise boundary box placement
+    - Filter out any non-player personnel
+
+    Return ONLY this JSON format (no explanatory text):
+    {
+      "teamColors": {
+        "home": "Blue",
+        "away": "Red"
+      },
+      "players": [
+        {
+          "id": 1,
+          "x": 25.5,
+          "y": 35.2,
+          "width": 6.8,
+          "height": 18.5,
+          "confidence": 0.92,
+          "jersey": "10",
+          "team": "home",
+          "teamColor": "Blue",
+          "timestamp": ${timestamp},
+          "isReferee": false
+        }
+      ]
+    }
+
+    IMPORTANT: Focus on accuracy over quantity. Better to identify fewer players correctly than many incorrectly.
+  `
+
+  let analysisResult: GeminiDetectionResult = {}
+  let attempts = 0
+  const maxAttempts = 3 // 客户端会采样多帧，每帧少量重试即可
+
+  while (attempts < maxAttempts) {
+    try {
+      attempts++
+      console.log(`第 ${attempts} 次尝试检测球员...`)
+
+      const geminiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [
+                {
+                  text: prompt
+                },
+                {
+                  inline_data: {
+                    mime_type: 'image/jpeg',
+                    data: imageBase64
+                  }
+                }
+              ]
+            }
+          ]
+        })
+      })
+
+      if (!geminiResponse.ok) {
+        const errorText = await geminiResponse.text()
+        console.error(`第 ${attempts} 次尝试 - Gemini API 错误:`, errorText)
+        throw new Error(`Google AI 服务错误: ${geminiResponse.status} ${geminiResponse.statusText}`)
+      }
+
+      const geminiResult = await geminiResponse.json()
+      const responseText = geminiResult.candidates?.[0]?.content?.parts?.[0]?.text
+      if (!responseText) {
+        throw new Error('Google AI 未返回有效的检测结果')
+      }
+
+      const firstBrace = responseText.indexOf('{')
+      const lastBrace = responseText.lastIndexOf('}')
+      if (firstBrace === -1 || lastBrace === -1) {
+        throw new Error('AI 响应中未找到有效的 JSON 数据')
+      }
+
+      analysisResult = JSON.parse(responseText.substring(firstBrace, lastBrace + 1)) as GeminiDetectionResult
+
+      if (!analysisResult.players || !Array.isArray(analysisResult.players)) {
+        throw new Error('AI 分析结果格式错误，未找到球员数据数组')
+      }
+
+      // Enhanced validation for static frame analysis
+      const validPlayers = analysisResult.players.filter(player => {
+        // Strict filtering for static frame
+        if (player.isReferee) return false
+        
+        // Validate coordinates with tighter constraints
+        const x = typeof player.x === 'number' ? player.x : 0
+        const y = typeof player.y === 'number' ? player.y : 0
+        const width = typeof player.width === 'number' ? player.width : 0
+        const height = typeof player.height === 'number' ? player.height : 0
+        
+        // Stricter boundary validation for static analysis
+        if (width < 2 || width > 20 || height < 6 || height > 30) return false
+        if (x < 0 || x > 98 || y < 0 || y > 98) return false
+        if (x + width > 100 || y + height > 100) return false
+        
+        // Confidence threshold for static frame
+        const confidence = typeof player.confidence === 'number' ? player.confidence : 0
+        if (confidence < 0.6) return false
+        
+        return true
+      })
+
+      analysisResult.players = validPlayers
+
+      if (analysisResult.players.length > 0) {
+        console.log(`第 ${attempts} 次尝试成功，检测到 ${analysisResult.players.length} 名有效球员`)
+        break
+      } else {
+        throw new Error('过滤后未检测到有效球员')
+      }
+
+    } catch (attemptError) {
+      console.error(`第 ${attempts} 次检测失败:`, attemptError)
+
+      if (attempts === maxAttempts) {
+        throw attemptError
+      }
+
+      // 等待后重试
+      await new Promise(resolve => setTimeout(resolve, 2000 * attempts))
+    }
+  }
+
+  const teamColors = analysisResult.teamColors
+  const processedPlayers = (analysisResult.players ?? []).map((player, index) => ({
+    id: typeof player.id === 'number' ? player.id : index + 1,
+    x: Math.max(0, Math.min(98, typeof player.x === 'number' ? player.x : 50)),
+    y: Math.max(0, Math.min(98, typeof player.y === 'number' ? player.y : 50)),
+    width: Math.max(4, Math.min(18, typeof player.width === 'number' ? player.width : 8)),
+    height: Math.max(8, Math.min(28, typeof player.height === 'number' ? player.height : 18)),
+    confidence: Math.max(0.6, Math.min(1, typeof player.confidence === 'number' ? player.confidence : 0.8)),
+    jersey: player.jersey ? String(player.jersey) : undefined,
+    team: player.team === 'home' || player.team === 'away' ? player.team : (index % 2 === 0 ? 'home' : 'away'),
+    teamColor: (typeof player.teamColor === 'string' && player.teamColor) || (player.team === 'home' ? teamColors?.home : teamColors?.away) || (index % 2 === 0 ? 'Blue' : 'Red'),
+    timestamp: timestamp,
+    isReferee: false
+  }))
+
+  console.log(`球员检测完成，返回 ${processedPlayers.length} 名球员`)
+
+  return {
+    players: processedPlayers,
+    teamColors: teamColors || { home: 'Blue', away: 'Red' }
+  }
+}
@@ -0,0 +1,54 @@
+/*
+  # 创建异步分析任务表
+
+  1. 新建表
+    - `analysis_jobs` - 记录每次球员表现分析的状态、进度和结果
+
+  2. 任务生命周期
+    - queued → uploading → processing → analyzing → done / failed
+    - 状态只由 Edge Function（service role）写入
+
+  3. 安全设置
+    - 启用 RLS，用户只能查看自己的分析任务
+
+  4. 实时推送
+    - 加入 supabase_realtime 发布，前端订阅任务状态变化
+*/
+
+-- 创建分析任务表
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  player_name text NOT NULL,
+  detection_id integer,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'uploading', 'processing', 'analyzing', 'done', 'failed')),
+  progress integer NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  message text,
+  error text,
+  result jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 启用 RLS
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "用户只能查看自己的分析任务"
+  ON analysis_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON analysis_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status);
+
+-- 为分析任务表添加自动更新时间戳的触发器
+CREATE TRIGGER update_analysis_jobs_updated_at
+    BEFORE UPDATE ON analysis_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 允许前端通过 Realtime 订阅任务状态
+ALTER PUBLICATION supabase_realtime ADD TABLE analysis_jobs;
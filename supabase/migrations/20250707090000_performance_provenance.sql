@@ -0,0 +1,28 @@
+/*
+  # 表现记录来源标记
+
+  1. 修改表
+    - `performances.analysis_status` - 分析结果来源: real（完整）、partial（部分指标未识别）、failed（无可用数据）
+    - 指标列允许 NULL，未能识别的指标不再用默认分数填充
+
+  2. 历史数据
+    - 此前保存的记录可能包含后备随机分数或默认值，无法区分，analysis_status 保持 NULL，前端标记为未验证
+*/
+
+ALTER TABLE performances
+  ADD COLUMN IF NOT EXISTS analysis_status text
+    CHECK (analysis_status IN ('real', 'partial', 'failed'));
+
+ALTER TABLE performances
+  ALTER COLUMN overall DROP NOT NULL,
+  ALTER COLUMN speed DROP NOT NULL,
+  ALTER COLUMN passing DROP NOT NULL,
+  ALTER COLUMN positioning DROP NOT NULL,
+  ALTER COLUMN touches DROP NOT NULL,
+  ALTER COLUMN distance DROP NOT NULL,
+  ALTER COLUMN top_speed DROP NOT NULL,
+  ALTER COLUMN pass_accuracy DROP NOT NULL,
+  ALTER COLUMN dominant_foot_right DROP NOT NULL,
+  ALTER COLUMN dominant_foot_left DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_performances_analysis_status ON performances(analysis_status);
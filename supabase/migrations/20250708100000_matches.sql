@@ -0,0 +1,73 @@
+/*
+  # 比赛作为独立实体
+
+  1. 新建表
+    - `matches` - 比赛信息：日期、赛事、主客队、比分、场地和对应的视频
+
+  2. 修改表
+    - `performances.match_ref` - 关联到 `matches`，同一视频中分析的多名球员指向同一场比赛
+    - 原有的 `match_id` 文本列保留，旧记录没有关联的比赛
+
+  3. 安全设置
+    - 启用 RLS，用户只能访问自己的比赛
+*/
+
+-- 创建比赛表
+CREATE TABLE IF NOT EXISTS matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date timestamptz NOT NULL DEFAULT now(),
+  competition text,
+  home_team text,
+  away_team text,
+  home_score integer CHECK (home_score >= 0),
+  away_score integer CHECK (away_score >= 0),
+  venue text,
+  video_name text,
+  video_size bigint,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 表现记录关联比赛
+ALTER TABLE performances
+  ADD COLUMN IF NOT EXISTS match_ref uuid REFERENCES matches(id) ON DELETE SET NULL;
+
+-- 启用 RLS
+ALTER TABLE matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "用户只能查看自己的比赛"
+  ON matches
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "用户只能创建自己的比赛"
+  ON matches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "用户只能更新自己的比赛"
+  ON matches
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "用户只能删除自己的比赛"
+  ON matches
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_matches_user_id ON matches(user_id);
+CREATE INDEX IF NOT EXISTS idx_matches_date ON matches(date);
+CREATE INDEX IF NOT EXISTS idx_performances_match_ref ON performances(match_ref);
+
+-- 为比赛表添加自动更新时间戳的触发器
+CREATE TRIGGER update_matches_updated_at
+    BEFORE UPDATE ON matches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,141 @@
+/*
+  # 球队与阵容管理
+
+  1. 新建表
+    - `teams` - 用户管理的球队，记录队服颜色用于匹配 AI 识别的球员
+    - `squad_memberships` - 球员在某赛季的球队登记：号码、位置
+
+  2. 球员身份
+    - 球员按 ID 关联，不再按姓名匹配；同名球员可以同时存在
+
+  3. 安全设置
+    - 启用 RLS，用户只能访问自己球队及其阵容
+*/
+
+-- 创建球队表
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  kit_color text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 创建阵容表
+CREATE TABLE IF NOT EXISTS squad_memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  season text NOT NULL,
+  jersey_number integer CHECK (jersey_number BETWEEN 0 AND 99),
+  position text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (team_id, player_id, season)
+);
+
+-- 同一赛季同一球队的号码不能重复
+CREATE UNIQUE INDEX IF NOT EXISTS idx_squad_memberships_jersey
+  ON squad_memberships(team_id, season, jersey_number)
+  WHERE jersey_number IS NOT NULL;
+
+-- 启用 RLS
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE squad_memberships ENABLE ROW LEVEL SECURITY;
+
+-- 球队表的 RLS 策略
+CREATE POLICY "用户只能查看自己的球队"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "用户只能创建自己的球队"
+  ON teams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "用户只能更新自己的球队"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "用户只能删除自己的球队"
+  ON teams
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 阵容表的 RLS 策略
+CREATE POLICY "用户只能查看自己球队的阵容"
+  ON squad_memberships
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND teams.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "用户只能为自己的球队登记球员"
+  ON squad_memberships
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND teams.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = squad_memberships.player_id
+      AND players.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "用户只能更新自己球队的阵容"
+  ON squad_memberships
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND teams.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "用户只能删除自己球队的阵容"
+  ON squad_memberships
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND teams.user_id = auth.uid()
+    )
+  );
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_teams_user_id ON teams(user_id);
+CREATE INDEX IF NOT EXISTS idx_squad_memberships_team_id ON squad_memberships(team_id);
+CREATE INDEX IF NOT EXISTS idx_squad_memberships_player_id ON squad_memberships(player_id);
+
+-- 添加自动更新时间戳的触发器
+CREATE TRIGGER update_teams_updated_at
+    BEFORE UPDATE ON teams
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_squad_memberships_updated_at
+    BEFORE UPDATE ON squad_memberships
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
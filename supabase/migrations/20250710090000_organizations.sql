@@ -0,0 +1,559 @@
+/*
+  # 组织工作区与角色权限
+
+  1. 新建表
+    - `organizations` - 俱乐部/青训机构，教练们在其中共享球员数据库
+    - `organization_members` - 组织成员及角色：owner、coach、analyst、viewer（只读的家长/球员）
+    - `organization_invites` - 按邮箱发出的邀请，凭 token 接受
+
+  2. 修改表
+    - `players`、`matches`、`teams` 增加 `organization_id`；为 NULL 时属于个人工作区
+    - 表现记录和阵容登记通过所属球员/球队继承工作区
+
+  3. 角色权限
+    - viewer：只读
+    - analyst：可以分析视频，创建和更新球员、比赛
+    - coach：analyst 的权限，外加删除数据、管理球队和邀请成员
+    - owner：全部权限，管理成员角色
+    - 组织至少保留一名 owner，最后一名 owner 不能退出、被移除或降级
+    - 球员、比赛和球队创建后不能再修改 `user_id` 和 `organization_id`，数据不能被移出所属工作区
+
+  4. 安全设置
+    - 原有的 `auth.uid() = user_id` 策略替换为按工作区成员身份判断
+    - 创建组织通过 `create_organization` 函数完成，创建者成为 owner
+    - 接受邀请通过 `accept_organization_invite` 函数完成，校验登录邮箱与邀请邮箱一致
+*/
+
+-- 创建组织表
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 创建组织成员表
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email text,
+  role text NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('owner', 'coach', 'analyst', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, user_id)
+);
+
+-- 创建邀请表
+CREATE TABLE IF NOT EXISTS organization_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('owner', 'coach', 'analyst', 'viewer')),
+  token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days',
+  created_at timestamptz DEFAULT now()
+);
+
+-- 数据归属到组织工作区
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE teams
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- 当前用户在组织中的角色是否在允许范围内；roles 为 NULL 表示任意角色
+-- SECURITY DEFINER 避免成员表策略递归查询自身
+CREATE OR REPLACE FUNCTION is_organization_member(org_id uuid, roles text[] DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = org_id
+    AND organization_members.user_id = auth.uid()
+    AND (roles IS NULL OR organization_members.role = ANY(roles))
+  );
+$$;
+
+-- 个人工作区只有创建者可访问，组织工作区按成员角色判断
+CREATE OR REPLACE FUNCTION can_access_workspace(owner_id uuid, org_id uuid, roles text[] DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN org_id IS NULL THEN owner_id = auth.uid()
+    ELSE is_organization_member(org_id, roles)
+  END;
+$$;
+
+-- 创建组织并把创建者加为 owner，返回组织 ID
+CREATE OR REPLACE FUNCTION create_organization(org_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_org_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION '请先登录';
+  END IF;
+
+  IF coalesce(trim(org_name), '') = '' THEN
+    RAISE EXCEPTION '组织名称不能为空';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(org_name), auth.uid())
+  RETURNING id INTO new_org_id;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (new_org_id, auth.uid(), auth.jwt() ->> 'email', 'owner');
+
+  RETURN new_org_id;
+END;
+$$;
+
+-- 接受邀请：邀请未过期、未使用，且登录邮箱与邀请邮箱一致
+CREATE OR REPLACE FUNCTION accept_organization_invite(invite_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite organization_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM organization_invites
+  WHERE token = invite_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '邀请不存在';
+  END IF;
+
+  IF invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION '邀请已被使用';
+  END IF;
+
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION '邀请已过期';
+  END IF;
+
+  IF lower(invite.email) <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION '邀请邮箱与当前登录账号不一致';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (invite.organization_id, auth.uid(), invite.email, invite.role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE organization_invites SET accepted_at = now() WHERE id = invite.id;
+
+  RETURN invite.organization_id;
+END;
+$$;
+
+-- 启用 RLS
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invites ENABLE ROW LEVEL SECURITY;
+
+-- 组织表的 RLS 策略；被邀请人在接受前也能看到组织名称
+CREATE POLICY "成员和被邀请人可以查看组织"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_organization_member(id)
+    OR EXISTS (
+      SELECT 1 FROM organization_invites
+      WHERE organization_invites.organization_id = organizations.id
+      AND lower(organization_invites.email) = lower(auth.jwt() ->> 'email')
+      AND organization_invites.accepted_at IS NULL
+    )
+  );
+
+CREATE POLICY "只有 owner 可以更新组织"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(id, ARRAY['owner']))
+  WITH CHECK (is_organization_member(id, ARRAY['owner']));
+
+CREATE POLICY "只有 owner 可以删除组织"
+  ON organizations
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(id, ARRAY['owner']));
+
+-- 成员表的 RLS 策略；成员只通过 create_organization 和接受邀请加入
+CREATE POLICY "成员可以查看同组织成员"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "只有 owner 可以修改成员角色"
+  ON organization_members
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner']))
+  WITH CHECK (is_organization_member(organization_id, ARRAY['owner']));
+
+CREATE POLICY "owner 可以移除成员，成员可以退出"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR is_organization_member(organization_id, ARRAY['owner'])
+  );
+
+-- 邀请表的 RLS 策略
+CREATE POLICY "管理者和被邀请人可以查看邀请"
+  ON organization_invites
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_organization_member(organization_id, ARRAY['owner', 'coach'])
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "owner 和 coach 可以发出邀请"
+  ON organization_invites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = invited_by
+    AND (
+      is_organization_member(organization_id, ARRAY['owner'])
+      OR (is_organization_member(organization_id, ARRAY['coach']) AND role <> 'owner')
+    )
+  );
+
+CREATE POLICY "owner 和 coach 可以撤销邀请"
+  ON organization_invites
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id, ARRAY['owner', 'coach']));
+
+-- 球员表：替换原有按 user_id 的策略
+DROP POLICY IF EXISTS "用户只能查看自己的球员" ON players;
+DROP POLICY IF EXISTS "用户只能创建自己的球员" ON players;
+DROP POLICY IF EXISTS "用户只能更新自己的球员" ON players;
+DROP POLICY IF EXISTS "用户只能删除自己的球员" ON players;
+
+CREATE POLICY "工作区成员可以查看球员"
+  ON players
+  FOR SELECT
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id));
+
+CREATE POLICY "工作区分析人员可以创建球员"
+  ON players
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach', 'analyst'])
+  );
+
+CREATE POLICY "工作区分析人员可以更新球员"
+  ON players
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach', 'analyst']))
+  WITH CHECK (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach', 'analyst']));
+
+CREATE POLICY "工作区教练可以删除球员"
+  ON players
+  FOR DELETE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+-- 表现记录：继承所属球员的工作区
+DROP POLICY IF EXISTS "用户只能查看自己球员的表现记录" ON performances;
+DROP POLICY IF EXISTS "用户只能创建自己球员的表现记录" ON performances;
+DROP POLICY IF EXISTS "用户只能更新自己球员的表现记录" ON performances;
+DROP POLICY IF EXISTS "用户只能删除自己球员的表现记录" ON performances;
+
+CREATE POLICY "工作区成员可以查看表现记录"
+  ON performances
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = performances.player_id
+      AND can_access_workspace(players.user_id, players.organization_id)
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以创建表现记录"
+  ON performances
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = performances.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以更新表现记录"
+  ON performances
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = performances.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = performances.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区教练可以删除表现记录"
+  ON performances
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = performances.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+-- 比赛表
+DROP POLICY IF EXISTS "用户只能查看自己的比赛" ON matches;
+DROP POLICY IF EXISTS "用户只能创建自己的比赛" ON matches;
+DROP POLICY IF EXISTS "用户只能更新自己的比赛" ON matches;
+DROP POLICY IF EXISTS "用户只能删除自己的比赛" ON matches;
+
+CREATE POLICY "工作区成员可以查看比赛"
+  ON matches
+  FOR SELECT
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id));
+
+CREATE POLICY "工作区分析人员可以创建比赛"
+  ON matches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach', 'analyst'])
+  );
+
+CREATE POLICY "工作区分析人员可以更新比赛"
+  ON matches
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach', 'analyst']))
+  WITH CHECK (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach', 'analyst']));
+
+CREATE POLICY "工作区教练可以删除比赛"
+  ON matches
+  FOR DELETE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+-- 球队表：只有 coach 以上可以管理
+DROP POLICY IF EXISTS "用户只能查看自己的球队" ON teams;
+DROP POLICY IF EXISTS "用户只能创建自己的球队" ON teams;
+DROP POLICY IF EXISTS "用户只能更新自己的球队" ON teams;
+DROP POLICY IF EXISTS "用户只能删除自己的球队" ON teams;
+
+CREATE POLICY "工作区成员可以查看球队"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id));
+
+CREATE POLICY "工作区教练可以创建球队"
+  ON teams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach'])
+  );
+
+CREATE POLICY "工作区教练可以更新球队"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']))
+  WITH CHECK (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+CREATE POLICY "工作区教练可以删除球队"
+  ON teams
+  FOR DELETE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+-- 阵容表：继承所属球队的工作区
+DROP POLICY IF EXISTS "用户只能查看自己球队的阵容" ON squad_memberships;
+DROP POLICY IF EXISTS "用户只能为自己的球队登记球员" ON squad_memberships;
+DROP POLICY IF EXISTS "用户只能更新自己球队的阵容" ON squad_memberships;
+DROP POLICY IF EXISTS "用户只能删除自己球队的阵容" ON squad_memberships;
+
+CREATE POLICY "工作区成员可以查看阵容"
+  ON squad_memberships
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND can_access_workspace(teams.user_id, teams.organization_id)
+    )
+  );
+
+CREATE POLICY "工作区教练可以登记球员"
+  ON squad_memberships
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM teams
+      JOIN players ON players.id = squad_memberships.player_id
+      WHERE teams.id = squad_memberships.team_id
+      AND can_access_workspace(teams.user_id, teams.organization_id, ARRAY['owner', 'coach'])
+      AND players.organization_id IS NOT DISTINCT FROM teams.organization_id
+      AND can_access_workspace(players.user_id, players.organization_id)
+    )
+  );
+
+CREATE POLICY "工作区教练可以更新阵容"
+  ON squad_memberships
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND can_access_workspace(teams.user_id, teams.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+CREATE POLICY "工作区教练可以删除阵容"
+  ON squad_memberships
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = squad_memberships.team_id
+      AND can_access_workspace(teams.user_id, teams.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invites_email ON organization_invites(lower(email));
+CREATE INDEX IF NOT EXISTS idx_players_organization_id ON players(organization_id);
+CREATE INDEX IF NOT EXISTS idx_matches_organization_id ON matches(organization_id);
+CREATE INDEX IF NOT EXISTS idx_teams_organization_id ON teams(organization_id);
+
+-- 更新策略只校验新行是否仍可访问，改写归属列就能把数据（连同继承权限的表现记录、目标、分享链接等）
+-- 移到自己的个人工作区；前端从不修改这两列，这里一律拒绝
+CREATE OR REPLACE FUNCTION prevent_workspace_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION '不能修改数据所属的用户或工作区' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_players_workspace_change
+    BEFORE UPDATE OF user_id, organization_id ON players
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_workspace_change();
+
+CREATE TRIGGER prevent_matches_workspace_change
+    BEFORE UPDATE OF user_id, organization_id ON matches
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_workspace_change();
+
+CREATE TRIGGER prevent_teams_workspace_change
+    BEFORE UPDATE OF user_id, organization_id ON teams
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_workspace_change();
+
+-- 添加自动更新时间戳的触发器
+CREATE TRIGGER update_organizations_updated_at
+    BEFORE UPDATE ON organizations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at
+    BEFORE UPDATE ON organization_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 最后一名 owner 不能退出、被移除或降级，否则组织再也无法管理成员和邀请
+CREATE OR REPLACE FUNCTION ensure_organization_has_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner' AND NEW.organization_id = OLD.organization_id) THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  -- 锁住组织行，避免两名 owner 同时降级对方；组织本身被删除（级联删除成员）时不再检查
+  PERFORM 1 FROM organizations WHERE id = OLD.organization_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  -- 用户账号被删除时随之移除成员身份
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = OLD.organization_id
+    AND role = 'owner'
+    AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION '组织至少需要保留一名 owner' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER ensure_organization_has_owner
+    BEFORE UPDATE OR DELETE ON organization_members
+    FOR EACH ROW
+    EXECUTE FUNCTION ensure_organization_has_owner();
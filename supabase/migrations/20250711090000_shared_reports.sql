@@ -0,0 +1,174 @@
+/*
+  # 只读分享链接
+
+  1. 新建表
+    - `shared_reports` - 球员报告的分享链接
+      - `token` - 链接中使用的随机令牌
+      - `player_id` - 被分享的球员
+      - `match_id` - 为 NULL 时分享球员的全部记录，否则只分享这一场分析（对应 performances.match_id）
+      - `expires_at` - 过期时间，为 NULL 时永不过期
+      - `revoked_at` - 撤销时间，撤销后链接立即失效
+
+  2. 安全设置
+    - analyst 以上可以查看、创建和撤销球员的分享链接，viewer 看不到链接令牌
+    - 未登录的访问者不能直接查询任何表，只能通过 `get_shared_report` 函数凭令牌读取分享的内容
+*/
+
+-- 创建分享链接表
+CREATE TABLE IF NOT EXISTS shared_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  match_id text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- 启用 RLS
+ALTER TABLE shared_reports ENABLE ROW LEVEL SECURITY;
+
+-- 分享链接继承所属球员的工作区
+-- 令牌本身就是访问凭证，只有能创建分享链接的角色可以列出
+CREATE POLICY "工作区分析人员可以查看分享链接"
+  ON shared_reports
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = shared_reports.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以创建分享链接"
+  ON shared_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = shared_reports.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以撤销分享链接"
+  ON shared_reports
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = shared_reports.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = shared_reports.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区教练可以删除分享链接"
+  ON shared_reports
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = shared_reports.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+-- 凭令牌读取分享的球员报告；链接不存在、已撤销或已过期时返回 NULL
+-- 只返回报告需要的字段，不暴露所属用户和组织
+CREATE OR REPLACE FUNCTION get_shared_report(share_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  share shared_reports%ROWTYPE;
+  player_json jsonb;
+  match_json jsonb;
+BEGIN
+  SELECT * INTO share FROM shared_reports
+  WHERE token = share_token
+  AND revoked_at IS NULL
+  AND (expires_at IS NULL OR expires_at > now());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF share.match_id IS NULL THEN
+    SELECT jsonb_build_object(
+      'id', players.id,
+      'name', players.name,
+      'avatar_url', players.avatar_url,
+      'total_matches', players.total_matches,
+      'first_analyzed', players.first_analyzed,
+      'last_analyzed', players.last_analyzed,
+      'average_performance', players.average_performance,
+      'improvements', players.improvements,
+      'weaknesses', players.weaknesses,
+      'performances', coalesce((
+        SELECT jsonb_agg(to_jsonb(performances) ORDER BY performances.date DESC)
+        FROM performances
+        WHERE performances.player_id = players.id
+      ), '[]'::jsonb)
+    ) INTO player_json
+    FROM players
+    WHERE players.id = share.player_id;
+  ELSE
+    -- 单场分享只包含这一场的数据，场次、平均表现、进步和待提升等整体记录不返回
+    SELECT jsonb_build_object(
+      'id', players.id,
+      'name', players.name,
+      'avatar_url', players.avatar_url,
+      'total_matches', count(performances.id),
+      'first_analyzed', min(performances.date),
+      'last_analyzed', max(performances.date),
+      'performances', coalesce(
+        jsonb_agg(to_jsonb(performances) ORDER BY performances.date DESC) FILTER (WHERE performances.id IS NOT NULL),
+        '[]'::jsonb
+      )
+    ) INTO player_json
+    FROM players
+    LEFT JOIN performances
+      ON performances.player_id = players.id
+      AND performances.match_id = share.match_id
+    WHERE players.id = share.player_id
+    GROUP BY players.id;
+  END IF;
+
+  IF share.match_id IS NOT NULL THEN
+    SELECT to_jsonb(matches) - 'user_id' - 'organization_id' INTO match_json
+    FROM matches
+    JOIN performances ON performances.match_ref = matches.id
+    WHERE performances.player_id = share.player_id
+    AND performances.match_id = share.match_id
+    LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'match_id', share.match_id,
+    'player', player_json,
+    'match', match_json
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_report(uuid) TO anon, authenticated;
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_shared_reports_player_id ON shared_reports(player_id);
@@ -0,0 +1,165 @@
+/*
+  # 由数据库维护球员汇总数据
+
+  1. 修改
+    - `players.average_performance`、`total_matches`、`first_analyzed`、`last_analyzed`、`improvements`、`weaknesses`
+      改由 `performances` 上的触发器重新计算，表现记录被新增、修改或删除后立即更新
+    - 客户端只读取这些字段，不再自行计算和覆盖
+
+  2. 计算规则（与此前前端逻辑一致）
+    - 平均值：失败的分析不计入，每项指标只取测得的记录；评分取整，距离和速度保留一位小数
+    - 惯用脚：左右脚都测得的记录才计入
+    - 进步：最近一次有效分析与上一次有效分析相比超过阈值的指标
+    - 待提升：最近一次分析中低于阈值的指标
+
+  3. 历史数据
+    - 迁移时为所有球员重新计算一次
+*/
+
+-- 重新计算一名球员的汇总数据
+CREATE OR REPLACE FUNCTION refresh_player_aggregates(target_player_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  averages record;
+  latest performances%ROWTYPE;
+  previous performances%ROWTYPE;
+  missing text[] := ARRAY[]::text[];
+  average_json jsonb;
+  improvement_list text[] := ARRAY[]::text[];
+  weakness_list text[] := ARRAY[]::text[];
+BEGIN
+  SELECT
+    count(*) AS total,
+    min(created_at) AS first_at,
+    max(created_at) AS last_at,
+    round(avg(overall) FILTER (WHERE usable)) AS overall,
+    round(avg(speed) FILTER (WHERE usable)) AS speed,
+    round(avg(passing) FILTER (WHERE usable)) AS passing,
+    round(avg(positioning) FILTER (WHERE usable)) AS positioning,
+    round(avg(touches) FILTER (WHERE usable)) AS touches,
+    round(avg(distance) FILTER (WHERE usable), 1) AS distance,
+    round(avg(top_speed) FILTER (WHERE usable), 1) AS top_speed,
+    round(avg(pass_accuracy) FILTER (WHERE usable)) AS pass_accuracy,
+    round(avg(dominant_foot_right) FILTER (WHERE usable AND dominant_foot_left IS NOT NULL)) AS foot_right,
+    round(avg(dominant_foot_left) FILTER (WHERE usable AND dominant_foot_right IS NOT NULL)) AS foot_left
+  INTO averages
+  FROM (
+    SELECT *, analysis_status IS DISTINCT FROM 'failed' AS usable
+    FROM performances
+    WHERE player_id = target_player_id
+  ) AS history;
+
+  IF averages.overall IS NULL THEN missing := missing || 'overall'; END IF;
+  IF averages.speed IS NULL THEN missing := missing || 'speed'; END IF;
+  IF averages.passing IS NULL THEN missing := missing || 'passing'; END IF;
+  IF averages.positioning IS NULL THEN missing := missing || 'positioning'; END IF;
+  IF averages.touches IS NULL THEN missing := missing || 'touches'; END IF;
+  IF averages.distance IS NULL THEN missing := missing || 'distance'; END IF;
+  IF averages.top_speed IS NULL THEN missing := missing || 'topSpeed'; END IF;
+  IF averages.pass_accuracy IS NULL THEN missing := missing || 'passAccuracy'; END IF;
+  IF averages.foot_right IS NULL OR averages.foot_left IS NULL THEN missing := missing || 'dominantFoot'; END IF;
+
+  -- 与前端 PerformanceData 结构一致，未测得的指标为 0 并列入 missingMetrics
+  average_json := jsonb_build_object(
+    'matchId', 'average',
+    'date', now(),
+    'overall', coalesce(averages.overall, 0),
+    'speed', coalesce(averages.speed, 0),
+    'passing', coalesce(averages.passing, 0),
+    'positioning', coalesce(averages.positioning, 0),
+    'touches', coalesce(averages.touches, 0),
+    'distance', coalesce(averages.distance, 0),
+    'topSpeed', coalesce(averages.top_speed, 0),
+    'passAccuracy', coalesce(averages.pass_accuracy, 0),
+    'dominantFoot', jsonb_build_object(
+      'right', coalesce(averages.foot_right, 0),
+      'left', coalesce(averages.foot_left, 0)
+    ),
+    'analysisStatus', CASE
+      WHEN cardinality(missing) = 9 THEN 'failed'
+      WHEN cardinality(missing) > 0 THEN 'partial'
+      ELSE 'real'
+    END,
+    'missingMetrics', to_jsonb(missing)
+  );
+
+  SELECT * INTO latest FROM performances
+  WHERE player_id = target_player_id
+  ORDER BY date DESC, created_at DESC
+  LIMIT 1;
+
+  -- 失败的分析没有可比较的指标
+  IF FOUND AND latest.analysis_status IS DISTINCT FROM 'failed' THEN
+    -- 待提升：最近一次分析中低于阈值的指标
+    IF latest.passing < 75 THEN weakness_list := weakness_list || 'Passing accuracy needs strengthening'; END IF;
+    IF latest.speed < 80 THEN weakness_list := weakness_list || 'Speed training can be increased'; END IF;
+    IF latest.positioning < 80 THEN weakness_list := weakness_list || 'Positioning sense needs improvement'; END IF;
+    IF latest.pass_accuracy < 85 THEN weakness_list := weakness_list || 'Pass success rate is low'; END IF;
+    IF latest.dominant_foot_left < 30 AND latest.dominant_foot_right IS NOT NULL THEN
+      weakness_list := weakness_list || 'Weak foot usage frequency is low';
+    END IF;
+
+    -- 进步：与上一次有效分析相比，NULL 指标的比较结果为 NULL，不会计入
+    SELECT * INTO previous FROM performances
+    WHERE player_id = target_player_id
+    AND id <> latest.id
+    AND analysis_status IS DISTINCT FROM 'failed'
+    AND (date, created_at) < (latest.date, latest.created_at)
+    ORDER BY date DESC, created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF latest.overall > previous.overall + 2 THEN improvement_list := improvement_list || 'Overall performance significantly improved'; END IF;
+      IF latest.speed > previous.speed + 3 THEN improvement_list := improvement_list || 'Speed showed notable progress'; END IF;
+      IF latest.passing > previous.passing + 3 THEN improvement_list := improvement_list || 'Passing technique improved'; END IF;
+      IF latest.positioning > previous.positioning + 3 THEN improvement_list := improvement_list || 'Positioning sense enhanced'; END IF;
+      IF latest.pass_accuracy > previous.pass_accuracy + 5 THEN improvement_list := improvement_list || 'Pass accuracy increased'; END IF;
+      IF latest.top_speed > previous.top_speed + 1 THEN improvement_list := improvement_list || 'Top speed breakthrough'; END IF;
+    END IF;
+  END IF;
+
+  UPDATE players SET
+    total_matches = averages.total,
+    first_analyzed = coalesce(averages.first_at, players.first_analyzed),
+    last_analyzed = coalesce(averages.last_at, players.last_analyzed),
+    average_performance = CASE WHEN averages.total > 0 THEN average_json ELSE NULL END,
+    improvements = improvement_list,
+    weaknesses = weakness_list
+  WHERE id = target_player_id;
+END;
+$$;
+
+-- 只供触发器调用
+REVOKE EXECUTE ON FUNCTION refresh_player_aggregates(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_player_aggregates_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_player_aggregates(OLD.player_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.player_id <> OLD.player_id) THEN
+    PERFORM refresh_player_aggregates(NEW.player_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_player_aggregates ON performances;
+CREATE TRIGGER refresh_player_aggregates
+  AFTER INSERT OR UPDATE OR DELETE ON performances
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_player_aggregates_trigger();
+
+-- 重新计算已有球员
+SELECT refresh_player_aggregates(id) FROM players;
@@ -0,0 +1,457 @@
+/*
+  # 可配置的进步/待提升规则
+
+  1. 新建表
+    - `performance_rules` - 规则：指标、比较方式、阈值、提示文字和对应的训练项目
+      - kind = weakness：最近一次分析的指标值与阈值比较，命中时列入待提升并推荐训练
+      - kind = improvement：与上一次有效分析相比的变化量与阈值比较，命中时列入进步
+      - positions 为 NULL 表示适用于所有位置；位置未登记的球员适用全部规则
+      - 文字中的 {value} 替换为实际数值
+
+  2. 规则集
+    - 每个工作区可以有一套通用规则，也可以为某个年龄组单独设置
+    - 球员按最近一次阵容登记的球队年龄组和位置选用规则：年龄组规则 > 工作区通用规则 > 系统默认规则
+    - 系统默认规则 user_id 与 organization_id 均为 NULL，所有人可读、不可修改
+    - 默认规则统一了此前数据库和报告页各自的阈值，并为门将免去速度类规则
+
+  3. 修改表
+    - `teams` 增加 `age_group`
+
+  4. 汇总数据
+    - `refresh_player_aggregates` 改为按规则计算进步和待提升
+    - 规则、阵容登记或球队年龄组变化后重新计算受影响的球员
+
+  5. 安全设置
+    - 启用 RLS，工作区成员可以查看规则，owner 和 coach 可以修改
+    - 规则创建后不能修改 `user_id` 和 `organization_id`，不能移出所属工作区，也不能改成系统默认规则
+    - 分享链接通过 `get_shared_report_rules` 读取球员适用的规则
+*/
+
+ALTER TABLE teams
+  ADD COLUMN IF NOT EXISTS age_group text;
+
+-- 创建规则表
+CREATE TABLE IF NOT EXISTS performance_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  age_group text,
+  kind text NOT NULL CHECK (kind IN ('weakness', 'improvement')),
+  metric text NOT NULL CHECK (metric IN (
+    'overall', 'speed', 'passing', 'positioning', 'touches',
+    'distance', 'topSpeed', 'passAccuracy', 'dominantFoot'
+  )),
+  comparator text NOT NULL CHECK (comparator IN ('<', '<=', '>', '>=')),
+  threshold numeric NOT NULL,
+  positions text[],
+  message text NOT NULL,
+  drill text,
+  drill_description text,
+  drill_duration text,
+  priority text NOT NULL DEFAULT 'Medium' CHECK (priority IN ('High', 'Medium', 'Low')),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- 组织规则记录创建者；系统默认规则两者都为 NULL
+  CHECK (organization_id IS NULL OR user_id IS NOT NULL)
+);
+
+-- 启用 RLS
+ALTER TABLE performance_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "工作区成员可以查看规则"
+  ON performance_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    (user_id IS NULL AND organization_id IS NULL)
+    OR can_access_workspace(user_id, organization_id)
+  );
+
+CREATE POLICY "工作区教练可以创建规则"
+  ON performance_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach'])
+  );
+
+CREATE POLICY "工作区教练可以更新规则"
+  ON performance_rules
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']))
+  WITH CHECK (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+CREATE POLICY "工作区教练可以删除规则"
+  ON performance_rules
+  FOR DELETE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_performance_rules_organization_id ON performance_rules(organization_id);
+CREATE INDEX IF NOT EXISTS idx_performance_rules_user_id ON performance_rules(user_id);
+
+CREATE TRIGGER update_performance_rules_updated_at
+    BEFORE UPDATE ON performance_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER prevent_performance_rules_workspace_change
+    BEFORE UPDATE OF user_id, organization_id ON performance_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_workspace_change();
+
+-- 系统默认规则；跑动距离和最高速度只在追踪片段内测量，不设默认规则
+INSERT INTO performance_rules
+  (kind, metric, comparator, threshold, positions, message, drill, drill_description, drill_duration, priority, sort_order)
+VALUES
+  ('weakness', 'passing', '<', 80, NULL, 'Passing accuracy needs strengthening',
+    '传球精度训练', '当前传球评分 {value}，建议加强传球准确性练习', '15-20分钟', 'High', 1),
+  ('weakness', 'dominantFoot', '<', 30, NULL, 'Weak foot usage frequency is low',
+    '弱脚开发训练', '左脚使用率仅 {value}%，需要加强弱脚练习', '10-15分钟', 'Medium', 2),
+  ('weakness', 'speed', '<', 85, ARRAY['Defender', 'Midfielder', 'Forward'], 'Speed training can be increased',
+    '速度与敏捷训练', '当前速度评分 {value}，建议进行爆发力训练', '20-25分钟', 'Medium', 3),
+  ('weakness', 'positioning', '<', 85, NULL, 'Positioning sense needs improvement',
+    '位置感训练', '当前位置感评分 {value}，建议加强战术理解', '15-20分钟', 'Medium', 4),
+  ('weakness', 'passAccuracy', '<', 85, NULL, 'Pass success rate is low',
+    NULL, NULL, NULL, 'Medium', 5),
+  ('improvement', 'overall', '>', 2, NULL, 'Overall performance significantly improved', NULL, NULL, NULL, 'Medium', 6),
+  ('improvement', 'speed', '>', 3, NULL, 'Speed showed notable progress', NULL, NULL, NULL, 'Medium', 7),
+  ('improvement', 'passing', '>', 3, NULL, 'Passing technique improved', NULL, NULL, NULL, 'Medium', 8),
+  ('improvement', 'positioning', '>', 3, NULL, 'Positioning sense enhanced', NULL, NULL, NULL, 'Medium', 9),
+  ('improvement', 'passAccuracy', '>', 5, NULL, 'Pass accuracy increased', NULL, NULL, NULL, 'Medium', 10);
+
+-- 表现记录中某项指标的值；惯用脚按左脚使用率，左右脚都测得才算
+CREATE OR REPLACE FUNCTION performance_metric_value(perf performances, metric text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE metric
+    WHEN 'overall' THEN perf.overall
+    WHEN 'speed' THEN perf.speed
+    WHEN 'passing' THEN perf.passing
+    WHEN 'positioning' THEN perf.positioning
+    WHEN 'touches' THEN perf.touches
+    WHEN 'distance' THEN perf.distance
+    WHEN 'topSpeed' THEN perf.top_speed
+    WHEN 'passAccuracy' THEN perf.pass_accuracy
+    WHEN 'dominantFoot' THEN CASE WHEN perf.dominant_foot_right IS NULL THEN NULL ELSE perf.dominant_foot_left END
+  END::numeric;
+$$;
+
+CREATE OR REPLACE FUNCTION performance_rule_matches(value numeric, comparator text, threshold numeric)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE comparator
+    WHEN '<' THEN value < threshold
+    WHEN '<=' THEN value <= threshold
+    WHEN '>' THEN value > threshold
+    WHEN '>=' THEN value >= threshold
+  END;
+$$;
+
+-- 球员适用的规则：按最近一次阵容登记确定年龄组和位置
+CREATE OR REPLACE FUNCTION resolve_player_rules(target_player_id uuid)
+RETURNS SETOF performance_rules
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  player players%ROWTYPE;
+  player_position text;
+  player_age_group text;
+  rule_set_age_group text;
+  has_workspace_rules boolean;
+BEGIN
+  SELECT * INTO player FROM players WHERE id = target_player_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT squad_memberships.position, teams.age_group
+  INTO player_position, player_age_group
+  FROM squad_memberships
+  JOIN teams ON teams.id = squad_memberships.team_id
+  WHERE squad_memberships.player_id = target_player_id
+  ORDER BY squad_memberships.season DESC, squad_memberships.created_at DESC
+  LIMIT 1;
+
+  -- 有年龄组规则时使用年龄组规则，否则使用工作区通用规则
+  SELECT CASE
+    WHEN bool_or(age_group = player_age_group) THEN player_age_group
+    ELSE NULL
+  END, bool_or(age_group IS NULL OR age_group = player_age_group)
+  INTO rule_set_age_group, has_workspace_rules
+  FROM performance_rules
+  WHERE CASE
+    WHEN player.organization_id IS NOT NULL THEN performance_rules.organization_id = player.organization_id
+    ELSE performance_rules.organization_id IS NULL AND performance_rules.user_id = player.user_id
+  END;
+
+  RETURN QUERY
+  SELECT performance_rules.* FROM performance_rules
+  WHERE CASE
+    WHEN coalesce(has_workspace_rules, false) THEN
+      CASE
+        WHEN player.organization_id IS NOT NULL THEN performance_rules.organization_id = player.organization_id
+        ELSE performance_rules.organization_id IS NULL AND performance_rules.user_id = player.user_id
+      END
+      AND performance_rules.age_group IS NOT DISTINCT FROM rule_set_age_group
+    ELSE performance_rules.user_id IS NULL AND performance_rules.organization_id IS NULL
+  END
+  AND (
+    performance_rules.positions IS NULL
+    OR player_position IS NULL
+    OR player_position = ANY(performance_rules.positions)
+  )
+  ORDER BY performance_rules.sort_order, performance_rules.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_player_rules(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 重新计算一名球员的汇总数据，进步和待提升按规则计算
+CREATE OR REPLACE FUNCTION refresh_player_aggregates(target_player_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  averages record;
+  latest performances%ROWTYPE;
+  previous performances%ROWTYPE;
+  has_previous boolean := false;
+  active_rule performance_rules%ROWTYPE;
+  latest_value numeric;
+  previous_value numeric;
+  missing text[] := ARRAY[]::text[];
+  average_json jsonb;
+  improvement_list text[] := ARRAY[]::text[];
+  weakness_list text[] := ARRAY[]::text[];
+BEGIN
+  SELECT
+    count(*) AS total,
+    min(created_at) AS first_at,
+    max(created_at) AS last_at,
+    round(avg(overall) FILTER (WHERE usable)) AS overall,
+    round(avg(speed) FILTER (WHERE usable)) AS speed,
+    round(avg(passing) FILTER (WHERE usable)) AS passing,
+    round(avg(positioning) FILTER (WHERE usable)) AS positioning,
+    round(avg(touches) FILTER (WHERE usable)) AS touches,
+    round(avg(distance) FILTER (WHERE usable), 1) AS distance,
+    round(avg(top_speed) FILTER (WHERE usable), 1) AS top_speed,
+    round(avg(pass_accuracy) FILTER (WHERE usable)) AS pass_accuracy,
+    round(avg(dominant_foot_right) FILTER (WHERE usable AND dominant_foot_left IS NOT NULL)) AS foot_right,
+    round(avg(dominant_foot_left) FILTER (WHERE usable AND dominant_foot_right IS NOT NULL)) AS foot_left
+  INTO averages
+  FROM (
+    SELECT *, analysis_status IS DISTINCT FROM 'failed' AS usable
+    FROM performances
+    WHERE player_id = target_player_id
+  ) AS history;
+
+  IF averages.overall IS NULL THEN missing := missing || 'overall'; END IF;
+  IF averages.speed IS NULL THEN missing := missing || 'speed'; END IF;
+  IF averages.passing IS NULL THEN missing := missing || 'passing'; END IF;
+  IF averages.positioning IS NULL THEN missing := missing || 'positioning'; END IF;
+  IF averages.touches IS NULL THEN missing := missing || 'touches'; END IF;
+  IF averages.distance IS NULL THEN missing := missing || 'distance'; END IF;
+  IF averages.top_speed IS NULL THEN missing := missing || 'topSpeed'; END IF;
+  IF averages.pass_accuracy IS NULL THEN missing := missing || 'passAccuracy'; END IF;
+  IF averages.foot_right IS NULL OR averages.foot_left IS NULL THEN missing := missing || 'dominantFoot'; END IF;
+
+  -- 与前端 PerformanceData 结构一致，未测得的指标为 0 并列入 missingMetrics
+  average_json := jsonb_build_object(
+    'matchId', 'average',
+    'date', now(),
+    'overall', coalesce(averages.overall, 0),
+    'speed', coalesce(averages.speed, 0),
+    'passing', coalesce(averages.passing, 0),
+    'positioning', coalesce(averages.positioning, 0),
+    'touches', coalesce(averages.touches, 0),
+    'distance', coalesce(averages.distance, 0),
+    'topSpeed', coalesce(averages.top_speed, 0),
+    'passAccuracy', coalesce(averages.pass_accuracy, 0),
+    'dominantFoot', jsonb_build_object(
+      'right', coalesce(averages.foot_right, 0),
+      'left', coalesce(averages.foot_left, 0)
+    ),
+    'analysisStatus', CASE
+      WHEN cardinality(missing) = 9 THEN 'failed'
+      WHEN cardinality(missing) > 0 THEN 'partial'
+      ELSE 'real'
+    END,
+    'missingMetrics', to_jsonb(missing)
+  );
+
+  SELECT * INTO latest FROM performances
+  WHERE player_id = target_player_id
+  ORDER BY date DESC, created_at DESC
+  LIMIT 1;
+
+  -- 失败的分析没有可比较的指标
+  IF FOUND AND latest.analysis_status IS DISTINCT FROM 'failed' THEN
+    SELECT * INTO previous FROM performances
+    WHERE player_id = target_player_id
+    AND id <> latest.id
+    AND analysis_status IS DISTINCT FROM 'failed'
+    AND (date, created_at) < (latest.date, latest.created_at)
+    ORDER BY date DESC, created_at DESC
+    LIMIT 1;
+    has_previous := FOUND;
+
+    -- 未测得的指标值为 NULL，比较结果不会命中
+    FOR active_rule IN SELECT * FROM resolve_player_rules(target_player_id) LOOP
+      latest_value := performance_metric_value(latest, active_rule.metric);
+
+      IF active_rule.kind = 'weakness' THEN
+        IF performance_rule_matches(latest_value, active_rule.comparator, active_rule.threshold) THEN
+          weakness_list := weakness_list || replace(active_rule.message, '{value}', trim_scale(latest_value)::text);
+        END IF;
+      ELSIF has_previous THEN
+        previous_value := performance_metric_value(previous, active_rule.metric);
+        IF performance_rule_matches(latest_value - previous_value, active_rule.comparator, active_rule.threshold) THEN
+          improvement_list := improvement_list || replace(active_rule.message, '{value}', trim_scale(latest_value - previous_value)::text);
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE players SET
+    total_matches = averages.total,
+    first_analyzed = coalesce(averages.first_at, players.first_analyzed),
+    last_analyzed = coalesce(averages.last_at, players.last_analyzed),
+    average_performance = CASE WHEN averages.total > 0 THEN average_json ELSE NULL END,
+    improvements = improvement_list,
+    weaknesses = weakness_list
+  WHERE id = target_player_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_player_aggregates(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 规则变化后重新计算所在工作区的球员
+CREATE OR REPLACE FUNCTION refresh_rule_workspace_aggregates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_player_aggregates(players.id)
+  FROM players
+  WHERE EXISTS (
+    SELECT 1 FROM changed_rules
+    WHERE CASE
+      WHEN changed_rules.organization_id IS NOT NULL THEN players.organization_id = changed_rules.organization_id
+      ELSE players.organization_id IS NULL AND players.user_id = changed_rules.user_id
+    END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_aggregates_after_rule_insert
+  AFTER INSERT ON performance_rules
+  REFERENCING NEW TABLE AS changed_rules
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_rule_workspace_aggregates();
+
+CREATE TRIGGER refresh_aggregates_after_rule_update
+  AFTER UPDATE ON performance_rules
+  REFERENCING NEW TABLE AS changed_rules
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_rule_workspace_aggregates();
+
+CREATE TRIGGER refresh_aggregates_after_rule_delete
+  AFTER DELETE ON performance_rules
+  REFERENCING OLD TABLE AS changed_rules
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_rule_workspace_aggregates();
+
+-- 阵容登记变化可能改变球员的位置和年龄组
+CREATE OR REPLACE FUNCTION refresh_squad_player_aggregates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_player_aggregates(OLD.player_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.player_id <> OLD.player_id) THEN
+    PERFORM refresh_player_aggregates(NEW.player_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_player_aggregates
+  AFTER INSERT OR UPDATE OR DELETE ON squad_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_squad_player_aggregates();
+
+CREATE OR REPLACE FUNCTION refresh_team_player_aggregates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_player_aggregates(player_id)
+  FROM (SELECT DISTINCT player_id FROM squad_memberships WHERE team_id = NEW.id) AS squad;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_player_aggregates
+  AFTER UPDATE OF age_group ON teams
+  FOR EACH ROW
+  WHEN (OLD.age_group IS DISTINCT FROM NEW.age_group)
+  EXECUTE FUNCTION refresh_team_player_aggregates();
+
+-- 凭分享令牌读取球员适用的规则，供分享页生成训练建议；令牌无效时返回 NULL
+CREATE OR REPLACE FUNCTION get_shared_report_rules(share_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  share shared_reports%ROWTYPE;
+BEGIN
+  SELECT * INTO share FROM shared_reports
+  WHERE token = share_token
+  AND revoked_at IS NULL
+  AND (expires_at IS NULL OR expires_at > now());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(to_jsonb(rules) - 'user_id' - 'organization_id')
+    FROM resolve_player_rules(share.player_id) AS rules
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_report_rules(uuid) TO anon, authenticated;
+
+-- 按默认规则重新计算已有球员
+SELECT refresh_player_aggregates(id) FROM players;
@@ -0,0 +1,179 @@
+/*
+  # 训练库与训练计划
+
+  1. 新建表
+    - `drills` - 训练库：训练名称、针对的指标、说明和时长
+      - user_id 与 organization_id 均为 NULL 的是系统自带训练，所有人可读、不可修改
+      - 工作区可以添加自己的训练
+    - `training_sessions` - 球员的训练安排：某天练哪项训练、时长、优先级，完成后记录完成时间
+      - 保存训练名称和针对的指标，训练从库中删除后记录仍然完整
+
+  2. 训练计划
+    - 每周计划由前端按球员命中的待提升规则从训练库挑选训练生成，保存为训练安排
+    - 完成时间用于对比训练前后的分析结果
+
+  3. 安全设置
+    - 启用 RLS，工作区成员可以查看；owner 和 coach 管理训练库
+    - 训练创建后不能修改 `user_id` 和 `organization_id`，不能移出所属工作区
+    - 训练安排继承所属球员的工作区，分析人员以上可以安排和标记完成，owner 和 coach 可以删除
+*/
+
+-- 创建训练库表
+CREATE TABLE IF NOT EXISTS drills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  metric text NOT NULL CHECK (metric IN (
+    'overall', 'speed', 'passing', 'positioning', 'touches',
+    'distance', 'topSpeed', 'passAccuracy', 'dominantFoot'
+  )),
+  description text,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- 组织训练记录创建者；系统自带训练两者都为 NULL
+  CHECK (organization_id IS NULL OR user_id IS NOT NULL)
+);
+
+-- 创建训练安排表
+CREATE TABLE IF NOT EXISTS training_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  drill_id uuid REFERENCES drills(id) ON DELETE SET NULL,
+  drill_name text NOT NULL,
+  metric text NOT NULL,
+  scheduled_date date NOT NULL,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  priority text NOT NULL DEFAULT 'Medium' CHECK (priority IN ('High', 'Medium', 'Low')),
+  completed_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 启用 RLS
+ALTER TABLE drills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE training_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 训练库的 RLS 策略
+CREATE POLICY "工作区成员可以查看训练库"
+  ON drills
+  FOR SELECT
+  TO authenticated
+  USING (
+    (user_id IS NULL AND organization_id IS NULL)
+    OR can_access_workspace(user_id, organization_id)
+  );
+
+CREATE POLICY "工作区教练可以添加训练"
+  ON drills
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach'])
+  );
+
+CREATE POLICY "工作区教练可以更新训练"
+  ON drills
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']))
+  WITH CHECK (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+CREATE POLICY "工作区教练可以删除训练"
+  ON drills
+  FOR DELETE
+  TO authenticated
+  USING (can_access_workspace(user_id, organization_id, ARRAY['owner', 'coach']));
+
+-- 训练安排的 RLS 策略：继承所属球员的工作区
+CREATE POLICY "工作区成员可以查看训练安排"
+  ON training_sessions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = training_sessions.player_id
+      AND can_access_workspace(players.user_id, players.organization_id)
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以安排训练"
+  ON training_sessions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = training_sessions.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以更新训练安排"
+  ON training_sessions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = training_sessions.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = training_sessions.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区教练可以删除训练安排"
+  ON training_sessions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = training_sessions.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_drills_organization_id ON drills(organization_id);
+CREATE INDEX IF NOT EXISTS idx_drills_user_id ON drills(user_id);
+CREATE INDEX IF NOT EXISTS idx_training_sessions_player_id ON training_sessions(player_id);
+CREATE INDEX IF NOT EXISTS idx_training_sessions_scheduled_date ON training_sessions(scheduled_date);
+
+-- 添加自动更新时间戳的触发器
+CREATE TRIGGER update_drills_updated_at
+    BEFORE UPDATE ON drills
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER prevent_drills_workspace_change
+    BEFORE UPDATE OF user_id, organization_id ON drills
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_workspace_change();
+
+CREATE TRIGGER update_training_sessions_updated_at
+    BEFORE UPDATE ON training_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 系统自带训练；名称与默认规则中的训练项目一致
+INSERT INTO drills (name, metric, description, duration_minutes)
+VALUES
+  ('传球精度训练', 'passing', '两人一组短传与定点长传，逐步缩短触球时间', 20),
+  ('传球成功率训练', 'passAccuracy', '限制触球次数的抢圈练习，强调传球选择', 20),
+  ('弱脚开发训练', 'dominantFoot', '只用弱脚完成传接球、带球和射门', 15),
+  ('速度与敏捷训练', 'speed', '绳梯、折返跑与变向冲刺', 25),
+  ('位置感训练', 'positioning', '小场地攻防转换，强调无球跑位', 20),
+  ('触球控球训练', 'touches', '小范围盘带与一脚触球练习', 15),
+  ('综合技能维持', 'overall', '技术、体能与战术的综合练习', 40);
@@ -0,0 +1,139 @@
+/*
+  # 球员目标
+
+  1. 新建表
+    - `player_goals` - 教练为球员设定的目标，例如 3 月底前传球成功率达到 88%
+      - metric、target：指标达到目标值即完成（惯用脚按左脚使用率计算）
+      - deadline：截止日期，过期仍未达到记为未完成
+      - baseline：设定目标时最近一次测得的值，进度从这里算起
+      - current_value、progress：最近一次测得的值和完成进度（0-100），每次保存新的分析后由前端按表现历史重新计算
+      - status：active 进行中、achieved 已达成、missed 已过期
+
+  2. 安全设置
+    - 启用 RLS，目标继承所属球员的工作区
+    - owner 和 coach 可以设定、修改和删除目标；分析人员保存分析时只能更新进度（current_value、progress、status、achieved_at）
+    - 目标不能改挂到其他球员
+*/
+
+CREATE TABLE IF NOT EXISTS player_goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  metric text NOT NULL CHECK (metric IN (
+    'overall', 'speed', 'passing', 'positioning', 'touches',
+    'distance', 'topSpeed', 'passAccuracy', 'dominantFoot'
+  )),
+  target numeric NOT NULL,
+  deadline date NOT NULL,
+  baseline numeric,
+  current_value numeric,
+  progress numeric NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'achieved', 'missed')),
+  achieved_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 启用 RLS
+ALTER TABLE player_goals ENABLE ROW LEVEL SECURITY;
+
+-- 球员目标的 RLS 策略：继承所属球员的工作区
+CREATE POLICY "工作区成员可以查看球员目标"
+  ON player_goals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = player_goals.player_id
+      AND can_access_workspace(players.user_id, players.organization_id)
+    )
+  );
+
+CREATE POLICY "工作区教练可以设定球员目标"
+  ON player_goals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = player_goals.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以更新目标进度"
+  ON player_goals
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = player_goals.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = player_goals.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区教练可以删除球员目标"
+  ON player_goals
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM players
+      WHERE players.id = player_goals.player_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach'])
+    )
+  );
+
+-- 更新策略允许分析人员更新进度；目标本身（指标、目标值、截止日期、起点）只有 owner 和 coach 可以修改
+CREATE OR REPLACE FUNCTION restrict_goal_updates()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.player_id IS DISTINCT FROM OLD.player_id THEN
+    RAISE EXCEPTION '目标不能改挂到其他球员' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (
+    NEW.metric IS DISTINCT FROM OLD.metric
+    OR NEW.target IS DISTINCT FROM OLD.target
+    OR NEW.deadline IS DISTINCT FROM OLD.deadline
+    OR NEW.baseline IS DISTINCT FROM OLD.baseline
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  ) AND NOT EXISTS (
+    SELECT 1 FROM players
+    WHERE players.id = OLD.player_id
+    AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach'])
+  ) THEN
+    RAISE EXCEPTION '只有 owner 和 coach 可以修改目标，分析人员只能更新进度' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_goal_updates
+    BEFORE UPDATE ON player_goals
+    FOR EACH ROW
+    EXECUTE FUNCTION restrict_goal_updates();
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_player_goals_player_id ON player_goals(player_id);
+CREATE INDEX IF NOT EXISTS idx_player_goals_status ON player_goals(status);
+
+-- 添加自动更新时间戳的触发器
+CREATE TRIGGER update_player_goals_updated_at
+    BEFORE UPDATE ON player_goals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,115 @@
+/*
+  # 比赛事件
+
+  1. 新建表
+    - `events` - 单场分析中球员的逐条事件，用来核对汇总指标
+      - performance_id：所属的表现记录，删除表现记录时一并删除
+      - timestamp_seconds：距视频开头的秒数
+      - type：pass / shot / dribble / tackle / sprint / touch
+      - outcome：successful / unsuccessful，无法判断时为 NULL
+      - x、y：球场坐标（0-100），x 从本方球门到对方球门，y 从左边线到右边线
+      - related_player：传球接应者、抢断对象等相关球员
+
+  2. 修改表
+    - `performances.derived_metrics` - 由事件推算的指标（触球次数、传球成功率），前端据此展示计算依据
+
+  3. 保存
+    - `save_performance` 在一个事务中写入表现记录及其事件，事件写入失败时表现记录也不保留，重试不会重复计入场次和平均值
+
+  4. 安全设置
+    - 启用 RLS，事件继承所属球员的工作区；分析人员以上可以写入
+*/
+
+ALTER TABLE performances ADD COLUMN IF NOT EXISTS derived_metrics text[];
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  performance_id uuid REFERENCES performances(id) ON DELETE CASCADE NOT NULL,
+  timestamp_seconds numeric NOT NULL CHECK (timestamp_seconds >= 0),
+  type text NOT NULL CHECK (type IN ('pass', 'shot', 'dribble', 'tackle', 'sprint', 'touch')),
+  outcome text CHECK (outcome IN ('successful', 'unsuccessful')),
+  x numeric CHECK (x >= 0 AND x <= 100),
+  y numeric CHECK (y >= 0 AND y <= 100),
+  related_player text,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- 启用 RLS
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+-- 事件的 RLS 策略：经表现记录继承所属球员的工作区
+CREATE POLICY "工作区成员可以查看比赛事件"
+  ON events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM performances
+      JOIN players ON players.id = performances.player_id
+      WHERE performances.id = events.performance_id
+      AND can_access_workspace(players.user_id, players.organization_id)
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以写入比赛事件"
+  ON events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM performances
+      JOIN players ON players.id = performances.player_id
+      WHERE performances.id = events.performance_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+CREATE POLICY "工作区分析人员可以删除比赛事件"
+  ON events
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM performances
+      JOIN players ON players.id = performances.player_id
+      WHERE performances.id = events.performance_id
+      AND can_access_workspace(players.user_id, players.organization_id, ARRAY['owner', 'coach', 'analyst'])
+    )
+  );
+
+-- 一次写入表现记录和它的事件，返回表现记录 ID；以调用者身份执行，RLS 照常生效
+CREATE OR REPLACE FUNCTION save_performance(performance jsonb, performance_events jsonb DEFAULT '[]'::jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_performance_id uuid := gen_random_uuid();
+BEGIN
+  INSERT INTO performances
+  SELECT (jsonb_populate_record(
+    NULL::performances,
+    performance || jsonb_build_object('id', new_performance_id, 'created_at', now())
+  )).*;
+
+  INSERT INTO events (performance_id, timestamp_seconds, type, outcome, x, y, related_player, description)
+  SELECT new_performance_id, event.timestamp_seconds, event.type, event.outcome, event.x, event.y, event.related_player, event.description
+  FROM jsonb_to_recordset(coalesce(performance_events, '[]'::jsonb)) AS event(
+    timestamp_seconds numeric,
+    type text,
+    outcome text,
+    x numeric,
+    y numeric,
+    related_player text,
+    description text
+  );
+
+  RETURN new_performance_id;
+END;
+$$;
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_events_performance_id ON events(performance_id);
+CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
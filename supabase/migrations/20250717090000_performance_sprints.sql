@@ -0,0 +1,10 @@
+/*
+  # 跟踪片段的跑动数据
+
+  1. 修改表
+    - `performances.tracked_movement` - 球场校准后由跟踪位置测得的跑动距离、最高速度和冲刺次数（速度不低于 25.2 km/h 的连续跑动）
+      - 只覆盖选中帧前后跟踪到的片段（`trackedSeconds` 秒），不代表整场比赛
+      - 因此不写入 distance 和 top_speed，也不参与平均表现和目标进度
+*/
+
+ALTER TABLE performances ADD COLUMN IF NOT EXISTS tracked_movement jsonb;
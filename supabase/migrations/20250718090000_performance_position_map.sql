@@ -0,0 +1,14 @@
+/*
+  # 位置热图
+
+  1. 修改表
+    - `performances.position_map` - 球场校准后由跟踪位置生成的位置分布，只覆盖选中帧前后跟踪到的片段
+      - grid：按格子统计的停留比例（%），逐行从左边线开始
+      - averagePosition：平均位置，坐标与比赛事件一致（0-100，x 从本方球门到对方球门，y 从左边线到右边线）
+      - thirds：后场 / 中场 / 前场三区的停留比例
+      - channels：左路 / 中路 / 右路的停留比例
+      - samples：参与统计的跟踪位置数，合并多场时作为权重
+      - trackedSeconds：这些位置覆盖的时长（秒），不代表整场比赛
+*/
+
+ALTER TABLE performances ADD COLUMN IF NOT EXISTS position_map jsonb;
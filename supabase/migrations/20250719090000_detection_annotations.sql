@@ -0,0 +1,61 @@
+/*
+  # 球员检测标注
+
+  1. 新建表
+    - `detection_annotations` - 用户在选择球员页面手动修正后的检测结果，按视频保存
+      - video_name、video_size：与 `matches` 相同的视频标识，再次上传同一视频时恢复
+      - frame_timestamps：标注时各采样帧的时间戳（秒），恢复时按此重新抽帧
+      - players：修正后的检测结果（补画的球员、调整过的框、球队、球衣号码、裁判标记），不含跟踪轨迹
+
+  2. 安全设置
+    - 启用 RLS，用户只能访问自己的标注
+*/
+
+CREATE TABLE IF NOT EXISTS detection_annotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  video_name text NOT NULL,
+  video_size bigint NOT NULL,
+  frame_timestamps numeric[] NOT NULL,
+  players jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, video_name, video_size)
+);
+
+-- 启用 RLS
+ALTER TABLE detection_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "用户只能查看自己的检测标注"
+  ON detection_annotations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "用户只能创建自己的检测标注"
+  ON detection_annotations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "用户只能更新自己的检测标注"
+  ON detection_annotations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "用户只能删除自己的检测标注"
+  ON detection_annotations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 创建索引优化查询性能
+CREATE INDEX IF NOT EXISTS idx_detection_annotations_user_video ON detection_annotations(user_id, video_name, video_size);
+
+-- 为检测标注表添加自动更新时间戳的触发器
+CREATE TRIGGER update_detection_annotations_updated_at
+    BEFORE UPDATE ON detection_annotations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,13 @@
+/*
+  # 球员外观特征
+
+  1. 修改表
+    - `players.appearance_signature` - 每次分析后记录的外观样本，用于在新视频中重新找到同一球员
+      - samples：最近几场的样本，最新的在最后
+        - crop：球员框的小尺寸截图
+        - histogram：球衣区域的颜色直方图
+        - jersey / teamColor：当场识别到的号码和队服颜色
+        - capturedAt：记录时间
+*/
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS appearance_signature jsonb;